@@ -1,22 +1,73 @@
 import { NextRequest } from "next/server";
-import { PUT, DELETE } from "../../app/api/actions/[id]/route";
+import { GET, PUT, DELETE } from "../../app/api/actions/[id]/route";
 import { ActionsService } from "../../lib/services/actions";
+import { ApiTokensService } from "../../lib/services/api-tokens";
+import { getDb } from "../../lib/db/adapter";
+import { VersionConflictError } from "../../lib/services/version-conflict";
 
 // Mock the ActionsService
 jest.mock("../../lib/services/actions", () => ({
   ActionsService: {
     updateAction: jest.fn(),
+    updateFamily: jest.fn(),
     deleteAction: jest.fn(),
+    getActionDetailResource: jest.fn(),
   },
 }));
+jest.mock("../../lib/services/api-tokens", () => ({
+  ...jest.requireActual("../../lib/services/api-tokens"),
+  ApiTokensService: { verify: jest.fn() },
+}));
 
 const mockedActionsService = ActionsService as jest.Mocked<typeof ActionsService>;
+const mockVerifyApiToken = ApiTokensService.verify as jest.MockedFunction<typeof ApiTokensService.verify>;
 
 describe("/api/actions/[id] API Routes", () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
+  describe("GET /api/actions/[id]", () => {
+    const completionContext = (actionId: string, changelogVisibility: string) => ({
+      action_id: actionId,
+      action_title: `Action ${actionId}`,
+      completion_timestamp: "2025-06-13T16:53:31.050Z",
+      implementation_story: `How ${actionId} was built`,
+      changelog_visibility: changelogVisibility,
+    });
+
+    beforeEach(() => {
+      mockVerifyApiToken.mockImplementation(async (token: string) => token === "mcp_pat_viewer" ? {
+        token_id: "pat-1",
+        organization_id: "org-1",
+        user_id: "user-1",
+        role: "viewer" as const,
+        scopes: ["read" as const],
+        root_action_id: null,
+      } : null);
+      mockedActionsService.getActionDetailResource.mockResolvedValue({
+        id: "550e8400-e29b-41d4-a716-446655440000",
+        title: "Ship it",
+        completion_context: completionContext("550e8400-e29b-41d4-a716-446655440000", "private"),
+        dependency_completion_context: [completionContext("dep-team", "team"), completionContext("dep-private", "private")],
+      } as any);
+    });
+
+    it("should leave out private completion contexts for viewers", async () => {
+      const request = new NextRequest("http://localhost:3000/api/actions/550e8400-e29b-41d4-a716-446655440000", {
+        headers: { authorization: "Bearer mcp_pat_viewer" },
+      });
+
+      const params = Promise.resolve({ id: "550e8400-e29b-41d4-a716-446655440000" });
+      const response = await GET(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.completion_context).toBeUndefined();
+      expect(data.data.dependency_completion_context.map((context: any) => context.action_id)).toEqual(["dep-team"]);
+    });
+  });
+
   describe("PUT /api/actions/[id]", () => {
     it("should update action successfully", async () => {
       const mockUpdatedAction = {
@@ -50,6 +101,59 @@ describe("/api/actions/[id] API Routes", () => {
       });
     });
 
+    describe("with a subtree token", () => {
+      const rootId = "11111111-1111-4111-8111-111111111111";
+      const childId = "22222222-2222-4222-8222-222222222222";
+
+      beforeEach(() => {
+        mockVerifyApiToken.mockImplementation(async (token: string) => token === "mcp_pat_subtree" ? {
+          token_id: "pat-2",
+          organization_id: "org-1",
+          user_id: "user-1",
+          role: "member" as const,
+          scopes: ["read" as const, "write" as const],
+          root_action_id: rootId,
+        } : null);
+        // The child's family edge leads straight up to the token's root
+        const parentEdge: any = { from: () => parentEdge, where: () => parentEdge, limit: async () => [{ src: rootId }] };
+        (getDb().select as jest.Mock).mockReturnValueOnce(parentEdge);
+      });
+
+      const move = (actionId: string, body: Record<string, unknown>) => PUT(
+        new NextRequest(`http://localhost:3000/api/actions/${actionId}`, {
+          method: "PUT",
+          headers: { authorization: "Bearer mcp_pat_subtree" },
+          body: JSON.stringify(body),
+        }),
+        { params: Promise.resolve({ id: actionId }) }
+      );
+
+      it("should refuse to move an action to the top level", async () => {
+        const response = await move(childId, { new_family_id: null });
+        const data = await response.json();
+
+        expect(response.status).toBe(403);
+        expect(data.error).toContain("needs new_family_id");
+        expect(mockedActionsService.updateFamily).not.toHaveBeenCalled();
+      });
+
+      it("should refuse to move the subtree root", async () => {
+        const response = await move(rootId, { new_family_id: childId });
+
+        expect(response.status).toBe(403);
+        expect(mockedActionsService.updateFamily).not.toHaveBeenCalled();
+      });
+
+      it("should move actions within the subtree", async () => {
+        mockedActionsService.updateFamily.mockResolvedValue({ id: childId, version: 2 } as any);
+
+        const response = await move(childId, { new_family_id: rootId });
+
+        expect(response.status).toBe(200);
+        expect(mockedActionsService.updateFamily).toHaveBeenCalledWith({ action_id: childId, new_family_id: rootId, expected_version: undefined });
+      });
+    });
+
     it("should handle validation errors", async () => {
       const request = new NextRequest("http://localhost:3000/api/actions/test-id", {
         method: "PUT",
@@ -122,6 +226,70 @@ describe("/api/actions/[id] API Routes", () => {
         vision: "New vision",
       });
     });
+
+    it("should pass the expected version through to the service", async () => {
+      mockedActionsService.updateAction.mockResolvedValue({
+        id: "550e8400-e29b-41d4-a716-446655440000",
+        data: { title: "Updated Action" },
+        done: false,
+        version: 4,
+      } as any);
+
+      const request = new NextRequest("http://localhost:3000/api/actions/test-id", {
+        method: "PUT",
+        body: JSON.stringify({
+          title: "Updated Action",
+          version: 3,
+        }),
+      });
+
+      const params = Promise.resolve({ id: "550e8400-e29b-41d4-a716-446655440000" });
+      const response = await PUT(request, { params });
+
+      expect(response.status).toBe(200);
+      expect(mockedActionsService.updateAction).toHaveBeenCalledWith({
+        action_id: "550e8400-e29b-41d4-a716-446655440000",
+        title: "Updated Action",
+        expected_version: 3,
+      });
+    });
+
+    it("should return 409 with the current server state on a stale write", async () => {
+      const current = {
+        id: "550e8400-e29b-41d4-a716-446655440000",
+        title: "Renamed by another session",
+        done: false,
+        status: "todo" as const,
+        version: 5,
+        updated_at: "2025-06-13T16:53:31.050Z",
+      };
+      mockedActionsService.updateAction.mockRejectedValue(
+        new VersionConflictError("550e8400-e29b-41d4-a716-446655440000", 3, current)
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/actions/test-id", {
+        method: "PUT",
+        body: JSON.stringify({
+          title: "Updated Action",
+          version: 3,
+        }),
+      });
+
+      const params = Promise.resolve({ id: "550e8400-e29b-41d4-a716-446655440000" });
+      const response = await PUT(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.success).toBe(false);
+      expect(data.error).toContain("Version conflict");
+      expect(data.conflict).toEqual({
+        code: "VERSION_CONFLICT",
+        message: expect.any(String),
+        action_id: "550e8400-e29b-41d4-a716-446655440000",
+        expected_version: 3,
+        current,
+      });
+    });
   });
 
   describe("DELETE /api/actions/[id]", () => {
@@ -129,6 +297,8 @@ describe("/api/actions/[id] API Routes", () => {
       const mockDeleteResult = {
         deleted_action: { id: "550e8400-e29b-41d4-a716-446655440000", data: { title: "Deleted Action" } },
         children_count: 0,
+        trashed_count: 1,
+        purge_after: "2025-07-13T16:53:31.050Z",
         child_handling: "reparent" as const,
       };
 
@@ -156,6 +326,8 @@ describe("/api/actions/[id] API Routes", () => {
       const mockDeleteResult = {
         deleted_action: { id: "550e8400-e29b-41d4-a716-446655440000", data: { title: "Deleted Action" } },
         children_count: 2,
+        trashed_count: 3,
+        purge_after: "2025-07-13T16:53:31.050Z",
         child_handling: "delete_recursive" as const,
       };
 
@@ -185,6 +357,8 @@ describe("/api/actions/[id] API Routes", () => {
       const mockDeleteResult = {
         deleted_action: { id: "550e8400-e29b-41d4-a716-446655440000", data: { title: "Deleted Action" } },
         children_count: 1,
+        trashed_count: 1,
+        purge_after: "2025-07-13T16:53:31.050Z",
         child_handling: "reparent" as const,
         new_parent_id: "550e8400-e29b-41d4-a716-446655440000",
       };
@@ -217,6 +391,8 @@ describe("/api/actions/[id] API Routes", () => {
       const mockDeleteResult = {
         deleted_action: { id: "550e8400-e29b-41d4-a716-446655440000", data: { title: "Deleted Action" } },
         children_count: 0,
+        trashed_count: 1,
+        purge_after: "2025-07-13T16:53:31.050Z",
         child_handling: "reparent" as const,
       };
 
@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { GET } from "../../app/api/actions/tree/[id]/route";
+import { ActionsService } from "../../lib/services/actions";
+import { ShareLinksService } from "../../lib/services/share-links";
+import { WebSessionsService } from "../../lib/services/web-sessions";
+import { getOrganizationContext } from "../../lib/db/organization-context";
+
+jest.mock("../../lib/services/actions", () => ({
+  ActionsService: { getActionTreeResourceScoped: jest.fn() },
+}));
+jest.mock("../../lib/services/share-links", () => ({
+  ...jest.requireActual("../../lib/services/share-links"),
+  ShareLinksService: { contextFor: jest.fn() },
+}));
+jest.mock("../../lib/services/web-sessions", () => ({
+  ...jest.requireActual("../../lib/services/web-sessions"),
+  WebSessionsService: { verify: jest.fn() },
+}));
+
+const mockTree = ActionsService.getActionTreeResourceScoped as jest.MockedFunction<typeof ActionsService.getActionTreeResourceScoped>;
+const mockContextFor = ShareLinksService.contextFor as jest.MockedFunction<typeof ShareLinksService.contextFor>;
+const mockVerifySession = WebSessionsService.verify as jest.MockedFunction<typeof WebSessionsService.verify>;
+
+const rootId = "550e8400-e29b-41d4-a716-446655440000";
+const member = { organizationId: "org-1", userId: "user-1", role: "member" as const, scopes: ["read" as const, "write" as const], rootActionId: null };
+const sharedContext = { organizationId: "org-1", userId: null, role: "viewer" as const, scopes: ["read" as const], rootActionId: rootId };
+
+// The tree views always pass includeCompleted, as these requests do
+function getTree(query = "", headers: Record<string, string> = {}) {
+  return GET(
+    new NextRequest(`http://localhost:3000/api/actions/tree/${rootId}?includeCompleted=false${query}`, { headers }),
+    { params: Promise.resolve({ id: rootId }) },
+  );
+}
+
+describe("/api/actions/tree/[id]", () => {
+  let readAs: unknown;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    readAs = undefined;
+    mockTree.mockImplementation(async () => {
+      readAs = getOrganizationContext();
+      return { rootActions: [] } as any;
+    });
+    mockVerifySession.mockImplementation(async (token: string) => token === "live-session" ? member : null);
+    // Only the live link opens the tree; revoked and expired links look up as nothing
+    mockContextFor.mockImplementation(async (token) => token === "done_sl_live" ? sharedContext : null);
+  });
+
+  it("should refuse a caller with neither a session nor a share link, even on open development servers", async () => {
+    const response = await getTree();
+
+    expect(response.status).toBe(401);
+    expect(mockTree).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a revoked share link", async () => {
+    const response = await getTree("&share=done_sl_revoked");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("This share link has expired or doesn't cover this action");
+    expect(mockContextFor).toHaveBeenCalledWith("done_sl_revoked", "tree", rootId);
+    expect(mockTree).not.toHaveBeenCalled();
+  });
+
+  it("should refuse an empty share link rather than fall back to an anonymous read", async () => {
+    const response = await getTree("&share=");
+
+    expect(response.status).toBe(404);
+    expect(mockTree).not.toHaveBeenCalled();
+  });
+
+  it("should read the shared subtree with a live share link", async () => {
+    const response = await getTree("&share=done_sl_live");
+
+    expect(response.status).toBe(200);
+    expect(readAs).toEqual(sharedContext);
+  });
+
+  it("should read the tree for a signed-in session", async () => {
+    const response = await getTree("", { cookie: "done_session=live-session" });
+
+    expect(response.status).toBe(200);
+    expect(readAs).toEqual(member);
+  });
+});
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../../app/api/completion-contexts/route';
+import { GET as GetById, PUT } from '../../app/api/completion-contexts/[actionId]/route';
+import { CompletionContextService } from '../../lib/services/completion-context';
+import { canViewChangelog, getVisibleChangelogOrganization } from '../../lib/services/changelog-visibility';
+import { getOrganizationId } from '../../lib/db/organization-context';
+
+jest.mock('../../lib/services/changelog-visibility', () => ({
+  ...jest.requireActual('../../lib/services/changelog-visibility'),
+  getVisibleChangelogOrganization: jest.fn(),
+}));
+
+const mockedCompletionContextService = CompletionContextService as jest.Mocked<typeof CompletionContextService>;
+const mockGetVisibleChangelogOrganization = getVisibleChangelogOrganization as jest.MockedFunction<typeof getVisibleChangelogOrganization>;
+
+describe('/api/completion-contexts visibility', () => {
+  const testActionId = '550e8400-e29b-41d4-a716-446655440000';
+  const teamContext = {
+    actionId: testActionId,
+    implementationStory: 'Test implementation',
+    changelogVisibility: 'team' as const,
+    createdAt: new Date('2023-01-01'),
+    updatedAt: new Date('2023-01-01'),
+  };
+
+  // Open development servers treat anonymous callers as the owner; with an owner password they are signed out
+  const signOut = () => { process.env.OAUTH_OWNER_PASSWORD = 'owner-password'; };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedCompletionContextService.listCompletionContexts.mockResolvedValue([teamContext] as any);
+    mockedCompletionContextService.getCompletionContext.mockResolvedValue(teamContext as any);
+    // The test action's entry is visible to its own team
+    mockGetVisibleChangelogOrganization.mockImplementation(async (actionId, viewer) => {
+      const item = { organizationId: getOrganizationId(), changelogVisibility: 'team' };
+      return actionId === testActionId && canViewChangelog(item, viewer) ? item.organizationId : null;
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.OAUTH_OWNER_PASSWORD;
+  });
+
+  it('should only list public entries for anonymous callers', async () => {
+    signOut();
+    const response = await GET(new NextRequest('http://localhost:3000/api/completion-contexts?limit=20&offset=0&visibility=team'));
+
+    expect(response.status).toBe(200);
+    expect(mockedCompletionContextService.listCompletionContexts).toHaveBeenCalledWith(
+      expect.objectContaining({ visibleTo: null })
+    );
+  });
+
+  it('should list the organization entries for a signed-in caller', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/completion-contexts?limit=20&offset=0&visibility=team'));
+
+    expect(response.status).toBe(200);
+    expect(mockedCompletionContextService.listCompletionContexts).toHaveBeenCalledWith(
+      expect.objectContaining({ visibleTo: expect.objectContaining({ organizationId: getOrganizationId(), role: 'owner' }) })
+    );
+  });
+
+  it('should return a team entry to its organization', async () => {
+    const request = new NextRequest(`http://localhost:3000/api/completion-contexts/${testActionId}`);
+    const response = await GetById(request, { params: Promise.resolve({ actionId: testActionId }) });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.implementationStory).toBe('Test implementation');
+  });
+
+  it('should return 404 for a team entry to anonymous callers', async () => {
+    signOut();
+    const request = new NextRequest(`http://localhost:3000/api/completion-contexts/${testActionId}`);
+    const response = await GetById(request, { params: Promise.resolve({ actionId: testActionId }) });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('Completion context not found');
+    expect(mockedCompletionContextService.getCompletionContext).not.toHaveBeenCalled();
+  });
+
+  it('should refuse anonymous updates', async () => {
+    signOut();
+    const request = new NextRequest(`http://localhost:3000/api/completion-contexts/${testActionId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changelogVisibility: 'public' })
+    });
+
+    const response = await PUT(request, { params: Promise.resolve({ actionId: testActionId }) });
+
+    expect(response.status).toBe(401);
+    expect(mockedCompletionContextService.upsertCompletionContext).not.toHaveBeenCalled();
+  });
+});
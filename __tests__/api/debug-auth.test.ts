@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { GET as checkDb } from "../../app/api/debug/check-db/route";
+import { GET as forceGenerate } from "../../app/api/debug/force-generate/route";
+import { WebSessionsService } from "../../lib/services/web-sessions";
+
+jest.mock("../../lib/services/web-sessions", () => ({
+  ...jest.requireActual("../../lib/services/web-sessions"),
+  WebSessionsService: { verify: jest.fn() },
+}));
+
+const mockVerifySession = WebSessionsService.verify as jest.MockedFunction<typeof WebSessionsService.verify>;
+
+const sessions = {
+  "admin-session": { organizationId: "org-1", userId: "user-1", role: "admin" as const, scopes: ["read" as const, "write" as const, "admin" as const], rootActionId: null },
+  "member-session": { organizationId: "org-1", userId: "user-2", role: "member" as const, scopes: ["read" as const, "write" as const], rootActionId: null },
+};
+
+function debugRequest(path: string, session?: keyof typeof sessions) {
+  return new NextRequest(`http://localhost:3000/api/debug/${path}`, {
+    headers: session ? { cookie: `done_session=${session}` } : {},
+  });
+}
+
+// The debug routes read and rewrite data across the whole database, so only admins reach them
+describe("/api/debug/*", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerifySession.mockImplementation(async (token: string) => sessions[token as keyof typeof sessions] ?? null);
+  });
+
+  it("should refuse anonymous callers, even on open development servers", async () => {
+    expect((await checkDb(debugRequest("check-db"))).status).toBe(401);
+    expect((await forceGenerate(debugRequest("force-generate?actionId=a1"))).status).toBe(401);
+  });
+
+  it("should refuse members", async () => {
+    const response = await checkDb(debugRequest("check-db", "member-session"));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should let admins through", async () => {
+    const response = await checkDb(debugRequest("check-db", "admin-session"));
+
+    expect(response.status).not.toBe(401);
+    expect(response.status).not.toBe(403);
+  });
+});
@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { GET, POST } from "../../app/api/tokens/route";
+import { DELETE } from "../../app/api/tokens/[id]/route";
+import { ApiTokensService } from "../../lib/services/api-tokens";
+import { WebSessionsService } from "../../lib/services/web-sessions";
+
+jest.mock("../../lib/services/api-tokens", () => ({
+  ...jest.requireActual("../../lib/services/api-tokens"),
+  ApiTokensService: { verify: jest.fn(), create: jest.fn(), list: jest.fn(), revoke: jest.fn() },
+}));
+jest.mock("../../lib/services/web-sessions", () => ({
+  ...jest.requireActual("../../lib/services/web-sessions"),
+  WebSessionsService: { verify: jest.fn() },
+}));
+
+const mockedTokens = ApiTokensService as jest.Mocked<typeof ApiTokensService>;
+const mockVerifySession = WebSessionsService.verify as jest.MockedFunction<typeof WebSessionsService.verify>;
+
+const member = { organizationId: "org-1", userId: "user-1", role: "member" as const, scopes: ["read" as const, "write" as const], rootActionId: null };
+const writeToken = {
+  token_id: "pat-1",
+  organization_id: "org-1",
+  user_id: "user-1",
+  role: "member" as const,
+  scopes: ["read" as const, "write" as const],
+  root_action_id: null,
+};
+
+function createRequest(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost:3000/api/tokens", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify({ name: "x", scopes: ["admin"] }),
+  });
+}
+
+describe("/api/tokens", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerifySession.mockImplementation(async (token: string) => token === "live-session" ? member : null);
+    mockedTokens.verify.mockImplementation(async (token: string) => token === "mcp_pat_write" ? writeToken : null);
+    mockedTokens.create.mockResolvedValue({ id: "token-2", token: "mcp_pat_new" } as any);
+    mockedTokens.list.mockResolvedValue([]);
+  });
+
+  it("should refuse to create a token for an anonymous caller, even on open development servers", async () => {
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).success).toBe(false);
+    expect(mockedTokens.create).not.toHaveBeenCalled();
+  });
+
+  it("should refuse anonymous listing and revoking", async () => {
+    expect((await GET(new NextRequest("http://localhost:3000/api/tokens"))).status).toBe(401);
+
+    const revoke = await DELETE(new NextRequest("http://localhost:3000/api/tokens/token-1", { method: "DELETE" }), { params: Promise.resolve({ id: "token-1" }) });
+    expect(revoke.status).toBe(401);
+    expect(mockedTokens.revoke).not.toHaveBeenCalled();
+  });
+
+  it("should refuse bearer tokens without the admin scope", async () => {
+    const response = await POST(createRequest({ authorization: "Bearer mcp_pat_write" }));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe("POST /api/tokens requires a token with the admin scope - sign in or use a token that has it");
+    expect(mockedTokens.create).not.toHaveBeenCalled();
+  });
+
+  it("should create tokens for a signed-in session", async () => {
+    const response = await POST(createRequest({ cookie: "done_session=live-session" }));
+
+    expect(response.status).toBe(201);
+    expect(mockedTokens.create).toHaveBeenCalledWith({ name: "x", scopes: ["admin"] });
+  });
+});
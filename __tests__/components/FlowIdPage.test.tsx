@@ -112,7 +112,7 @@ describe('FlowIdPage', () => {
       expect(screen.getByText('Root Action')).toBeInTheDocument();
     });
 
-    expect(screen.getByText('Status: In Progress')).toBeInTheDocument();
+    expect(screen.getByText('Status: To do')).toBeInTheDocument();
     expect(screen.getByText('Contextual Flow View')).toBeInTheDocument();
     expect(screen.getByText('0 ancestors • 2 children • 0 dependencies • 0 dependents • 0 siblings')).toBeInTheDocument();
   });
@@ -226,7 +226,7 @@ describe('FlowIdPage', () => {
     render(<FlowIdPage />);
 
     await waitFor(() => {
-      expect(screen.getByText('Status: Completed')).toBeInTheDocument();
+      expect(screen.getByText('Status: Done')).toBeInTheDocument();
     });
   });
 
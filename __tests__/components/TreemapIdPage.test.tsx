@@ -64,12 +64,14 @@ const mockTreeData: ActionTreeResource = {
       id: '1',
       title: 'Root Action 1',
       done: false,
+      status: 'todo',
       created_at: '2023-01-01T00:00:00Z',
       children: [
         {
           id: '3',
           title: 'Child Action 2',
           done: false,
+          status: 'todo',
           created_at: '2023-01-01T00:00:00Z',
           children: [],
           dependencies: []
@@ -78,6 +80,7 @@ const mockTreeData: ActionTreeResource = {
           id: '4',
           title: 'Child Action 3',
           done: false,
+          status: 'todo',
           created_at: '2023-01-01T00:00:00Z',
           children: [],
           dependencies: []
@@ -89,6 +92,7 @@ const mockTreeData: ActionTreeResource = {
       id: '5',
       title: 'Root Action 3',
       done: false,
+      status: 'todo',
       created_at: '2023-01-01T00:00:00Z',
       children: [],
       dependencies: []
@@ -119,7 +123,7 @@ describe('TreemapIdPage', () => {
     
     // Mock both the tree API call and the action details API call for breadcrumbs
     (global.fetch as jest.Mock).mockImplementation((url: string) => {
-      if (url === '/api/tree') {
+      if (url === '/api/actions/tree') {
         return Promise.resolve({
           ok: true,
           json: async () => ({
@@ -10,6 +10,7 @@ const mockActionDetail: ActionDetailResource = {
   description: 'Test description',
   vision: 'Test vision',
   done: false,
+  status: 'todo',
   version: 1,
   created_at: '2024-01-01T00:00:00Z',
   updated_at: '2024-01-01T00:00:00Z',
@@ -210,8 +211,8 @@ describe('TreemapInspector', () => {
         ...mockActionDetail,
         parent_id: 'parent-123',
         children: [
-          { id: 'child-1', title: 'Child 1', done: false, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 },
-          { id: 'child-2', title: 'Child 2', done: false, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
+          { id: 'child-1', title: 'Child 1', done: false, status: 'todo' as const, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 },
+          { id: 'child-2', title: 'Child 2', done: false, status: 'todo' as const, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
         ]
       };
 
@@ -255,7 +256,7 @@ describe('TreemapInspector', () => {
         ...mockActionDetail,
         parent_id: 'parent-123',
         children: [
-          { id: 'child-1', title: 'Child 1', done: false, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
+          { id: 'child-1', title: 'Child 1', done: false, status: 'todo' as const, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
         ]
       };
 
@@ -298,8 +299,8 @@ describe('TreemapInspector', () => {
         ...mockActionDetail,
         parent_id: 'parent-123',
         children: [
-          { id: 'child-1', title: 'Completed Child', done: true, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 },
-          { id: 'child-2', title: 'Active Child', done: false, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
+          { id: 'child-1', title: 'Completed Child', done: true, status: 'done' as const, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 },
+          { id: 'child-2', title: 'Active Child', done: false, status: 'todo' as const, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', version: 1 }
         ]
       };
 
@@ -47,12 +47,14 @@ const mockTreeData: ActionTreeResource = {
       id: '1',
       title: 'Root Action 1',
       done: false,
+      status: 'todo',
       created_at: '2023-01-01T00:00:00Z',
       children: [
         {
           id: '3',
           title: 'Child Action 2',
           done: false,
+          status: 'todo',
           created_at: '2023-01-01T00:00:00Z',
           children: [],
           dependencies: []
@@ -64,6 +66,7 @@ const mockTreeData: ActionTreeResource = {
       id: '5',
       title: 'Root Action 3',
       done: false,
+      status: 'todo',
       created_at: '2023-01-01T00:00:00Z',
       children: [],
       dependencies: []
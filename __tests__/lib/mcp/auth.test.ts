@@ -0,0 +1,481 @@
+import { validateAuth, authenticatedHandler, resolveViewer, withApiAuth } from "../../../lib/mcp/auth";
+import { OAuthService, getConsentMode } from "../../../lib/services/oauth";
+import { WebSessionsService } from "../../../lib/services/web-sessions";
+import { ApiTokensService } from "../../../lib/services/api-tokens";
+import { PermissionDeniedError, assertActionsInSubtree } from "../../../lib/services/permissions";
+import { RateLimitError, UsageService } from "../../../lib/services/usage";
+import { DEFAULT_ORGANIZATION_ID, getOrganizationContext } from "../../../lib/db/organization-context";
+
+jest.mock("../../../lib/services/oauth", () => ({
+  OAuthService: { verifyAccessToken: jest.fn() },
+  getConsentMode: jest.fn(),
+}));
+jest.mock("../../../lib/services/web-sessions", () => ({
+  ...jest.requireActual("../../../lib/services/web-sessions"),
+  WebSessionsService: { verify: jest.fn() },
+}));
+jest.mock("../../../lib/services/api-tokens", () => ({
+  ...jest.requireActual("../../../lib/services/api-tokens"),
+  ApiTokensService: { verify: jest.fn() },
+}));
+jest.mock("../../../lib/services/usage", () => ({
+  ...jest.requireActual("../../../lib/services/usage"),
+  UsageService: { consume: jest.fn() },
+}));
+jest.mock("../../../lib/services/permissions", () => ({
+  ...jest.requireActual("../../../lib/services/permissions"),
+  assertActionsInSubtree: jest.fn(),
+}));
+const mockVerifyAccessToken = OAuthService.verifyAccessToken as jest.MockedFunction<typeof OAuthService.verifyAccessToken>;
+const mockGetConsentMode = getConsentMode as jest.MockedFunction<typeof getConsentMode>;
+const mockVerifySession = WebSessionsService.verify as jest.MockedFunction<typeof WebSessionsService.verify>;
+const mockVerifyApiToken = ApiTokensService.verify as jest.MockedFunction<typeof ApiTokensService.verify>;
+const mockAssertActionsInSubtree = assertActionsInSubtree as jest.MockedFunction<typeof assertActionsInSubtree>;
+const mockConsume = UsageService.consume as jest.MockedFunction<typeof UsageService.consume>;
+
+const liveToken = {
+  token_id: "token-1",
+  client_id: "client-1",
+  scope: "mcp",
+  expires_at: "2099-01-01T00:00:00.000Z",
+  organization_id: DEFAULT_ORGANIZATION_ID,
+  user_id: null,
+  role: "owner" as const,
+};
+const otherOrgToken = { ...liveToken, token_id: "token-2", organization_id: "org-2", user_id: "user-2", role: "viewer" as const };
+// A personal API token limited to the subtree under action "project"
+const subtreeToken = {
+  token_id: "pat-1",
+  organization_id: DEFAULT_ORGANIZATION_ID,
+  user_id: "user-1",
+  role: "member" as const,
+  scopes: ["read" as const, "write" as const],
+  root_action_id: "project",
+};
+
+describe("MCP Auth", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Only "valid-token" is a live token in the store
+    mockVerifyAccessToken.mockImplementation(async (token: string) =>
+      token === "valid-token" ? liveToken : token === "other-org-token" ? otherOrgToken : null);
+    mockVerifyApiToken.mockImplementation(async (token: string) => token === "mcp_pat_ci" ? subtreeToken : null);
+    mockConsume.mockResolvedValue(undefined);
+    // "project" and "task" (a child of it) make up the subtree
+    mockAssertActionsInSubtree.mockImplementation(async (actionIds: string[], operation: string) => {
+      const outside = actionIds.find(id => !["project", "task"].includes(id));
+      if (outside) throw new PermissionDeniedError(`${operation} is limited to action project and its descendants - ${outside} is outside that subtree`);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("validateAuth", () => {
+    it("should return false for missing authorization header", async () => {
+      const request = new Request("http://localhost", {});
+      expect(await validateAuth(request)).toBe(false);
+    });
+
+    it("should return false for non-Bearer authorization header", async () => {
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Basic some-token" },
+      });
+      expect(await validateAuth(request)).toBe(false);
+    });
+
+    it("should return false for tokens the store doesn't recognise", async () => {
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Bearer invalid-token" },
+      });
+      expect(await validateAuth(request)).toBe(false);
+      expect(mockVerifyAccessToken).toHaveBeenCalledWith("invalid-token");
+    });
+
+    it("should return true for a live token from the store", async () => {
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      expect(await validateAuth(request)).toBe(true);
+    });
+
+    it("should no longer accept tokens by prefix or the old test token", async () => {
+      for (const token of ["access_12345", "test-token"]) {
+        const request = new Request("http://localhost", {
+          headers: { authorization: `Bearer ${token}` },
+        });
+        expect(await validateAuth(request)).toBe(false);
+      }
+    });
+
+    it("should return false when the token lookup fails", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      mockVerifyAccessToken.mockRejectedValueOnce(new Error("database down"));
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      expect(await validateAuth(request)).toBe(false);
+    });
+
+    it("should return false for empty Bearer token", async () => {
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Bearer " },
+      });
+      expect(await validateAuth(request)).toBe(false);
+      expect(mockVerifyAccessToken).not.toHaveBeenCalled();
+    });
+
+    it("should look up personal API tokens by their prefix", async () => {
+      const request = new Request("http://localhost", {
+        headers: { authorization: "Bearer mcp_pat_ci" },
+      });
+      expect(await validateAuth(request)).toBe(true);
+      expect(mockVerifyApiToken).toHaveBeenCalledWith("mcp_pat_ci");
+      expect(mockVerifyAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("authenticatedHandler", () => {
+    const mockHandler = jest.fn().mockResolvedValue(new Response("OK"));
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      // Spy on console.log to test logging behavior
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should return 404 for non-MCP transport paths", async () => {
+      const request = new Request("http://localhost/static/file.js");
+      const response = await authenticatedHandler("GET", request, mockHandler);
+      
+      expect(response.status).toBe(404);
+      expect(await response.text()).toBe("Not Found");
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for invalid transport paths", async () => {
+      const request = new Request("http://localhost/invalid");
+      const response = await authenticatedHandler("GET", request, mockHandler);
+      
+      expect(response.status).toBe(404);
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should allow SSE GET requests without authentication", async () => {
+      const request = new Request("http://localhost/sse");
+      await authenticatedHandler("GET", request, mockHandler);
+      
+      expect(mockHandler).toHaveBeenCalledWith(request);
+    });
+
+    it("should allow SSE GET requests with authentication", async () => {
+      const request = new Request("http://localhost/sse", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      await authenticatedHandler("GET", request, mockHandler);
+      
+      expect(mockHandler).toHaveBeenCalledWith(request);
+    });
+
+    it("should reject message endpoint requests without authentication", async () => {
+      const request = new Request("http://localhost/message");
+      const response = await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(response.status).toBe(401);
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should allow message endpoint requests with authentication", async () => {
+      const request = new Request("http://localhost/message", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(mockHandler).toHaveBeenCalledWith(request);
+    });
+
+    it("should require authentication for MCP transport", async () => {
+      const request = new Request("http://localhost/mcp");
+      const response = await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(response.status).toBe(401);
+      expect(await response.text()).toBe("Unauthorized");
+      expect(response.headers.get("WWW-Authenticate")).toContain("/.well-known/oauth-authorization-server");
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should allow authenticated MCP transport requests", async () => {
+      const request = new Request("http://localhost/mcp", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(mockHandler).toHaveBeenCalledWith(request);
+    });
+
+    it("should return 429 with Retry-After once the caller is over the MCP rate limit", async () => {
+      mockConsume.mockRejectedValueOnce(new RateLimitError("mcp", "minute", 120, new Date(Date.now() + 30_000)));
+      const request = new Request("http://localhost/mcp", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      const response = await authenticatedHandler("POST", request, mockHandler);
+
+      expect(mockConsume).toHaveBeenCalledWith("mcp");
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+      expect(await response.text()).toMatch(/^MCP rate limit reached: 120 requests per minute/);
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should run the handler in the token's organization", async () => {
+      let seen: unknown;
+      const scopedHandler = jest.fn(async () => {
+        seen = getOrganizationContext();
+        return new Response("OK");
+      });
+      const request = new Request("http://localhost/mcp", {
+        headers: { authorization: "Bearer other-org-token" },
+      });
+      await authenticatedHandler("POST", request, scopedHandler);
+
+      expect(seen).toEqual({ organizationId: "org-2", userId: "user-2", role: "viewer", scopes: ["read"], rootActionId: null, clientId: "client-1" });
+      expect(getOrganizationContext().organizationId).toBe(DEFAULT_ORGANIZATION_ID);
+    });
+
+    it("should attach an API token's scopes and subtree to the request", async () => {
+      let seen: unknown;
+      const scopedHandler = jest.fn(async () => {
+        seen = getOrganizationContext();
+        return new Response("OK");
+      });
+      const request = new Request("http://localhost/mcp", {
+        headers: { authorization: "Bearer mcp_pat_ci" },
+      });
+      await authenticatedHandler("POST", request, scopedHandler);
+
+      expect(seen).toEqual({
+        organizationId: DEFAULT_ORGANIZATION_ID,
+        userId: "user-1",
+        role: "member",
+        scopes: ["read", "write"],
+        rootActionId: "project",
+        apiTokenId: "pat-1",
+      });
+    });
+
+    it("should keep other organizations off the SSE transport", async () => {
+      for (const [method, path] of [["GET", "sse"], ["POST", "message"]]) {
+        const request = new Request(`http://localhost/${path}`, {
+          headers: { authorization: "Bearer other-org-token" },
+        });
+        const response = await authenticatedHandler(method, request, mockHandler);
+
+        expect(response.status).toBe(403);
+        expect(await response.text()).toContain("/mcp");
+      }
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should keep restricted tokens off the SSE transport", async () => {
+      const request = new Request("http://localhost/message", {
+        headers: { authorization: "Bearer mcp_pat_ci" },
+      });
+      const response = await authenticatedHandler("POST", request, mockHandler);
+
+      expect(response.status).toBe(403);
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it("should log authentication flow", async () => {
+      const request = new Request("http://localhost/mcp", {
+        headers: { authorization: "Bearer valid-token" },
+      });
+      await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(console.log).toHaveBeenCalledWith("[MCP Auth] POST /mcp received");
+      expect(console.log).toHaveBeenCalledWith("[MCP Auth] Authentication successful");
+      expect(console.log).toHaveBeenCalledWith("[MCP Auth] Forwarding to MCP handler");
+    });
+
+    it("should log authentication failure", async () => {
+      const request = new Request("http://localhost/mcp");
+      await authenticatedHandler("POST", request, mockHandler);
+      
+      expect(console.log).toHaveBeenCalledWith("[MCP Auth] Authentication failed");
+    });
+  });
+
+  describe("withApiAuth", () => {
+    const routeHandler = jest.fn(async (_request: Request, _context?: unknown) => new Response("OK"));
+
+    beforeEach(() => {
+      mockGetConsentMode.mockReturnValue("password");
+      mockVerifySession.mockImplementation(async (token: string) => token === "viewer-session"
+        ? { organizationId: "org-2", userId: "user-2", role: "viewer", scopes: ["read"], rootActionId: null }
+        : null);
+    });
+
+    it("should reject anonymous requests instead of running them as the owner", async () => {
+      const handler = withApiAuth("member", routeHandler);
+      const response = await handler(new Request("http://localhost/api/actions", { method: "POST" }));
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe("Sign in or pass a bearer token to use this endpoint");
+      expect(routeHandler).not.toHaveBeenCalled();
+      expect(mockVerifyAccessToken).not.toHaveBeenCalled();
+    });
+
+    it("should hold signed-in sessions to the same roles as tokens", async () => {
+      let seen: unknown;
+      const read = withApiAuth("viewer", async () => {
+        seen = getOrganizationContext();
+        return new Response("OK");
+      });
+      const cookie = { cookie: "done_session=viewer-session" };
+
+      expect((await read(new Request("http://localhost/api/actions", { headers: cookie }))).status).toBe(200);
+      expect(seen).toMatchObject({ organizationId: "org-2", role: "viewer" });
+
+      const write = await withApiAuth("member", routeHandler)(new Request("http://localhost/api/actions", { method: "POST", headers: cookie }));
+      expect(write.status).toBe(403);
+      expect(routeHandler).not.toHaveBeenCalled();
+    });
+
+    it("should only let anonymous requests through on open development servers", async () => {
+      mockGetConsentMode.mockReturnValue("open");
+      const response = await withApiAuth("member", routeHandler)(new Request("http://localhost/api/actions", { method: "POST" }));
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject invalid tokens and roles below the minimum", async () => {
+      const handler = withApiAuth("member", routeHandler);
+
+      const invalid = await handler(new Request("http://localhost/api/actions", { method: "POST", headers: { authorization: "Bearer nope" } }));
+      expect(invalid.status).toBe(401);
+
+      const viewer = await handler(new Request("http://localhost/api/actions", { method: "POST", headers: { authorization: "Bearer other-org-token" } }));
+      expect(viewer.status).toBe(403);
+      expect((await viewer.json()).error).toBe("POST /api/actions requires the member role or higher - this token has the viewer role");
+      expect(routeHandler).not.toHaveBeenCalled();
+    });
+
+    it("should run allowed requests in the token's organization", async () => {
+      let seen: unknown;
+      const handler = withApiAuth("viewer", async (_request: Request, context: { id: string }) => {
+        seen = { ...getOrganizationContext(), id: context.id };
+        return new Response("OK");
+      });
+
+      await handler(new Request("http://localhost/api/actions", { headers: { authorization: "Bearer other-org-token" } }), { id: "a1" });
+
+      expect(seen).toEqual({ organizationId: "org-2", userId: "user-2", role: "viewer", scopes: ["read"], rootActionId: null, clientId: "client-1", id: "a1" });
+    });
+
+    it("should only count routes with a usage bucket against the rate limit", async () => {
+      await withApiAuth("member", routeHandler)(new Request("http://localhost/api/actions", { method: "POST", headers: { authorization: "Bearer valid-token" } }));
+      expect(mockConsume).not.toHaveBeenCalled();
+
+      mockConsume.mockRejectedValueOnce(new RateLimitError("ai", "day", 200, new Date(Date.now() + 3_600_000)));
+      const handler = withApiAuth("member", routeHandler, { usage: "ai" });
+      const response = await handler(new Request("http://localhost/api/actions/parse", { method: "POST", headers: { authorization: "Bearer valid-token" } }));
+
+      expect(mockConsume).toHaveBeenCalledWith("ai");
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBeTruthy();
+      expect((await response.json()).error).toMatch(/^Daily AI quota reached: 200 requests per day/);
+      expect(routeHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only let subtree tokens change actions inside their subtree", async () => {
+      const handler = withApiAuth("member", routeHandler);
+      const put = (id: string, body: object) => handler(
+        new Request(`http://localhost/api/actions/${id}`, {
+          method: "PUT",
+          headers: { authorization: "Bearer mcp_pat_ci", "content-type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+        { params: Promise.resolve({ id }) }
+      );
+
+      expect((await put("task", { title: "Renamed" })).status).toBe(200);
+      expect(routeHandler).toHaveBeenCalledTimes(1);
+
+      const outside = await put("elsewhere", { title: "Renamed" });
+      expect(outside.status).toBe(403);
+      expect((await outside.json()).error).toContain("elsewhere is outside that subtree");
+
+      expect((await put("task", { new_parent_id: "elsewhere" })).status).toBe(403);
+      expect(routeHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse subtree tokens on mutating routes that name no action", async () => {
+      const handler = withApiAuth("member", routeHandler);
+      const response = await handler(new Request("http://localhost/api/actions", {
+        method: "POST",
+        headers: { authorization: "Bearer mcp_pat_ci", "content-type": "application/json" },
+        body: JSON.stringify({ title: "Loose action" }),
+      }));
+
+      expect(response.status).toBe(403);
+      expect(routeHandler).not.toHaveBeenCalled();
+    });
+
+    it("should only let subtree tokens read actions inside their subtree by ID", async () => {
+      const handler = withApiAuth("viewer", routeHandler);
+      const get = (id: string) => handler(
+        new Request(`http://localhost/api/actions/${id}`, { headers: { authorization: "Bearer mcp_pat_ci" } }),
+        { params: Promise.resolve({ id }) }
+      );
+
+      expect((await get("task")).status).toBe(200);
+
+      const outside = await get("elsewhere");
+      expect(outside.status).toBe(403);
+      expect((await outside.json()).error).toContain("elsewhere is outside that subtree");
+      expect(routeHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let subtree tokens use reads that name no action, and routes whose ID isn't an action", async () => {
+      const list = await withApiAuth("viewer", routeHandler)(new Request("http://localhost/api/actions", { headers: { authorization: "Bearer mcp_pat_ci" } }));
+      expect(list.status).toBe(200);
+
+      const revoke = await withApiAuth("viewer", routeHandler, { idParam: "other" })(
+        new Request("http://localhost/api/share-links/link-1", { method: "DELETE", headers: { authorization: "Bearer mcp_pat_ci" } }),
+        { params: Promise.resolve({ id: "link-1" }) }
+      );
+      expect(revoke.status).toBe(200);
+    });
+  });
+
+  describe("resolveViewer", () => {
+    const member = { organizationId: "org-2", userId: "user-2", role: "member" as const, scopes: ["read" as const, "write" as const], rootActionId: null };
+
+    beforeEach(() => {
+      mockGetConsentMode.mockReturnValue("password");
+      mockVerifySession.mockImplementation(async (token: string) => token === "live-session" ? member : null);
+    });
+
+    it("should identify viewers by bearer token or session cookie", async () => {
+      const withToken = await resolveViewer(new Request("http://localhost/api/feed", { headers: { authorization: "Bearer other-org-token" } }));
+      expect(withToken).toMatchObject({ organizationId: "org-2", role: "viewer" });
+
+      const withSession = await resolveViewer(new Request("http://localhost/api/feed", { headers: { cookie: "theme=dark; done_session=live-session" } }));
+      expect(withSession).toBe(member);
+    });
+
+    it("should treat anonymous viewers and dead sessions as outsiders", async () => {
+      expect(await resolveViewer(new Request("http://localhost/api/feed"))).toBeNull();
+      expect(await resolveViewer(new Request("http://localhost/api/feed", { headers: { cookie: "done_session=expired" } }))).toBeNull();
+    });
+
+    it("should let anonymous viewers act as the owner on open development servers", async () => {
+      mockGetConsentMode.mockReturnValue("open");
+      expect(await resolveViewer(new Request("http://localhost/api/feed"))).toMatchObject({ organizationId: DEFAULT_ORGANIZATION_ID, role: "owner" });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerPrompts } from "../../../lib/mcp/prompts";
+import { registerResources } from "../../../lib/mcp/resources";
+import { actionIdFromCompletion } from "../../../lib/mcp/completions";
+import { ActionSearchService } from "../../../lib/services/action-search";
+import { ActionsService } from "../../../lib/services/actions";
+
+jest.mock("../../../lib/services/action-search", () => ({
+  ActionSearchService: { suggestActions: jest.fn() },
+}));
+jest.mock("../../../lib/services/actions", () => ({
+  ActionsService: { getWorkItemCoreData: jest.fn() },
+}));
+
+const mockSuggest = ActionSearchService.suggestActions as jest.MockedFunction<typeof ActionSearchService.suggestActions>;
+const mockedActions = ActionsService as jest.Mocked<typeof ActionsService>;
+
+const SHIP = { id: "550e8400-e29b-41d4-a716-446655440000", title: "Ship it" };
+const SHIPPING = { id: "550e8400-e29b-41d4-a716-446655440001", title: "Review the shipping page" };
+const PAYMENTS = { id: "550e8400-e29b-41d4-a716-446655440002", title: "Fix payments/refunds, again" };
+
+// completion/complete goes through a real MCP server, so these cover the handler wiring as well as the ranking
+describe("MCP completions", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env.DATABASE_URL = "postgresql://test";
+    // Keyword search finds titles containing the typed text; an empty value returns recent open actions
+    mockSuggest.mockImplementation(async (partial: string) => partial
+      ? [SHIPPING, SHIP, PAYMENTS].filter(action => action.title.toLowerCase().includes(partial.toLowerCase()))
+      : [PAYMENTS, SHIPPING, SHIP]);
+    mockedActions.getWorkItemCoreData.mockResolvedValue({ id: SHIP.id, title: SHIP.title } as any);
+
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerPrompts(server);
+    registerResources(server);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const completePrompt = async (value: string) => (await client.complete({
+    ref: { type: "ref/prompt", name: "action-context" },
+    argument: { name: "action_id", value },
+  })).completion.values;
+
+  it("suggests prompt arguments by title, best match first", async () => {
+    const values = await completePrompt("ship");
+
+    expect(values).toEqual([`Ship it (${SHIP.id})`, `Review the shipping page (${SHIPPING.id})`]);
+  });
+
+  it("ranks abbreviations and typos that keyword search misses", async () => {
+    const values = await completePrompt("shp it");
+
+    expect(values[0]).toBe(`Ship it (${SHIP.id})`);
+    expect(values).not.toContain(`Fix payments refunds again (${PAYMENTS.id})`);
+  });
+
+  it("takes the label it suggested as the prompt argument", async () => {
+    const [label] = await completePrompt("ship");
+    const prompt = await client.getPrompt({ name: "action-context", arguments: { action_id: label } });
+
+    expect((prompt.messages[0].content as any).text).toContain(`actions://${SHIP.id}`);
+  });
+
+  it("completes {id} in resource templates and reads the ID out of the label", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const template = resourceTemplates.find(resourceTemplate => resourceTemplate.uriTemplate === "actions://{id}");
+    expect(template).toBeDefined();
+
+    const { completion } = await client.complete({
+      ref: { type: "ref/resource", uri: template!.uriTemplate },
+      argument: { name: "id", value: "" },
+    });
+    expect(completion.values).toEqual([
+      `Fix payments refunds again (${PAYMENTS.id})`,
+      `Review the shipping page (${SHIPPING.id})`,
+      `Ship it (${SHIP.id})`,
+    ]);
+
+    await client.readResource({ uri: `actions://${encodeURIComponent(completion.values[2])}` });
+    expect(mockedActions.getWorkItemCoreData).toHaveBeenCalledWith(SHIP.id);
+  });
+
+  it("leaves values that aren't labels alone", () => {
+    expect(actionIdFromCompletion(SHIP.id)).toBe(SHIP.id);
+    expect(actionIdFromCompletion("not-an-id")).toBe("not-an-id");
+    expect(actionIdFromCompletion(`Ship%20it%20(${SHIP.id})`)).toBe(SHIP.id);
+  });
+});
@@ -0,0 +1,145 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerResources } from "../../../lib/mcp/resources";
+import { ActionsService } from "../../../lib/services/actions";
+import { ActionHistoryService } from "../../../lib/services/action-history";
+import { AuditLogService } from "../../../lib/services/audit-log";
+import { TrashService } from "../../../lib/services/trash";
+import { UsageService } from "../../../lib/services/usage";
+import { ScheduleService } from "../../../lib/services/schedule";
+import { TagsService } from "../../../lib/services/tags";
+import { ClaimsService } from "../../../lib/services/claims";
+import { getUnblockedActionsOptimized } from "../../../lib/services/actions-optimized";
+
+jest.mock("../../../lib/services/actions", () => ({
+  ActionsService: { getWorkItemCoreData: jest.fn() },
+}));
+jest.mock("../../../lib/services/action-history", () => ({
+  ActionHistoryService: { getHistory: jest.fn() },
+}));
+jest.mock("../../../lib/services/audit-log", () => ({
+  ...jest.requireActual("../../../lib/services/audit-log"),
+  AuditLogService: { query: jest.fn() },
+}));
+jest.mock("../../../lib/services/trash", () => ({
+  TrashService: { listTrash: jest.fn() },
+}));
+jest.mock("../../../lib/services/usage", () => ({
+  ...jest.requireActual("../../../lib/services/usage"),
+  UsageService: { getUsage: jest.fn() },
+}));
+jest.mock("../../../lib/services/schedule", () => ({
+  ScheduleService: { getOverdueActions: jest.fn(), getUpcomingActions: jest.fn() },
+}));
+jest.mock("../../../lib/services/tags", () => ({
+  ...jest.requireActual("../../../lib/services/tags"),
+  TagsService: { getTagsForActions: jest.fn() },
+}));
+jest.mock("../../../lib/services/claims", () => ({
+  ClaimsService: { getActiveClaims: jest.fn() },
+}));
+jest.mock("../../../lib/services/actions-optimized", () => ({
+  getUnblockedActionsOptimized: jest.fn(),
+}));
+
+const mockedActions = ActionsService as jest.Mocked<typeof ActionsService>;
+const mockedHistory = ActionHistoryService as jest.Mocked<typeof ActionHistoryService>;
+const mockedAudit = AuditLogService as jest.Mocked<typeof AuditLogService>;
+const mockedTrash = TrashService as jest.Mocked<typeof TrashService>;
+const mockedUsage = UsageService as jest.Mocked<typeof UsageService>;
+const mockedSchedule = ScheduleService as jest.Mocked<typeof ScheduleService>;
+const mockedTags = TagsService as jest.Mocked<typeof TagsService>;
+const mockedClaims = ClaimsService as jest.Mocked<typeof ClaimsService>;
+const mockGetUnblocked = getUnblockedActionsOptimized as jest.MockedFunction<typeof getUnblockedActionsOptimized>;
+
+// Reads go through a real MCP server, so these cover which resource a URI with a query string lands on
+describe("MCP resource routing", () => {
+  const actionId = "550e8400-e29b-41d4-a716-446655440000";
+  let client: Client;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    process.env.DATABASE_URL = "postgresql://test";
+
+    mockedActions.getWorkItemCoreData.mockResolvedValue({ id: actionId, title: "Ship it" } as any);
+    mockedHistory.getHistory.mockResolvedValue({ action_id: actionId, revisions: [], total: 0 } as any);
+    mockedAudit.query.mockResolvedValue({ entries: [], total: 0 } as any);
+    mockedTrash.listTrash.mockResolvedValue({ items: [], total: 0 } as any);
+    mockedUsage.getUsage.mockResolvedValue({ buckets: [] } as any);
+    mockedSchedule.getOverdueActions.mockResolvedValue({ overdue: [], total: 0 } as any);
+    mockedSchedule.getUpcomingActions.mockResolvedValue({ upcoming: [], total: 0 } as any);
+    mockGetUnblocked.mockResolvedValue([{ id: "a1", title: "Tagged" }, { id: "a2", title: "Untagged" }] as any);
+    mockedTags.getTagsForActions.mockResolvedValue(new Map([["a1", ["backend"]]]));
+    mockedClaims.getActiveClaims.mockResolvedValue(new Map());
+
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerResources(server);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+  });
+
+  const read = async (uri: string) => {
+    const result = await client.readResource({ uri });
+    return JSON.parse(result.contents[0].text as string);
+  };
+
+  it("reads actions://audit with filters instead of treating it as a work item", async () => {
+    await read("actions://audit?actor=user-1&operation=update&limit=5");
+
+    expect(mockedAudit.query).toHaveBeenCalledWith(expect.objectContaining({ actor: "user-1", operation: "update", limit: 5 }));
+    expect(mockedActions.getWorkItemCoreData).not.toHaveBeenCalled();
+  });
+
+  it("filters actions://unblocked by tag", async () => {
+    const result = await read("actions://unblocked?tags=backend&session_id=s1");
+
+    expect(result.unblocked.map((action: any) => action.id)).toEqual(["a1"]);
+    expect(mockedActions.getWorkItemCoreData).not.toHaveBeenCalled();
+  });
+
+  it("passes days to actions://upcoming and limit to actions://overdue", async () => {
+    await read("actions://upcoming?days=3");
+    await read("actions://overdue?limit=7");
+
+    expect(mockedSchedule.getUpcomingActions).toHaveBeenCalledWith({ days: 3, limit: 100 });
+    expect(mockedSchedule.getOverdueActions).toHaveBeenCalledWith({ limit: 7 });
+  });
+
+  it("pages actions://trash", async () => {
+    await read("actions://trash?limit=5&offset=10");
+
+    expect(mockedTrash.listTrash).toHaveBeenCalledWith({ limit: 5, offset: 10 });
+  });
+
+  it("keeps the query out of the id for actions://history/{id}", async () => {
+    await read(`actions://history/${actionId}?limit=5`);
+
+    expect(mockedHistory.getHistory).toHaveBeenCalledWith(actionId, { limit: 5, offset: 0 });
+  });
+
+  it("still reads the named resources without a query and work items by id", async () => {
+    await read("actions://usage");
+    await read(`actions://${actionId}`);
+
+    expect(mockedUsage.getUsage).toHaveBeenCalled();
+    expect(mockedActions.getWorkItemCoreData).toHaveBeenCalledWith(actionId);
+  });
+
+  it("lists the named resources under their bare URIs", async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map(resource => resource.uri);
+
+    for (const uri of ["actions://audit", "actions://usage", "actions://trash", "actions://done", "actions://unblocked", "actions://overdue", "actions://upcoming"]) {
+      expect(uris).toContain(uri);
+    }
+  });
+});
@@ -1,8 +1,9 @@
-import { registerResources, resourceCapabilities } from "../../lib/mcp/resources";
-import { ActionsService } from "../../lib/services/actions";
-import { getDb } from "../../lib/db/adapter";
+import { registerResources, resourceCapabilities } from "../../../lib/mcp/resources";
+import { ActionsService } from "../../../lib/services/actions";
+import { getDb } from "../../../lib/db/adapter";
+import { DEFAULT_TREE_MAX_NODES } from "../../../lib/utils/resource-query";
 
-jest.mock("../../lib/services/actions", () => ({
+jest.mock("../../../lib/services/actions", () => ({
   ActionsService: {
     getActionListResource: jest.fn(),
     getActionTreeResource: jest.fn(),
@@ -17,11 +18,11 @@ jest.mock("../../lib/services/actions", () => ({
   },
 }));
 
-jest.mock("../../lib/db/adapter", () => ({
+jest.mock("../../../lib/db/adapter", () => ({
   getDb: jest.fn(),
 }));
 
-jest.mock("../../db/schema", () => ({
+jest.mock("../../../db/schema", () => ({
   actions: {},
   edges: {},
   completionContexts: {},
@@ -29,6 +30,7 @@ jest.mock("../../db/schema", () => ({
 
 jest.mock("drizzle-orm", () => ({
   eq: jest.fn(),
+  ne: jest.fn(),
   and: jest.fn(),
   desc: jest.fn(),
   sql: jest.fn((template: TemplateStringsArray) => template[0]),
@@ -37,6 +39,14 @@ jest.mock("drizzle-orm", () => ({
 const mockedService = ActionsService as jest.Mocked<typeof ActionsService>;
 const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
 
+// The URI a resource was registered under, without the query parameters its template advertises
+function registeredUri(template: any): string {
+  return typeof template === "string" ? template : template.uriTemplate.toString().split("{?")[0];
+}
+
+// actions://tree with no ?maxDepth or ?maxNodes
+const defaultTreeBudget = { maxDepth: null, maxNodes: DEFAULT_TREE_MAX_NODES };
+
 describe("MCP Resources", () => {
   let server: any;
 
@@ -60,43 +70,36 @@ describe("MCP Resources", () => {
     jest.clearAllMocks();
   });
 
-  it("registers all resources", () => {
-    registerResources(server);
-    expect(server.resource).toHaveBeenCalledTimes(15);
-    expect(Object.keys(resourceCapabilities)).toEqual([
-      "actions://list",
-      "actions://count",
-      "actions://unblocked",
-      "actions://blockers",
-      "actions://no-dependencies",
-      "actions://tree",
-      "actions://tree/{id}",
-      "actions://dependencies",
-      "actions://{id}",
-      "actions://context/{id}",
-      "actions://done",
-      "actions://done/{id}",
-      "context://vision",
-      "context://momentum",
-      "actions://next",
-      "actions://next/{id}",
-    ]);
+  // Registrations are looked up by URI, since the order resources are registered in isn't part of the contract
+  function handlerFor(uri: string) {
+    const registration = server.resource.mock.calls.find(([, template]: any[]) => registeredUri(template) === uri);
+    if (!registration) throw new Error(`${uri} is not registered`);
+    return registration[2];
+  }
+
+  it("documents every resource it registers", () => {
+    registerResources(server);
+    const uris = server.resource.mock.calls.map(([, template]: any[]) => registeredUri(template));
+    expect(uris.length).toBeGreaterThan(0);
+    for (const uri of uris) {
+      expect(Object.keys(resourceCapabilities)).toContain(uri);
+    }
   });
 
   it("list resource returns data from service", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     const expected = { total: 1, limit: 5, offset: 0, actions: [] } as any;
     mockedService.getActionListResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://list?limit=5"));
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 5, offset: 0, includeCompleted: false });
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 5, offset: 0, cursor: null, includeCompleted: false, tags: undefined });
     expect(JSON.parse(result.contents[0].text)).toEqual(expected);
   });
 
   it("list resource handles missing database", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     const result = await handler(new URL("actions://list"));
     const data = JSON.parse(result.contents[0].text);
     expect(data.error).toBe("Database not configured");
@@ -105,48 +108,80 @@ describe("MCP Resources", () => {
 
   it("list resource parses URI parameters with query string", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     const expected = { total: 5, limit: 10, offset: 20, actions: [] } as any;
     mockedService.getActionListResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://list?limit=10&offset=20&includeCompleted=true"));
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 10, offset: 20, includeCompleted: true });
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 10, offset: 20, cursor: null, includeCompleted: true, tags: undefined });
     expect(JSON.parse(result.contents[0].text)).toEqual(expected);
   });
 
   it("list resource parses includeCompleted parameter", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     const expected = { total: 3, limit: 20, offset: 0, actions: [] } as any;
     mockedService.getActionListResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://list?includeCompleted=true"));
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 20, offset: 0, includeCompleted: true });
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 20, offset: 0, cursor: null, includeCompleted: true, tags: undefined });
     expect(JSON.parse(result.contents[0].text)).toEqual(expected);
   });
 
 
   it("tree resource returns data", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     const expected = { rootActions: [] } as any;
     mockedService.getActionTreeResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://tree"));
-    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false);
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false, undefined, defaultTreeBudget);
     expect(JSON.parse(result.contents[0].text)).toEqual(expected);
   });
 
   it("tree resource parses includeCompleted parameter", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     const expected = { rootActions: [] } as any;
     mockedService.getActionTreeResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://tree?includeCompleted=true"));
-    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(true);
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(true, undefined, defaultTreeBudget);
     expect(JSON.parse(result.contents[0].text)).toEqual(expected);
   });
 
+  it("list resource passes the cursor through and returns the next one", async () => {
+    registerResources(server);
+    const handler = handlerFor("actions://list");
+    const expected = { total: 30, limit: 10, offset: 0, next_cursor: "page-3", actions: [] } as any;
+    mockedService.getActionListResource.mockResolvedValue(expected);
+    const result = await handler(new URL("actions://list?limit=10&cursor=page-2"));
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 10, offset: 0, cursor: "page-2", includeCompleted: false, tags: undefined });
+    expect(JSON.parse(result.contents[0].text).next_cursor).toBe("page-3");
+  });
+
+  it("tree resource passes its node and depth budget and returns the truncation markers", async () => {
+    registerResources(server);
+    const handler = handlerFor("actions://tree");
+    const expected = {
+      rootActions: [{ id: "a1", title: "Root", children: [], truncated_children: 4, more_at: "actions://tree/a1" }],
+      truncated: { max_depth: 2, max_nodes: 1, returned_nodes: 1, total_nodes: 5, omitted_roots: 0, message: "Showing 1 of 5 actions" },
+    } as any;
+    mockedService.getActionTreeResource.mockResolvedValue(expected);
+    const result = await handler(new URL("actions://tree?maxNodes=1&maxDepth=2"));
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false, undefined, { maxDepth: 2, maxNodes: 1 });
+    expect(JSON.parse(result.contents[0].text)).toEqual(expected);
+  });
+
+  it("tree resource treats maxNodes=0 as unlimited and rejects budgets out of range", async () => {
+    registerResources(server);
+    const handler = handlerFor("actions://tree");
+    mockedService.getActionTreeResource.mockResolvedValue({ rootActions: [] } as any);
+    await handler(new URL("actions://tree?maxNodes=0"));
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false, undefined, { maxDepth: null, maxNodes: null });
+    await expect(handler(new URL("actions://tree?maxNodes=5000"))).rejects.toThrow("Invalid maxNodes");
+  });
+
   it("dependencies resource returns data", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     const expected = { dependencies: [] } as any;
     mockedService.getActionDependenciesResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://dependencies"));
@@ -156,7 +191,7 @@ describe("MCP Resources", () => {
 
   it("dependencies resource parses includeCompleted parameter", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     const expected = { dependencies: [] } as any;
     mockedService.getActionDependenciesResource.mockResolvedValue(expected);
     const result = await handler(new URL("actions://dependencies?includeCompleted=true"));
@@ -167,9 +202,7 @@ describe("MCP Resources", () => {
 
   it("core work item resource returns basic data only", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     const expected = { id: "123", title: "Test", description: "Test description", vision: "Test vision", done: false, version: 1, created_at: "now", updated_at: "now" } as any;
     mockedService.getWorkItemCoreData.mockResolvedValue(expected);
     const result = await handler(new URL("actions://123"), { id: "123" });
@@ -179,9 +212,7 @@ describe("MCP Resources", () => {
 
   it("context resource displays completion context prominently", async () => {
     registerResources(server);
-    // actions://context/{id} is at index 4
-    const contextCall = server.resource.mock.calls[4];
-    const handler = contextCall[2];
+    const handler = handlerFor("actions://context/{id}");
     const expected = { 
       id: "123", 
       title: "Test Action", 
@@ -219,18 +250,14 @@ describe("MCP Resources", () => {
 
   it("core work item resource rejects missing id", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     await expect(handler(new URL("actions://{id}"), { id: "{id}" })).rejects.toThrow();
   });
 
   it("core work item resource handles missing database url", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     const result = await handler(new URL("actions://123"), { id: "123" });
     const data = JSON.parse(result.contents[0].text);
     expect(data.error).toBe("Database not configured");
@@ -239,9 +266,7 @@ describe("MCP Resources", () => {
 
   it("core work item resource handles database errors", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     mockedService.getWorkItemCoreData.mockRejectedValue(new Error("Database error"));
     await expect(handler(new URL("actions://123"), { id: "123" })).rejects.toThrow("Failed to fetch action details: Database error");
   });
@@ -249,7 +274,7 @@ describe("MCP Resources", () => {
   it("tree resource handles missing database url", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     const result = await handler(new URL("actions://tree"));
     const data = JSON.parse(result.contents[0].text);
     expect(data.error).toBe("Database not configured");
@@ -258,7 +283,7 @@ describe("MCP Resources", () => {
 
   it("tree resource handles database errors", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     mockedService.getActionTreeResource.mockRejectedValue(new Error("Tree error"));
     await expect(handler(new URL("actions://tree"))).rejects.toThrow("Failed to fetch action tree: Tree error");
   });
@@ -266,7 +291,7 @@ describe("MCP Resources", () => {
   it("dependencies resource handles missing database url", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     const result = await handler(new URL("actions://dependencies"));
     const data = JSON.parse(result.contents[0].text);
     expect(data.error).toBe("Database not configured");
@@ -275,67 +300,43 @@ describe("MCP Resources", () => {
 
   it("dependencies resource handles database errors", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     mockedService.getActionDependenciesResource.mockRejectedValue(new Error("Dependencies error"));
     await expect(handler(new URL("actions://dependencies"))).rejects.toThrow("Failed to fetch action dependencies: Dependencies error");
   });
 
   // Test URL parsing error branches
-  it("list resource handles URL parsing errors gracefully", async () => {
+  it("list resource reads the query even when the URI is not a valid URL", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
-    const expected = { total: 1, limit: 20, offset: 0, actions: [] } as any;
+    const handler = handlerFor("actions://list");
+    const expected = { total: 1, limit: 5, offset: 0, actions: [] } as any;
     mockedService.getActionListResource.mockResolvedValue(expected);
     
-    // Mock console.log to capture the error logging
-    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
-    
-    // Create a malformed URI that will cause URL constructor to throw
     const mockUri = {
-      toString: () => "not-a-valid-url?query=param"
+      toString: () => "not-a-valid-url?limit=5"
     };
     
-    const result = await handler(mockUri);
-    // Should fall back to defaults when URL parsing fails
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ 
-      limit: 20, // Should use default
-      offset: 0, // Should use default
-      includeCompleted: false 
-    });
-    
-    // Should log the URL parsing error - the actual Error object format varies
-    expect(consoleSpy).toHaveBeenCalledWith('Could not parse URI parameters, using defaults:', expect.anything());
-    
-    consoleSpy.mockRestore();
+    await handler(mockUri);
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 5, offset: 0, cursor: null, includeCompleted: false, tags: undefined });
   });
 
-  it("tree resource handles URL parsing errors gracefully", async () => {
+  it("tree resource reads the query even when the URI is not a valid URL", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     const expected = { rootActions: [] } as any;
     mockedService.getActionTreeResource.mockResolvedValue(expected);
     
-    // Mock console.log to verify error logging
-    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
-    
-    // Create a malformed URI that will cause URL constructor to throw
     const mockUri = {
       toString: () => "not-valid-url?includeCompleted=true"
     };
     
-    const result = await handler(mockUri);
-    // Should use default when URL parsing fails
-    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false);
-    
-    // Should log the URL parsing error - the actual Error object format varies
-    expect(consoleSpy).toHaveBeenCalledWith('Could not parse URI parameters, using defaults:', expect.anything());
-    
-    consoleSpy.mockRestore();
+    await handler(mockUri);
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(true, undefined, defaultTreeBudget);
   });
 
   it("dependencies resource handles URL parsing errors gracefully", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     const expected = { dependencies: [] } as any;
     mockedService.getActionDependenciesResource.mockResolvedValue(expected);
     
@@ -359,7 +360,7 @@ describe("MCP Resources", () => {
 
   it("list resource handles non-Error exceptions", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     mockedService.getActionListResource.mockRejectedValue("String error");
     
     await expect(handler(new URL("actions://list"))).rejects.toThrow("Failed to fetch actions: Unknown error");
@@ -367,7 +368,7 @@ describe("MCP Resources", () => {
 
   it("tree resource handles non-Error exceptions", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     mockedService.getActionTreeResource.mockRejectedValue("String error");
     
     await expect(handler(new URL("actions://tree"))).rejects.toThrow("Failed to fetch action tree: Unknown error");
@@ -375,7 +376,7 @@ describe("MCP Resources", () => {
 
   it("dependencies resource handles non-Error exceptions", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     mockedService.getActionDependenciesResource.mockRejectedValue("String error");
     
     await expect(handler(new URL("actions://dependencies"))).rejects.toThrow("Failed to fetch action dependencies: Unknown error");
@@ -383,9 +384,7 @@ describe("MCP Resources", () => {
 
   it("core work item resource handles non-Error exceptions", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     mockedService.getWorkItemCoreData.mockRejectedValue("String error");
     
     await expect(handler(new URL("actions://123"), { id: "123" })).rejects.toThrow("Failed to fetch action details: Unknown error");
@@ -394,9 +393,7 @@ describe("MCP Resources", () => {
 
   it("core work item resource handles array id parameter", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     const expected = { id: "first", title: "Test", description: "Test desc", vision: "Test vision", done: false, version: 1, created_at: "now", updated_at: "now" } as any;
     mockedService.getWorkItemCoreData.mockResolvedValue(expected);
     
@@ -406,55 +403,68 @@ describe("MCP Resources", () => {
 
   it("core work item resource handles empty id parameter", async () => {
     registerResources(server);
-    // actions://{id} is at index 3
-    const coreCall = server.resource.mock.calls[3];
-    const handler = coreCall[2];
+    const handler = handlerFor("actions://{id}");
     
     await expect(handler(new URL("actions://"), { id: "" })).rejects.toThrow("Work item ID is required");
   });
 
   it("list resource parses includeCompleted=false parameter correctly", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     const expected = { total: 2, limit: 20, offset: 0, actions: [] } as any;
     mockedService.getActionListResource.mockResolvedValue(expected);
     
     const result = await handler(new URL("actions://list?includeCompleted=false"));
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ 
-      limit: 20, 
-      offset: 0, 
-      includeCompleted: false 
-    });
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ limit: 20, offset: 0, cursor: null, includeCompleted: false, tags: undefined });
   });
 
-  it("list resource handles parameters without includeCompleted", async () => {
+  it("list resource rejects parameters it does not take and values it cannot parse", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
-    const expected = { total: 3, limit: 20, offset: 0, actions: [] } as any;
-    mockedService.getActionListResource.mockResolvedValue(expected);
-    
-    const result = await handler(new URL("actions://list?other=value"));
-    expect(mockedService.getActionListResource).toHaveBeenCalledWith({ 
-      limit: 20, 
-      offset: 0, 
-      includeCompleted: false 
-    });
+    const handler = handlerFor("actions://list");
+
+    await expect(handler(new URL("actions://list?other=value"))).rejects.toThrow('Unknown query parameter "other" for actions://list');
+    await expect(handler(new URL("actions://list?limit=ten"))).rejects.toThrow("Invalid limit");
+    await expect(handler(new URL("actions://list?tags=api&tagMatch=most"))).rejects.toThrow("Invalid tagMatch");
+    expect(mockedService.getActionListResource).not.toHaveBeenCalled();
+  });
+
+  it("list and tree resources filter by tag", async () => {
+    registerResources(server);
+    mockedService.getActionListResource.mockResolvedValue({ total: 0, limit: 20, offset: 0, actions: [] } as any);
+    mockedService.getActionTreeResource.mockResolvedValue({ rootActions: [] } as any);
+
+    await handlerFor("actions://list")(new URL("actions://list?tags=API,backend&tagMatch=all"));
+    await handlerFor("actions://tree")(new URL("actions://tree?tags=api"));
+
+    expect(mockedService.getActionListResource).toHaveBeenCalledWith(expect.objectContaining({ tags: { tags: ["api", "backend"], match: "all" } }));
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false, { tags: ["api"], match: "any" }, defaultTreeBudget);
+  });
+
+  it("subtree resource parses its query the same way", async () => {
+    registerResources(server);
+    const handler = handlerFor("actions://tree/{id}");
+    mockedService.getActionTreeResourceScoped.mockResolvedValue({ rootActions: [] } as any);
+
+    await handler(new URL("actions://tree/a1?includeCompleted=true&maxDepth=2"), { id: "a1" });
+
+    expect(mockedService.getActionTreeResourceScoped).toHaveBeenCalledWith("a1", true, { maxDepth: 2, maxNodes: DEFAULT_TREE_MAX_NODES });
+    await expect(handler(new URL("actions://tree/a1?tags=api"), { id: "a1" })).rejects.toThrow('Unknown query parameter "tags"');
   });
 
 
   it("tree resource parses includeCompleted=false parameter correctly", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[1][2];
+    const handler = handlerFor("actions://tree");
     const expected = { rootActions: [] } as any;
     mockedService.getActionTreeResource.mockResolvedValue(expected);
     
     const result = await handler(new URL("actions://tree?includeCompleted=false"));
-    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false);
+    expect(mockedService.getActionTreeResource).toHaveBeenCalledWith(false, undefined, defaultTreeBudget);
   });
 
   it("dependencies resource parses includeCompleted=false parameter correctly", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[2][2];
+    const handler = handlerFor("actions://dependencies");
     const expected = { dependencies: [] } as any;
     mockedService.getActionDependenciesResource.mockResolvedValue(expected);
     
@@ -464,7 +474,7 @@ describe("MCP Resources", () => {
 
   it("list resource handles database errors", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[0][2];
+    const handler = handlerFor("actions://list");
     mockedService.getActionListResource.mockRejectedValue(new Error("Service error"));
     
     await expect(handler(new URL("actions://list"))).rejects.toThrow("Failed to fetch actions: Service error");
@@ -473,7 +483,7 @@ describe("MCP Resources", () => {
   // Log resource tests
   it("log feed resource returns recent logs", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[6][2]; // actions://done is at index 6
+    const handler = handlerFor("actions://done");
     
     const testLog = {
       id: "log1",
@@ -495,9 +505,11 @@ describe("MCP Resources", () => {
       select: jest.fn().mockReturnValue({
         from: jest.fn().mockReturnValue({
           innerJoin: jest.fn().mockReturnValue({
-            limit: jest.fn().mockReturnValue({
-              offset: jest.fn().mockReturnValue({
-                orderBy: jest.fn().mockResolvedValue([testLog])
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockReturnValue({
+                offset: jest.fn().mockReturnValue({
+                  orderBy: jest.fn().mockResolvedValue([testLog])
+                })
               })
             })
           })
@@ -508,7 +520,11 @@ describe("MCP Resources", () => {
     // Second call for the count query
     mockGetDb.mockImplementationOnce(() => ({
       select: jest.fn().mockReturnValue({
-        from: jest.fn().mockResolvedValue([{ count: 1 }])
+        from: jest.fn().mockReturnValue({
+          innerJoin: jest.fn().mockReturnValue({
+            where: jest.fn().mockResolvedValue([{ count: 1 }])
+          })
+        })
       })
     } as any));
     
@@ -523,7 +539,7 @@ describe("MCP Resources", () => {
   it("log feed resource handles missing database", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    const handler = server.resource.mock.calls[6][2];
+    const handler = handlerFor("actions://done");
     
     const result = await handler(new URL("actions://done"));
     const data = JSON.parse(result.contents[0].text);
@@ -534,7 +550,7 @@ describe("MCP Resources", () => {
 
   it("log item resource returns specific action log", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[7][2]; // actions://done/{id} is at index 7
+    const handler = handlerFor("actions://done/{id}");
     
     // Mock the database response
     mockGetDb.mockReturnValue({
@@ -570,7 +586,7 @@ describe("MCP Resources", () => {
 
   it("log item resource returns null for missing log", async () => {
     registerResources(server);
-    const handler = server.resource.mock.calls[7][2];
+    const handler = handlerFor("actions://done/{id}");
     
     // Mock empty response
     mockGetDb.mockReturnValue({
@@ -595,7 +611,7 @@ describe("MCP Resources", () => {
   it("log item resource handles missing database", async () => {
     process.env.DATABASE_URL = "";
     registerResources(server);
-    const handler = server.resource.mock.calls[7][2];
+    const handler = handlerFor("actions://done/{id}");
     
     const result = await handler(new URL("actions://done/action1"), { id: "action1" });
     const data = JSON.parse(result.contents[0].text);
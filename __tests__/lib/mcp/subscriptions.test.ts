@@ -0,0 +1,80 @@
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerSubscriptions } from "../../../lib/mcp/subscriptions";
+import { ResourceEventsService, type ResourceUpdate } from "../../../lib/services/resource-events";
+import { DEFAULT_ORGANIZATION_ID } from "../../../lib/db/organization-context";
+
+jest.mock("../../../lib/services/resource-events", () => ({
+  ...jest.requireActual("../../../lib/services/resource-events"),
+  ResourceEventsService: { subscribe: jest.fn() },
+}));
+const mockSubscribe = ResourceEventsService.subscribe as jest.MockedFunction<typeof ResourceEventsService.subscribe>;
+
+const TASK = "00000000-0000-4000-8000-00000000000c";
+const PROJECT = "00000000-0000-4000-8000-00000000000b";
+
+describe("MCP resource subscriptions", () => {
+  let server: any;
+  let handlers: Map<unknown, (request: any, extra: any) => Promise<unknown>>;
+  let publish: (update: ResourceUpdate) => void;
+  const stopListening = jest.fn();
+
+  const subscribe = (uri: string, extra: { sessionId?: string } = { sessionId: "session-1" }) =>
+    handlers.get(SubscribeRequestSchema)!({ params: { uri } }, extra);
+
+  beforeEach(() => {
+    handlers = new Map();
+    server = {
+      server: {
+        registerCapabilities: jest.fn(),
+        setRequestHandler: jest.fn((schema, handler) => handlers.set(schema, handler)),
+        sendResourceUpdated: jest.fn().mockResolvedValue(undefined),
+      },
+    };
+    mockSubscribe.mockImplementation(listener => {
+      publish = listener;
+      return stopListening;
+    });
+    registerSubscriptions(server);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should declare the subscribe capability", () => {
+    expect(server.server.registerCapabilities).toHaveBeenCalledWith({ resources: { subscribe: true } });
+  });
+
+  it("should notify subscribers with the URI they subscribed to", async () => {
+    await subscribe(`actions://tree/${PROJECT}?includeCompleted=true`);
+    await subscribe("actions://done");
+
+    publish({ organizationId: DEFAULT_ORGANIZATION_ID, uris: [`actions://${TASK}`, `actions://tree/${PROJECT}`, "actions://unblocked"] });
+
+    expect(server.server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+    expect(server.server.sendResourceUpdated).toHaveBeenCalledWith({ uri: `actions://tree/${PROJECT}?includeCompleted=true` });
+  });
+
+  it("should ignore changes in other organizations", async () => {
+    await subscribe("actions://unblocked");
+
+    publish({ organizationId: "org-2", uris: ["actions://unblocked"] });
+
+    expect(server.server.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it("should stop listening once the last subscription is gone", async () => {
+    await subscribe(`actions://${TASK}`);
+    expect(mockSubscribe).toHaveBeenCalledTimes(1);
+
+    await handlers.get(UnsubscribeRequestSchema)!({ params: { uri: `actions://${TASK}` } }, {});
+
+    expect(stopListening).toHaveBeenCalled();
+  });
+
+  it("should refuse unsupported resources and transports without a session", async () => {
+    await expect(subscribe("actions://list")).rejects.toThrow("Cannot subscribe to actions://list");
+    await expect(subscribe("actions://unblocked", {})).rejects.toThrow("Resource subscriptions need the SSE transport");
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { actionLinks, toolError, toolOutputSchema, toolResult } from '../../../lib/mcp/tool-results';
+
+describe('tool-results', () => {
+  const outputSchema = z.object(toolOutputSchema({ action_id: z.string(), released: z.boolean() }));
+
+  it('should return the text fallback and links to the action as text content, next to structured content', () => {
+    const result = toolResult('Released claim on action: a1', { action_id: 'a1', released: true }, actionLinks('a1', 'Ship it'));
+
+    // Only content types the 2025-03-26 protocol knows, so clients on it don't drop the result
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Released claim on action: a1' },
+      { type: 'text', text: 'Resources:\n- Ship it: actions://a1\n- Context: Ship it: actions://context/a1' },
+    ]);
+    expect(result.structuredContent).toMatchObject({ ok: true, action_id: 'a1', released: true });
+    expect(result.structuredContent.links.map(link => link.uri)).toEqual(['actions://a1', 'actions://context/a1']);
+    expect(result.structuredContent.links.every(link => link.type === 'resource_link')).toBe(true);
+    expect(outputSchema.safeParse(result.structuredContent).success).toBe(true);
+  });
+
+  it('should leave out the resources text when there are no links', () => {
+    expect(toolResult('Nothing to claim', { action_id: null }).content).toEqual([{ type: 'text', text: 'Nothing to claim' }]);
+  });
+
+  it('should flag errors and still match the output schema, which only requires the envelope', () => {
+    const result = toolError('Error: Version conflict', { message: 'Version conflict', code: 'version_conflict', details: { current_version: 2 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toEqual({
+      ok: false,
+      error: { message: 'Version conflict', code: 'version_conflict', details: { current_version: 2 } },
+      links: [],
+    });
+    expect(outputSchema.safeParse(result.structuredContent).success).toBe(true);
+    expect(outputSchema.safeParse({ ok: true, links: [], released: 'yes' }).success).toBe(false);
+  });
+});
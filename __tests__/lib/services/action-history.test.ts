@@ -0,0 +1,117 @@
+import { ActionHistoryService, diffFields } from '../../../lib/services/action-history';
+import { getDb } from '../../../lib/db/adapter';
+import { actionRevisions } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+describe('ActionHistoryService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      offset: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diffFields', () => {
+    it('should include only fields that changed', () => {
+      const changes = diffFields(
+        { title: 'Old', description: 'Same', done: false },
+        { title: 'New', description: 'Same', vision: undefined, done: false }
+      );
+
+      expect(changes).toEqual({ title: { from: 'Old', to: 'New' } });
+    });
+
+    it('should treat missing previous values as undefined', () => {
+      const changes = diffFields({}, { title: 'Created', parent_id: 'parent-1' });
+
+      expect(changes).toEqual({
+        title: { from: undefined, to: 'Created' },
+        parent_id: { from: undefined, to: 'parent-1' },
+      });
+    });
+  });
+
+  describe('recordRevision', () => {
+    it('should insert a revision with actor attribution', async () => {
+      const createdAt = new Date('2025-01-01T00:00:00Z');
+      mockDb.returning.mockResolvedValue([{
+        id: 'rev-1',
+        actionId: 'action-1',
+        version: 2,
+        changeType: 'updated',
+        changes: { title: { from: 'Old', to: 'New' } },
+        author: null,
+        agentId: 'session-123',
+        createdAt,
+      }]);
+
+      const result = await ActionHistoryService.recordRevision({
+        actionId: 'action-1',
+        version: 2,
+        changeType: 'updated',
+        changes: { title: { from: 'Old', to: 'New' } },
+        actor: { agent_id: 'session-123' },
+      });
+
+      expect(mockDb.insert).toHaveBeenCalledWith(actionRevisions);
+      expect(mockDb.values).toHaveBeenCalledWith({
+        actionId: 'action-1',
+        version: 2,
+        changeType: 'updated',
+        changes: { title: { from: 'Old', to: 'New' } },
+        author: undefined,
+        agentId: 'session-123',
+      });
+      expect(result).toEqual({
+        id: 'rev-1',
+        action_id: 'action-1',
+        version: 2,
+        change_type: 'updated',
+        changes: { title: { from: 'Old', to: 'New' } },
+        author: undefined,
+        agent_id: 'session-123',
+        created_at: '2025-01-01T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return revisions newest first with total count', async () => {
+      const rows = [
+        { id: 'rev-2', actionId: 'action-1', version: 1, changeType: 'completed', changes: { done: { from: false, to: true } }, author: null, agentId: null, createdAt: new Date() },
+        { id: 'rev-1', actionId: 'action-1', version: 0, changeType: 'created', changes: { title: { to: 'Task' } }, author: 'alice', agentId: null, createdAt: new Date() },
+      ];
+      mockDb.offset.mockResolvedValue(rows);
+      // Second select (count) resolves from where()
+      mockDb.where
+        .mockReturnValueOnce(mockDb)
+        .mockResolvedValueOnce([{ count: 2 }]);
+
+      const result = await ActionHistoryService.getHistory('action-1', { limit: 10 });
+
+      expect(mockDb.from).toHaveBeenCalledWith(actionRevisions);
+      expect(mockDb.limit).toHaveBeenCalledWith(10);
+      expect(mockDb.offset).toHaveBeenCalledWith(0);
+      expect(result.total).toBe(2);
+      expect(result.revisions.map(r => r.version)).toEqual([1, 0]);
+      expect(result.revisions[1].author).toBe('alice');
+    });
+  });
+});
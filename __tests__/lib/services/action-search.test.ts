@@ -91,4 +91,27 @@ describe('ActionSearchService', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('suggestActions', () => {
+    it('should offer title matches best first, without searching embeddings', async () => {
+      const originalPerformKeywordSearch = (ActionSearchService as any).performKeywordSearch;
+      const mockPerformKeywordSearch = jest.fn().mockResolvedValue([
+        { id: 'logs', title: 'Ship audit logging', score: 0.4, matchType: 'keyword' },
+        { id: 'login', title: 'Fix login redirect', score: 0.9, matchType: 'keyword' },
+      ]);
+      (ActionSearchService as any).performKeywordSearch = mockPerformKeywordSearch;
+
+      try {
+        // Not hex, so there is no ID prefix lookup
+        const suggestions = await ActionSearchService.suggestActions(' login ', 5);
+        expect(suggestions).toEqual([
+          { id: 'login', title: 'Fix login redirect' },
+          { id: 'logs', title: 'Ship audit logging' },
+        ]);
+        expect(mockPerformKeywordSearch).toHaveBeenCalledWith('login', expect.objectContaining({ limit: 5, includeCompleted: true, excludeIds: [] }));
+      } finally {
+        (ActionSearchService as any).performKeywordSearch = originalPerformKeywordSearch;
+      }
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { ActionsService } from '../../../lib/services/actions';
+import { getDb, withTransaction } from '../../../lib/db/adapter';
+import { GraphIntegrityService, GraphCycleError } from '../../../lib/services/graph-integrity';
+import { TrashService } from '../../../lib/services/trash';
+import { ResourceEventsService } from '../../../lib/services/resource-events';
+import { ActionHistoryService } from '../../../lib/services/action-history';
+import { AuditLogService } from '../../../lib/services/audit-log';
+
+jest.mock('../../../lib/db/adapter');
+jest.mock('../../../lib/db/init', () => ({}));
+jest.mock('../../../lib/services/graph-integrity', () => ({
+  ...jest.requireActual('../../../lib/services/graph-integrity'),
+  GraphIntegrityService: { assertCanSetParent: jest.fn() },
+}));
+jest.mock('../../../lib/services/trash', () => ({
+  TrashService: { moveToTrash: jest.fn() },
+}));
+jest.mock('../../../lib/services/action-history', () => ({
+  ...jest.requireActual('../../../lib/services/action-history'),
+  ActionHistoryService: { recordRevision: jest.fn() },
+}));
+jest.mock('../../../lib/services/audit-log', () => ({
+  AuditLogService: { record: jest.fn() },
+}));
+jest.mock('../../../lib/services/resource-events', () => ({
+  ResourceEventsService: { actionChanged: jest.fn() },
+}));
+
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockAssertCanSetParent = GraphIntegrityService.assertCanSetParent as jest.MockedFunction<typeof GraphIntegrityService.assertCanSetParent>;
+const mockMoveToTrash = TrashService.moveToTrash as jest.MockedFunction<typeof TrashService.moveToTrash>;
+const mockActionChanged = ResourceEventsService.actionChanged as jest.MockedFunction<typeof ResourceEventsService.actionChanged>;
+const mockRecordRevision = ActionHistoryService.recordRevision as jest.MockedFunction<typeof ActionHistoryService.recordRevision>;
+const mockAuditRecord = AuditLogService.record as jest.MockedFunction<typeof AuditLogService.record>;
+
+// Each select resolves the next queued result, whether or not the query ends in .limit()
+function selectReturning(rows: unknown[]) {
+  const query: any = {
+    from: () => query,
+    where: () => query,
+    limit: () => Promise.resolve(rows),
+    then: (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject),
+  };
+  return query;
+}
+
+describe('ActionsService.deleteAction', () => {
+  let calls: string[];
+  let mockDb: any;
+
+  beforeEach(() => {
+    calls = [];
+    // The action, its parent edge, its children, the new parent, then the deleted subtree (the action and its two children)
+    const selects = [
+      [{ id: 'action-id', data: { title: 'To delete' } }],
+      [],
+      [{ src: 'action-id', dst: 'child-1', kind: 'family' }, { src: 'action-id', dst: 'child-2', kind: 'family' }],
+      [{ id: 'new-parent-id', data: { title: 'New parent' } }],
+      [{ src: 'action-id', dst: 'child-1', kind: 'family' }, { src: 'action-id', dst: 'child-2', kind: 'family' }],
+    ];
+    mockDb = {
+      select: jest.fn(() => selectReturning(selects.shift() ?? [])),
+      insert: jest.fn(() => ({
+        values: jest.fn(async (values: any) => { calls.push(`insert ${values.src} -> ${values.dst}`); }),
+      })),
+      update: jest.fn(() => ({
+        set: () => ({ where: () => ({ returning: async () => [{ version: 2 }] }) }),
+      })),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+    // A failure anywhere inside the transaction is what rolls the deletion back
+    mockWithTransaction.mockImplementation(async fn => {
+      calls.push('begin');
+      const result = await fn();
+      calls.push('commit');
+      return result;
+    });
+    mockMoveToTrash.mockImplementation(async (ids: string[]) => {
+      calls.push(`trash ${ids.join(',')}`);
+      return { deletion_id: 'deletion-1', purge_after: '2025-02-01T00:00:00.000Z', trashed_actions: [{ id: 'action-id', title: 'To delete' }] } as any;
+    });
+    mockAssertCanSetParent.mockImplementation(async (actionId: string, newParentId: string) => {
+      calls.push(`check ${actionId} under ${newParentId}`);
+    });
+    mockActionChanged.mockImplementation(async ({ actionId }) => {
+      calls.push(`notify ${actionId}`);
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should check each reparented child against the graph left once the action is in the trash', async () => {
+    const result = await ActionsService.deleteAction({ action_id: 'action-id', child_handling: 'reparent', new_parent_id: 'new-parent-id' });
+
+    expect(result.children_count).toBe(2);
+    expect(calls).toEqual([
+      'begin',
+      'notify action-id',
+      'trash action-id',
+      'check child-1 under new-parent-id',
+      'insert new-parent-id -> child-1',
+      'notify child-1',
+      'check child-2 under new-parent-id',
+      'insert new-parent-id -> child-2',
+      'notify child-2',
+      'commit',
+    ]);
+  });
+
+  it('should record the move in each reparented child\'s history and the audit log', async () => {
+    await ActionsService.deleteAction({ action_id: 'action-id', child_handling: 'reparent', new_parent_id: 'new-parent-id' });
+
+    for (const childId of ['child-1', 'child-2']) {
+      const changes = { parent_id: { from: 'action-id', to: 'new-parent-id' } };
+      expect(mockRecordRevision).toHaveBeenCalledWith(expect.objectContaining({ actionId: childId, version: 2, changeType: 'family_changed', changes }));
+      expect(mockAuditRecord).toHaveBeenCalledWith(expect.objectContaining({ actionId: childId, operation: 'family_changed', changes }));
+    }
+  });
+
+  it('should work out who to notify about the deletion while the graph still holds the action', async () => {
+    await ActionsService.deleteAction({ action_id: 'action-id', child_handling: 'reparent', new_parent_id: 'new-parent-id' });
+
+    expect(calls.indexOf('notify action-id')).toBeLessThan(calls.indexOf('trash action-id'));
+    expect(mockActionChanged).toHaveBeenCalledWith(expect.objectContaining({ actionId: 'action-id', changeType: 'deleted' }));
+  });
+
+  it('should abandon the whole deletion when a child would close a cycle under its new parent', async () => {
+    const cycle = new GraphCycleError('depends_on', [], 'Cannot move "Child 2" under "New parent" - it would create a dependency cycle');
+    mockAssertCanSetParent.mockImplementation(async (actionId: string) => {
+      if (actionId === 'child-2') throw cycle;
+    });
+
+    await expect(
+      ActionsService.deleteAction({ action_id: 'action-id', child_handling: 'reparent', new_parent_id: 'new-parent-id' })
+    ).rejects.toBe(cycle);
+
+    expect(calls).not.toContain('commit');
+    expect(calls).not.toContain('insert new-parent-id -> child-2');
+  });
+});
@@ -0,0 +1,58 @@
+import { SQL } from 'drizzle-orm';
+import { ActionsService } from '../../../lib/services/actions';
+import { getDb, withTransaction } from '../../../lib/db/adapter';
+import { ActionHistoryService } from '../../../lib/services/action-history';
+
+jest.mock('../../../lib/db/adapter');
+jest.mock('../../../lib/db/init', () => ({}));
+jest.mock('../../../lib/services/action-history', () => ({
+  ...jest.requireActual('../../../lib/services/action-history'),
+  ActionHistoryService: { recordRevision: jest.fn() },
+}));
+jest.mock('../../../lib/services/audit-log', () => ({
+  AuditLogService: { record: jest.fn() },
+}));
+jest.mock('../../../lib/services/resource-events', () => ({
+  ResourceEventsService: { actionChanged: jest.fn() },
+}));
+
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockRecordRevision = ActionHistoryService.recordRevision as jest.MockedFunction<typeof ActionHistoryService.recordRevision>;
+
+describe('ActionsService.updateAction', () => {
+  let written: any;
+
+  beforeEach(() => {
+    // The action as it was read: version 3, though another writer may have moved it on before the update lands
+    const existing = { id: 'action-id', data: { title: 'Ship it' }, title: 'Ship it', status: 'todo', done: false, version: 3 };
+    const query: any = {
+      from: () => query,
+      where: () => query,
+      limit: async () => [existing],
+    };
+    mockGetDb.mockReturnValue({
+      select: jest.fn(() => query),
+      update: jest.fn(() => ({
+        set: (values: any) => {
+          written = values;
+          return { where: () => ({ returning: async () => [{ ...existing, version: 5 }] }) };
+        },
+      })),
+    } as any);
+    mockWithTransaction.mockImplementation(async fn => fn());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should increment the version in the database and record the version it produced', async () => {
+    const updated = await ActionsService.updateAction({ action_id: 'action-id', priority: 'high' });
+
+    // Not the read-then-write 4 - two concurrent updates would both write that
+    expect(written.version).toBeInstanceOf(SQL);
+    expect(updated.version).toBe(5);
+    expect(mockRecordRevision).toHaveBeenCalledWith(expect.objectContaining({ actionId: 'action-id', version: 5, changeType: 'updated' }));
+  });
+});
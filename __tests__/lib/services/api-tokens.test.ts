@@ -0,0 +1,133 @@
+import { API_TOKEN_PREFIX, ApiTokensService } from '../../../lib/services/api-tokens';
+import { PermissionDeniedError } from '../../../lib/services/permissions';
+import { hashToken } from '../../../lib/services/oauth';
+import { runWithOrganization, type OrganizationContext } from '../../../lib/db/organization-context';
+import { getDb } from '../../../lib/db/adapter';
+import { apiTokens } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const member: OrganizationContext = { organizationId: 'org-1', userId: 'user-1', role: 'member', scopes: ['read', 'write'] };
+
+const storedToken = (overrides: Partial<typeof apiTokens.$inferSelect> = {}) => ({
+  id: 'token-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  name: 'CI',
+  tokenHash: 'hash',
+  tokenPrefix: 'mcp_pat_abcdef',
+  scopes: ['read', 'write'],
+  rootActionId: null,
+  expiresAt: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ApiTokensService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only a hash and return the raw token once', async () => {
+      mockDb.returning.mockImplementationOnce(async () => [storedToken(mockDb.values.mock.calls[0][0])]);
+
+      const created = await runWithOrganization(member, () => ApiTokensService.create({ name: ' CI ', scopes: ['write'], expires_in_days: 30 }));
+
+      expect(mockDb.insert).toHaveBeenCalledWith(apiTokens);
+      const stored = mockDb.values.mock.calls[0][0];
+      expect(created.token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+      expect(stored.tokenHash).toBe(hashToken(created.token));
+      expect(stored).not.toHaveProperty('token');
+      expect(stored).toMatchObject({ organizationId: 'org-1', userId: 'user-1', name: 'CI', scopes: ['read', 'write'], rootActionId: null });
+      expect(created.token.startsWith(stored.tokenPrefix)).toBe(true);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should not grant more than the creator has', async () => {
+      await expect(runWithOrganization(member, () => ApiTokensService.create({ name: 'Too much', scopes: ['admin'] })))
+        .rejects.toThrow(PermissionDeniedError);
+      await expect(runWithOrganization(member, () => ApiTokensService.create({ name: 'Bad', scopes: ['delete' as any] })))
+        .rejects.toThrow('Invalid scope: delete');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should require the subtree root to exist in the organization', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+
+      await expect(runWithOrganization(member, () => ApiTokensService.create({ name: 'CI', scopes: ['read'], root_action_id: 'missing' })))
+        .rejects.toThrow('Action with ID missing not found');
+    });
+
+    it('should keep tokens minted by a subtree token inside its subtree', async () => {
+      const subtree = { ...member, rootActionId: 'project' };
+      mockDb.returning.mockImplementationOnce(async () => [storedToken(mockDb.values.mock.calls[0][0])]);
+      mockDb.limit.mockResolvedValueOnce([{ id: 'project' }]);
+
+      await runWithOrganization(subtree, () => ApiTokensService.create({ name: 'Child', scopes: ['read'] }));
+
+      expect(mockDb.values.mock.calls[0][0]).toMatchObject({ rootActionId: 'project', scopes: ['read'] });
+    });
+  });
+
+  describe('verify', () => {
+    it('should ignore tokens without the API token prefix', async () => {
+      await expect(ApiTokensService.verify('mcp_at_oauth')).resolves.toBeNull();
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should cap the role at both the scopes and the creator\'s current role', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ token: storedToken({ scopes: ['read', 'write', 'admin'], rootActionId: 'project' }), role: 'member' }]);
+
+      await expect(ApiTokensService.verify(`${API_TOKEN_PREFIX}abc`)).resolves.toEqual({
+        token_id: 'token-1',
+        organization_id: 'org-1',
+        user_id: 'user-1',
+        role: 'member',
+        scopes: ['read', 'write'],
+        root_action_id: 'project',
+      });
+      expect(mockDb.set).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) });
+    });
+
+    it('should reject expired tokens and tokens of former members', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ token: storedToken({ expiresAt: new Date('2020-01-01T00:00:00Z') }), role: 'member' }]);
+      await expect(ApiTokensService.verify(`${API_TOKEN_PREFIX}abc`)).resolves.toBeNull();
+
+      mockDb.limit.mockResolvedValueOnce([{ token: storedToken(), role: null }]);
+      await expect(ApiTokensService.verify(`${API_TOKEN_PREFIX}abc`)).resolves.toBeNull();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should report tokens the caller can\'t see as not found', async () => {
+      mockDb.returning.mockResolvedValueOnce([]);
+
+      await expect(runWithOrganization(member, () => ApiTokensService.revoke('token-2')))
+        .rejects.toThrow('API token with ID token-2 not found');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { AuditLogService } from '../../../lib/services/audit-log';
+import { runWithOrganization, type OrganizationContext } from '../../../lib/db/organization-context';
+import { getDb } from '../../../lib/db/adapter';
+import { auditLog } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const agent: OrganizationContext = {
+  organizationId: 'org-1',
+  userId: 'user-1',
+  role: 'member',
+  scopes: ['read', 'write'],
+  clientId: 'claude-desktop',
+};
+
+describe('AuditLogService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn(),
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      offset: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should attribute the entry to the caller and the MCP session', async () => {
+      await runWithOrganization(agent, () => AuditLogService.record({
+        actionId: 'action-1',
+        operation: 'completed',
+        changes: { done: { from: false, to: true } },
+        actor: { agent_id: 'session-123' },
+      }));
+
+      expect(mockDb.insert).toHaveBeenCalledWith(auditLog);
+      expect(mockDb.values).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        actionId: 'action-1',
+        operation: 'completed',
+        changes: { done: { from: false, to: true } },
+        userId: 'user-1',
+        apiTokenId: null,
+        clientId: 'claude-desktop',
+        agentId: 'session-123',
+        author: null,
+      });
+    });
+  });
+
+  describe('query', () => {
+    it('should return entries with their actor and the total', async () => {
+      const createdAt = new Date('2025-01-01T00:00:00Z');
+      mockDb.where.mockReturnValueOnce(mockDb).mockResolvedValueOnce([{ count: 1 }]);
+      mockDb.offset.mockResolvedValueOnce([{
+        id: 'entry-1',
+        organizationId: 'org-1',
+        actionId: 'action-1',
+        operation: 'completed',
+        changes: { done: { from: false, to: true } },
+        userId: null,
+        apiTokenId: 'token-1',
+        clientId: null,
+        agentId: 'session-123',
+        author: null,
+        createdAt,
+      }]);
+
+      const result = await runWithOrganization(agent, () => AuditLogService.query({ actor: 'session-123', limit: 10 }));
+
+      expect(result).toEqual({
+        entries: [{
+          id: 'entry-1',
+          action_id: 'action-1',
+          operation: 'completed',
+          changes: { done: { from: false, to: true } },
+          actor: { user_id: null, api_token_id: 'token-1', client_id: null, agent_id: 'session-123', author: null },
+          created_at: createdAt.toISOString(),
+        }],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      });
+      expect(mockDb.limit).toHaveBeenCalledWith(10);
+    });
+
+    it('should reject malformed filters', async () => {
+      await expect(AuditLogService.query({ since: 'last tuesday' })).rejects.toThrow('Invalid since: "last tuesday"');
+      await expect(AuditLogService.query({ action_id: 'not-a-uuid' })).rejects.toThrow('Invalid action_id');
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+});
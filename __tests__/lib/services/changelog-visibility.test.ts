@@ -0,0 +1,83 @@
+import {
+  canViewChangelog,
+  changelogReaderContext,
+  getVisibleChangelogOrganization,
+} from '../../../lib/services/changelog-visibility';
+import { getDb } from '../../../lib/db/adapter';
+import type { OrganizationContext } from '../../../lib/db/organization-context';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const ACTION_ID = '11111111-1111-4111-8111-111111111111';
+
+const viewerIn = (organizationId: string, role: OrganizationContext['role']): OrganizationContext =>
+  ({ organizationId, userId: 'user-1', role, scopes: ['read'], rootActionId: null });
+
+const entry = (changelogVisibility: string) => ({ organizationId: 'org-1', changelogVisibility });
+
+describe('changelog visibility', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('canViewChangelog', () => {
+    it('should show public entries to everyone, including anonymous viewers', () => {
+      expect(canViewChangelog(entry('public'), null)).toBe(true);
+      expect(canViewChangelog(entry('public'), viewerIn('org-2', 'viewer'))).toBe(true);
+    });
+
+    it('should show team entries to any member of the organization only', () => {
+      expect(canViewChangelog(entry('team'), null)).toBe(false);
+      expect(canViewChangelog(entry('team'), viewerIn('org-2', 'owner'))).toBe(false);
+      expect(canViewChangelog(entry('team'), viewerIn('org-1', 'viewer'))).toBe(true);
+    });
+
+    it('should hide private entries from viewers and outsiders', () => {
+      expect(canViewChangelog(entry('private'), null)).toBe(false);
+      expect(canViewChangelog(entry('private'), viewerIn('org-1', 'viewer'))).toBe(false);
+      expect(canViewChangelog(entry('private'), viewerIn('org-1', 'member'))).toBe(true);
+      expect(canViewChangelog(entry('private'), viewerIn('org-2', 'owner'))).toBe(false);
+    });
+  });
+
+  describe('getVisibleChangelogOrganization', () => {
+    it('should return the organization of entries the viewer may see', async () => {
+      mockDb.limit.mockResolvedValueOnce([entry('public')]);
+      await expect(getVisibleChangelogOrganization(ACTION_ID, null)).resolves.toBe('org-1');
+
+      mockDb.limit.mockResolvedValueOnce([entry('private')]);
+      await expect(getVisibleChangelogOrganization(ACTION_ID, null)).resolves.toBeNull();
+
+      mockDb.limit.mockResolvedValueOnce([]);
+      await expect(getVisibleChangelogOrganization(ACTION_ID, viewerIn('org-1', 'owner'))).resolves.toBeNull();
+    });
+
+    it('should not query for IDs that are not UUIDs', async () => {
+      await expect(getVisibleChangelogOrganization('not-an-id', null)).resolves.toBeNull();
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changelogReaderContext', () => {
+    it('should read public entries of other organizations with a read-only context', () => {
+      const member = viewerIn('org-1', 'member');
+      expect(changelogReaderContext('org-1', member)).toBe(member);
+      expect(changelogReaderContext('org-2', member)).toEqual({ organizationId: 'org-2', userId: 'user-1', role: 'viewer', scopes: ['read'], rootActionId: null });
+      expect(changelogReaderContext('org-2', null)).toMatchObject({ organizationId: 'org-2', userId: null, role: 'viewer' });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ClaimsService, ClaimConflictError, getClaimTtlMinutes } from '../../../lib/services/claims';
+import { getDb } from '../../../lib/db/adapter';
+import { actionClaims } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+describe('ClaimsService', () => {
+  let mockDb: any;
+  const originalTtl = process.env.CLAIM_TTL_MINUTES;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      onConflictDoUpdate: jest.fn().mockReturnThis(),
+      delete: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    if (originalTtl === undefined) {
+      delete process.env.CLAIM_TTL_MINUTES;
+    } else {
+      process.env.CLAIM_TTL_MINUTES = originalTtl;
+    }
+  });
+
+  describe('getClaimTtlMinutes', () => {
+    it('should default to 30 minutes and read CLAIM_TTL_MINUTES', () => {
+      delete process.env.CLAIM_TTL_MINUTES;
+      expect(getClaimTtlMinutes()).toBe(30);
+
+      process.env.CLAIM_TTL_MINUTES = '90';
+      expect(getClaimTtlMinutes()).toBe(90);
+    });
+  });
+
+  describe('claimAction', () => {
+    it('should lease the action to the session until the TTL runs out', async () => {
+      const claimedAt = new Date('2025-01-01T00:00:00Z');
+      const expiresAt = new Date('2025-01-01T00:15:00Z');
+      mockDb.limit.mockResolvedValueOnce([{ id: 'action-1', status: 'todo', done: false }]);
+      mockDb.returning.mockResolvedValueOnce([{ actionId: 'action-1', sessionId: 'session-1', claimedAt, expiresAt }]);
+
+      const claim = await ClaimsService.claimAction({ action_id: 'action-1', session_id: 'session-1', ttl_minutes: 15 });
+
+      expect(mockDb.insert).toHaveBeenCalledWith(actionClaims);
+      const values = mockDb.values.mock.calls[0][0];
+      expect(values.expiresAt.getTime() - values.claimedAt.getTime()).toBe(15 * 60 * 1000);
+      expect(claim).toEqual({
+        action_id: 'action-1',
+        session_id: 'session-1',
+        claimed_at: '2025-01-01T00:00:00.000Z',
+        expires_at: '2025-01-01T00:15:00.000Z',
+      });
+    });
+
+    it('should report the current holder when another session has a live claim', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 1000);
+      mockDb.limit
+        .mockResolvedValueOnce([{ id: 'action-1', status: 'in_progress', done: false }])
+        .mockResolvedValueOnce([{ actionId: 'action-1', sessionId: 'session-2', claimedAt: new Date(), expiresAt }]);
+      mockDb.returning.mockResolvedValueOnce([]);
+
+      const claim = ClaimsService.claimAction({ action_id: 'action-1', session_id: 'session-1' });
+
+      await expect(claim).rejects.toBeInstanceOf(ClaimConflictError);
+      await expect(claim).rejects.toThrow('already claimed by session session-2');
+    });
+
+    it('should try again when the holder releases its claim before it can be reported', async () => {
+      const claimedAt = new Date('2025-01-01T00:00:00Z');
+      const expiresAt = new Date('2025-01-01T00:30:00Z');
+      mockDb.limit
+        .mockResolvedValueOnce([{ id: 'action-1', status: 'todo', done: false }])
+        .mockResolvedValueOnce([]);
+      mockDb.returning
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ actionId: 'action-1', sessionId: 'session-1', claimedAt, expiresAt }]);
+
+      const claim = await ClaimsService.claimAction({ action_id: 'action-1', session_id: 'session-1' });
+
+      expect(mockDb.insert).toHaveBeenCalledTimes(2);
+      expect(claim.session_id).toBe('session-1');
+    });
+
+    it('should refuse to claim closed actions', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ id: 'action-1', status: 'cancelled', done: false }]);
+
+      await expect(
+        ClaimsService.claimAction({ action_id: 'action-1', session_id: 'session-1' })
+      ).rejects.toThrow('is cancelled and cannot be claimed');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseAction', () => {
+    it("should not release another session's live claim", async () => {
+      mockDb.limit.mockResolvedValueOnce([{
+        actionId: 'action-1',
+        sessionId: 'session-2',
+        claimedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      }]);
+
+      await expect(
+        ClaimsService.releaseAction({ action_id: 'action-1', session_id: 'session-1' })
+      ).rejects.toBeInstanceOf(ClaimConflictError);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it("should release the session's own claim", async () => {
+      mockDb.limit.mockResolvedValueOnce([{
+        actionId: 'action-1',
+        sessionId: 'session-1',
+        claimedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      }]);
+      mockDb.returning.mockResolvedValueOnce([{ actionId: 'action-1' }]);
+
+      const result = await ClaimsService.releaseAction({ action_id: 'action-1', session_id: 'session-1' });
+
+      expect(mockDb.delete).toHaveBeenCalledWith(actionClaims);
+      expect(result).toEqual({ action_id: 'action-1', released: true });
+    });
+  });
+});
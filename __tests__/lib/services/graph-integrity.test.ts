@@ -0,0 +1,149 @@
+import { GraphIntegrityService, GraphCycleError, findCycles, findPath } from '../../../lib/services/graph-integrity';
+import { getDb } from '../../../lib/db/adapter';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+describe('GraphIntegrityService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findPath', () => {
+    it('should return the shortest path or null when unreachable', () => {
+      const adjacency = new Map([['a', ['b', 'c']], ['b', ['d']], ['c', ['d']], ['d', []]]);
+
+      expect(findPath(adjacency, 'a', 'd')).toEqual(['a', 'b', 'd']);
+      expect(findPath(adjacency, 'd', 'a')).toBeNull();
+    });
+  });
+
+  describe('findCycles', () => {
+    it('should report each loop once, closed on its first action', () => {
+      const adjacency = new Map([['a', ['b']], ['b', ['c']], ['c', ['a']], ['d', ['a']]]);
+
+      expect(findCycles(adjacency)).toEqual([['a', 'b', 'c', 'a']]);
+    });
+  });
+
+  describe('assertCanAddDependency', () => {
+    it('should reject a dependency that closes a cycle with a readable path', async () => {
+      // B depends on A, C depends on B; making A depend on C loops back
+      mockDb.where.mockResolvedValueOnce([
+        { src: 'a', dst: 'b', kind: 'depends_on' },
+        { src: 'b', dst: 'c', kind: 'depends_on' },
+      ]);
+      mockDb.where.mockResolvedValueOnce([
+        { id: 'a', title: 'Design', data: {} },
+        { id: 'b', title: 'Build', data: {} },
+        { id: 'c', title: 'Ship', data: {} },
+      ]);
+
+      const attempt = GraphIntegrityService.assertCanAddDependency('a', 'c');
+
+      await expect(attempt).rejects.toBeInstanceOf(GraphCycleError);
+      await expect(attempt).rejects.toThrow('"Ship" → "Design" → "Build" → "Ship"');
+    });
+
+    it('should treat a child depending on its parent as a cycle', async () => {
+      mockDb.where.mockResolvedValueOnce([
+        { src: 'parent', dst: 'child', kind: 'family' },
+      ]);
+      mockDb.where.mockResolvedValueOnce([
+        { id: 'parent', title: 'Parent', data: {} },
+        { id: 'child', title: 'Child', data: {} },
+      ]);
+
+      await expect(GraphIntegrityService.assertCanAddDependency('child', 'parent')).rejects.toMatchObject({
+        kind: 'depends_on',
+        cycle: [
+          { id: 'parent', title: 'Parent' },
+          { id: 'child', title: 'Child' },
+          { id: 'parent', title: 'Parent' },
+        ],
+      });
+    });
+
+    it('should allow dependencies that keep the graph acyclic', async () => {
+      mockDb.where.mockResolvedValueOnce([{ src: 'a', dst: 'b', kind: 'depends_on' }]);
+
+      await expect(GraphIntegrityService.assertCanAddDependency('c', 'b')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assertCanSetParent', () => {
+    it('should reject moving an action under its own descendant', async () => {
+      mockDb.where.mockResolvedValueOnce([
+        { src: 'root', dst: 'child', kind: 'family' },
+        { src: 'child', dst: 'grandchild', kind: 'family' },
+      ]);
+      mockDb.where.mockResolvedValueOnce([
+        { id: 'root', title: 'Root', data: {} },
+        { id: 'child', title: 'Child', data: {} },
+        { id: 'grandchild', title: 'Grandchild', data: {} },
+      ]);
+
+      await expect(GraphIntegrityService.assertCanSetParent('root', 'grandchild')).rejects.toThrow(
+        'Cannot move "Root" under "Grandchild" - it is already inside that action\'s family tree: "Root" → "Child" → "Grandchild" → "Root"'
+      );
+    });
+  });
+
+  describe('validate', () => {
+    it('should report loops, multiple parents and missing parent dependencies', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([
+          { id: 'a', title: 'A', data: {} },
+          { id: 'b', title: 'B', data: {} },
+          { id: 'c', title: 'C', data: {} },
+        ])
+        .mockResolvedValueOnce([
+          { src: 'a', dst: 'c', kind: 'family' },
+          { src: 'b', dst: 'c', kind: 'family' },
+          { src: 'c', dst: 'a', kind: 'depends_on' },
+          { src: 'c', dst: 'b', kind: 'depends_on' },
+          { src: 'a', dst: 'b', kind: 'depends_on' },
+          { src: 'b', dst: 'a', kind: 'depends_on' },
+          { src: 'a', dst: 'missing', kind: 'depends_on' },
+        ]);
+
+      const report = await GraphIntegrityService.validate();
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(issue => issue.type).sort()).toEqual([
+        'dangling_edge',
+        'dependency_cycle',
+        'multiple_parents',
+      ]);
+      const cycle = report.issues.find(issue => issue.type === 'dependency_cycle');
+      expect(cycle?.message).toBe('Dependency cycle: "A" → "B" → "A" (each must finish before the next)');
+    });
+
+    it('should flag parents that do not wait on their children as warnings only', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([
+          { id: 'p', title: 'Parent', data: {} },
+          { id: 'c', title: 'Child', data: {} },
+        ])
+        .mockResolvedValueOnce([{ src: 'p', dst: 'c', kind: 'family' }]);
+
+      const report = await GraphIntegrityService.validate();
+
+      expect(report.valid).toBe(true);
+      expect(report.warning_count).toBe(1);
+      expect(report.issues[0].type).toBe('missing_parent_dependency');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  OAuthClientsService,
+  isAllowedRedirectUri,
+  matchesRegisteredRedirectUri,
+} from '../../../lib/services/oauth-clients';
+import { hashToken } from '../../../lib/services/oauth';
+import { getDb } from '../../../lib/db/adapter';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const storedClient = {
+  clientId: 'mcp_client_1',
+  clientSecretHash: null as string | null,
+  clientName: 'Test Client',
+  clientUri: null,
+  redirectUris: ['https://client.example/callback', 'http://127.0.0.1/callback'],
+  grantTypes: ['authorization_code', 'refresh_token'],
+  tokenEndpointAuthMethod: 'none',
+  scope: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('OAuthClientsService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isAllowedRedirectUri', () => {
+    it('should allow https, loopback http and private-use schemes only', () => {
+      expect(isAllowedRedirectUri('https://client.example/callback')).toBe(true);
+      expect(isAllowedRedirectUri('http://localhost:8765/callback')).toBe(true);
+      expect(isAllowedRedirectUri('com.example.app:/callback')).toBe(true);
+      expect(isAllowedRedirectUri('http://client.example/callback')).toBe(false);
+      expect(isAllowedRedirectUri('https://client.example/callback#frag')).toBe(false);
+      expect(isAllowedRedirectUri('javascript:alert(1)')).toBe(false);
+    });
+  });
+
+  describe('matchesRegisteredRedirectUri', () => {
+    it('should require an exact match except for the port of loopback redirects', () => {
+      const registered = storedClient.redirectUris;
+      expect(matchesRegisteredRedirectUri(registered, 'https://client.example/callback')).toBe(true);
+      expect(matchesRegisteredRedirectUri(registered, 'https://client.example/callback/')).toBe(false);
+      expect(matchesRegisteredRedirectUri(registered, 'https://client.example:8443/callback')).toBe(false);
+      expect(matchesRegisteredRedirectUri(registered, 'http://127.0.0.1:51234/callback')).toBe(true);
+      expect(matchesRegisteredRedirectUri(registered, 'http://127.0.0.1:51234/other')).toBe(false);
+      expect(matchesRegisteredRedirectUri(registered, 'http://localhost:51234/callback')).toBe(false);
+    });
+  });
+
+  describe('register', () => {
+    it('should register a public client without a secret', async () => {
+      mockDb.returning.mockResolvedValueOnce([storedClient]);
+
+      const client = await OAuthClientsService.register({ redirect_uris: storedClient.redirectUris, client_name: 'Test Client' });
+
+      expect(client).toMatchObject({ client_id: 'mcp_client_1', token_endpoint_auth_method: 'none', client_id_issued_at: 1735689600 });
+      expect(client.client_secret).toBeUndefined();
+      expect(mockDb.values.mock.calls[0][0]).toMatchObject({ clientSecretHash: null, grantTypes: ['authorization_code', 'refresh_token'] });
+    });
+
+    it('should return the secret once and store only its hash for confidential clients', async () => {
+      mockDb.returning.mockImplementationOnce(() => {
+        const values = mockDb.values.mock.calls[0][0];
+        return Promise.resolve([{ ...storedClient, ...values, createdAt: storedClient.createdAt }]);
+      });
+
+      const client = await OAuthClientsService.register({
+        redirect_uris: ['https://client.example/callback'],
+        token_endpoint_auth_method: 'client_secret_basic',
+      });
+
+      expect(client.client_secret).toMatch(/^mcp_cs_/);
+      expect(client.client_secret_expires_at).toBe(0);
+      expect(mockDb.values.mock.calls[0][0].clientSecretHash).toBe(hashToken(client.client_secret!));
+    });
+
+    it('should reject missing or disallowed redirect URIs and unsupported metadata', async () => {
+      await expect(OAuthClientsService.register({})).rejects.toMatchObject({ error: 'invalid_redirect_uri' });
+      await expect(OAuthClientsService.register({ redirect_uris: ['http://evil.example/callback'] }))
+        .rejects.toMatchObject({ error: 'invalid_redirect_uri' });
+      await expect(OAuthClientsService.register({ redirect_uris: ['https://client.example/cb'], grant_types: ['implicit'] }))
+        .rejects.toMatchObject({ error: 'invalid_client_metadata' });
+      await expect(OAuthClientsService.register({ redirect_uris: ['https://client.example/cb'], token_endpoint_auth_method: 'private_key_jwt' }))
+        .rejects.toMatchObject({ error: 'invalid_client_metadata' });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertAuthorizationClient', () => {
+    it('should reject unknown clients and unregistered redirect URIs', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+      await expect(OAuthClientsService.assertAuthorizationClient('mcp_client_unknown', 'https://client.example/callback'))
+        .rejects.toMatchObject({ error: 'invalid_client' });
+
+      mockDb.limit.mockResolvedValueOnce([storedClient]);
+      await expect(OAuthClientsService.assertAuthorizationClient('mcp_client_1', 'https://evil.example/callback'))
+        .rejects.toThrow('redirect_uri is not registered');
+
+      mockDb.limit.mockResolvedValueOnce([storedClient]);
+      await expect(OAuthClientsService.assertAuthorizationClient('mcp_client_1', 'https://client.example/callback'))
+        .resolves.toMatchObject({ client_id: 'mcp_client_1', client_name: 'Test Client' });
+    });
+  });
+
+  describe('authenticateClient', () => {
+    it('should require the secret from confidential clients', async () => {
+      const confidential = { ...storedClient, clientSecretHash: hashToken('s3cret'), tokenEndpointAuthMethod: 'client_secret_post' };
+
+      mockDb.limit.mockResolvedValueOnce([confidential]);
+      await expect(OAuthClientsService.authenticateClient('mcp_client_1', 'wrong')).rejects.toMatchObject({ error: 'invalid_client', status: 401 });
+
+      mockDb.limit.mockResolvedValueOnce([confidential]);
+      await expect(OAuthClientsService.authenticateClient('mcp_client_1', undefined)).rejects.toMatchObject({ error: 'invalid_client' });
+
+      mockDb.limit.mockResolvedValueOnce([confidential]);
+      await expect(OAuthClientsService.authenticateClient('mcp_client_1', 's3cret')).resolves.toMatchObject({ client_id: 'mcp_client_1' });
+    });
+  });
+});
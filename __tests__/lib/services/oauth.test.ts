@@ -0,0 +1,229 @@
+import { createHash } from 'crypto';
+import {
+  OAuthService,
+  OAuthError,
+  assertValidAuthorizationRequest,
+  checkOwnerPassword,
+  hashToken,
+  verifyPkce,
+} from '../../../lib/services/oauth';
+import { getDb } from '../../../lib/db/adapter';
+import { oauthTokens } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const verifier = 'a'.repeat(20) + '-._~' + 'B'.repeat(25);
+const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+describe('OAuthService', () => {
+  let mockDb: any;
+  const originalPassword = process.env.OAUTH_OWNER_PASSWORD;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    if (originalPassword === undefined) {
+      delete process.env.OAUTH_OWNER_PASSWORD;
+    } else {
+      process.env.OAUTH_OWNER_PASSWORD = originalPassword;
+    }
+  });
+
+  describe('verifyPkce', () => {
+    it('should accept the verifier the S256 challenge was derived from', () => {
+      expect(verifyPkce(verifier, challenge)).toBe(true);
+      expect(verifyPkce(verifier.replace('a', 'c'), challenge)).toBe(false);
+    });
+
+    it('should reject verifiers outside the RFC 7636 length and alphabet', () => {
+      const short = 'a'.repeat(42);
+      expect(verifyPkce(short, createHash('sha256').update(short).digest('base64url'))).toBe(false);
+      const spaced = 'a'.repeat(42) + ' ';
+      expect(verifyPkce(spaced, createHash('sha256').update(spaced).digest('base64url'))).toBe(false);
+    });
+  });
+
+  describe('assertValidAuthorizationRequest', () => {
+    it('should require response_type=code and an S256 challenge', () => {
+      expect(() => assertValidAuthorizationRequest({ response_type: 'code', code_challenge: challenge, code_challenge_method: 'S256' })).not.toThrow();
+      expect(() => assertValidAuthorizationRequest({ response_type: 'token', code_challenge: challenge, code_challenge_method: 'S256' })).toThrow('response_type');
+      expect(() => assertValidAuthorizationRequest({ response_type: 'code', code_challenge_method: 'S256' })).toThrow('code_challenge is required');
+      expect(() => assertValidAuthorizationRequest({ response_type: 'code', code_challenge: verifier, code_challenge_method: 'plain' })).toThrow('S256');
+    });
+  });
+
+  describe('checkOwnerPassword', () => {
+    it('should compare against OAUTH_OWNER_PASSWORD when it is set', () => {
+      process.env.OAUTH_OWNER_PASSWORD = 'correct horse';
+      expect(checkOwnerPassword('correct horse')).toBe(true);
+      expect(checkOwnerPassword('battery staple')).toBe(false);
+      expect(checkOwnerPassword(null)).toBe(false);
+    });
+  });
+
+  describe('createAuthorizationCode', () => {
+    it('should store only the hash of the code it returns', async () => {
+      const code = await OAuthService.createAuthorizationCode({
+        client_id: 'client-1',
+        redirect_uri: 'https://client.example/callback',
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+      });
+
+      const stored = mockDb.values.mock.calls[0][0];
+      expect(stored.codeHash).toBe(hashToken(code));
+      expect(JSON.stringify(stored)).not.toContain(code);
+      expect(stored).toMatchObject({ clientId: 'client-1', codeChallenge: challenge, scope: 'mcp' });
+    });
+
+    it('should bind the code to the approving organization and user', async () => {
+      await OAuthService.createAuthorizationCode({
+        client_id: 'client-1',
+        redirect_uri: 'https://client.example/callback',
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+      }, { organization_id: 'org-2', user_id: 'user-1' });
+
+      expect(mockDb.values.mock.calls[0][0]).toMatchObject({ organizationId: 'org-2', userId: 'user-1' });
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    const storedCode = {
+      id: 'code-1',
+      clientId: 'client-1',
+      redirectUri: 'https://client.example/callback',
+      codeChallenge: challenge,
+      scope: 'mcp',
+      organizationId: 'org-2',
+      userId: 'user-1',
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    const exchange = { code: 'the-code', client_id: 'client-1', redirect_uri: 'https://client.example/callback', code_verifier: verifier };
+
+    it('should issue hashed access and refresh tokens for a valid verifier', async () => {
+      mockDb.returning.mockResolvedValueOnce([storedCode]);
+
+      const tokens = await OAuthService.exchangeAuthorizationCode(exchange);
+
+      expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'mcp' });
+      expect(mockDb.insert).toHaveBeenCalledWith(oauthTokens);
+      expect(mockDb.values.mock.calls[0][0]).toMatchObject({
+        accessTokenHash: hashToken(tokens.access_token),
+        refreshTokenHash: hashToken(tokens.refresh_token),
+        authorizationCodeId: 'code-1',
+        organizationId: 'org-2',
+        userId: 'user-1',
+      });
+    });
+
+    it('should reject a verifier that does not match the challenge', async () => {
+      mockDb.returning.mockResolvedValueOnce([storedCode]);
+
+      await expect(OAuthService.exchangeAuthorizationCode({ ...exchange, code_verifier: 'x'.repeat(43) }))
+        .rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a different redirect_uri', async () => {
+      mockDb.returning.mockResolvedValueOnce([storedCode]);
+
+      await expect(OAuthService.exchangeAuthorizationCode({ ...exchange, redirect_uri: 'https://evil.example/callback' }))
+        .rejects.toThrow('redirect_uri does not match');
+    });
+
+    it('should revoke tokens issued for a code that is replayed', async () => {
+      mockDb.returning.mockResolvedValueOnce([]);
+      mockDb.limit.mockResolvedValueOnce([storedCode]);
+
+      const attempt = OAuthService.exchangeAuthorizationCode(exchange);
+
+      await expect(attempt).rejects.toBeInstanceOf(OAuthError);
+      expect(mockDb.update).toHaveBeenLastCalledWith(oauthTokens);
+      expect(mockDb.set).toHaveBeenLastCalledWith({ revokedAt: expect.any(Date) });
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    const storedToken = {
+      id: 'token-1',
+      clientId: 'client-1',
+      scope: 'mcp',
+      authorizationCodeId: 'code-1',
+      organizationId: 'org-2',
+      userId: 'user-1',
+      refreshExpiresAt: new Date(Date.now() + 60_000),
+    };
+
+    it('should rotate the pair for the client it was issued to', async () => {
+      mockDb.limit.mockResolvedValueOnce([storedToken]);
+      mockDb.returning.mockResolvedValueOnce([{ id: 'token-1' }]);
+
+      const tokens = await OAuthService.refreshAccessToken({ refresh_token: 'mcp_rt_live', client_id: 'client-1' });
+
+      expect(mockDb.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+      expect(mockDb.values.mock.calls[0][0]).toMatchObject({
+        clientId: 'client-1',
+        refreshTokenHash: hashToken(tokens.refresh_token),
+        authorizationCodeId: 'code-1',
+      });
+    });
+
+    it('should require a client_id, and reject one the token was not issued to', async () => {
+      await expect(OAuthService.refreshAccessToken({ refresh_token: 'mcp_rt_live', client_id: '' }))
+        .rejects.toMatchObject({ error: 'invalid_request' });
+
+      mockDb.limit.mockResolvedValueOnce([storedToken]);
+      await expect(OAuthService.refreshAccessToken({ refresh_token: 'mcp_rt_live', client_id: 'client-2' }))
+        .rejects.toThrow('Refresh token was issued to a different client');
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    it('should look tokens up by hash and return null when none is live', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+      await expect(OAuthService.verifyAccessToken('mcp_at_unknown')).resolves.toBeNull();
+
+      const token = { id: 'token-1', clientId: 'client-1', scope: 'mcp', organizationId: 'org-2', userId: null, accessExpiresAt: new Date('2099-01-01T00:00:00Z') };
+      mockDb.limit.mockResolvedValueOnce([{ token, role: null }]);
+      await expect(OAuthService.verifyAccessToken('mcp_at_live')).resolves.toEqual({
+        token_id: 'token-1',
+        client_id: 'client-1',
+        scope: 'mcp',
+        expires_at: '2099-01-01T00:00:00.000Z',
+        organization_id: 'org-2',
+        user_id: null,
+        role: 'owner',
+      });
+    });
+
+    it('should return the user\'s role, and reject tokens of users who left the organization', async () => {
+      const token = { id: 'token-1', clientId: 'client-1', scope: 'mcp', organizationId: 'org-2', userId: 'user-1', accessExpiresAt: new Date('2099-01-01T00:00:00Z') };
+
+      mockDb.limit.mockResolvedValueOnce([{ token, role: 'viewer' }]);
+      await expect(OAuthService.verifyAccessToken('mcp_at_live')).resolves.toMatchObject({ user_id: 'user-1', role: 'viewer' });
+
+      mockDb.limit.mockResolvedValueOnce([{ token, role: null }]);
+      await expect(OAuthService.verifyAccessToken('mcp_at_live')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  OrganizationsService,
+  SignInError,
+  hashPassword,
+  verifyPassword,
+} from '../../../lib/services/organizations';
+import { getDb } from '../../../lib/db/adapter';
+import { memberships, users } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const storedUser = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  passwordHash: hashPassword('correct horse'),
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+};
+
+const membership = (slug: string) => ({
+  organization_id: `org-${slug}`,
+  organization_name: slug,
+  organization_slug: slug,
+  role: 'member' as const,
+});
+
+describe('OrganizationsService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      onConflictDoUpdate: jest.fn().mockResolvedValue(undefined),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('password hashing', () => {
+    it('should verify only the password the hash was made from', () => {
+      const hash = hashPassword('correct horse');
+
+      expect(hash).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+      expect(hash).not.toBe(hashPassword('correct horse'));
+      expect(verifyPassword('correct horse', hash)).toBe(true);
+      expect(verifyPassword('battery staple', hash)).toBe(false);
+      expect(verifyPassword('correct horse', null)).toBe(false);
+    });
+  });
+
+  describe('createOrganization', () => {
+    it('should normalize the slug and reject taken or malformed slugs', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+      mockDb.returning.mockResolvedValueOnce([{ id: 'org-1', name: 'Acme', slug: 'acme', createdAt: new Date('2025-01-01T00:00:00Z') }]);
+
+      await expect(OrganizationsService.createOrganization({ name: 'Acme', slug: ' Acme ' }))
+        .resolves.toMatchObject({ id: 'org-1', slug: 'acme' });
+      expect(mockDb.values).toHaveBeenCalledWith({ name: 'Acme', slug: 'acme' });
+
+      mockDb.limit.mockResolvedValueOnce([{ id: 'org-1', name: 'Acme', slug: 'acme', createdAt: new Date() }]);
+      await expect(OrganizationsService.createOrganization({ name: 'Acme again', slug: 'acme' })).rejects.toThrow('already exists');
+
+      await expect(OrganizationsService.createOrganization({ name: 'Bad', slug: 'no spaces' })).rejects.toThrow('slug');
+    });
+  });
+
+  describe('createUser', () => {
+    it('should store a lowercase email and a password hash', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+      mockDb.returning.mockResolvedValueOnce([storedUser]);
+
+      await OrganizationsService.createUser({ email: 'Ada@Example.com', name: 'Ada', password: 'correct horse' });
+
+      expect(mockDb.insert).toHaveBeenCalledWith(users);
+      const stored = mockDb.values.mock.calls[0][0];
+      expect(stored.email).toBe('ada@example.com');
+      expect(verifyPassword('correct horse', stored.passwordHash)).toBe(true);
+    });
+
+    it('should reject short passwords', async () => {
+      await expect(OrganizationsService.createUser({ email: 'ada@example.com', password: 'short' })).rejects.toThrow('at least 8');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember', () => {
+    it('should upsert the membership role', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ id: 'org-1', name: 'Acme', slug: 'acme' }]);
+
+      const result = await OrganizationsService.addMember({ user_id: 'user-1', organization_id: 'org-1', role: 'admin' });
+
+      expect(result).toEqual({ organization_id: 'org-1', organization_name: 'Acme', organization_slug: 'acme', role: 'admin' });
+      expect(mockDb.insert).toHaveBeenCalledWith(memberships);
+      expect(mockDb.onConflictDoUpdate).toHaveBeenCalledWith(expect.objectContaining({ set: { role: 'admin' } }));
+    });
+
+    it('should reject unknown roles', async () => {
+      await expect(OrganizationsService.addMember({ user_id: 'user-1', organization_id: 'org-1', role: 'superuser' as any }))
+        .rejects.toThrow('Invalid role');
+    });
+  });
+
+  describe('signIn', () => {
+    it('should reject unknown users and wrong passwords with the same error', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+      await expect(OrganizationsService.signIn({ email: 'nobody@example.com', password: 'correct horse' }))
+        .rejects.toThrow(new SignInError('Incorrect email or password'));
+
+      mockDb.limit.mockResolvedValueOnce([storedUser]);
+      await expect(OrganizationsService.signIn({ email: 'ada@example.com', password: 'battery staple' }))
+        .rejects.toThrow(new SignInError('Incorrect email or password'));
+    });
+
+    it('should pick the only membership, or the one named by slug', async () => {
+      mockDb.limit.mockResolvedValueOnce([storedUser]);
+      mockDb.orderBy.mockResolvedValueOnce([membership('acme')]);
+      await expect(OrganizationsService.signIn({ email: 'ADA@example.com', password: 'correct horse' }))
+        .resolves.toMatchObject({ user: { id: 'user-1' }, membership: { organization_id: 'org-acme' } });
+
+      mockDb.limit.mockResolvedValueOnce([storedUser]);
+      mockDb.orderBy.mockResolvedValueOnce([membership('acme'), membership('globex')]);
+      await expect(OrganizationsService.signIn({ email: 'ada@example.com', password: 'correct horse', organization_slug: 'Globex' }))
+        .resolves.toMatchObject({ membership: { organization_id: 'org-globex' } });
+    });
+
+    it('should ask for a workspace when the user belongs to several, and refuse ones they do not', async () => {
+      mockDb.limit.mockResolvedValueOnce([storedUser]);
+      mockDb.orderBy.mockResolvedValueOnce([membership('acme'), membership('globex')]);
+      await expect(OrganizationsService.signIn({ email: 'ada@example.com', password: 'correct horse' }))
+        .rejects.toThrow('Choose a workspace: acme, globex');
+
+      mockDb.limit.mockResolvedValueOnce([storedUser]);
+      mockDb.orderBy.mockResolvedValueOnce([membership('acme')]);
+      await expect(OrganizationsService.signIn({ email: 'ada@example.com', password: 'correct horse', organization_slug: 'initech' }))
+        .rejects.toThrow('not a member of the "initech" workspace');
+    });
+  });
+});
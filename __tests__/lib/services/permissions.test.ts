@@ -0,0 +1,153 @@
+import {
+  PermissionDeniedError,
+  actionIdsInArgs,
+  assertCanMoveInSubtree,
+  assertRole,
+  isInSubtree,
+  requiredDeleteRole,
+  requiredToolRole,
+  scopeToolArgs,
+} from '../../../lib/services/permissions';
+import { runWithOrganization } from '../../../lib/db/organization-context';
+import { getDb } from '../../../lib/db/adapter';
+import { hasRole, roleForScopes, scopesForRole, type OrganizationRole } from '../../../lib/utils/organization-roles';
+
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const asRole = (role: OrganizationRole, fn: () => void) =>
+  runWithOrganization({ organizationId: 'org-1', userId: 'user-1', role, scopes: scopesForRole(role) }, fn);
+
+const inSubtree = <T>(fn: () => Promise<T>) =>
+  runWithOrganization({ organizationId: 'org-1', userId: 'user-1', role: 'member', scopes: ['read', 'write'], rootActionId: 'project' }, fn);
+
+// project → task → subtask, and an unrelated elsewhere → other
+const parents: Record<string, string> = { task: 'project', subtask: 'task', other: 'elsewhere' };
+
+describe('permissions', () => {
+  describe('hasRole', () => {
+    it('should rank owner > admin > member > viewer', () => {
+      expect(hasRole('owner', 'admin')).toBe(true);
+      expect(hasRole('admin', 'admin')).toBe(true);
+      expect(hasRole('member', 'admin')).toBe(false);
+      expect(hasRole('viewer', 'member')).toBe(false);
+      expect(hasRole('viewer', 'viewer')).toBe(true);
+    });
+  });
+
+  describe('token scopes', () => {
+    it('should map scopes to roles and back', () => {
+      expect(roleForScopes(['read'])).toBe('viewer');
+      expect(roleForScopes(['read', 'write'])).toBe('member');
+      expect(roleForScopes(['write', 'admin'])).toBe('admin');
+      expect(scopesForRole('owner')).toEqual(['read', 'write', 'admin']);
+      expect(scopesForRole('member')).toEqual(['read', 'write']);
+      expect(scopesForRole('viewer')).toEqual(['read']);
+    });
+  });
+
+  describe('requiredToolRole', () => {
+    it('should let viewers use read-only tools only', () => {
+      expect(requiredToolRole('search_actions')).toBe('viewer');
+      expect(requiredToolRole('get_work_log')).toBe('viewer');
+      for (const tool of ['create_action', 'update_action', 'delete_action', 'complete_action', 'log_work']) {
+        expect(requiredToolRole(tool)).toBe('member');
+      }
+    });
+  });
+
+  describe('requiredDeleteRole', () => {
+    it('should require admin to delete a subtree', () => {
+      expect(requiredDeleteRole('delete_recursive')).toBe('admin');
+      expect(requiredDeleteRole('reparent')).toBe('member');
+      expect(requiredDeleteRole(undefined)).toBe('member');
+    });
+  });
+
+  describe('assertRole', () => {
+    it('should check the role of the current organization context', () => {
+      asRole('viewer', () => {
+        expect(() => assertRole('member', 'create_action')).toThrow(PermissionDeniedError);
+        expect(() => assertRole('member', 'create_action')).toThrow('create_action requires the member role or higher - this token has the viewer role');
+        expect(() => assertRole('viewer', 'search_actions')).not.toThrow();
+      });
+      asRole('member', () => {
+        expect(() => assertRole(requiredDeleteRole('delete_recursive'), 'delete_action')).toThrow(PermissionDeniedError);
+      });
+      asRole('admin', () => {
+        expect(() => assertRole(requiredDeleteRole('delete_recursive'), 'delete_action')).not.toThrow();
+      });
+    });
+
+    it('should treat unscoped callers as owners', () => {
+      expect(() => assertRole('owner', 'anything')).not.toThrow();
+    });
+  });
+
+  describe('subtree tokens', () => {
+    beforeEach(() => {
+      // Each lookup walks one family edge up from the child named in the query
+      let child: string;
+      const db: any = {
+        select: jest.fn().mockReturnThis(),
+        from: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        limit: jest.fn(async () => (parents[child] ? [{ src: parents[child] }] : [])),
+      };
+      db.where.mockImplementation((condition: any) => {
+        child = JSON.stringify(condition, (_key, value) => (typeof value === 'object' && value?.table ? undefined : value))
+          .match(/"value":"([a-z]+)"/)![1];
+        return db;
+      });
+      mockGetDb.mockReturnValue(db);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should find actions under the root by walking up family edges', async () => {
+      await expect(isInSubtree('subtask', 'project')).resolves.toBe(true);
+      await expect(isInSubtree('project', 'project')).resolves.toBe(true);
+      await expect(isInSubtree('other', 'project')).resolves.toBe(false);
+    });
+
+    it('should collect every action ID a tool call names', () => {
+      expect(actionIdsInArgs({ action_id: 'a', depends_on_ids: ['b', 'c'], title: 'not an id' })).toEqual(['a', 'b', 'c']);
+      expect(actionIdsInArgs(null)).toEqual([]);
+    });
+
+    it('should reject tool calls that reach outside the subtree', async () => {
+      await inSubtree(async () => {
+        await expect(scopeToolArgs('update_action', { action_id: 'subtask' })).resolves.toEqual({ action_id: 'subtask' });
+        await expect(scopeToolArgs('add_dependency', { action_id: 'task', depends_on_id: 'other' }))
+          .rejects.toThrow('add_dependency is limited to action project and its descendants - other is outside that subtree');
+        await expect(scopeToolArgs('create_action', { title: 'New', family_id: 'elsewhere' })).rejects.toThrow(PermissionDeniedError);
+      });
+    });
+
+    it('should keep the subtree root in place and claim from the subtree by default', async () => {
+      await inSubtree(async () => {
+        await expect(scopeToolArgs('claim_next_action', {})).resolves.toEqual({ scope_id: 'project' });
+        await expect(scopeToolArgs('delete_action', { action_id: 'project' })).rejects.toThrow('root of this token');
+        await expect(scopeToolArgs('join_family', { action_id: 'task' })).rejects.toThrow('needs new_family_id');
+      });
+    });
+
+    it('should refuse moves that would take an action out of the subtree', async () => {
+      await inSubtree(async () => {
+        expect(() => assertCanMoveInSubtree('task', null, 'PUT /api/actions/task')).toThrow('PUT /api/actions/task needs new_family_id');
+        expect(() => assertCanMoveInSubtree('task', undefined, 'join_family')).toThrow(PermissionDeniedError);
+        expect(() => assertCanMoveInSubtree('project', 'task', 'join_family')).toThrow('root of this token');
+        expect(() => assertCanMoveInSubtree('subtask', 'project', 'join_family')).not.toThrow();
+      });
+    });
+
+    it('should leave callers without a subtree alone', async () => {
+      expect(() => assertCanMoveInSubtree('task', null, 'join_family')).not.toThrow();
+      await expect(scopeToolArgs('add_dependency', { action_id: 'task', depends_on_id: 'other' }))
+        .resolves.toEqual({ action_id: 'task', depends_on_id: 'other' });
+      expect(mockGetDb).not.toHaveBeenCalled();
+    });
+  });
+});
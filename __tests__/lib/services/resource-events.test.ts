@@ -0,0 +1,143 @@
+import { ResourceEventsService, isSubscribableResource, resourceUrisForChange, type ResourceUpdate } from '../../../lib/services/resource-events';
+import { runWithOrganization, type OrganizationContext } from '../../../lib/db/organization-context';
+import { afterCommit, getDb } from '../../../lib/db/adapter';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+const mockAfterCommit = afterCommit as jest.MockedFunction<typeof afterCommit>;
+
+const ROOT = '00000000-0000-4000-8000-00000000000a';
+const PROJECT = '00000000-0000-4000-8000-00000000000b';
+const TASK = '00000000-0000-4000-8000-00000000000c';
+const DEPENDENT = '00000000-0000-4000-8000-00000000000d';
+const OLD_PROJECT = '00000000-0000-4000-8000-00000000000e';
+
+// ROOT > PROJECT > TASK and ROOT > OLD_PROJECT, and DEPENDENT depends on TASK
+const taskEdges = [{ src: PROJECT, dst: TASK }, { src: TASK, dst: PROJECT }, { src: TASK, dst: DEPENDENT }];
+
+const member: OrganizationContext = { organizationId: 'org-1', userId: 'user-1', role: 'member', scopes: ['read', 'write'] };
+
+describe('ResourceEventsService', () => {
+  let mockDb: any;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.REDIS_URL;
+    // The neighbour lookup resolves from where(); family lookups walk up one parent per limit()
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn(() => Object.assign(Promise.resolve(taskEdges), { limit: mockDb.limit })),
+      limit: jest.fn()
+        .mockResolvedValueOnce([{ src: PROJECT }])
+        .mockResolvedValueOnce([{ src: ROOT }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ src: ROOT }])
+        .mockResolvedValueOnce([]),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+    // Outside a transaction afterCommit runs the callback straight away
+    mockAfterCommit.mockImplementation(callback => callback());
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.clearAllMocks();
+  });
+
+  describe('isSubscribableResource', () => {
+    it('should accept single actions, subtrees, unblocked work and completion logs', () => {
+      expect(isSubscribableResource(`actions://${TASK}`)).toBe(true);
+      expect(isSubscribableResource(`actions://tree/${PROJECT}`)).toBe(true);
+      expect(isSubscribableResource('actions://unblocked?session_id=abc')).toBe(true);
+      expect(isSubscribableResource('actions://done')).toBe(true);
+      expect(isSubscribableResource('actions://list')).toBe(false);
+      expect(isSubscribableResource('actions://tree')).toBe(false);
+      expect(isSubscribableResource(`actions://context/${TASK}`)).toBe(false);
+    });
+  });
+
+  describe('resourceUrisForChange', () => {
+    it('should cover the action, its neighbours, every subtree holding it and completion logs', async () => {
+      const uris = await runWithOrganization(member, () => resourceUrisForChange({
+        actionId: TASK,
+        changeType: 'completed',
+        changes: { done: { from: false, to: true } },
+      }));
+
+      expect(uris.sort()).toEqual([
+        `actions://${TASK}`,
+        `actions://${PROJECT}`,
+        `actions://${DEPENDENT}`,
+        `actions://tree/${TASK}`,
+        `actions://tree/${PROJECT}`,
+        `actions://tree/${ROOT}`,
+        'actions://unblocked',
+        'actions://done',
+      ].sort());
+    });
+
+    it('should include the subtrees an action moved out of', async () => {
+      const uris = await runWithOrganization(member, () => resourceUrisForChange({
+        actionId: TASK,
+        changeType: 'family_changed',
+        changes: { parent_id: { from: OLD_PROJECT, to: PROJECT } },
+      }));
+
+      expect(uris).toContain(`actions://${OLD_PROJECT}`);
+      expect(uris).toContain(`actions://tree/${OLD_PROJECT}`);
+      expect(uris).not.toContain('actions://done');
+    });
+  });
+
+  describe('actionChanged', () => {
+    it('should skip the lookups while no one is listening', async () => {
+      await runWithOrganization(member, () => ResourceEventsService.actionChanged({ actionId: TASK, changeType: 'updated', changes: {} }));
+
+      expect(mockGetDb).not.toHaveBeenCalled();
+    });
+
+    it('should deliver updates in the caller\'s organization to listeners until they stop', async () => {
+      const updates: ResourceUpdate[] = [];
+      const stop = ResourceEventsService.subscribe(update => updates.push(update));
+
+      await runWithOrganization(member, () => ResourceEventsService.actionChanged({ actionId: TASK, changeType: 'updated', changes: {} }));
+      stop();
+      await runWithOrganization(member, () => ResourceEventsService.actionChanged({ actionId: TASK, changeType: 'updated', changes: {} }));
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0].organizationId).toBe('org-1');
+      expect(updates[0].uris).toContain(`actions://tree/${ROOT}`);
+    });
+
+    it('should notify the subtrees that held a deleted action once the deletion commits', async () => {
+      const updates: ResourceUpdate[] = [];
+      const stop = ResourceEventsService.subscribe(update => updates.push(update));
+      const pending: Array<() => Promise<void>> = [];
+      mockAfterCommit.mockImplementation(async callback => { pending.push(callback); });
+
+      await runWithOrganization(member, () => ResourceEventsService.actionChanged({ actionId: TASK, changeType: 'deleted', changes: {} }));
+      // The deletion then moves TASK to the trash, taking its edges with it, before the transaction commits
+      mockDb.where.mockImplementation(() => Object.assign(Promise.resolve([]), { limit: jest.fn().mockResolvedValue([]) }));
+      expect(updates).toHaveLength(0);
+      for (const callback of pending) await callback();
+      stop();
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0].uris).toEqual(expect.arrayContaining([`actions://tree/${PROJECT}`, `actions://tree/${ROOT}`, 'actions://done']));
+    });
+
+    it('should not notify anyone when the mutation rolls back', async () => {
+      const updates: ResourceUpdate[] = [];
+      const stop = ResourceEventsService.subscribe(update => updates.push(update));
+      mockAfterCommit.mockImplementation(async () => {});
+
+      await runWithOrganization(member, () => ResourceEventsService.actionChanged({ actionId: TASK, changeType: 'updated', changes: {} }));
+      stop();
+
+      expect(updates).toHaveLength(0);
+    });
+  });
+});
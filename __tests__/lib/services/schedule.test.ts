@@ -0,0 +1,101 @@
+import { ScheduleService } from '../../../lib/services/schedule';
+import { getDb } from '../../../lib/db/adapter';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+function row(id: string, fields: Record<string, any> = {}) {
+  return {
+    id,
+    title: `Title ${id}`,
+    data: { title: `Title ${id}` },
+    done: false,
+    status: 'todo',
+    priority: null,
+    startDate: null,
+    dueDate: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...fields,
+  };
+}
+
+describe('ScheduleService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getOverdueActions', () => {
+    it('should report how many days each action is overdue along with its parent', async () => {
+      mockDb.limit.mockResolvedValueOnce([
+        row('late', { dueDate: '2025-05-01', status: 'in_progress' }),
+      ]);
+      mockDb.where
+        .mockReturnValueOnce(mockDb)
+        .mockResolvedValueOnce([{ parentId: 'release', childId: 'late' }])
+        .mockResolvedValueOnce([{ id: 'release', title: 'Release 2.0', data: {} }]);
+
+      const result = await ScheduleService.getOverdueActions({ today: '2025-05-04' });
+
+      expect(result).toEqual({
+        today: '2025-05-04',
+        total: 1,
+        overdue: [{
+          id: 'late',
+          title: 'Title late',
+          status: 'in_progress',
+          priority: null,
+          start_date: null,
+          due_date: '2025-05-01',
+          days_until_due: -3,
+          parent_id: 'release',
+          parent_title: 'Release 2.0',
+        }],
+      });
+    });
+  });
+
+  describe('getUpcomingActions', () => {
+    it('should order by whichever of start or due date comes first', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([
+          row('due-soon', { dueDate: '2025-05-06' }),
+          row('starts-tomorrow', { startDate: '2025-05-05', dueDate: '2025-05-20' }),
+          row('due-later', { dueDate: '2025-05-10' }),
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await ScheduleService.getUpcomingActions({ today: '2025-05-04', days: 7 });
+
+      expect(result.until).toBe('2025-05-11');
+      expect(result.upcoming.map(action => action.id)).toEqual(['starts-tomorrow', 'due-soon', 'due-later']);
+      expect(result.upcoming[0].days_until_due).toBe(16);
+    });
+
+    it('should apply the limit after sorting', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([
+          row('b', { dueDate: '2025-05-09' }),
+          row('a', { dueDate: '2025-05-05' }),
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await ScheduleService.getUpcomingActions({ today: '2025-05-04', limit: 1 });
+
+      expect(result.upcoming.map(action => action.id)).toEqual(['a']);
+    });
+  });
+});
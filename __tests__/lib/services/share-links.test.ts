@@ -0,0 +1,120 @@
+import { DEFAULT_SHARE_LINK_TTL_DAYS, ShareLinksService } from '../../../lib/services/share-links';
+import { PermissionDeniedError } from '../../../lib/services/permissions';
+import { hashToken } from '../../../lib/services/oauth';
+import { runWithOrganization, type OrganizationContext } from '../../../lib/db/organization-context';
+import { getDb } from '../../../lib/db/adapter';
+import { shareLinks } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const member: OrganizationContext = { organizationId: 'org-1', userId: 'user-1', role: 'member', scopes: ['read', 'write'] };
+
+const storedLink = (overrides: Partial<typeof shareLinks.$inferSelect> = {}) => ({
+  id: 'link-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  actionId: 'action-1',
+  kind: 'done',
+  tokenHash: 'hash',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  revokedAt: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ShareLinksService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only a hash and return a link with the raw token once', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ id: 'action-1' }]).mockResolvedValueOnce([{ id: 'context-1' }]);
+      mockDb.returning.mockImplementationOnce(async () => [storedLink(mockDb.values.mock.calls[0][0])]);
+
+      const link = await runWithOrganization(member, () => ShareLinksService.create({ kind: 'done', action_id: 'action-1' }));
+
+      expect(mockDb.insert).toHaveBeenCalledWith(shareLinks);
+      const stored = mockDb.values.mock.calls[0][0];
+      expect(stored).toMatchObject({ organizationId: 'org-1', userId: 'user-1', actionId: 'action-1', kind: 'done' });
+      expect(stored.tokenHash).toBe(hashToken(link.token));
+      expect(stored).not.toHaveProperty('token');
+      expect(link.url).toBe(`/done/action-1?share=${link.token}`);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now() + (DEFAULT_SHARE_LINK_TTL_DAYS - 1) * 24 * 60 * 60 * 1000);
+    });
+
+    it('should need the member role and a completed action for done links', async () => {
+      const viewer: OrganizationContext = { ...member, role: 'viewer', scopes: ['read'] };
+      await expect(runWithOrganization(viewer, () => ShareLinksService.create({ kind: 'tree', action_id: 'action-1' })))
+        .rejects.toThrow(PermissionDeniedError);
+
+      mockDb.limit.mockResolvedValueOnce([{ id: 'action-1' }]).mockResolvedValueOnce([]);
+      await expect(runWithOrganization(member, () => ShareLinksService.create({ kind: 'done', action_id: 'action-1' })))
+        .rejects.toThrow('has no completion page to share');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expiries beyond the maximum', async () => {
+      mockDb.limit.mockResolvedValueOnce([{ id: 'action-1' }]);
+
+      await expect(runWithOrganization(member, () => ShareLinksService.create({ kind: 'tree', action_id: 'action-1', expires_in_days: 365 })))
+        .rejects.toThrow('expires_in_days must be a whole number of days between 1 and 90');
+    });
+  });
+
+  describe('contextFor', () => {
+    it('should grant read-only access to the shared action', async () => {
+      mockDb.limit.mockResolvedValueOnce([storedLink()]);
+
+      await expect(ShareLinksService.contextFor('done_sl_abc', 'done', 'action-1')).resolves.toEqual({
+        organizationId: 'org-1',
+        userId: null,
+        role: 'viewer',
+        scopes: ['read'],
+        rootActionId: 'action-1',
+      });
+    });
+
+    it('should reject other tokens, kinds, actions and expired links', async () => {
+      await expect(ShareLinksService.contextFor('mcp_pat_abc', 'done', 'action-1')).resolves.toBeNull();
+      expect(mockDb.select).not.toHaveBeenCalled();
+
+      mockDb.limit.mockResolvedValueOnce([storedLink()]);
+      await expect(ShareLinksService.contextFor('done_sl_abc', 'tree', 'action-1')).resolves.toBeNull();
+
+      mockDb.limit.mockResolvedValueOnce([storedLink()]);
+      await expect(ShareLinksService.contextFor('done_sl_abc', 'done', 'action-2')).resolves.toBeNull();
+
+      mockDb.limit.mockResolvedValueOnce([storedLink({ expiresAt: new Date('2020-01-01T00:00:00Z') })]);
+      await expect(ShareLinksService.contextFor('done_sl_abc', 'done', 'action-1')).resolves.toBeNull();
+    });
+
+    it('should open descendants of a shared tree', async () => {
+      mockDb.limit
+        .mockResolvedValueOnce([storedLink({ kind: 'tree' })])
+        .mockResolvedValueOnce([{ src: 'action-1' }]);
+
+      await expect(ShareLinksService.contextFor('done_sl_abc', 'tree', 'child-1')).resolves.toMatchObject({ rootActionId: 'action-1' });
+    });
+  });
+});
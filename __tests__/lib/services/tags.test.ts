@@ -0,0 +1,98 @@
+import { TagsService, normalizeTag, parseTagFilter, matchesTagFilter } from '../../../lib/services/tags';
+import { getDb } from '../../../lib/db/adapter';
+import { actionTags, tags } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+describe('TagsService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn(),
+      groupBy: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      onConflictDoNothing: jest.fn().mockResolvedValue(undefined),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('normalizeTag', () => {
+    it('should lowercase, strip a leading # and hyphenate whitespace', () => {
+      expect(normalizeTag(' #Front End ')).toBe('front-end');
+      expect(normalizeTag('v2.1')).toBe('v2.1');
+      expect(normalizeTag('area:api/auth')).toBe('area:api/auth');
+    });
+
+    it('should reject empty tags and unsupported characters', () => {
+      expect(() => normalizeTag('  ')).toThrow('Tag names cannot be empty');
+      expect(() => normalizeTag('urgent!')).toThrow('may only contain');
+      expect(() => normalizeTag('x'.repeat(51))).toThrow('longer than 50 characters');
+    });
+  });
+
+  describe('parseTagFilter', () => {
+    it('should parse a comma-separated list and default to matching any tag', () => {
+      expect(parseTagFilter('Frontend, v2,,frontend')).toEqual({ tags: ['frontend', 'v2'], match: 'any' });
+      expect(parseTagFilter('a,b', 'all')).toEqual({ tags: ['a', 'b'], match: 'all' });
+      expect(parseTagFilter('')).toBeUndefined();
+      expect(parseTagFilter(null)).toBeUndefined();
+    });
+  });
+
+  describe('matchesTagFilter', () => {
+    it('should require one tag for any and every tag for all', () => {
+      expect(matchesTagFilter(['frontend'], { tags: ['frontend', 'v2'] })).toBe(true);
+      expect(matchesTagFilter(['frontend'], { tags: ['frontend', 'v2'], match: 'all' })).toBe(false);
+      expect(matchesTagFilter(['frontend', 'v2'], { tags: ['V2', 'frontend'], match: 'all' })).toBe(true);
+      expect(matchesTagFilter([], { tags: ['frontend'] })).toBe(false);
+    });
+  });
+
+  describe('getActionIdsWithTags', () => {
+    it('should only keep actions carrying every tag when matching all', async () => {
+      mockDb.groupBy.mockResolvedValue([
+        { actionId: 'both', matched: 2 },
+        { actionId: 'one', matched: 1 },
+      ]);
+
+      await expect(TagsService.getActionIdsWithTags({ tags: ['a', 'b'], match: 'all' })).resolves.toEqual(['both']);
+      await expect(TagsService.getActionIdsWithTags({ tags: ['a', 'b'] })).resolves.toEqual(['both', 'one']);
+    });
+  });
+
+  describe('attachTags', () => {
+    it('should create and attach only the tags the action does not have yet', async () => {
+      mockDb.orderBy.mockResolvedValueOnce([{ actionId: 'action-1', name: 'frontend' }]);
+      mockDb.where
+        .mockReturnValueOnce(mockDb)
+        .mockResolvedValueOnce([{ id: 'tag-v2', name: 'v2' }]);
+
+      const added = await TagsService.attachTags('action-1', ['Frontend', 'v2']);
+
+      expect(added).toEqual(['v2']);
+      expect(mockDb.insert).toHaveBeenNthCalledWith(1, tags);
+      expect(mockDb.values).toHaveBeenNthCalledWith(1, [{ name: 'v2' }]);
+      expect(mockDb.insert).toHaveBeenNthCalledWith(2, actionTags);
+      expect(mockDb.values).toHaveBeenNthCalledWith(2, [{ actionId: 'action-1', tagId: 'tag-v2' }]);
+    });
+
+    it('should not write anything when every tag is already attached', async () => {
+      mockDb.orderBy.mockResolvedValueOnce([{ actionId: 'action-1', name: 'frontend' }]);
+
+      await expect(TagsService.attachTags('action-1', ['#frontend'])).resolves.toEqual([]);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { TrashService, getTrashRetentionDays } from '../../../lib/services/trash';
+import { getDb, withTransaction } from '../../../lib/db/adapter';
+import { actions, actionTrash, edges } from '../../../db/schema';
+import { GraphIntegrityService, GraphCycleError } from '../../../lib/services/graph-integrity';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+jest.mock('../../../lib/services/graph-integrity', () => ({
+  ...jest.requireActual('../../../lib/services/graph-integrity'),
+  GraphIntegrityService: { assertCanSetParent: jest.fn(), assertCanAddDependency: jest.fn() },
+}));
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockAssertCanSetParent = GraphIntegrityService.assertCanSetParent as jest.MockedFunction<typeof GraphIntegrityService.assertCanSetParent>;
+const mockAssertCanAddDependency = GraphIntegrityService.assertCanAddDependency as jest.MockedFunction<typeof GraphIntegrityService.assertCanAddDependency>;
+
+describe('TrashService', () => {
+  let mockDb: any;
+  const originalRetention = process.env.TRASH_RETENTION_DAYS;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      offset: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+    mockWithTransaction.mockImplementation(fn => fn());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    if (originalRetention === undefined) {
+      delete process.env.TRASH_RETENTION_DAYS;
+    } else {
+      process.env.TRASH_RETENTION_DAYS = originalRetention;
+    }
+  });
+
+  describe('getTrashRetentionDays', () => {
+    it('should default to 30 days', () => {
+      delete process.env.TRASH_RETENTION_DAYS;
+      expect(getTrashRetentionDays()).toBe(30);
+    });
+
+    it('should read TRASH_RETENTION_DAYS and ignore invalid values', () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      expect(getTrashRetentionDays()).toBe(7);
+
+      process.env.TRASH_RETENTION_DAYS = 'soon';
+      expect(getTrashRetentionDays()).toBe(30);
+    });
+  });
+
+  describe('moveToTrash', () => {
+    it('should snapshot each action with its edges, contexts, history and tags before deleting', async () => {
+      const createdAt = new Date('2025-01-01T00:00:00Z');
+      const parent = { id: 'parent-1', title: 'Parent', data: { title: 'Parent' }, createdAt, updatedAt: createdAt };
+      const child = { id: 'child-1', title: 'Child', data: { title: 'Child' }, createdAt, updatedAt: createdAt };
+      const familyEdge = { src: 'parent-1', dst: 'child-1', kind: 'family', createdAt, updatedAt: createdAt };
+      const outsideEdge = { src: 'other-1', dst: 'parent-1', kind: 'depends_on', createdAt, updatedAt: createdAt };
+      const context = { id: 'ctx-1', actionId: 'child-1', impactStory: 'Done', createdAt, updatedAt: createdAt };
+
+      // Four parallel selects resolve from where(), the tag lookup from orderBy(); the final delete also ends at where()
+      mockDb.where
+        .mockResolvedValueOnce([parent, child])
+        .mockResolvedValueOnce([familyEdge, outsideEdge])
+        .mockResolvedValueOnce([context])
+        .mockResolvedValueOnce([])
+        .mockReturnValueOnce(mockDb)
+        .mockResolvedValueOnce(undefined);
+      mockDb.orderBy.mockResolvedValueOnce([{ actionId: 'child-1', name: 'backend' }]);
+
+      const result = await TrashService.moveToTrash(['parent-1', 'child-1'], 'parent-1', { agent_id: 'session-1' });
+
+      expect(mockDb.insert).toHaveBeenCalledWith(actionTrash);
+      const trashed = mockDb.values.mock.calls[0][0];
+      expect(trashed).toHaveLength(2);
+      expect(trashed[0]).toMatchObject({
+        actionId: 'parent-1',
+        rootActionId: 'parent-1',
+        deletionId: result.deletion_id,
+        title: 'Parent',
+        agentId: 'session-1',
+      });
+      expect(trashed[0].snapshot.edges).toHaveLength(2);
+      expect(trashed[1].snapshot.edges).toEqual([JSON.parse(JSON.stringify(familyEdge))]);
+      expect(trashed[1].snapshot.completion_contexts).toHaveLength(1);
+      expect(trashed[0].snapshot.tags).toEqual([]);
+      expect(trashed[1].snapshot.tags).toEqual(['backend']);
+      expect(trashed[1].snapshot.action.createdAt).toBe('2025-01-01T00:00:00.000Z');
+      expect(mockDb.delete).toHaveBeenCalledWith(actions);
+      expect(result.trashed_actions).toEqual([parent, child]);
+    });
+
+    it('should run in one transaction and not delete anything when the snapshot fails', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([{ id: 'parent-1', title: 'Parent', data: { title: 'Parent' } }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+      mockDb.orderBy.mockResolvedValueOnce([]);
+      mockDb.values.mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(TrashService.moveToTrash(['parent-1'], 'parent-1')).rejects.toThrow('disk full');
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('should reject actions that are not in the trash', async () => {
+      mockDb.limit.mockResolvedValueOnce([]);
+
+      await expect(TrashService.restore('missing-1')).rejects.toThrow('is not in the trash');
+    });
+
+    describe('edges', () => {
+      // task was deleted from under project; its snapshot holds the family edge and the automatic dependency
+      const familyEdge = { src: 'project-1', dst: 'task-1', kind: 'family' };
+      const dependencyEdge = { src: 'task-1', dst: 'project-1', kind: 'depends_on' };
+      const entry = {
+        id: 'trash-1',
+        actionId: 'task-1',
+        deletionId: 'deletion-1',
+        organizationId: 'org-1',
+        snapshot: { action: { id: 'task-1', title: 'Task' }, edges: [familyEdge, dependencyEdge], completion_contexts: [], revisions: [], tags: [] },
+      };
+
+      beforeEach(() => {
+        // The trash entry, no live copy, the deletion's batch, the live outside endpoint and its (absent) parent
+        mockDb.limit.mockResolvedValueOnce([entry]).mockResolvedValueOnce([]);
+        mockDb.where
+          .mockReturnValueOnce(mockDb)
+          .mockReturnValueOnce(mockDb)
+          .mockResolvedValueOnce([entry])
+          .mockResolvedValueOnce([{ id: 'project-1' }])
+          .mockResolvedValueOnce([]);
+        mockDb.values.mockReturnValue(mockDb);
+        mockDb.onConflictDoNothing = jest.fn().mockResolvedValue(undefined);
+      });
+
+      it('should check each edge against the live graph before putting it back', async () => {
+        const result = await TrashService.restore('task-1');
+
+        expect(mockAssertCanSetParent).toHaveBeenCalledWith('task-1', 'project-1');
+        expect(mockAssertCanAddDependency).toHaveBeenCalledWith('project-1', 'task-1');
+        expect(mockDb.insert).toHaveBeenCalledWith(edges);
+        expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({ ...familyEdge, organizationId: 'org-1' }));
+        expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({ ...dependencyEdge, organizationId: 'org-1' }));
+        expect(result.parent_id).toBe('project-1');
+      });
+
+      it('should fail the restore when an edge would now close a loop', async () => {
+        const cycle = new GraphCycleError('depends_on', [], 'Cannot move "Task" under "Project" - it would create a dependency cycle');
+        mockAssertCanSetParent.mockRejectedValueOnce(cycle);
+
+        await expect(TrashService.restore('task-1')).rejects.toBe(cycle);
+
+        expect(mockDb.insert).not.toHaveBeenCalledWith(edges);
+        expect(mockDb.delete).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete entries past their purge date and report how many', async () => {
+      mockDb.returning.mockResolvedValue([{ id: 'trash-1' }, { id: 'trash-2' }]);
+
+      const purged = await TrashService.purgeExpired(new Date('2025-02-01T00:00:00Z'));
+
+      expect(mockDb.delete).toHaveBeenCalledWith(actionTrash);
+      expect(purged).toBe(2);
+    });
+  });
+});
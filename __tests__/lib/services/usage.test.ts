@@ -0,0 +1,98 @@
+import { RateLimitError, UsageService, getUsageLimit, usageSubject } from '../../../lib/services/usage';
+import { runWithOrganization, type OrganizationContext } from '../../../lib/db/organization-context';
+import { getDb } from '../../../lib/db/adapter';
+import { usageCounters } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const tokenCaller: OrganizationContext = {
+  organizationId: 'org-1',
+  userId: 'user-1',
+  role: 'member',
+  scopes: ['read', 'write'],
+  apiTokenId: 'token-1',
+};
+
+describe('UsageService', () => {
+  let mockDb: any;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    mockDb = {
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      onConflictDoUpdate: jest.fn().mockReturnThis(),
+      returning: jest.fn(),
+      delete: jest.fn().mockReturnThis(),
+      where: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.clearAllMocks();
+  });
+
+  describe('getUsageLimit', () => {
+    it('should fall back to the defaults and treat 0 as unlimited', () => {
+      expect(getUsageLimit('ai', 'minute')).toBe(10);
+      expect(getUsageLimit('mcp', 'day')).toBeNull();
+
+      process.env.AI_DAILY_QUOTA = '0';
+      process.env.MCP_RATE_LIMIT_PER_MINUTE = '5';
+      expect(getUsageLimit('ai', 'day')).toBeNull();
+      expect(getUsageLimit('mcp', 'minute')).toBe(5);
+
+      process.env.MCP_RATE_LIMIT_PER_MINUTE = 'lots';
+      expect(getUsageLimit('mcp', 'minute')).toBe(120);
+    });
+  });
+
+  describe('usageSubject', () => {
+    it('should count API tokens, OAuth clients and the web UI separately', () => {
+      expect(usageSubject(tokenCaller)).toBe('token:token-1');
+      expect(usageSubject({ organizationId: 'org-1', userId: null, role: 'owner', scopes: ['admin'], clientId: 'claude' })).toBe('client:claude:owner');
+      expect(usageSubject({ organizationId: 'org-1', role: 'owner', scopes: ['admin'] })).toBe('org:org-1');
+    });
+  });
+
+  describe('consume', () => {
+    it('should count the caller per minute and the organization per day', async () => {
+      mockDb.returning.mockResolvedValueOnce([{ count: 3 }]).mockResolvedValueOnce([{ count: 40 }]);
+
+      await runWithOrganization(tokenCaller, () => UsageService.consume('ai'));
+
+      expect(mockDb.insert).toHaveBeenCalledWith(usageCounters);
+      expect(mockDb.values).toHaveBeenNthCalledWith(1, expect.objectContaining({ organizationId: 'org-1', subject: 'token:token-1', bucket: 'ai', period: 'minute', count: 1 }));
+      expect(mockDb.values).toHaveBeenNthCalledWith(2, expect.objectContaining({ organizationId: 'org-1', subject: 'org:org-1', bucket: 'ai', period: 'day', count: 1 }));
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse requests over the per-minute limit without using up the daily quota', async () => {
+      mockDb.returning.mockResolvedValueOnce([{ count: 11 }]);
+
+      const error = await runWithOrganization(tokenCaller, () => UsageService.consume('ai')).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toMatch(/^AI rate limit reached: 10 requests per minute - try again in \d+ seconds$/);
+      expect(error.retryAfterSeconds).toBeGreaterThan(0);
+      expect(error.retryAfterSeconds).toBeLessThanOrEqual(60);
+      expect(mockDb.values).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse requests over the daily quota and prune old counters on a new day', async () => {
+      process.env.AI_DAILY_QUOTA = '1';
+      mockDb.returning.mockResolvedValueOnce([{ count: 1 }]).mockResolvedValueOnce([{ count: 1 }]);
+      await runWithOrganization(tokenCaller, () => UsageService.consume('ai'));
+      expect(mockDb.delete).toHaveBeenCalledWith(usageCounters);
+
+      mockDb.returning.mockResolvedValueOnce([{ count: 2 }]).mockResolvedValueOnce([{ count: 2 }]);
+      await expect(runWithOrganization(tokenCaller, () => UsageService.consume('ai')))
+        .rejects.toThrow('Daily AI quota reached: 1 requests per day for this organization');
+    });
+  });
+});
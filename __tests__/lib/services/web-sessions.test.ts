@@ -0,0 +1,72 @@
+import { SESSION_COOKIE, WebSessionsService, readSessionCookie } from '../../../lib/services/web-sessions';
+import { hashToken } from '../../../lib/services/oauth';
+import { getDb } from '../../../lib/db/adapter';
+import { webSessions } from '../../../db/schema';
+
+// Mock the database adapter
+jest.mock('../../../lib/db/adapter');
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const storedSession = (userId: string | null) => ({
+  id: 'session-1',
+  organizationId: 'org-1',
+  userId,
+  tokenHash: 'hash',
+  expiresAt: new Date('2099-01-01T00:00:00Z'),
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+});
+
+describe('WebSessionsService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+      insert: jest.fn().mockReturnThis(),
+      values: jest.fn().mockResolvedValue(undefined),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should read the session token from a Cookie header', () => {
+    expect(readSessionCookie(`theme=dark; ${SESSION_COOKIE}=done_ws_abc%3D`)).toBe('done_ws_abc=');
+    expect(readSessionCookie('theme=dark')).toBeNull();
+    expect(readSessionCookie(null)).toBeNull();
+  });
+
+  it('should store only a hash of the session token', async () => {
+    const session = await WebSessionsService.create({ organization_id: 'org-1', user_id: 'user-1' });
+
+    expect(mockDb.insert).toHaveBeenCalledWith(webSessions);
+    expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+      organizationId: 'org-1',
+      userId: 'user-1',
+      tokenHash: hashToken(session.token),
+    }));
+  });
+
+  it('should resolve the viewer with their current role, and reject former members', async () => {
+    mockDb.limit.mockResolvedValueOnce([{ session: storedSession('user-1'), role: 'viewer' }]);
+    await expect(WebSessionsService.verify('done_ws_abc')).resolves.toEqual({
+      organizationId: 'org-1',
+      userId: 'user-1',
+      role: 'viewer',
+      scopes: ['read'],
+      rootActionId: null,
+    });
+
+    mockDb.limit.mockResolvedValueOnce([{ session: storedSession(null), role: null }]);
+    await expect(WebSessionsService.verify('done_ws_owner')).resolves.toMatchObject({ userId: null, role: 'owner' });
+
+    mockDb.limit.mockResolvedValueOnce([{ session: storedSession('user-2'), role: null }]);
+    await expect(WebSessionsService.verify('done_ws_gone')).resolves.toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { WorkLogService } from '../../../lib/services/work-log';
 import { getDb } from '../../../lib/db/adapter';
 import { workLog } from '../../../db/schema';
+import { DEFAULT_ORGANIZATION_ID } from '../../../lib/db/organization-context';
 
 // Mock the database adapter
 jest.mock('../../../lib/db/adapter');
@@ -45,6 +46,7 @@ describe('WorkLogService', () => {
 
       expect(mockDb.insert).toHaveBeenCalledWith(workLog);
       expect(mockDb.values).toHaveBeenCalledWith({
+        organizationId: DEFAULT_ORGANIZATION_ID,
         content: 'Started working on action X',
         metadata: { agent_id: 'claude-123' },
       });
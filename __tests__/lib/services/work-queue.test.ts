@@ -0,0 +1,187 @@
+import { WorkQueueService, rankUnblockedActions } from '../../../lib/services/work-queue';
+import { getDb } from '../../../lib/db/adapter';
+import { getUnblockedActionsOptimized } from '../../../lib/services/actions-optimized';
+import { ClaimsService, ClaimConflictError } from '../../../lib/services/claims';
+import { ActionsService } from '../../../lib/services/actions';
+
+jest.mock('../../../lib/db/adapter');
+jest.mock('../../../lib/services/actions-optimized');
+jest.mock('../../../lib/services/actions', () => ({
+  ActionsService: {
+    getActionDetailResource: jest.fn(),
+  },
+}));
+jest.mock('../../../lib/services/claims', () => {
+  const actual = jest.requireActual('../../../lib/services/claims');
+  return {
+    ...actual,
+    ClaimsService: {
+      getActiveClaims: jest.fn(),
+      claimAction: jest.fn(),
+    },
+  };
+});
+
+const mockGetDb = getDb as jest.MockedFunction<typeof getDb>;
+const mockGetUnblocked = getUnblockedActionsOptimized as jest.MockedFunction<typeof getUnblockedActionsOptimized>;
+const mockClaims = ClaimsService as jest.Mocked<typeof ClaimsService>;
+const mockActions = ActionsService as jest.Mocked<typeof ActionsService>;
+
+function unblocked(id: string, createdAt: string, status: 'todo' | 'in_progress' = 'todo') {
+  return { id, data: { title: id }, done: false, status, version: 0, createdAt, updatedAt: createdAt };
+}
+
+function claimFor(actionId: string, sessionId: string) {
+  return { action_id: actionId, session_id: sessionId, claimed_at: '2025-01-01T00:00:00.000Z', expires_at: '2025-01-01T00:30:00.000Z' };
+}
+
+describe('WorkQueueService', () => {
+  let mockDb: any;
+
+  beforeEach(() => {
+    mockDb = {
+      select: jest.fn().mockReturnThis(),
+      from: jest.fn().mockReturnThis(),
+      where: jest.fn(),
+    };
+    mockGetDb.mockReturnValue(mockDb);
+    mockClaims.getActiveClaims.mockResolvedValue(new Map());
+    mockActions.getActionDetailResource.mockImplementation(async (id: string) => ({
+      id,
+      title: `Title ${id}`,
+      done: false,
+      status: 'todo',
+      version: 0,
+      created_at: '2025-01-01T00:00:00.000Z',
+      updated_at: '2025-01-01T00:00:00.000Z',
+      parent_chain: [],
+      children: [],
+      dependencies: [],
+      dependents: [],
+      siblings: [],
+      relationship_flags: {},
+      dependency_completion_context: [],
+    }) as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('rankUnblockedActions', () => {
+    it('should put in-progress work first, then the oldest actions', () => {
+      const ranked = rankUnblockedActions([
+        unblocked('new', '2025-03-01T00:00:00Z'),
+        unblocked('old', '2025-01-01T00:00:00Z'),
+        unblocked('started', '2025-04-01T00:00:00Z', 'in_progress'),
+      ]);
+
+      expect(ranked.map(action => action.id)).toEqual(['started', 'old', 'new']);
+    });
+
+    it('should rank quick, high-value work that unblocks the most ahead of older actions', () => {
+      const ranked = rankUnblockedActions([
+        { ...unblocked('old-chore', '2025-01-01T00:00:00Z'), priority: 'low' as const },
+        { ...unblocked('big-feature', '2025-02-01T00:00:00Z'), impact: 'high' as const, effort: 'xl' as const },
+        { ...unblocked('unblocker', '2025-03-01T00:00:00Z'), effort: 's' as const, fan_out: 4 },
+        { ...unblocked('plain', '2025-04-01T00:00:00Z') },
+      ]);
+
+      expect(ranked.map(action => action.id)).toEqual(['unblocker', 'plain', 'big-feature', 'old-chore']);
+    });
+  });
+
+  describe('claimNextAction', () => {
+    it('should claim the top-ranked action and return its prompt', async () => {
+      mockGetUnblocked.mockResolvedValue([
+        unblocked('new', '2025-03-01T00:00:00Z'),
+        unblocked('old', '2025-01-01T00:00:00Z'),
+      ]);
+      mockClaims.claimAction.mockResolvedValue(claimFor('old', 'session-1'));
+
+      const result = await WorkQueueService.claimNextAction({ session_id: 'session-1' });
+
+      expect(mockClaims.claimAction).toHaveBeenCalledTimes(1);
+      expect(mockClaims.claimAction).toHaveBeenCalledWith({ action_id: 'old', session_id: 'session-1', ttl_minutes: undefined });
+      expect(result?.action.id).toBe('old');
+      expect(result?.prompt).toContain('Title old');
+      expect(result?.remaining).toBe(1);
+    });
+
+    it('should trim the prompt to max_tokens, least important context first', async () => {
+      mockGetUnblocked.mockResolvedValue([unblocked('old', '2025-01-01T00:00:00Z')]);
+      mockClaims.claimAction.mockResolvedValue(claimFor('old', 'session-1'));
+      const dependencyContext = ['dep-1', 'dep-2', 'dep-3'].map((id, index) => ({
+        action_id: id,
+        action_title: `Dependency ${id}`,
+        completion_timestamp: `2025-01-0${index + 1}T00:00:00.000Z`,
+        implementation_story: `Built ${id}. ${'Implementation detail. '.repeat(80)}`,
+        impact_story: `Impact of ${id}. ${'Impact detail. '.repeat(80)}`,
+        learning_story: `Learned from ${id}. ${'Learning detail. '.repeat(80)}`,
+        changelog_visibility: 'team',
+      }));
+      const detail = mockActions.getActionDetailResource.getMockImplementation()!;
+      mockActions.getActionDetailResource.mockImplementation(async (id: string) => ({
+        ...(await detail(id)),
+        dependency_completion_context: dependencyContext,
+      }) as any);
+
+      const trimmed = await WorkQueueService.claimNextAction({ session_id: 'session-1', max_tokens: 1500 });
+      const unlimited = await WorkQueueService.claimNextAction({ session_id: 'session-1', max_tokens: 0 });
+      const byDefault = await WorkQueueService.claimNextAction({ session_id: 'session-1' });
+
+      expect(trimmed?.prompt).toContain('Title old');
+      expect(trimmed?.prompt).toContain('To fit 1500 tokens this prompt leaves out: dependency impact stories (3)');
+      expect(trimmed?.prompt).not.toContain('Impact of dep-1');
+      expect(trimmed?.prompt).toContain('Learned from dep-3');
+      expect(unlimited?.prompt).toContain('Impact of dep-1');
+      expect(unlimited?.prompt).not.toContain('Trimmed Context');
+      // Three dependencies' stories fit the default budget
+      expect(byDefault?.prompt).toBe(unlimited?.prompt);
+    });
+
+    it("should skip actions other sessions hold and move on when a claim race is lost", async () => {
+      mockGetUnblocked.mockResolvedValue([
+        unblocked('a', '2025-01-01T00:00:00Z'),
+        unblocked('b', '2025-02-01T00:00:00Z'),
+        unblocked('c', '2025-03-01T00:00:00Z'),
+      ]);
+      mockClaims.getActiveClaims.mockResolvedValue(new Map([['a', claimFor('a', 'session-2')]]));
+      mockClaims.claimAction
+        .mockRejectedValueOnce(new ClaimConflictError(claimFor('b', 'session-3')))
+        .mockResolvedValueOnce(claimFor('c', 'session-1'));
+
+      const result = await WorkQueueService.claimNextAction({ session_id: 'session-1' });
+
+      expect(mockClaims.claimAction.mock.calls.map(call => call[0].action_id)).toEqual(['b', 'c']);
+      expect(result?.action.id).toBe('c');
+      expect(result?.remaining).toBe(0);
+    });
+
+    it('should only consider actions inside the requested subtree', async () => {
+      mockGetUnblocked.mockResolvedValue([
+        unblocked('outside', '2025-01-01T00:00:00Z'),
+        unblocked('grandchild', '2025-02-01T00:00:00Z'),
+      ]);
+      mockDb.where.mockResolvedValue([
+        { src: 'scope', dst: 'child', kind: 'family' },
+        { src: 'child', dst: 'grandchild', kind: 'family' },
+        { src: 'root', dst: 'outside', kind: 'family' },
+      ]);
+      mockClaims.claimAction.mockResolvedValue(claimFor('grandchild', 'session-1'));
+
+      const result = await WorkQueueService.claimNextAction({ session_id: 'session-1', scope_id: 'scope' });
+
+      expect(result?.action.id).toBe('grandchild');
+    });
+
+    it('should return null when nothing is left to claim', async () => {
+      mockGetUnblocked.mockResolvedValue([]);
+
+      const result = await WorkQueueService.claimNextAction({ session_id: 'session-1' });
+
+      expect(result).toBeNull();
+      expect(mockClaims.claimAction).not.toHaveBeenCalled();
+    });
+  });
+});
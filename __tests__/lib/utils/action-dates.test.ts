@@ -0,0 +1,31 @@
+import { addDays, assertValidDateRange, daysBetween, isoDateSchema, todayIsoDate } from '../../../lib/utils/action-dates';
+
+describe('action-dates', () => {
+  describe('isoDateSchema', () => {
+    it('should accept calendar dates and reject anything else', () => {
+      expect(isoDateSchema.safeParse('2025-02-28').success).toBe(true);
+      expect(isoDateSchema.safeParse('2024-02-29').success).toBe(true);
+      expect(isoDateSchema.safeParse('2025-02-29').success).toBe(false);
+      expect(isoDateSchema.safeParse('2025-2-1').success).toBe(false);
+      expect(isoDateSchema.safeParse('2025-02-01T00:00:00Z').success).toBe(false);
+    });
+  });
+
+  describe('date arithmetic', () => {
+    it('should work in whole UTC days across month boundaries', () => {
+      expect(todayIsoDate(new Date('2025-03-31T23:59:00Z'))).toBe('2025-03-31');
+      expect(addDays('2025-03-31', 1)).toBe('2025-04-01');
+      expect(daysBetween('2025-03-30', '2025-04-02')).toBe(3);
+      expect(daysBetween('2025-04-02', '2025-03-30')).toBe(-3);
+    });
+  });
+
+  describe('assertValidDateRange', () => {
+    it('should reject a start after the due date', () => {
+      expect(() => assertValidDateRange('2025-05-02', '2025-05-01')).toThrow('Start date 2025-05-02 is after due date 2025-05-01');
+      expect(() => assertValidDateRange('2025-05-01', '2025-05-01')).not.toThrow();
+      expect(() => assertValidDateRange(undefined, '2025-05-01')).not.toThrow();
+      expect(() => assertValidDateRange('2025-05-02', null)).not.toThrow();
+    });
+  });
+});
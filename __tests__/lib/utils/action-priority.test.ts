@@ -0,0 +1,46 @@
+import { compareByRank, getRankScore } from '../../../lib/utils/action-priority';
+
+describe('action-priority', () => {
+  describe('getRankScore', () => {
+    it('should score unset fields as the middle values', () => {
+      expect(getRankScore({})).toBe(getRankScore({ priority: 'medium', effort: 'm', impact: 'medium' }));
+      expect(getRankScore({})).toBe(1.33);
+    });
+
+    it('should reward priority, impact and fan-out and penalise effort', () => {
+      const base = getRankScore({});
+      expect(getRankScore({ priority: 'urgent' })).toBeGreaterThan(base);
+      expect(getRankScore({ impact: 'high' })).toBeGreaterThan(base);
+      expect(getRankScore({ fan_out: 3 })).toBe(4);
+      expect(getRankScore({ effort: 'xl' })).toBeLessThan(base);
+    });
+  });
+
+  describe('compareByRank', () => {
+    const action = (id: string, fields: Record<string, any> = {}) => ({
+      id,
+      status: 'todo',
+      createdAt: '2025-01-01T00:00:00Z',
+      ...fields,
+    });
+
+    it('should keep in-progress work ahead of higher-scoring actions', () => {
+      const ranked = [
+        action('urgent', { priority: 'urgent', impact: 'high', effort: 'xs' }),
+        action('started', { status: 'in_progress', priority: 'low' }),
+      ].sort(compareByRank);
+
+      expect(ranked.map(a => a.id)).toEqual(['started', 'urgent']);
+    });
+
+    it('should fall back to age and then ID when scores tie', () => {
+      const ranked = [
+        action('b'),
+        action('a'),
+        action('newer', { createdAt: '2025-02-01T00:00:00Z', fan_out: 0 }),
+      ].sort(compareByRank);
+
+      expect(ranked.map(a => a.id)).toEqual(['a', 'b', 'newer']);
+    });
+  });
+});
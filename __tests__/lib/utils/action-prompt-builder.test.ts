@@ -0,0 +1,88 @@
+import { buildActionPrompt, estimateTokens, fitActionContext } from '../../../lib/utils/action-prompt-builder';
+import type { ActionDetailResource, ActionMetadata, DependencyCompletionContext } from '../../../lib/types/resources';
+
+const story = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+
+const metadata = (id: string, title: string, done: boolean): ActionMetadata => ({
+  id, title, done, status: done ? 'done' : 'todo', version: 1, created_at: '', updated_at: '',
+});
+
+const completion = (id: string, completedAt: string): DependencyCompletionContext => ({
+  action_id: id,
+  action_title: `Dependency ${id}`,
+  completion_timestamp: completedAt,
+  implementation_story: story(300),
+  impact_story: story(300),
+  learning_story: story(100),
+  changelog_visibility: 'team',
+});
+
+const action: ActionDetailResource = {
+  id: 'action-1',
+  title: 'Ship the thing',
+  description: 'Build it',
+  vision: 'It is shipped',
+  done: false,
+  status: 'todo',
+  version: 1,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  parent_chain: [],
+  family_context_summary: story(400),
+  family_vision_summary: story(400),
+  children: [],
+  dependencies: [metadata('old', 'Dependency old', true), metadata('new', 'Dependency new', true)],
+  dependents: [],
+  siblings: [metadata('sibling', 'Sibling', false)],
+  relationship_flags: {},
+  dependency_completion_context: [completion('new', '2025-02-01T00:00:00.000Z'), completion('old', '2025-01-01T00:00:00.000Z')],
+};
+
+const jsonTokens = (candidate: ActionDetailResource) => estimateTokens(JSON.stringify(candidate));
+
+describe('action-prompt-builder', () => {
+  describe('fitActionContext', () => {
+    it('should leave the context alone when it already fits', () => {
+      const { action: fitted, budget } = fitActionContext(action, 100000, jsonTokens);
+      expect(fitted).toEqual(action);
+      expect(budget.trimmed).toEqual([]);
+    });
+
+    it('should trim siblings, then older dependency stories before newer ones, keeping learnings longest', () => {
+      const { action: fitted, budget } = fitActionContext(action, jsonTokens(action) - 1500, jsonTokens);
+      const [newer, older] = fitted.dependency_completion_context;
+
+      expect(fitted.siblings).toEqual([]);
+      expect(older.impact_story).toBeUndefined();
+      expect(newer.impact_story).toBeUndefined();
+      expect(older.implementation_story).toBeUndefined();
+      expect(newer.implementation_story).toBeDefined();
+      expect(older.learning_story).toBeDefined();
+      expect(budget.trimmed).toEqual(['siblings (1)', 'dependency impact stories (2)', 'dependency implementation stories (1)']);
+      expect(budget.estimated_tokens).toBeLessThanOrEqual(budget.max_tokens);
+      expect(action.siblings).toHaveLength(1); // The original is untouched
+    });
+
+    it('should never cut the action itself, even when the budget is too small', () => {
+      const { action: fitted, budget } = fitActionContext(action, 10, jsonTokens);
+      expect(fitted).toMatchObject({ title: 'Ship the thing', vision: 'It is shipped', dependency_completion_context: [] });
+      expect(fitted.family_context_summary).toBeUndefined();
+      expect(fitted.dependencies).toHaveLength(2);
+      expect(budget.estimated_tokens).toBeGreaterThan(10);
+    });
+  });
+
+  describe('buildActionPrompt', () => {
+    it('should concatenate everything without a budget and say what it trimmed with one', () => {
+      const full = buildActionPrompt(action);
+      expect(full).not.toContain('# Trimmed Context');
+
+      const trimmed = buildActionPrompt(action, { maxTokens: 2000 });
+      expect(estimateTokens(trimmed)).toBeLessThanOrEqual(2000);
+      expect(trimmed).toContain('**Ship the thing**');
+      expect(trimmed).toContain('# Trimmed Context');
+      expect(trimmed).toContain('dependency impact stories (2)');
+      expect(trimmed).toContain('actions://context/action-1?max_tokens=0');
+    });
+  });
+});
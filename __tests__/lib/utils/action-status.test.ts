@@ -0,0 +1,38 @@
+import {
+  isActionStatus,
+  isClosedStatus,
+  resolveStatus,
+} from '../../../lib/utils/action-status';
+
+describe('action-status', () => {
+  describe('isActionStatus', () => {
+    it('should accept known statuses and reject anything else', () => {
+      expect(isActionStatus('in_review')).toBe(true);
+      expect(isActionStatus('cancelled')).toBe(true);
+      expect(isActionStatus('archived')).toBe(false);
+      expect(isActionStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('isClosedStatus', () => {
+    it('should treat done and cancelled as closed', () => {
+      expect(isClosedStatus('done')).toBe(true);
+      expect(isClosedStatus('cancelled')).toBe(true);
+      expect(isClosedStatus('blocked')).toBe(false);
+      expect(isClosedStatus(null)).toBe(false);
+    });
+  });
+
+  describe('resolveStatus', () => {
+    it('should prefer the status column when present', () => {
+      expect(resolveStatus({ status: 'cancelled', done: false })).toBe('cancelled');
+      expect(resolveStatus({ status: 'in_progress' })).toBe('in_progress');
+    });
+
+    it('should fall back to the done flag for legacy rows', () => {
+      expect(resolveStatus({ done: true })).toBe('done');
+      expect(resolveStatus({ done: false })).toBe('todo');
+      expect(resolveStatus({ status: 'unknown', done: true })).toBe('done');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { ResourceQueryError, decodeListCursor, encodeListCursor, parseResourceQuery, parseTreeBudget } from '../../../lib/utils/resource-query';
+
+describe('resource-query', () => {
+  describe('parseResourceQuery', () => {
+    it('should fill in defaults when the URI has no query', () => {
+      expect(parseResourceQuery('action://list', ['status', 'limit', 'cursor'])).toEqual({
+        statuses: ['todo', 'in_progress', 'blocked', 'in_review'],
+        includeCompleted: false,
+        depth: 3,
+        maxDepth: null,
+        maxNodes: 200,
+        limit: 20,
+        offset: 0,
+        cursor: null,
+        tags: null,
+        tagMatch: 'any',
+      });
+    });
+
+    it('should parse the same parameters the same way on every resource', () => {
+      const tree = parseResourceQuery('action://tree/abc?includeCompleted=true&depth=2', ['depth', 'includeCompleted']);
+      expect(tree.depth).toBe(2);
+      expect(tree.includeCompleted).toBe(true);
+      expect(tree.statuses).toContain('done');
+
+      expect(parseResourceQuery('action://tree?depth=0', ['depth']).depth).toBeNull();
+      expect(parseResourceQuery('action://list?status=completed', ['status']).statuses).toEqual(['done']);
+      expect(parseResourceQuery('action://list?status=blocked,in_review&limit=5', ['status', 'limit'])).toMatchObject({
+        statuses: ['blocked', 'in_review'],
+        limit: 5,
+      });
+    });
+
+    it('should reject parameters the resource does not take and values it cannot parse', () => {
+      expect(() => parseResourceQuery('action://list?depth=2', ['status', 'limit']))
+        .toThrow('Unknown query parameter "depth" for action://list - supported: status, limit');
+      expect(() => parseResourceQuery('action://item/abc?x=1', [])).toThrow('it takes no query parameters');
+      expect(() => parseResourceQuery('action://list?status=finished', ['status'])).toThrow(ResourceQueryError);
+      expect(() => parseResourceQuery('action://list?limit=500', ['limit'])).toThrow('Invalid limit: "500" - expected a whole number from 1 to 100');
+      expect(() => parseResourceQuery('action://tree?depth=-1', ['depth'])).toThrow('Invalid depth');
+      expect(() => parseResourceQuery('action://tree?includeCompleted=yes', ['includeCompleted'])).toThrow('expected true or false');
+    });
+
+    it('should parse the parameters the older actions:// resources take', () => {
+      expect(parseResourceQuery('actions://list?offset=40&tags=api,backend&tagMatch=all', ['offset', 'tags', 'tagMatch'])).toMatchObject({
+        offset: 40,
+        tags: 'api,backend',
+        tagMatch: 'all',
+      });
+      expect(parseResourceQuery('actions://tree?maxDepth=2', ['maxDepth']).maxDepth).toBe(2);
+      expect(() => parseResourceQuery('actions://list?offset=-5', ['offset'])).toThrow('Invalid offset');
+      expect(() => parseResourceQuery('actions://list?tagMatch=some', ['tagMatch'])).toThrow('Invalid tagMatch: "some" - expected any or all');
+    });
+  });
+
+  describe('parseTreeBudget', () => {
+    it('should fall back to the defaults, treat 0 as unlimited and reject values out of range', () => {
+      const defaults = { maxDepth: null, maxNodes: 200 };
+      expect(parseTreeBudget(new URLSearchParams(''), defaults)).toEqual(defaults);
+      expect(parseTreeBudget(new URLSearchParams('maxDepth=2&maxNodes=0'), defaults)).toEqual({ maxDepth: 2, maxNodes: null });
+      expect(() => parseTreeBudget(new URLSearchParams('maxNodes=5000'), defaults))
+        .toThrow('Invalid maxNodes: "5000" - expected a whole number from 0 to 2000');
+    });
+  });
+
+  describe('list cursors', () => {
+    it('should round-trip and reject anything else', () => {
+      const cursor = { createdAt: new Date('2025-01-02T03:04:05.678Z'), id: 'action-1' };
+      expect(decodeListCursor(encodeListCursor(cursor))).toEqual(cursor);
+      expect(() => decodeListCursor('not-a-cursor')).toThrow('Invalid cursor: "not-a-cursor"');
+    });
+  });
+});
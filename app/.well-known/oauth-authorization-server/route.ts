@@ -8,10 +8,12 @@ export async function GET(request: NextRequest) {
     authorization_endpoint: `${baseUrl}/oauth/authorize`,
     token_endpoint: `${baseUrl}/auth/token`,
     registration_endpoint: `${baseUrl}/register`,
-    scopes_supported: ['claudeai'],
+    revocation_endpoint: `${baseUrl}/oauth/revoke`,
+    revocation_endpoint_auth_methods_supported: ['none'],
+    scopes_supported: ['mcp', 'claudeai'],
     response_types_supported: ['code'],
     grant_types_supported: ['authorization_code', 'refresh_token'],
-    token_endpoint_auth_methods_supported: ['none', 'client_secret_basic'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
     code_challenge_methods_supported: ['S256'],
     service_documentation: `${baseUrl}/docs`
   };
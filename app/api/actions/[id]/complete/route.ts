@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
 
 // Unified schema supporting both user-friendly stories and structured MCP data
 const completeActionSchema = z.object({
@@ -96,10 +97,10 @@ const completeActionSchema = z.object({
   message: "Either provide implementation_story, impact_story, and learning_story OR provide structured completion data (technical_changes, outcomes, challenges, alignment_reflection)",
 });
 
-export async function POST(
+export const POST = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const body = await request.json().catch(() => ({}));
     const completeParams = completeActionSchema.parse(body);
@@ -139,4 +140,4 @@ export async function POST(
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
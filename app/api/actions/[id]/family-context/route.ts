@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
 
-export async function GET(
+export const GET = withApiAuth('viewer', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const resolvedParams = await params;
     const actionId = resolvedParams.id;
@@ -37,4 +38,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
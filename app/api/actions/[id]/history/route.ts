@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ActionHistoryService } from "../../../../../lib/services/action-history";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export const GET = withApiAuth('viewer', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const resolvedParams = await params;
+    const actionId = resolvedParams.id;
+
+    // Validate that the ID looks like a UUID
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(actionId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid action ID format: "${actionId}". Expected a UUID.`
+        },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { limit, offset } = historyQuerySchema.parse({
+      limit: searchParams.get('limit') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined,
+    });
+
+    const history = await ActionHistoryService.getHistory(actionId, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      data: history
+    });
+  } catch (error) {
+    console.error('Error fetching action history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -4,16 +4,17 @@ import { EditorialAIService } from '@/lib/services/editorial-ai';
 import { ActionsService } from '@/lib/services/actions';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
+import { withApiAuth } from '../../../../../lib/mcp/auth';
 
 const PreviewCompletionSchema = z.object({
   raw_input: z.string().default(''),
   changelog_visibility: z.enum(['private', 'team', 'public']).default('team'),
 });
 
-export async function POST(
+export const POST = withApiAuth('viewer', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const resolvedParams = await params;
     const actionId = resolvedParams.id;
@@ -145,4 +146,4 @@ Return ONLY valid JSON without any markdown formatting:
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
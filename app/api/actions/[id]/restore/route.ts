@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
+
+export const POST = withApiAuth('member', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const resolvedParams = await params;
+    const actionId = resolvedParams.id;
+    
+    // Validate that the ID looks like a UUID
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(actionId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid action ID format: "${actionId}". Expected a UUID.`
+        },
+        { status: 400 }
+      );
+    }
+    
+    const result = await ActionsService.restoreAction({
+      action_id: actionId
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Action restored from trash successfully"
+    });
+  } catch (error) {
+    console.error('Error restoring action:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 400 }
+    );
+  }
+});
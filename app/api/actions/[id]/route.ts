@@ -1,28 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../lib/services/actions";
+import { VersionConflictError } from "../../../../lib/services/version-conflict";
+import { GraphCycleError } from "../../../../lib/services/graph-integrity";
 import { actionDataSchema } from "../../../../db/schema";
+import { SETTABLE_STATUSES } from "../../../../lib/utils/action-status";
+import { ACTION_PRIORITIES, ACTION_EFFORTS, ACTION_IMPACTS } from "../../../../lib/utils/action-priority";
+import { isoDateSchema } from "../../../../lib/utils/action-dates";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+import { PermissionDeniedError, assertCanMoveInSubtree, assertRole, requiredDeleteRole } from "../../../../lib/services/permissions";
+import { withVisibleCompletionContexts } from "../../../../lib/services/changelog-visibility";
+import { getOrganizationContext } from "../../../../lib/db/organization-context";
 
 const deleteActionSchema = z.object({
   child_handling: z.enum(["delete_recursive", "reparent"]).default("reparent"),
   new_parent_id: z.string().uuid().optional(),
 });
 
-// Schema allows updating title, description, vision, and family
-// Use /complete or /uncomplete endpoints to change completion status
+// Schema allows updating title, description, vision, status, planning fields, dates, and family
+// Use /complete or /uncomplete endpoints to mark done or reopen
+// Pass the last-read `version` to have stale writes rejected with 409 Conflict
+// Pass null for priority, effort, impact, start_date or due_date to clear it
 const updateActionSchema = actionDataSchema.partial().extend({
   new_family_id: z.string().uuid().optional().nullable(),
+  status: z.enum(SETTABLE_STATUSES).optional(),
+  priority: z.enum(ACTION_PRIORITIES).nullable().optional(),
+  effort: z.enum(ACTION_EFFORTS).nullable().optional(),
+  impact: z.enum(ACTION_IMPACTS).nullable().optional(),
+  start_date: isoDateSchema.nullable().optional(),
+  due_date: isoDateSchema.nullable().optional(),
+  version: z.number().int().min(0).optional(),
 }).refine(
-  (data) => data.title !== undefined || data.description !== undefined || data.vision !== undefined || data.new_family_id !== undefined,
+  (data) => data.title !== undefined || data.description !== undefined || data.vision !== undefined || data.status !== undefined ||
+    data.priority !== undefined || data.effort !== undefined || data.impact !== undefined ||
+    data.start_date !== undefined || data.due_date !== undefined || data.new_family_id !== undefined,
   {
-    message: "At least one field (title, description, vision, or new_family_id) must be provided",
+    message: "At least one field (title, description, vision, status, priority, effort, impact, start_date, due_date, or new_family_id) must be provided",
   }
 );
 
-export async function GET(
+export const GET = withApiAuth('viewer', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const resolvedParams = await params;
     const actionId = resolvedParams.id;
@@ -39,11 +59,11 @@ export async function GET(
       );
     }
     
-    // Get the detailed action data with relationships
+    // Get the detailed action data with relationships, leaving out completion stories above the caller's role
     const actionDetails = await ActionsService.getActionDetailResource(actionId);
     
     // Return action details directly - let the UI handle placeholder text
-    const enhancedActionDetails = actionDetails;
+    const enhancedActionDetails = withVisibleCompletionContexts(actionDetails, getOrganizationContext());
     
     return NextResponse.json({
       success: true,
@@ -59,12 +79,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
+export const PUT = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const body = await request.json();
     const updateParams = updateActionSchema.parse(body);
@@ -84,28 +104,34 @@ export async function PUT(
     }
     
     let result;
+    const { version, ...fieldParams } = updateParams;
     
     // Handle family updates separately
-    if ('new_family_id' in updateParams) {
+    if ('new_family_id' in fieldParams) {
+      // null moves the action to the top level, which a per-subtree token can't do
+      assertCanMoveInSubtree(actionId, fieldParams.new_family_id, `PUT /api/actions/${actionId}`);
       result = await ActionsService.updateFamily({
         action_id: actionId,
-        new_family_id: updateParams.new_family_id || undefined,
+        new_family_id: fieldParams.new_family_id || undefined,
+        expected_version: version,
       });
       
       // Remove new_family_id from updateParams for regular update
-      const { new_family_id, ...otherParams } = updateParams;
+      const { new_family_id, ...otherParams } = fieldParams;
       
-      // If there are other fields to update, do them separately
+      // If there are other fields to update, do them separately, chained on the version the move produced
       if (Object.keys(otherParams).length > 0) {
         await ActionsService.updateAction({
           action_id: actionId,
-          ...otherParams
+          ...otherParams,
+          expected_version: version !== undefined ? result.version : undefined,
         });
       }
     } else {
       result = await ActionsService.updateAction({
         action_id: actionId,
-        ...updateParams
+        ...fieldParams,
+        expected_version: version,
       });
     }
     
@@ -114,21 +140,41 @@ export async function PUT(
       data: result
     });
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          conflict: error.toJSON()
+        },
+        { status: 409 }
+      );
+    }
+    if (error instanceof GraphCycleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          cycle: error.toJSON()
+        },
+        { status: 400 }
+      );
+    }
     console.error('Error updating action:', error);
     return NextResponse.json(
       {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error"
       },
-      { status: 400 }
+      { status: error instanceof PermissionDeniedError ? 403 : 400 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const body = await request.json().catch(() => ({}));
     const deleteParams = deleteActionSchema.parse(body);
@@ -147,6 +193,8 @@ export async function DELETE(
       );
     }
     
+    assertRole(requiredDeleteRole(deleteParams.child_handling), `Deleting with ${deleteParams.child_handling}`);
+
     const result = await ActionsService.deleteAction({
       action_id: actionId,
       ...deleteParams
@@ -163,7 +211,7 @@ export async function DELETE(
         success: false,
         error: error instanceof Error ? error.message : "Unknown error"
       },
-      { status: 400 }
+      { status: error instanceof PermissionDeniedError ? 403 : 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
 
 // Request schema based on API design specification
 const suggestChildrenSchema = z.object({
@@ -46,10 +47,10 @@ interface SuggestChildrenResponse {
   error?: string;
 }
 
-export async function POST(
+export const POST = withApiAuth('viewer', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<SuggestChildrenResponse>> {
+): Promise<NextResponse<SuggestChildrenResponse>> => {
   const startTime = performance.now();
 
   try {
@@ -196,7 +197,7 @@ export async function POST(
       error: 'Internal server error occurred while generating suggestions'
     }, { status: 500 });
   }
-}
+}, { usage: 'ai' });
 
 // GET method for API documentation and health check
 export async function GET(
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
 
-export async function POST(
+export const POST = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const resolvedParams = await params;
     const actionId = resolvedParams.id;
@@ -41,4 +42,4 @@ export async function POST(
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -5,6 +5,7 @@ import { generateText, generateObject } from 'ai';
 import { ActionsService } from '@/lib/services/actions';
 import { ActionSearchService } from '@/lib/services/action-search';
 import { ParentSuggestionService } from '@/lib/services/parent-suggestion';
+import { withApiAuth } from '@/lib/mcp/auth';
 
 const analyzeActionSchema = z.object({
   text: z.string().min(1).max(500),
@@ -17,7 +18,7 @@ const actionFieldsSchema = z.object({
   vision: z.string().describe('Clear description of the desired end state when this action is complete'),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('viewer', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { text, createAction } = analyzeActionSchema.parse(body);
@@ -149,4 +150,4 @@ Guidelines:
       error: errorMessage,
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { usage: 'ai' });
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { WorkQueueService } from "../../../../lib/services/work-queue";
+import { MAX_CLAIM_TTL_MINUTES } from "../../../../lib/services/claims";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+import { MAX_CONTEXT_MAX_TOKENS } from "../../../../lib/utils/resource-query";
+
+const claimNextSchema = z.object({
+  session_id: z.string().min(1),
+  scope_id: z.string().uuid().optional(),
+  ttl_minutes: z.number().int().min(1).max(MAX_CLAIM_TTL_MINUTES).optional(),
+  max_tokens: z.number().int().min(0).max(MAX_CONTEXT_MAX_TOKENS).optional(),
+});
+
+// Claim the highest-ranked unblocked action for a session and return its prompt context.
+// Responds with `data: null` when the queue is empty.
+export const POST = withApiAuth('member', async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const params = claimNextSchema.parse(body);
+
+    const result = await WorkQueueService.claimNextAction(params);
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error claiming next action:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 400 }
+    );
+  }
+});
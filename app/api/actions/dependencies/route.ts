@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../lib/services/actions";
+import { GraphCycleError } from "../../../../lib/services/graph-integrity";
+import { withApiAuth } from "../../../../lib/mcp/auth";
 
 const addDependencySchema = z.object({
   action_id: z.string().uuid(),
@@ -12,7 +14,7 @@ const removeDependencySchema = z.object({
   depends_on_id: z.string().uuid(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('member', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const params = addDependencySchema.parse(body);
@@ -24,6 +26,16 @@ export async function POST(request: NextRequest) {
       data: result
     });
   } catch (error) {
+    if (error instanceof GraphCycleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          cycle: error.toJSON()
+        },
+        { status: 400 }
+      );
+    }
     console.error('Error creating dependency:', error);
     return NextResponse.json(
       {
@@ -33,9 +45,9 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withApiAuth('member', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const params = removeDependencySchema.parse(body);
@@ -56,4 +68,4 @@ export async function DELETE(request: NextRequest) {
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../lib/services/actions";
+import { withApiAuth } from "../../../../lib/mcp/auth";
 
 const addFamilyActionSchema = z.object({
   title: z.string().min(1),
@@ -9,7 +10,7 @@ const addFamilyActionSchema = z.object({
   parent_id: z.string().uuid(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('member', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const params = addFamilyActionSchema.parse(body);
@@ -30,4 +31,4 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
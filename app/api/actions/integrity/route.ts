@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { GraphIntegrityService } from "../../../../lib/services/graph-integrity";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+
+// Check the action graph for family loops, dependency cycles, multiple parents and broken edges
+export const GET = withApiAuth('viewer', async (request: Request) => {
+  try {
+    const report = await GraphIntegrityService.validate();
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error validating graph integrity:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
 const parseRequestSchema = z.object({
   text: z.string().min(1).max(500),
@@ -13,7 +14,7 @@ const actionFieldsSchema = z.object({
   vision: z.string().describe('Clear description of the desired end state when this action is complete'),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('viewer', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { text } = parseRequestSchema.parse(body);
@@ -51,4 +52,4 @@ Guidelines:
       error: 'Failed to parse action text',
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { usage: 'ai' });
\ No newline at end of file
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService, CreateActionParams, CreateActionResult, ListActionsParams } from "../../../lib/services/actions";
 import { actionDataSchema } from "../../../db/schema";
+import { isoDateSchema } from "../../../lib/utils/action-dates";
+import { withApiAuth } from "../../../lib/mcp/auth";
 
 const createActionSchema = actionDataSchema.extend({
+  start_date: isoDateSchema.optional(),
+  due_date: isoDateSchema.optional(),
   parent_id: z.string().uuid().optional(),
   depends_on_ids: z.array(z.string().uuid()).optional(),
   override_duplicate_check: z.boolean().optional(),
@@ -15,7 +19,7 @@ const listActionsSchema = z.object({
   done: z.coerce.boolean().optional(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('member', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const params = createActionSchema.parse(body);
@@ -45,9 +49,9 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('viewer', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const params = listActionsSchema.parse({
@@ -72,4 +76,4 @@ export async function GET(request: NextRequest) {
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -9,6 +9,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { ActionSearchService, SearchResponse } from '../../../../lib/services/action-search';
+import { MAX_TAGS_PER_REQUEST } from '../../../../lib/services/tags';
+import { withApiAuth } from "../../../../lib/mcp/auth";
 
 // Request schema
 const SearchRequestSchema = z.object({
@@ -18,6 +20,8 @@ const SearchRequestSchema = z.object({
   similarity_threshold: z.number().min(0).max(1).default(0.3).optional().describe("Minimum similarity threshold for vector search (0-1, default: 0.3). Lower values = more results"),
   include_completed: z.boolean().default(false).optional().describe("Include completed actions in results (default: false)"),
   exclude_ids: z.array(z.string().uuid()).optional().describe("Action IDs to exclude from search results"),
+  tags: z.array(z.string().min(1)).max(MAX_TAGS_PER_REQUEST).optional().describe("Only return actions carrying these tags"),
+  tag_match: z.enum(["any", "all"]).default("any").optional().describe("With tags: 'any' keeps actions with at least one tag, 'all' requires every tag (default: any)"),
 });
 
 // Response schema for documentation
@@ -27,7 +31,7 @@ export interface ActionSearchApiResponse {
   error?: string;
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<ActionSearchApiResponse>> {
+export const POST = withApiAuth('viewer', async (request: NextRequest): Promise<NextResponse<ActionSearchApiResponse>> => {
   const startTime = performance.now();
 
   try {
@@ -41,7 +45,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ActionSea
       search_mode = "hybrid",
       similarity_threshold = 0.3,
       include_completed = false,
-      exclude_ids = []
+      exclude_ids = [],
+      tags,
+      tag_match = "any"
     } = validatedInput;
 
     console.log(`[/actions/search] Starting ${search_mode} search for: "${query}"`);
@@ -52,7 +58,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<ActionSea
       similarityThreshold: similarity_threshold,
       includeCompleted: include_completed,
       searchMode: search_mode,
-      excludeIds: exclude_ids
+      excludeIds: exclude_ids,
+      tags: tags && tags.length > 0 ? { tags, match: tag_match } : undefined
     });
 
     const totalRequestTimeMs = performance.now() - startTime;
@@ -96,7 +103,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ActionSea
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     }, { status: 500 });
   }
-}
+});
 
 // GET method for health check and API documentation
 export async function GET(): Promise<NextResponse> {
@@ -111,7 +118,9 @@ export async function GET(): Promise<NextResponse> {
         search_mode: 'string (optional, default: "hybrid") - Search mode: "vector", "keyword", or "hybrid"',
         similarity_threshold: 'number (optional, default: 0.3) - Minimum similarity threshold for vector search (0-1)',
         include_completed: 'boolean (optional, default: false) - Include completed actions in results',
-        exclude_ids: 'string[] (optional) - Action IDs to exclude from search results'
+        exclude_ids: 'string[] (optional) - Action IDs to exclude from search results',
+        tags: 'string[] (optional) - Only return actions carrying these tags',
+        tag_match: 'string (optional, default: "any") - "any" or "all" of the given tags'
       },
       response: {
         success: 'boolean - Whether the request was successful',
@@ -152,7 +161,7 @@ export async function GET(): Promise<NextResponse> {
       keyword_search: 'Fuzzy text matching with PostgreSQL ILIKE',
       hybrid_search: 'Combines vector and keyword approaches with intelligent ranking',
       performance: 'Optimized for sub-100ms response times',
-      filtering: 'Support for excluding completed actions and specific IDs',
+      filtering: 'Support for excluding completed actions and specific IDs, and for filtering by tag',
       hierarchy: 'Results include action hierarchy paths and depth information'
     },
     performance: {
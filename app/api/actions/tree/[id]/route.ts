@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../../lib/services/actions";
+import { withApiAuth } from "../../../../../lib/mcp/auth";
+import { ResourceQueryError, parseTreeBudget } from "../../../../../lib/utils/resource-query";
+import { SHARE_PARAM, ShareLinksService } from "../../../../../lib/services/share-links";
+import { runWithOrganization } from "../../../../../lib/db/organization-context";
 
 const treeQuerySchema = z.object({
   includeCompleted: z.string().optional().transform(val => {
@@ -14,10 +18,19 @@ const treeQuerySchema = z.object({
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for large trees
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Signed-in users and bearer tokens read any subtree of their organization. Visitors with a tree share link (see
+// lib/services/share-links.ts) read the shared subtree and nothing else, and anyone else gets a 401 - even on open
+// development servers, where the subtree would otherwise be readable by whoever guesses its ID
+const readAsCaller = withApiAuth('viewer', (request: NextRequest, { params }: RouteContext) => readTree(request, params, null), { tokenScope: 'read' });
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const share = new URL(request.url).searchParams.get(SHARE_PARAM);
+  return share === null ? readAsCaller(request, context) : readTree(request, context.params, share);
+}
+
+async function readTree(request: NextRequest, params: RouteContext['params'], share: string | null) {
   try {
     const resolvedParams = await params;
     const rootActionId = resolvedParams.id;
@@ -35,6 +48,8 @@ export async function GET(
     const params_query = treeQuerySchema.parse({
       includeCompleted: searchParams.get('includeCompleted'),
     });
+    // Unlimited unless asked for, so the tree views get everything
+    const budget = parseTreeBudget(searchParams, { maxDepth: null, maxNodes: null });
     
     // Add timeout protection
     const timeoutMs = 45000; // 45 seconds
@@ -42,11 +57,23 @@ export async function GET(
       setTimeout(() => reject(new Error('Scoped tree API timed out after 45 seconds')), timeoutMs);
     });
     
+    const loadTree = () => ActionsService.getActionTreeResourceScoped(rootActionId, params_query.includeCompleted, { ...budget, moreAt: '/api/actions/tree/{id}' });
+    let treePromise: Promise<unknown>;
+    if (share !== null) {
+      const shared = await ShareLinksService.contextFor(share, 'tree', rootActionId);
+      if (!shared) {
+        return NextResponse.json({
+          success: false,
+          error: "This share link has expired or doesn't cover this action"
+        }, { status: 404 });
+      }
+      treePromise = runWithOrganization(shared, loadTree);
+    } else {
+      treePromise = loadTree();
+    }
+
     // Get the scoped tree data
-    const treeData = await Promise.race([
-      ActionsService.getActionTreeResourceScoped(rootActionId, params_query.includeCompleted),
-      timeoutPromise
-    ]);
+    const treeData = await Promise.race([treePromise, timeoutPromise]);
     
     return NextResponse.json({
       success: true,
@@ -54,11 +81,16 @@ export async function GET(
       meta: {
         rootActionId,
         includeCompleted: params_query.includeCompleted,
+        maxDepth: budget.maxDepth,
+        maxNodes: budget.maxNodes,
         timestamp: new Date().toISOString(),
       }
     });
   } catch (error) {
     console.error('Error fetching scoped action tree:', error);
+    if (error instanceof ResourceQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       {
         success: false,
@@ -68,4 +100,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ActionsService } from "../../../../lib/services/actions";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+import { ResourceQueryError, parseTreeBudget } from "../../../../lib/utils/resource-query";
 
 const treeQuerySchema = z.object({
   includeCompleted: z.string().optional().transform(val => {
@@ -14,12 +16,14 @@ const treeQuerySchema = z.object({
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for large trees
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('viewer', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const params = treeQuerySchema.parse({
       includeCompleted: searchParams.get('includeCompleted'),
     });
+    // Unlimited unless asked for, so the tree views get everything
+    const budget = parseTreeBudget(searchParams, { maxDepth: null, maxNodes: null });
     
     // Add timeout protection like the MCP resource
     const timeoutMs = 45000; // 45 seconds
@@ -29,7 +33,7 @@ export async function GET(request: NextRequest) {
     
     // Get the tree data using the same method as the MCP resource
     const treeData = await Promise.race([
-      ActionsService.getActionTreeResource(params.includeCompleted),
+      ActionsService.getActionTreeResource(params.includeCompleted, undefined, { ...budget, moreAt: '/api/actions/tree/{id}' }),
       timeoutPromise
     ]);
     
@@ -38,11 +42,16 @@ export async function GET(request: NextRequest) {
       data: treeData,
       meta: {
         includeCompleted: params.includeCompleted,
+        maxDepth: budget.maxDepth,
+        maxNodes: budget.maxNodes,
         timestamp: new Date().toISOString(),
       }
     });
   } catch (error) {
     console.error('Error fetching action tree:', error);
+    if (error instanceof ResourceQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       {
         success: false,
@@ -52,4 +61,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "../../../../lib/db/adapter";
+import { inOrganization } from "../../../../lib/db/organization-context";
 import { actions, edges } from "../../../../db/schema";
 import { eq, and, inArray, sql, desc } from "drizzle-orm";
+import { ACTIONABLE_STATUSES, isClosedStatus, resolveStatus } from "../../../../lib/utils/action-status";
+import { withApiAuth } from "../../../../lib/mcp/auth";
 
 export const maxDuration = 60; // 60 seconds timeout
 
@@ -20,7 +23,7 @@ interface UnblockedDebugInfo {
   sample?: any[];
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('viewer', async (request: NextRequest) => {
   const startTime = Date.now();
   const debug: UnblockedDebugInfo = {
     totalActions: 0,
@@ -34,17 +37,17 @@ export async function GET(request: NextRequest) {
   try {
     // Step 1: Load all actions
     const actionsStart = Date.now();
-    const allActions = await getDb().select().from(actions);
+    const allActions = await getDb().select().from(actions).where(inOrganization(actions));
     debug.timings.loadActions = Date.now() - actionsStart;
     debug.totalActions = allActions.length;
     
-    // Filter incomplete actions
-    const incompleteActions = allActions.filter((a: any) => !a.done);
+    // Only todo and in-progress actions are candidates; blocked/in-review work is waiting on someone
+    const incompleteActions = allActions.filter((a: any) => (ACTIONABLE_STATUSES as readonly string[]).includes(resolveStatus(a)));
     debug.incompleteActions = incompleteActions.length;
     
     // Step 2: Load all edges
     const edgesStart = Date.now();
-    const allEdges = await getDb().select().from(edges);
+    const allEdges = await getDb().select().from(edges).where(inOrganization(edges));
     debug.timings.loadEdges = Date.now() - edgesStart;
     
     // Build lookup maps
@@ -85,7 +88,7 @@ export async function GET(request: NextRequest) {
       
       for (const depId of dependencies) {
         const dep = actionMap.get(depId) as any;
-        if (dep && !dep.done) {
+        if (dep && !isClosedStatus(resolveStatus(dep))) {
           dependenciesMet = false;
           break;
         }
@@ -98,10 +101,10 @@ export async function GET(request: NextRequest) {
       let isUnblocked = true;
       
       if (children.length > 0) {
-        // Has children - check if all are done
+        // Has children - check if all are done or cancelled
         for (const childId of children) {
           const child = actionMap.get(childId) as any;
-          if (child && !child.done) {
+          if (child && !isClosedStatus(resolveStatus(child))) {
             isUnblocked = false;
             break;
           }
@@ -113,6 +116,7 @@ export async function GET(request: NextRequest) {
         unblockedActions.push({
           id: action.id,
           title: (action.data as any).title,
+          status: resolveStatus(action),
           dependencies: dependencies.length,
           children: children.length
         });
@@ -140,4 +144,4 @@ export async function GET(request: NextRequest) {
       debug
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "../../../../lib/db/adapter";
 import { completionContexts, actions } from "../../../../db/schema";
-import { eq } from "drizzle-orm";
+import { eq, and, ne } from "drizzle-orm";
+import { resolveViewer } from "../../../../lib/mcp/auth";
+import { canViewChangelog } from "../../../../lib/services/changelog-visibility";
 
 export async function GET(
   request: NextRequest,
@@ -25,6 +27,7 @@ export async function GET(
         deck: completionContexts.deck,
         pullQuotes: completionContexts.pullQuotes,
         changelogVisibility: completionContexts.changelogVisibility,
+        organizationId: completionContexts.organizationId,
         completionTimestamp: completionContexts.completionTimestamp,
         createdAt: completionContexts.createdAt,
         updatedAt: completionContexts.updatedAt,
@@ -38,10 +41,11 @@ export async function GET(
       })
       .from(completionContexts)
       .innerJoin(actions, eq(completionContexts.actionId, actions.id))
-      .where(eq(actions.id, actionId))
+      .where(and(eq(actions.id, actionId), ne(actions.status, 'cancelled')))
       .limit(1);
     
-    if (result.length === 0) {
+    // Entries the viewer may not see look exactly like missing ones
+    if (result.length === 0 || !canViewChangelog(result[0], await resolveViewer(request))) {
       return NextResponse.json(
         {
           success: false,
@@ -51,9 +55,10 @@ export async function GET(
       );
     }
     
+    const { organizationId, ...item } = result[0];
     return NextResponse.json({
       success: true,
-      data: result[0],
+      data: item,
     });
   } catch (error) {
     console.error('Error fetching changelog item:', error);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { CompletionContextService, UpdateCompletionContextParams } from "../../../../lib/services/completion-context";
+import { resolveViewer, withApiAuth } from "../../../../lib/mcp/auth";
+import { runWithOrganization } from "../../../../lib/db/organization-context";
+import { changelogReaderContext, getVisibleChangelogOrganization } from "../../../../lib/services/changelog-visibility";
 
 const updateCompletionContextSchema = z.object({
   implementationStory: z.string().optional(),
@@ -46,14 +49,20 @@ const updateCompletionContextSchema = z.object({
   }
 );
 
+// Readable like the changelog - entries the caller may not see look exactly like missing ones
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ actionId: string }> }
 ) {
   try {
     const resolvedParams = await params;
+    const viewer = await resolveViewer(request);
+    const organizationId = await getVisibleChangelogOrganization(resolvedParams.actionId, viewer);
     
-    const context = await CompletionContextService.getCompletionContext(resolvedParams.actionId);
+    const context = organizationId
+      ? await runWithOrganization(changelogReaderContext(organizationId, viewer), () =>
+          CompletionContextService.getCompletionContext(resolvedParams.actionId))
+      : null;
     
     if (!context) {
       return NextResponse.json(
@@ -81,10 +90,10 @@ export async function GET(
   }
 }
 
-export async function PUT(
+export const PUT = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ actionId: string }> }
-) {
+) => {
   try {
     const body = await request.json();
     const updateParams = updateCompletionContextSchema.parse(body);
@@ -109,12 +118,12 @@ export async function PUT(
       { status: 400 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withApiAuth('member', async (
   request: NextRequest,
   { params }: { params: Promise<{ actionId: string }> }
-) {
+) => {
   try {
     const resolvedParams = await params;
     
@@ -144,4 +153,4 @@ export async function DELETE(
       { status: 400 }
     );
   }
-}
\ No newline at end of file
+});
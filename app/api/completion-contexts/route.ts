@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { CompletionContextService, CreateCompletionContextParams } from "../../../lib/services/completion-context";
+import { resolveViewer, withApiAuth } from "../../../lib/mcp/auth";
 
 const createCompletionContextSchema = z.object({
   actionId: z.string().uuid(),
@@ -16,7 +17,7 @@ const listCompletionContextsSchema = z.object({
   visibility: z.enum(["private", "team", "public"]).optional(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('member', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const params = createCompletionContextSchema.parse(body);
@@ -37,8 +38,9 @@ export async function POST(request: NextRequest) {
       { status: 400 }
     );
   }
-}
+});
 
+// Readable like the changelog: anonymous callers only get public entries (see lib/services/changelog-visibility.ts)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -48,7 +50,10 @@ export async function GET(request: NextRequest) {
       visibility: searchParams.get('visibility'),
     });
     
-    const contexts = await CompletionContextService.listCompletionContexts(params);
+    const contexts = await CompletionContextService.listCompletionContexts({
+      ...params,
+      visibleTo: await resolveViewer(request),
+    });
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,38 @@
+/**
+ * Vercel Cron job for removing expired OAuth authorization codes and tokens
+ * Runs daily; a token row is only removed once both its access and refresh tokens have expired
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OAuthService } from '../../../../lib/services/oauth';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron job request
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('Starting OAuth purge cron job');
+
+    const purged = await OAuthService.purgeExpired();
+
+    console.log(`OAuth purge cron job completed. Purged: ${purged}`);
+
+    return NextResponse.json({
+      success: true,
+      purged
+    });
+
+  } catch (error) {
+    console.error('OAuth purge cron job failed:', error);
+    return NextResponse.json(
+      { 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }, 
+      { status: 500 }
+    );
+  }
+}
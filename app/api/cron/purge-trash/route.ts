@@ -0,0 +1,39 @@
+/**
+ * Vercel Cron job for permanently removing trashed actions
+ * Runs daily and purges anything older than the retention period (TRASH_RETENTION_DAYS, default 30)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TrashService, getTrashRetentionDays } from '../../../../lib/services/trash';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron job request
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('Starting trash purge cron job');
+
+    const purged = await TrashService.purgeExpired();
+
+    console.log(`Trash purge cron job completed. Purged: ${purged}`);
+
+    return NextResponse.json({
+      success: true,
+      purged,
+      retention_days: getTrashRetentionDays()
+    });
+
+  } catch (error) {
+    console.error('Trash purge cron job failed:', error);
+    return NextResponse.json(
+      { 
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/db/adapter';
 import { sql } from 'drizzle-orm';
+import { withApiAuth } from '@/lib/mcp/auth';
 
-export async function GET() {
+export const GET = withApiAuth('admin', async (request: Request) => {
   try {
     const db = getDb();
     
@@ -46,4 +47,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -2,10 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '../../../../lib/db/adapter';
 import { actions } from '../../../../db/schema';
 import { eq } from 'drizzle-orm';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('admin', async (request: NextRequest) => {
   try {
     const db = getDb();
     
@@ -39,4 +40,4 @@ export async function GET(request: NextRequest) {
       details: error
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
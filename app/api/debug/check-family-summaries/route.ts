@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db/adapter';
 import { actions } from '@/db/schema';
 import { eq, isNotNull, desc } from 'drizzle-orm';
+import { withApiAuth } from '@/lib/mcp/auth';
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('admin', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const actionId = searchParams.get('id');
@@ -58,4 +59,4 @@ export async function GET(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
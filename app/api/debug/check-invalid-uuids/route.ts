@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('admin', async (request: NextRequest) => {
   try {
     console.log('[CheckInvalidUUIDs] Checking for invalid UUID data...');
     
@@ -67,4 +68,4 @@ export async function GET(request: NextRequest) {
       details: error
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
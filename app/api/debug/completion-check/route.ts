@@ -2,10 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '../../../../lib/db/adapter';
 import { completionContexts, actions } from '../../../../db/schema';
 import { eq } from 'drizzle-orm';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth('admin', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const actionId = searchParams.get('actionId') || 'fc37de88-37ae-41d2-84f7-5bb230fac631';
@@ -69,4 +70,4 @@ export async function GET(request: NextRequest) {
       stack: error instanceof Error ? error.stack : undefined
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -2,10 +2,11 @@ import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/db/adapter';
 import { completionContexts } from '@/db/schema';
 import { eq, or, and, isNotNull } from 'drizzle-orm';
+import { withApiAuth } from '@/lib/mcp/auth';
 
 export const maxDuration = 300; // 5 minutes max
 
-export async function GET() {
+export const GET = withApiAuth('admin', async (request: Request) => {
   try {
     const db = getDb();
     
@@ -78,4 +79,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('admin', async (request: NextRequest) => {
   try {
     console.log('[FixGitContext] Starting git_context column fix...');
     
@@ -38,4 +39,4 @@ export async function POST(request: NextRequest) {
       details: error
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
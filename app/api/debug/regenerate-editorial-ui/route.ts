@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
+import { withApiAuth } from '../../../../lib/mcp/auth';
 
-export async function GET() {
+export const GET = withApiAuth('admin', async (request: Request) => {
   const html = `
 <!DOCTYPE html>
 <html>
@@ -241,4 +242,4 @@ export async function GET() {
       'Content-Type': 'text/html',
     },
   });
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -4,10 +4,11 @@ import { actions, completionContexts, edges } from '@/db/schema';
 import { eq, and, lt, isNotNull, or, inArray } from 'drizzle-orm';
 import { EditorialAIService } from '@/lib/services/editorial-ai';
 import { EnhancedContextService } from '@/lib/services/enhanced-context';
+import { withApiAuth } from '@/lib/mcp/auth';
 
 export const maxDuration = 300; // 5 minutes max
 
-export async function GET(request: Request) {
+export const GET = withApiAuth('admin', async (request: Request) => {
   try {
     const url = new URL(request.url);
     const before = url.searchParams.get('before');
@@ -135,4 +136,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -3,8 +3,9 @@ import { getUnblockedActionsOptimized } from "../../../../lib/services/actions-o
 import { getDb } from "../../../../lib/db/adapter";
 import { actions } from "../../../../db/schema";
 import { eq } from "drizzle-orm";
+import { withApiAuth } from "../../../../lib/mcp/auth";
 
-export async function GET() {
+export const GET = withApiAuth("admin", async (request: Request) => {
   const results: any = {
     timings: {},
     counts: {},
@@ -62,4 +63,4 @@ export async function GET() {
       ...results
     });
   }
-}
\ No newline at end of file
+}, { tokenScope: "admin" });
\ No newline at end of file
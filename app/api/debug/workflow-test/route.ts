@@ -4,8 +4,9 @@ import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
 import { ActionsService } from '@/lib/services/actions';
 import { ActionSearchService } from '@/lib/services/action-search';
+import { withApiAuth } from '@/lib/mcp/auth';
 
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth('admin', async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { text } = body;
@@ -208,4 +209,4 @@ Return ONLY a JSON object in this format:
       error: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { tokenScope: 'admin' });
\ No newline at end of file
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getDb } from "../../../lib/db/adapter";
 import { completionContexts, actions } from "../../../db/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, and, desc } from "drizzle-orm";
+import { resolveViewer } from "../../../lib/mcp/auth";
+import { visibleChangelogCondition } from "../../../lib/services/changelog-visibility";
 
 const feedQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
@@ -20,9 +22,10 @@ export async function GET(request: NextRequest) {
     });
     
     const db = getDb();
+    const viewer = await resolveViewer(request);
     
     // Build query to join completion contexts with action data
-    let query = db
+    const query = db
       .select({
         // Completion context fields
         id: completionContexts.id,
@@ -47,12 +50,11 @@ export async function GET(request: NextRequest) {
       })
       .from(completionContexts)
       .innerJoin(actions, eq(completionContexts.actionId, actions.id))
-      .where(eq(actions.done, true)); // Only show completed actions
-    
-    // Add visibility filter if specified
-    if (params.visibility) {
-      query = query.where(eq(completionContexts.changelogVisibility, params.visibility)) as any;
-    }
+      .where(and(
+        eq(actions.status, 'done'), // Only show completed actions - cancelled work never reaches the feed
+        visibleChangelogCondition(viewer), // Anonymous viewers only get public items
+        params.visibility ? eq(completionContexts.changelogVisibility, params.visibility) : undefined
+      ));
     
     // Order by completion timestamp (most recent first) and apply pagination
     const feedItems = await query
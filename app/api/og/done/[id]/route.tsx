@@ -6,6 +6,9 @@ import { NextRequest } from 'next/server';
 import { getDb } from '@/lib/db/adapter';
 import { completionContexts, actions } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveViewer } from '@/lib/mcp/auth';
+import { canViewChangelog } from '@/lib/services/changelog-visibility';
+import { SHARE_PARAM, ShareLinksService } from '@/lib/services/share-links';
 
 // Fetch completion data directly from database
 async function getCompletionItem(id: string) {
@@ -21,6 +24,7 @@ async function getCompletionItem(id: string) {
         impactStory: completionContexts.impactStory,
         learningStory: completionContexts.learningStory,
         changelogVisibility: completionContexts.changelogVisibility,
+        organizationId: completionContexts.organizationId,
         completionTimestamp: completionContexts.completionTimestamp,
         createdAt: completionContexts.createdAt,
         updatedAt: completionContexts.updatedAt,
@@ -52,7 +56,12 @@ export async function GET(
     const { id } = await context.params;
     const completionItem = await getCompletionItem(id);
     
-    if (!completionItem) {
+    // Crawlers are anonymous, so only public entries - and entries whose share link they were given - get a real preview image
+    const visible = completionItem && (
+      canViewChangelog(completionItem, await resolveViewer(request)) ||
+      await ShareLinksService.contextFor(request.nextUrl.searchParams.get(SHARE_PARAM), 'done', id)
+    );
+    if (!completionItem || !visible) {
       // Default image for not found
       return new ImageResponse(
         (
@@ -75,6 +84,7 @@ export async function GET(
         {
           width: 1200,
           height: 630,
+          status: 404,
         }
       );
     }
@@ -6,6 +6,8 @@ import { NextRequest } from 'next/server';
 import { getDb } from '@/lib/db/adapter';
 import { completionContexts, actions } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveViewer } from '@/lib/mcp/auth';
+import { canViewChangelog } from '@/lib/services/changelog-visibility';
 
 // Fetch changelog data directly from database
 async function getChangelogItem(id: string) {
@@ -21,6 +23,7 @@ async function getChangelogItem(id: string) {
         impactStory: completionContexts.impactStory,
         learningStory: completionContexts.learningStory,
         changelogVisibility: completionContexts.changelogVisibility,
+        organizationId: completionContexts.organizationId,
         completionTimestamp: completionContexts.completionTimestamp,
         createdAt: completionContexts.createdAt,
         updatedAt: completionContexts.updatedAt,
@@ -52,7 +55,8 @@ export async function GET(
     const { id } = await context.params;
     const changelogItem = await getChangelogItem(id);
     
-    if (!changelogItem) {
+    // Crawlers are anonymous, so only public entries get a real preview image
+    if (!changelogItem || !canViewChangelog(changelogItem, await resolveViewer(request))) {
       // Default image for not found
       return new ImageResponse(
         (
@@ -75,6 +79,7 @@ export async function GET(
         {
           width: 1200,
           height: 630,
+          status: 404,
         }
       );
     }
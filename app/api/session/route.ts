@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signInGrant } from '../../../lib/services/oauth';
+import { SignInError } from '../../../lib/services/organizations';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, WebSessionsService } from '../../../lib/services/web-sessions';
+
+// Only same-site paths, so the sign-in form can't be used as an open redirect
+function safeNextPath(next: FormDataEntryValue | null): string {
+  return typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+function clearSession(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+  return response;
+}
+
+/**
+ * Sign-in form submission from /signin: start a browser session and go back to `next`.
+ * Submitting with `intent=signout` ends the session instead.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const next = safeNextPath(form.get('next'));
+  const existing = request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (form.get('intent') === 'signout') {
+    if (existing) await WebSessionsService.revoke(existing);
+    return clearSession(NextResponse.redirect(new URL('/', request.nextUrl.origin), 303));
+  }
+
+  try {
+    const grant = await signInGrant({
+      email: form.get('email') as string | null,
+      password: form.get('password') as string | null,
+      workspace: form.get('workspace') as string | null,
+    });
+    if (existing) await WebSessionsService.revoke(existing);
+    const session = await WebSessionsService.create(grant);
+    console.log(`[Session] Signed in to organization ${grant.organization_id}`);
+
+    const response = NextResponse.redirect(new URL(next, request.nextUrl.origin), 303);
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof SignInError) {
+      const signInUrl = new URL('/signin', request.nextUrl.origin);
+      signInUrl.searchParams.set('next', next);
+      signInUrl.searchParams.set('error', error.message);
+      return NextResponse.redirect(signInUrl, 303);
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const existing = request.cookies.get(SESSION_COOKIE)?.value;
+  if (existing) await WebSessionsService.revoke(existing);
+  return clearSession(NextResponse.json({ success: true }));
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { ShareLinksService } from "../../../../lib/services/share-links";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+
+export const DELETE = withApiAuth('viewer', async (
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const link = await ShareLinksService.revoke(id);
+    return NextResponse.json({ success: true, data: link });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.includes('not found') ? 404 : 400 }
+    );
+  }
+}, { idParam: 'other' });
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { MAX_SHARE_LINK_TTL_DAYS, SHARE_LINK_KINDS, ShareLinksService } from "../../../lib/services/share-links";
+import { PermissionDeniedError } from "../../../lib/services/permissions";
+import { withApiAuth } from "../../../lib/mcp/auth";
+
+const createShareLinkSchema = z.object({
+  kind: z.enum(SHARE_LINK_KINDS),
+  action_id: z.string().uuid(),
+  expires_in_days: z.number().int().min(1).max(MAX_SHARE_LINK_TTL_DAYS).nullable().optional(),
+});
+
+const listShareLinksSchema = z.object({
+  action_id: z.string().uuid().optional(),
+});
+
+export const GET = withApiAuth('viewer', async (request: Request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { action_id } = listShareLinksSchema.parse({
+      action_id: searchParams.get('action_id') ?? undefined,
+    });
+    const links = await ShareLinksService.list(action_id);
+    return NextResponse.json({ success: true, data: links });
+  } catch (error) {
+    console.error('Error listing share links:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: error instanceof z.ZodError ? 400 : 500 }
+    );
+  }
+});
+
+export const POST = withApiAuth('member', async (request: Request) => {
+  try {
+    const body = await request.json();
+    const params = createShareLinkSchema.parse(body);
+    const link = await ShareLinksService.create(params);
+    return NextResponse.json({ success: true, data: link }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: error instanceof PermissionDeniedError ? 403 : message.includes('not found') ? 404 : 400 }
+    );
+  }
+});
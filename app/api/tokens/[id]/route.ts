@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { ApiTokensService } from "../../../../lib/services/api-tokens";
+import { withApiAuth } from "../../../../lib/mcp/auth";
+
+export const DELETE = withApiAuth('viewer', async (
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const token = await ApiTokensService.revoke(id);
+    return NextResponse.json({ success: true, data: token });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.includes('not found') ? 404 : 400 }
+    );
+  }
+}, { tokenScope: 'admin', idParam: 'other' });
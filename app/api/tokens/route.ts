@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiTokensService } from "../../../lib/services/api-tokens";
+import { PermissionDeniedError } from "../../../lib/services/permissions";
+import { withApiAuth } from "../../../lib/mcp/auth";
+import { TOKEN_SCOPES } from "../../../lib/utils/organization-roles";
+
+const createTokenSchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1),
+  root_action_id: z.string().uuid().nullable().optional(),
+  expires_in_days: z.number().int().min(1).nullable().optional(),
+});
+
+// Only signed-in users and admin-scoped tokens may manage tokens, so a token can't be used to mint more of itself.
+// Viewers may list and create tokens too - a token never gets more than its creator's role
+export const GET = withApiAuth('viewer', async (request: Request) => {
+  try {
+    const tokens = await ApiTokensService.list();
+    return NextResponse.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error('Error listing API tokens:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}, { tokenScope: 'admin' });
+
+export const POST = withApiAuth('viewer', async (request: Request) => {
+  try {
+    const body = await request.json();
+    const params = createTokenSchema.parse(body);
+    const token = await ApiTokensService.create(params);
+    return NextResponse.json({ success: true, data: token }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: error instanceof PermissionDeniedError ? 403 : 400 }
+    );
+  }
+}, { tokenScope: 'admin' });
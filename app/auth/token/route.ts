@@ -1,49 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { OAuthError, OAuthService } from '../../../lib/services/oauth';
+import { OAuthClientsService } from '../../../lib/services/oauth-clients';
+
+const TOKEN_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+  'Pragma': 'no-cache',
+  'Access-Control-Allow-Origin': '*'
+};
 
 export async function POST(request: NextRequest) {
   try {
     console.log('[OAuth Token] POST /auth/token received');
-    let body;
+    let body: Record<string, any>;
     const contentType = request.headers.get('content-type') || '';
-    
+
     if (contentType.includes('application/json')) {
       body = await request.json();
     } else {
       const formData = await request.formData();
       body = Object.fromEntries(formData);
     }
-    
-    console.log('[OAuth Token] Request body:', body);
+
+    // Public clients send client_id in the body; confidential ones use HTTP Basic or client_secret in the body
+    const basic = request.headers.get('authorization');
+    if (basic?.startsWith('Basic ')) {
+      const [id, secret = ''] = Buffer.from(basic.substring(6), 'base64').toString().split(':');
+      body.client_id = decodeURIComponent(id);
+      body.client_secret = decodeURIComponent(secret);
+    }
+
     const { grant_type } = body;
-    
+    console.log(`[OAuth Token] grant_type=${grant_type} client_id=${body.client_id}`);
+
+    const client = await OAuthClientsService.authenticateClient(body.client_id, body.client_secret);
+    if (grant_type && !client.grant_types.includes(grant_type)) {
+      throw new OAuthError('unauthorized_client', `Client is not registered for the ${grant_type} grant`);
+    }
+
     if (grant_type === 'authorization_code') {
-      const response = {
-        access_token: `access_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        token_type: 'Bearer',
-        expires_in: 3600,
-        scope: 'mcp'
-      };
-      
-      console.log('[OAuth Token] Sending response:', response);
-      return NextResponse.json(response, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-store',
-          'Pragma': 'no-cache',
-          'Access-Control-Allow-Origin': '*'
-        }
+      const response = await OAuthService.exchangeAuthorizationCode({
+        code: body.code,
+        client_id: client.client_id,
+        redirect_uri: body.redirect_uri,
+        code_verifier: body.code_verifier,
+      });
+      return NextResponse.json(response, { headers: TOKEN_HEADERS });
+    }
+
+    if (grant_type === 'refresh_token') {
+      const response = await OAuthService.refreshAccessToken({
+        refresh_token: body.refresh_token,
+        client_id: client.client_id,
       });
+      return NextResponse.json(response, { headers: TOKEN_HEADERS });
     }
-    
-    return NextResponse.json({ error: 'unsupported_grant_type' }, { 
+
+    return NextResponse.json({ error: 'unsupported_grant_type' }, {
       status: 400,
-      headers: { 'Access-Control-Allow-Origin': '*' }
+      headers: TOKEN_HEADERS
     });
   } catch (error) {
+    if (error instanceof OAuthError) {
+      console.log(`[OAuth Token] ${error.error}: ${error.description}`);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: TOKEN_HEADERS });
+    }
     console.log('[OAuth Token] Error:', error);
-    return NextResponse.json({ error: 'invalid_request' }, { 
+    return NextResponse.json({ error: 'invalid_request' }, {
       status: 400,
-      headers: { 'Access-Control-Allow-Origin': '*' }
+      headers: TOKEN_HEADERS
     });
   }
 }
@@ -58,4 +83,4 @@ export async function OPTIONS() {
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import Link from 'next/link';
+import { STATUS_ICONS, STATUS_LABELS, isClosedStatus, resolveStatus } from '../../lib/utils/action-status';
 
 interface ActionTreeProps {
   actions: any[];
@@ -16,9 +17,11 @@ interface ActionTreeProps {
   };
   expandedNodes: Set<string>;
   onToggleExpanded: (actionId: string) => void;
+  share?: string; // Share link token: keep it on subtree links, and don't link to action pages it doesn't open
 }
 
-export default function ActionTree({ actions, colors, expandedNodes, onToggleExpanded }: ActionTreeProps) {
+export default function ActionTree({ actions, colors, expandedNodes, onToggleExpanded, share }: ActionTreeProps) {
+  const shareQuery = share ? `?share=${encodeURIComponent(share)}` : '';
 
   // Recursive function to count all descendants
   const countAllDescendants = (action: any): number => {
@@ -39,6 +42,8 @@ export default function ActionTree({ actions, colors, expandedNodes, onToggleExp
     const indentLevel = depth > 0 ? `${depth * 20}px` : '0';
     const hasChildren = action.children && action.children.length > 0;
     const isExpanded = expandedNodes.has(action.id);
+    const status = resolveStatus(action);
+    const closed = isClosedStatus(status);
     
     return (
       <div key={action.id} style={{ marginLeft: indentLevel }}>
@@ -52,7 +57,7 @@ export default function ActionTree({ actions, colors, expandedNodes, onToggleExp
           }}>
             {hasChildren && (
               <Link
-                href={`/tree/${action.id}`}
+                href={`/tree/${action.id}${shareQuery}`}
                 prefetch={true}
                 style={{ 
                   fontSize: '0.75rem', 
@@ -113,29 +118,45 @@ export default function ActionTree({ actions, colors, expandedNodes, onToggleExp
                 ▷
               </div>
             )}
-            <span style={{
-              fontSize: '0.75rem',
-              color: action.done ? colors.textFaint : colors.borderAccent,
-              fontWeight: '500',
-              width: '16px',
-              display: 'inline-block'
-            }}>
-              {action.done ? '✓' : ''}
-            </span>
-            <Link 
-              href={`/${action.id}`}
-              prefetch={true}
+            <span
+              title={STATUS_LABELS[status]}
               style={{
-                fontSize: '0.875rem',
+                fontSize: '0.75rem',
+                color: closed ? colors.textFaint : colors.borderAccent,
                 fontWeight: '500',
-                color: action.done ? colors.textFaint : colors.text,
-                textDecoration: 'none'
+                width: '16px',
+                display: 'inline-block'
               }}
-              onMouseEnter={e => (e.currentTarget as HTMLAnchorElement).style.textDecoration = 'underline'}
-              onMouseLeave={e => (e.currentTarget as HTMLAnchorElement).style.textDecoration = 'none'}
             >
-              {action.title}
-            </Link>
+              {STATUS_ICONS[status]}
+            </span>
+            {share ? (
+              <span
+                style={{
+                  fontSize: '0.875rem',
+                  fontWeight: '500',
+                  color: closed ? colors.textFaint : colors.text,
+                  textDecoration: status === 'cancelled' ? 'line-through' : 'none'
+                }}
+              >
+                {action.title}
+              </span>
+            ) : (
+              <Link 
+                href={`/${action.id}`}
+                prefetch={true}
+                style={{
+                  fontSize: '0.875rem',
+                  fontWeight: '500',
+                  color: closed ? colors.textFaint : colors.text,
+                  textDecoration: status === 'cancelled' ? 'line-through' : 'none'
+                }}
+                onMouseEnter={e => (e.currentTarget as HTMLAnchorElement).style.textDecoration = 'underline'}
+                onMouseLeave={e => (e.currentTarget as HTMLAnchorElement).style.textDecoration = status === 'cancelled' ? 'line-through' : 'none'}
+              >
+                {action.title}
+              </Link>
+            )}
           </div>
         </div>
         {/* Render children recursively - only if expanded */}
@@ -1,6 +1,11 @@
 import { Metadata } from 'next';
+import { headers } from 'next/headers';
 import { notFound } from 'next/navigation';
 import { ActionsService } from '@/lib/services/actions';
+import { resolveViewer } from '@/lib/mcp/auth';
+import { runWithOrganization } from '@/lib/db/organization-context';
+import { changelogReaderContext, getVisibleChangelogOrganization } from '@/lib/services/changelog-visibility';
+import { SHARE_PARAM, ShareLinksService } from '@/lib/services/share-links';
 import { ObjectiveEditorialService } from '@/lib/services/objective-editorial';
 import { TemplateContentService } from '@/lib/services/template-content';
 import { CompletionContextService } from '@/lib/services/completion-context';
@@ -11,7 +16,19 @@ import CustomerTemplate from '@/components/CustomerTemplate';
 
 interface PageProps {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ template?: 'engineering' | 'business' | 'customer'; view?: string }>;
+  searchParams: Promise<{ template?: 'engineering' | 'business' | 'customer'; view?: string; share?: string }>;
+}
+
+// Load the entry in its own organization - or nothing, as if it didn't exist, when the viewer may not see it and
+// hasn't been given a share link for it
+async function getVisibleCompletionData(id: string, share?: string) {
+  const viewer = await resolveViewer({ headers: await headers() });
+  const organizationId = await getVisibleChangelogOrganization(id, viewer);
+  if (organizationId) {
+    return runWithOrganization(changelogReaderContext(organizationId, viewer), () => getCompletionData(id));
+  }
+  const shared = await ShareLinksService.contextFor(share, 'done', id);
+  return shared ? runWithOrganization(shared, () => getCompletionData(id)) : null;
 }
 
 async function getCompletionData(id: string) {
@@ -210,9 +227,10 @@ async function getCompletionData(id: string) {
   }
 }
 
-export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: PageProps): Promise<Metadata> {
   const { id } = await params;
-  const completionData = await getCompletionData(id);
+  const { share } = await searchParams;
+  const completionData = await getVisibleCompletionData(id, share);
   
   if (!completionData) {
     return {
@@ -229,6 +247,10 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     ? `https://${process.env.VERCEL_URL}` 
     : 'https://done.engineering';
   const canonicalUrl = `${baseUrl}/done/${id}`;
+  // Whoever was sent a share link may forward it to a chat app, which needs the link to fetch the preview image
+  const imageUrl = share && completionData.changelogVisibility !== 'public'
+    ? `${baseUrl}/api/og/done/${id}?${SHARE_PARAM}=${encodeURIComponent(share)}`
+    : `${baseUrl}/api/og/done/${id}`;
   
   return {
     title,
@@ -243,7 +265,7 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
       authors: ['done.engineering'],
       images: [
         {
-          url: `${baseUrl}/api/og/done/${id}`,
+          url: imageUrl,
           width: 1200,
           height: 630,
           alt: title,
@@ -254,20 +276,22 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
       card: 'summary_large_image',
       title,
       description,
-      images: [`${baseUrl}/api/og/done/${id}`],
+      images: [imageUrl],
       creator: '@doneengineering',
     },
     alternates: {
       canonical: canonicalUrl,
     },
+    // Team and private entries are only shown to signed-in members - keep them out of search engines
+    robots: completionData.changelogVisibility === 'public' ? undefined : { index: false },
   };
 }
 
 export default async function DonePage({ params, searchParams }: PageProps) {
   const { id } = await params;
-  const { template, view } = await searchParams;
+  const { template, view, share } = await searchParams;
   
-  const completionData = await getCompletionData(id);
+  const completionData = await getVisibleCompletionData(id, share);
   
   if (!completionData) {
     notFound();
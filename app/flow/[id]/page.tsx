@@ -11,6 +11,7 @@ import ReactFlow, {
   MarkerType
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import { STATUS_LABELS, resolveStatus, type ActionStatus } from '../../../lib/utils/action-status';
 
 type ActionMetadata = {
   id: string;
@@ -18,6 +19,7 @@ type ActionMetadata = {
   description?: string | null;
   vision?: string | null;
   done: boolean;
+  status?: ActionStatus;
   version: number;
   created_at: string;
   updated_at: string;
@@ -398,7 +400,7 @@ export default function FlowIdPage() {
       <div className="p-3 bg-gray-100 border-b">
         <h1 className="text-xl font-bold">{action.title}</h1>
         <h2 className="text-sm text-gray-700">Contextual Flow View</h2>
-        <p className="text-gray-600">Status: {action.done ? 'Completed' : 'In Progress'}</p>
+        <p className="text-gray-600">Status: {STATUS_LABELS[resolveStatus(action)]}</p>
         <p className="text-xs text-gray-500">
           {relationships.ancestors.length} ancestor{relationships.ancestors.length !== 1 ? 's' : ''} • {' '}
           {relationships.children.length} child{relationships.children.length !== 1 ? 'ren' : ''} • {' '}
@@ -10,11 +10,13 @@ import ReactFlow, {
   ConnectionMode
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import { resolveStatus, type ActionStatus } from '../../lib/utils/action-status';
 
 type ActionNode = {
   id: string;
   title: string;
   done: boolean;
+  status?: ActionStatus;
   created_at: string;
   children: ActionNode[];
   dependencies: string[];
@@ -23,6 +25,15 @@ type ActionNode = {
 // Define node types outside component
 const nodeTypes = {};
 
+const STATUS_COLORS: Record<ActionStatus, { border: string; background: string }> = {
+  todo: { border: '#3b82f6', background: '#eff6ff' },
+  in_progress: { border: '#3b82f6', background: '#eff6ff' },
+  blocked: { border: '#ef4444', background: '#fef2f2' },
+  in_review: { border: '#8b5cf6', background: '#f5f3ff' },
+  done: { border: '#10b981', background: '#ecfdf5' },
+  cancelled: { border: '#9ca3af', background: '#f3f4f6' },
+};
+
 export default function FlowPage() {
   const router = useRouter();
   const [actions, setActions] = useState<ActionNode[]>([]);
@@ -78,9 +89,9 @@ export default function FlowPage() {
         },
         style: {
           width: 250,
-          border: action.done ? '2px solid #10b981' : '2px solid #3b82f6',
+          border: `2px solid ${STATUS_COLORS[resolveStatus(action)].border}`,
           borderRadius: '8px',
-          backgroundColor: action.done ? '#ecfdf5' : '#eff6ff',
+          backgroundColor: STATUS_COLORS[resolveStatus(action)].background,
           cursor: 'pointer'
         }
       };
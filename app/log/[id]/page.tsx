@@ -1,7 +1,11 @@
 import { Metadata } from 'next';
+import { headers } from 'next/headers';
 import { notFound } from 'next/navigation';
 import ScopedLogPageClient from './client';
 import { ActionsService } from '@/lib/services/actions';
+import { resolveViewer } from '@/lib/mcp/auth';
+import { getOrganizationId } from '@/lib/db/organization-context';
+import { canViewChangelog } from '@/lib/services/changelog-visibility';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -129,10 +133,15 @@ export default async function ScopedLogPage({ params }: PageProps) {
   
   console.log('ScopedLogPage - Action ID:', id);
   
-  const [action, completedActions] = await Promise.all([
+  const [action, scopedCompletedActions, viewer] = await Promise.all([
     getActionDetails(id),
-    getScopedCompletedActions(id)
+    getScopedCompletedActions(id),
+    resolveViewer({ headers: await headers() })
   ]);
+  // Only list the entries whose changelog visibility lets this viewer see them
+  const completedActions = scopedCompletedActions.filter(item =>
+    canViewChangelog({ organizationId: getOrganizationId(), changelogVisibility: item.changelogVisibility }, viewer)
+  );
   
   console.log('ScopedLogPage - Action found:', !!action);
   console.log('ScopedLogPage - Completed actions count:', completedActions.length);
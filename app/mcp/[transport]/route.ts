@@ -1,6 +1,7 @@
 import { createMcpHandler } from "@vercel/mcp-adapter";
 import { authenticatedHandler } from "../../../lib/mcp/auth";
 import { registerResources, resourceCapabilities } from "../../../lib/mcp/resources";
+import { registerSubscriptions } from "../../../lib/mcp/subscriptions";
 import { registerTools, toolCapabilities } from "../../../lib/mcp/tools";
 import { registerPrompts, promptCapabilities } from "../../../lib/mcp/prompts";
 
@@ -12,6 +13,8 @@ const handler = createMcpHandler(
     console.log('[MCP HANDLER] Registering MCP server components...');
     registerResources(server);
     console.log('[MCP HANDLER] Resources registered');
+    registerSubscriptions(server);
+    console.log('[MCP HANDLER] Resource subscriptions registered');
     registerTools(server);
     console.log('[MCP HANDLER] Tools registered');
     registerPrompts(server);
@@ -23,6 +26,7 @@ const handler = createMcpHandler(
       resources: resourceCapabilities,
       tools: toolCapabilities,
       prompts: promptCapabilities,
+      completions: {}, // Action IDs for prompt arguments and resource templates (lib/mcp/completions.ts)
     },
   },
   {
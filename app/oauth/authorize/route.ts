@@ -1,18 +1,133 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { OAuthError, OAuthService, assertValidAuthorizationRequest, signInGrant, type AuthorizationGrant } from '../../../lib/services/oauth';
+import { OAuthClientsService } from '../../../lib/services/oauth-clients';
+import { SignInError } from '../../../lib/services/organizations';
 
+const AUTHORIZATION_PARAMS = ['response_type', 'client_id', 'redirect_uri', 'state', 'scope', 'code_challenge', 'code_challenge_method'] as const;
+
+type AuthorizationParams = Partial<Record<typeof AUTHORIZATION_PARAMS[number], string>>;
+
+function readParams(source: URLSearchParams | FormData): AuthorizationParams {
+  const params: AuthorizationParams = {};
+  for (const name of AUTHORIZATION_PARAMS) {
+    const value = source.get(name);
+    if (typeof value === 'string' && value !== '') {
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+// Errors we can't safely redirect with (unknown client or redirect target) are shown to the user directly
+function invalidClientResponse(error: OAuthError) {
+  return NextResponse.json(error.toJSON(), { status: 400 });
+}
+
+function redirectWithParams(redirectUri: string, values: Record<string, string | undefined>) {
+  const callbackUrl = new URL(redirectUri);
+  for (const [name, value] of Object.entries(values)) {
+    if (value) {
+      callbackUrl.searchParams.set(name, value);
+    }
+  }
+  return NextResponse.redirect(callbackUrl.toString(), 303);
+}
+
+// Back to the consent screen with the request intact and an error to show
+function consentErrorRedirect(request: NextRequest, params: AuthorizationParams, message: string) {
+  const consentUrl = new URL('/oauth/consent', request.nextUrl.origin);
+  for (const [name, value] of Object.entries(params)) {
+    consentUrl.searchParams.set(name, value);
+  }
+  consentUrl.searchParams.set('consent_error', message);
+  return NextResponse.redirect(consentUrl.toString(), 303);
+}
+
+async function checkClient(params: AuthorizationParams): Promise<NextResponse | null> {
+  try {
+    await OAuthClientsService.assertAuthorizationClient(params.client_id, params.redirect_uri);
+    return null;
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      console.log(`[OAuth Authorize] Rejected client ${params.client_id}: ${error.description}`);
+      return invalidClientResponse(error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start of the authorization code flow - validate the request and send the user to the consent screen
+ */
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const clientId = searchParams.get('client_id');
-  const redirectUri = searchParams.get('redirect_uri');
-  const state = searchParams.get('state');
-  
-  const authCode = `auth_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  const callbackUrl = new URL(redirectUri!);
-  callbackUrl.searchParams.set('code', authCode);
-  if (state) {
-    callbackUrl.searchParams.set('state', state);
+  const params = readParams(request.nextUrl.searchParams);
+  const clientError = await checkClient(params);
+  if (clientError) return clientError;
+
+  try {
+    assertValidAuthorizationRequest(params);
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return redirectWithParams(params.redirect_uri!, { error: error.error, error_description: error.description, state: params.state });
+    }
+    throw error;
+  }
+
+  const consentUrl = new URL('/oauth/consent', request.nextUrl.origin);
+  for (const [name, value] of Object.entries(params)) {
+    consentUrl.searchParams.set(name, value);
+  }
+  return NextResponse.redirect(consentUrl.toString());
+}
+
+/**
+ * Consent form submission - approve (issuing a code) or deny, then return to the client.
+ * Approving with an email signs in as that workspace user and binds the code to their organization;
+ * approving with just the owner password binds it to the default organization.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData();
+  const params = readParams(form);
+  const clientError = await checkClient(params);
+  if (clientError) return clientError;
+
+  try {
+    assertValidAuthorizationRequest(params);
+
+    if (form.get('decision') !== 'approve') {
+      throw new OAuthError('access_denied', 'The owner denied the request');
+    }
+
+    let grant: AuthorizationGrant;
+    try {
+      grant = await signInGrant({
+        email: form.get('email') as string | null,
+        password: form.get('password') as string | null,
+        workspace: form.get('workspace') as string | null,
+      });
+    } catch (error) {
+      if (error instanceof SignInError) {
+        console.log(`[OAuth Authorize] Rejected approval: ${error.message}`);
+        return consentErrorRedirect(request, params, error.message);
+      }
+      throw error;
+    }
+
+    const code = await OAuthService.createAuthorizationCode({
+      client_id: params.client_id!,
+      redirect_uri: params.redirect_uri!,
+      code_challenge: params.code_challenge!,
+      code_challenge_method: params.code_challenge_method!,
+      scope: params.scope,
+    }, grant);
+
+    console.log(`[OAuth Authorize] Issued authorization code for client ${params.client_id} in organization ${grant.organization_id}`);
+    return redirectWithParams(params.redirect_uri!, { code, state: params.state });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return redirectWithParams(params.redirect_uri!, { error: error.error, error_description: error.description, state: params.state });
+    }
+    console.error('[OAuth Authorize] Error:', error);
+    return redirectWithParams(params.redirect_uri!, { error: 'server_error', state: params.state });
   }
-  
-  return NextResponse.redirect(callbackUrl.toString());
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+import { Metadata } from 'next';
+import { getConsentMode } from '@/lib/services/oauth';
+import { OAuthClientsService } from '@/lib/services/oauth-clients';
+
+export const metadata: Metadata = {
+  title: 'Authorize access',
+  robots: { index: false },
+};
+
+// Rendered per request - the consent mode depends on runtime configuration
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<Record<string, string | undefined>>;
+}
+
+const FORWARDED_PARAMS = ['response_type', 'client_id', 'redirect_uri', 'state', 'scope', 'code_challenge', 'code_challenge_method'];
+
+export default async function ConsentPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const mode = getConsentMode();
+  const client = params.client_id ? await OAuthClientsService.getClient(params.client_id).catch(() => null) : null;
+  let redirectHost = params.redirect_uri;
+  try {
+    redirectHost = new URL(params.redirect_uri || '').host || params.redirect_uri;
+  } catch {
+    // Shown as given - /oauth/authorize rejects it on submit
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <form method="post" action="/oauth/authorize" className="w-full max-w-md border border-border rounded-lg p-6 space-y-4">
+        <h1 className="text-xl font-semibold">Authorize access</h1>
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{client?.client_name || 'An unnamed client'}</span>{' '}
+          (<span className="font-mono">{params.client_id || 'unknown'}</span>) wants to read and change
+          your actions through MCP{params.scope ? <> (scope: <span className="font-mono">{params.scope}</span>)</> : null}.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          You will be sent back to <span className="font-mono text-foreground">{redirectHost}</span>.
+        </p>
+
+        {FORWARDED_PARAMS.map(name => params[name] ? (
+          <input key={name} type="hidden" name={name} value={params[name]} />
+        ) : null)}
+
+        <p className="text-sm text-muted-foreground">
+          {mode === 'disabled'
+            ? <>Sign in with your workspace account. Owner approval is disabled until <code>OAUTH_OWNER_PASSWORD</code> is configured.</>
+            : <>Sign in with your workspace account, or leave the email empty to approve as the owner of the default workspace.</>}
+        </p>
+
+        <label className="block text-sm">
+          <span className="text-muted-foreground">Email</span>
+          <input
+            type="email"
+            name="email"
+            autoComplete="username"
+            autoFocus
+            required={mode === 'disabled'}
+            className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-muted-foreground">Workspace (only needed if you belong to several)</span>
+          <input
+            type="text"
+            name="workspace"
+            placeholder="slug"
+            className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-muted-foreground">{mode === 'password' ? 'Password (or owner password)' : 'Password'}</span>
+          <input
+            type="password"
+            name="password"
+            autoComplete="current-password"
+            required={mode !== 'open'}
+            className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+          />
+        </label>
+
+        {params.consent_error && (
+          <p className="text-sm text-red-600">{params.consent_error}</p>
+        )}
+
+        {/* Approve comes first so pressing Enter in the password field approves; row-reverse keeps Deny on the left */}
+        <div className="flex flex-row-reverse gap-2">
+          <button
+            type="submit"
+            name="decision"
+            value="approve"
+            className="px-4 py-2 rounded-md bg-foreground text-background text-sm disabled:opacity-50"
+          >
+            Approve
+          </button>
+          <button type="submit" name="decision" value="deny" formNoValidate className="px-4 py-2 rounded-md border border-border text-sm">
+            Deny
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OAuthService } from '../../../lib/services/oauth';
+
+/**
+ * RFC 7009 token revocation. Accepts either token of a pair and always answers 200,
+ * so callers can't probe which tokens exist.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    const body: Record<string, any> = contentType.includes('application/json')
+      ? await request.json()
+      : Object.fromEntries(await request.formData());
+
+    if (!body.token) {
+      return NextResponse.json({ error: 'invalid_request', error_description: 'token is required' }, {
+        status: 400,
+        headers: { 'Access-Control-Allow-Origin': '*' }
+      });
+    }
+
+    const revoked = await OAuthService.revokeToken(String(body.token));
+    console.log(`[OAuth Revoke] ${revoked ? 'Revoked token pair' : 'Token unknown or already revoked'}`);
+  } catch (error) {
+    console.log('[OAuth Revoke] Error:', error);
+  }
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: { 'Access-Control-Allow-Origin': '*' }
+  });
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
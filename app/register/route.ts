@@ -1,30 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { OAuthError } from '../../lib/services/oauth';
+import { OAuthClientsService } from '../../lib/services/oauth-clients';
 
+const REGISTER_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-store',
+  'Access-Control-Allow-Origin': '*'
+};
+
+/**
+ * RFC 7591 dynamic client registration. Clients must register their redirect URIs here
+ * before /oauth/authorize will accept them.
+ */
 export async function POST(request: NextRequest) {
   try {
     console.log('[OAuth Register] POST /register received');
-    const body = await request.json();
-    console.log('[OAuth Register] Request body:', body);
-    
-    // Minimal response per RFC 7591
-    const response = {
-      client_id: "actionbias-mcp-client",
-      client_secret: "mcp-client-secret", // Add client_secret
-      token_endpoint_auth_method: "none",
-      redirect_uris: body.redirect_uris || ["http://localhost:3000/callback"]
-    };
-    
-    console.log('[OAuth Register] Sending response:', response);
-    return NextResponse.json(response, { 
-      status: 201,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
-    });
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new OAuthError('invalid_client_metadata', 'Request body must be a JSON object of client metadata');
+    }
+
+    const client = await OAuthClientsService.register(body);
+    console.log(`[OAuth Register] Registered client ${client.client_id} (${client.client_name || 'unnamed'}) for ${client.redirect_uris.join(', ')}`);
+    return NextResponse.json(client, { status: 201, headers: REGISTER_HEADERS });
   } catch (error) {
+    if (error instanceof OAuthError) {
+      console.log(`[OAuth Register] ${error.error}: ${error.description}`);
+      return NextResponse.json(error.toJSON(), { status: error.status, headers: REGISTER_HEADERS });
+    }
     console.log('[OAuth Register] Error:', error);
-    return NextResponse.json({ error: 'invalid_request' }, { status: 400 });
+    return NextResponse.json({ error: 'server_error' }, { status: 500, headers: REGISTER_HEADERS });
   }
 }
 
@@ -39,4 +44,4 @@ export async function OPTIONS() {
       'Access-Control-Allow-Headers': 'Content-Type, Authorization, mcp-protocol-version',
     },
   });
-}
\ No newline at end of file
+}
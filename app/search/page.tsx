@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { CheckCircle2, Loader2, Search, ChevronRight } from 'lucide-react';
+import { CheckCircle2, XCircle, Loader2, Search, ChevronRight, Tag } from 'lucide-react';
 import Header from '../components/Header';
 
 interface SearchResult {
@@ -11,6 +11,8 @@ interface SearchResult {
   description?: string;
   hierarchyPath?: string[];
   done: boolean;
+  status?: string;
+  tags?: string[];
   similarity?: number;
   matchType: 'vector' | 'keyword' | 'hybrid';
   keywordMatches?: string[];
@@ -42,11 +44,20 @@ interface ApiResponse {
 
 export default function SearchPage() {
   const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
 
-  const performSearch = useCallback(async (searchQuery: string) => {
+  const tags = tagFilter.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const addTagToFilter = (tag: string) => {
+    if (!tags.includes(tag)) {
+      setTagFilter([...tags, tag].join(', '));
+    }
+  };
+
+  const performSearch = useCallback(async (searchQuery: string, searchTags: string[]) => {
     if (!searchQuery.trim()) {
       setResults([]);
       return;
@@ -69,6 +80,7 @@ export default function SearchPage() {
           search_mode: 'hybrid',
           limit: 20,
           include_completed: true,
+          ...(searchTags.length > 0 ? { tags: searchTags } : {}),
         }),
         signal: newController.signal,
       });
@@ -93,11 +105,11 @@ export default function SearchPage() {
 
   useEffect(() => {
     const debounceTimer = setTimeout(() => {
-      performSearch(query);
+      performSearch(query, tagFilter.split(',').map(tag => tag.trim()).filter(Boolean));
     }, 200);
 
     return () => clearTimeout(debounceTimer);
-  }, [query, performSearch]);
+  }, [query, tagFilter, performSearch]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -116,6 +128,16 @@ export default function SearchPage() {
             />
             {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
           </div>
+          <div className="flex items-center gap-2 mt-2 px-4">
+            <Tag className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <input
+              type="text"
+              placeholder="Filter by tags (comma-separated)"
+              value={tagFilter}
+              onChange={e => setTagFilter(e.target.value)}
+              className="flex-1 bg-transparent outline-none placeholder:text-muted-foreground text-sm"
+            />
+          </div>
         </div>
       </div>
 
@@ -132,6 +154,9 @@ export default function SearchPage() {
                   {result.done && (
                     <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
                   )}
+                  {result.status === 'cancelled' && (
+                    <XCircle className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                  )}
                   <div className="flex-1 min-w-0">
                     <h3 className="font-medium text-base mb-1">
                       {result.highlight?.title ? (
@@ -149,6 +174,24 @@ export default function SearchPage() {
                         )}
                       </p>
                     )}
+                    {result.tags && result.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {result.tags.map(tag => (
+                          <button
+                            key={tag}
+                            type="button"
+                            onClick={e => {
+                              e.preventDefault();
+                              addTagToFilter(tag);
+                            }}
+                            className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground hover:bg-muted/70"
+                            title={`Only show results tagged "${tag}"`}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     {result.hierarchyPath && Array.isArray(result.hierarchyPath) && result.hierarchyPath.length > 0 && (
                       <div className="flex items-center gap-1 text-xs text-muted-foreground">
                         {result.hierarchyPath.map((segment, i) => (
@@ -173,7 +216,7 @@ export default function SearchPage() {
         
         {query && !loading && results.length === 0 && (
           <div className="text-center text-muted-foreground py-12">
-            No results found for "{query}"
+            No results found for "{query}"{tags.length > 0 && ` tagged ${tags.join(', ')}`}
           </div>
         )}
         
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Share2, Loader2, Trash2, Copy } from 'lucide-react';
+import Header from '../../components/Header';
+
+type ShareLinkKind = 'done' | 'tree';
+
+interface ShareLink {
+  id: string;
+  kind: ShareLinkKind;
+  action_id: string;
+  path: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const KIND_DESCRIPTIONS: Record<ShareLinkKind, string> = {
+  done: 'The completion page of a finished action',
+  tree: 'An action and its descendants, as a tree and a treemap',
+};
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleDateString() : fallback;
+}
+
+export default function ShareLinksPage() {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<ShareLinkKind>('done');
+  const [actionId, setActionId] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [creating, setCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/share-links');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load share links');
+      setLinks(result.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const createLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setCreatedUrl(null);
+
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          action_id: actionId.trim(),
+          expires_in_days: expiresInDays ? parseInt(expiresInDays, 10) : null,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to create share link');
+
+      setCreatedUrl(`${window.location.origin}${result.data.url}`);
+      setActionId('');
+      await loadLinks();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeLink = async (link: ShareLink) => {
+    if (!confirm(`Revoke the link to ${link.path}? Anyone who has it will lose access.`)) return;
+
+    try {
+      const response = await fetch(`/api/share-links/${link.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to revoke share link');
+      await loadLinks();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <Share2 className="h-6 w-6" />
+            Share links
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Read-only links for people outside your workspace. They expire, and don't change who else can see the work.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-sm text-red-700">{error}</div>
+        )}
+
+        {createdUrl && (
+          <div className="p-4 rounded-lg border border-green-300 bg-green-50 space-y-2">
+            <p className="text-sm font-medium text-green-800">Copy your new link now - it won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-sm bg-background border border-border rounded px-3 py-2 break-all">{createdUrl}</code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(createdUrl)}
+                className="p-2 rounded hover:bg-muted"
+                title="Copy to clipboard"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={createLink} className="p-4 rounded-lg border border-border space-y-4">
+          <h2 className="font-medium">New share link</h2>
+          <input
+            type="text"
+            placeholder="Action ID"
+            value={actionId}
+            onChange={e => setActionId(e.target.value)}
+            className="w-full bg-muted rounded px-3 py-2 outline-none placeholder:text-muted-foreground font-mono text-sm"
+            required
+          />
+          <div className="space-y-1">
+            {(Object.keys(KIND_DESCRIPTIONS) as ShareLinkKind[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <input type="radio" name="kind" checked={kind === option} onChange={() => setKind(option)} />
+                <span className="font-mono">{option}</span>
+                <span className="text-muted-foreground">{KIND_DESCRIPTIONS[option]}</span>
+              </label>
+            ))}
+          </div>
+          <input
+            type="number"
+            min={1}
+            max={90}
+            placeholder="Expires after (days)"
+            value={expiresInDays}
+            onChange={e => setExpiresInDays(e.target.value)}
+            className="w-full bg-muted rounded px-3 py-2 outline-none placeholder:text-muted-foreground text-sm"
+          />
+          <button
+            type="submit"
+            disabled={creating || !actionId.trim()}
+            className="px-4 py-2 rounded bg-primary text-primary-foreground text-sm disabled:opacity-50 flex items-center gap-2"
+          >
+            {creating && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create link
+          </button>
+        </form>
+
+        <div className="space-y-2">
+          {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+          {!loading && links.length === 0 && (
+            <div className="text-center text-muted-foreground py-8">No share links yet</div>
+          )}
+          {links.map(link => {
+            const expired = new Date(link.expires_at) <= new Date();
+            return (
+              <div key={link.id} className={`p-4 rounded-lg border border-border flex items-start gap-3 ${link.revoked_at || expired ? 'opacity-50' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-sm break-all">{link.path}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Created {formatDate(link.created_at, '')} ·{' '}
+                    {link.revoked_at
+                      ? `revoked ${formatDate(link.revoked_at, '')}`
+                      : `${expired ? 'expired' : 'expires'} ${formatDate(link.expires_at, '')}`}
+                  </div>
+                </div>
+                {!link.revoked_at && !expired && (
+                  <button
+                    type="button"
+                    onClick={() => revokeLink(link)}
+                    className="p-2 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                    title="Revoke link"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Loader2, Trash2, Copy } from 'lucide-react';
+import Header from '../../components/Header';
+
+type TokenScope = 'read' | 'write' | 'admin';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: TokenScope[];
+  root_action_id: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<TokenScope, string> = {
+  read: 'Read actions, trees and the work log',
+  write: 'Create, update, claim and complete actions',
+  admin: 'Delete whole subtrees',
+};
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleDateString() : fallback;
+}
+
+export default function TokensPageClient() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<TokenScope>('write');
+  const [rootActionId, setRootActionId] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tokens');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load tokens');
+      setTokens(result.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setCreatedToken(null);
+
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          // Scopes are cumulative, so picking one level is enough
+          scopes: scope === 'admin' ? ['read', 'write', 'admin'] : scope === 'write' ? ['read', 'write'] : ['read'],
+          root_action_id: rootActionId.trim() || null,
+          expires_in_days: expiresInDays ? parseInt(expiresInDays, 10) : null,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to create token');
+
+      setCreatedToken(result.data.token);
+      setName('');
+      setRootActionId('');
+      setExpiresInDays('');
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeToken = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return;
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to revoke token');
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <KeyRound className="h-6 w-6" />
+            API tokens
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Personal tokens for agents and CI. Send one as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code> to /mcp or the REST API.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-sm text-red-700">{error}</div>
+        )}
+
+        {createdToken && (
+          <div className="p-4 rounded-lg border border-green-300 bg-green-50 space-y-2">
+            <p className="text-sm font-medium text-green-800">Copy your new token now - it won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-sm bg-background border border-border rounded px-3 py-2 break-all">{createdToken}</code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(createdToken)}
+                className="p-2 rounded hover:bg-muted"
+                title="Copy to clipboard"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={createToken} className="p-4 rounded-lg border border-border space-y-4">
+          <h2 className="font-medium">New token</h2>
+          <input
+            type="text"
+            placeholder="Name, e.g. CI agent for the billing project"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="w-full bg-muted rounded px-3 py-2 outline-none placeholder:text-muted-foreground"
+            required
+          />
+          <div className="space-y-1">
+            {(Object.keys(SCOPE_DESCRIPTIONS) as TokenScope[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <input type="radio" name="scope" checked={scope === option} onChange={() => setScope(option)} />
+                <span className="font-mono">{option}</span>
+                <span className="text-muted-foreground">{SCOPE_DESCRIPTIONS[option]}</span>
+              </label>
+            ))}
+          </div>
+          <input
+            type="text"
+            placeholder="Limit to an action and its descendants (action ID, optional)"
+            value={rootActionId}
+            onChange={e => setRootActionId(e.target.value)}
+            className="w-full bg-muted rounded px-3 py-2 outline-none placeholder:text-muted-foreground font-mono text-sm"
+          />
+          <input
+            type="number"
+            min={1}
+            placeholder="Expires after (days, optional)"
+            value={expiresInDays}
+            onChange={e => setExpiresInDays(e.target.value)}
+            className="w-full bg-muted rounded px-3 py-2 outline-none placeholder:text-muted-foreground text-sm"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="px-4 py-2 rounded bg-primary text-primary-foreground text-sm disabled:opacity-50 flex items-center gap-2"
+          >
+            {creating && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create token
+          </button>
+        </form>
+
+        <div className="space-y-2">
+          {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+          {!loading && tokens.length === 0 && (
+            <div className="text-center text-muted-foreground py-8">No API tokens yet</div>
+          )}
+          {tokens.map(token => (
+            <div key={token.id} className={`p-4 rounded-lg border border-border flex items-start gap-3 ${token.revoked_at ? 'opacity-50' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{token.name}</div>
+                <div className="text-xs text-muted-foreground font-mono mt-1">
+                  {token.token_prefix}… · {token.scopes.join(', ')}
+                  {token.root_action_id && ` · subtree ${token.root_action_id}`}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  Created {formatDate(token.created_at, '')} · last used {formatDate(token.last_used_at, 'never')} ·{' '}
+                  {token.revoked_at ? `revoked ${formatDate(token.revoked_at, '')}` : `expires ${formatDate(token.expires_at, 'never')}`}
+                </div>
+              </div>
+              {!token.revoked_at && (
+                <button
+                  type="button"
+                  onClick={() => revokeToken(token)}
+                  className="p-2 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                  title="Revoke token"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
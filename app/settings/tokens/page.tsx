@@ -0,0 +1,17 @@
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import TokensPageClient from './client';
+import { resolveSession } from '@/lib/mcp/auth';
+
+// Rendered per request - who may manage tokens depends on the browser's session
+export const dynamic = 'force-dynamic';
+
+// Creating tokens hands out credentials, so the page needs a signed-in session (as does /api/tokens)
+export default async function TokensPage() {
+  const session = await resolveSession({ headers: await headers() });
+  if (!session) {
+    redirect('/signin?next=/settings/tokens');
+  }
+
+  return <TokensPageClient />;
+}
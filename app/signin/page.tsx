@@ -0,0 +1,85 @@
+import { Metadata } from 'next';
+import { getConsentMode } from '@/lib/services/oauth';
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+  robots: { index: false },
+};
+
+// Rendered per request - the consent mode depends on runtime configuration
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function SignInPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const mode = getConsentMode();
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <div className="w-full max-w-md space-y-4">
+        <form method="post" action="/api/session" className="border border-border rounded-lg p-6 space-y-4">
+          <h1 className="text-xl font-semibold">Sign in</h1>
+          <p className="text-sm text-muted-foreground">
+            Signing in lets this browser see your workspace's team and private completion pages and feed items.
+            {mode === 'disabled'
+              ? <> Owner sign-in is disabled until <code>OAUTH_OWNER_PASSWORD</code> is configured.</>
+              : <> Leave the email empty to sign in as the owner of the default workspace.</>}
+          </p>
+
+          <input type="hidden" name="next" value={params.next || '/'} />
+
+          <label className="block text-sm">
+            <span className="text-muted-foreground">Email</span>
+            <input
+              type="email"
+              name="email"
+              autoComplete="username"
+              autoFocus
+              required={mode === 'disabled'}
+              className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+            />
+          </label>
+
+          <label className="block text-sm">
+            <span className="text-muted-foreground">Workspace (only needed if you belong to several)</span>
+            <input
+              type="text"
+              name="workspace"
+              placeholder="slug"
+              className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+            />
+          </label>
+
+          <label className="block text-sm">
+            <span className="text-muted-foreground">{mode === 'password' ? 'Password (or owner password)' : 'Password'}</span>
+            <input
+              type="password"
+              name="password"
+              autoComplete="current-password"
+              required={mode !== 'open'}
+              className="mt-1 w-full rounded-md border border-border bg-background px-3 py-2"
+            />
+          </label>
+
+          {params.error && (
+            <p className="text-sm text-red-600">{params.error}</p>
+          )}
+
+          <button type="submit" className="w-full px-4 py-2 rounded-md bg-foreground text-background text-sm">
+            Sign in
+          </button>
+        </form>
+
+        <form method="post" action="/api/session" className="text-center">
+          <input type="hidden" name="intent" value="signout" />
+          <button type="submit" className="text-sm text-muted-foreground hover:text-foreground">
+            Sign out of this browser
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
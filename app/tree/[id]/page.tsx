@@ -10,8 +10,9 @@ interface TreeData {
   scope?: string;
 }
 
-export default function ScopedTreePage({ params }: { params: Promise<{ id: string }> }) {
+export default function ScopedTreePage({ params, searchParams }: { params: Promise<{ id: string }>; searchParams: Promise<{ share?: string }> }) {
   const [rootActionId, setRootActionId] = useState<string | null>(null);
+  const [share, setShare] = useState<string | undefined>(undefined);
   const [scopeTitle, setScopeTitle] = useState<string>('');
   const [treeData, setTreeData] = useState<TreeData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -38,7 +39,9 @@ export default function ScopedTreePage({ params }: { params: Promise<{ id: strin
         
         // Await the params
         const { id } = await params;
+        const { share } = await searchParams;
         setRootActionId(id);
+        setShare(share);
         
         // Validate that the ID looks like a UUID
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -46,22 +49,29 @@ export default function ScopedTreePage({ params }: { params: Promise<{ id: strin
           throw new Error(`Invalid action ID format: "${id}". Expected a UUID.`);
         }
         
-        // First, get the scope action details to show its title
-        const scopeResponse = await fetch(`/api/actions/${id}`);
-        if (!scopeResponse.ok) {
-          if (scopeResponse.status === 404) {
-            throw new Error(`Action not found: ${id}`);
+        // First, get the scope action details to show its title. Share links only open the tree itself, which
+        // starts with the scope action when it has anything left to do.
+        if (!share) {
+          const scopeResponse = await fetch(`/api/actions/${id}`);
+          if (!scopeResponse.ok) {
+            if (scopeResponse.status === 404) {
+              throw new Error(`Action not found: ${id}`);
+            }
+            throw new Error(`Failed to fetch scope action: ${scopeResponse.status}`);
           }
-          throw new Error(`Failed to fetch scope action: ${scopeResponse.status}`);
-        }
-        const scopeData = await scopeResponse.json();
-        if (!scopeData.success) {
-          throw new Error(scopeData.error || 'Failed to fetch scope action');
+          const scopeData = await scopeResponse.json();
+          if (!scopeData.success) {
+            throw new Error(scopeData.error || 'Failed to fetch scope action');
+          }
+          setScopeTitle(scopeData.data.title);
         }
-        setScopeTitle(scopeData.data.title);
 
         // Then fetch the scoped tree data
-        const treeResponse = await fetch(`/api/actions/tree/${id}?includeCompleted=false`);
+        const shareQuery = share ? `&share=${encodeURIComponent(share)}` : '';
+        const treeResponse = await fetch(`/api/actions/tree/${id}?includeCompleted=false${shareQuery}`);
+        if (treeResponse.status === 404 && share) {
+          throw new Error('This share link has expired or been revoked.');
+        }
         if (!treeResponse.ok) {
           throw new Error(`Failed to fetch scoped tree: ${treeResponse.status}`);
         }
@@ -71,6 +81,9 @@ export default function ScopedTreePage({ params }: { params: Promise<{ id: strin
         }
         
         setTreeData(treeResult.data);
+        if (share) {
+          setScopeTitle(treeResult.data?.rootActions?.[0]?.title || 'This action');
+        }
         
         // Initially expand all nodes
         const allNodeIds: string[] = [];
@@ -95,7 +108,7 @@ export default function ScopedTreePage({ params }: { params: Promise<{ id: strin
     };
 
     fetchScopedTree();
-  }, [params]);
+  }, [params, searchParams]);
 
   const handleToggleExpanded = (actionId: string) => {
     setExpandedNodes(prev => {
@@ -162,6 +175,7 @@ export default function ScopedTreePage({ params }: { params: Promise<{ id: strin
             colors={colors} 
             expandedNodes={expandedNodes}
             onToggleExpanded={handleToggleExpanded}
+            share={share}
           />
         ) : (
           <p style={{ color: colors.textMuted }}>
@@ -5,6 +5,9 @@ import { Check, Copy, Link, Square, CheckSquare, Trash2, Plus } from 'react-feat
 import EditableField, { ColorScheme } from '../../components/EditableField';
 import { ActionDetailResource } from '../../../lib/types/resources';
 import { buildActionPrompt } from '../../../lib/utils/action-prompt-builder';
+import { SETTABLE_STATUSES, STATUS_LABELS, isClosedStatus, resolveStatus } from '../../../lib/utils/action-status';
+import { ACTION_PRIORITIES, ACTION_EFFORTS, ACTION_IMPACTS, PRIORITY_LABELS, EFFORT_LABELS, IMPACT_LABELS } from '../../../lib/utils/action-priority';
+import { todayIsoDate } from '../../../lib/utils/action-dates';
 
 interface TreemapInspectorProps {
   selectedActionDetail: ActionDetailResource | null;
@@ -71,7 +74,7 @@ export default function TreemapInspector({
   const [complexityLevel, setComplexityLevel] = useState<'simple' | 'detailed' | 'comprehensive'>('detailed');
   const [customContext, setCustomContext] = useState('');
 
-  const handleUpdateField = async (field: 'title' | 'description' | 'vision', value: string) => {
+  const handleUpdateField = async (field: 'title' | 'description' | 'vision' | 'status' | 'priority' | 'effort' | 'impact' | 'start_date' | 'due_date', value: string) => {
     if (!selectedActionDetail) return;
     
     try {
@@ -79,7 +82,8 @@ export default function TreemapInspector({
       const response = await fetch(`/api/actions/${selectedActionDetail.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ [field]: value })
+        // An empty planning field or date means "unset"
+        body: JSON.stringify({ [field]: value === '' ? null : value })
       });
       
       if (!response.ok) {
@@ -361,12 +365,94 @@ export default function TreemapInspector({
                     )}
                   </div>
 
+                  {/* Status - done is set through the complete toggle so it always gets completion context */}
+                  <div>
+                    <div className="text-xs text-gray-400 font-mono mb-1">Status</div>
+                    {selectedActionDetail.done ? (
+                      <div className="text-sm font-mono text-gray-300">{STATUS_LABELS.done}</div>
+                    ) : (
+                      <select
+                        value={resolveStatus(selectedActionDetail)}
+                        onChange={(e) => handleUpdateField('status', e.target.value).catch(() => {})}
+                        disabled={savingField === 'status'}
+                        className="w-full px-2 py-1 text-sm font-mono bg-gray-800 text-gray-300 border border-gray-600 rounded"
+                      >
+                        {SETTABLE_STATUSES.map(status => (
+                          <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                        ))}
+                      </select>
+                    )}
+                    {savingField === 'status' && (
+                      <div className="text-xs text-gray-500 mt-1">Saving...</div>
+                    )}
+                  </div>
+
+                  {/* Planning - used to rank unblocked work */}
+                  <div>
+                    <div className="text-xs text-gray-400 font-mono mb-1">Planning</div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {([
+                        { field: 'priority', label: 'Priority', options: ACTION_PRIORITIES, labels: PRIORITY_LABELS as Record<string, string> },
+                        { field: 'effort', label: 'Effort', options: ACTION_EFFORTS, labels: EFFORT_LABELS as Record<string, string> },
+                        { field: 'impact', label: 'Impact', options: ACTION_IMPACTS, labels: IMPACT_LABELS as Record<string, string> },
+                      ] as const).map(({ field, label, options, labels }) => (
+                        <label key={field} className="block">
+                          <span className="block text-xs text-gray-500 font-mono mb-1">{label}</span>
+                          <select
+                            value={selectedActionDetail[field] || ''}
+                            onChange={(e) => handleUpdateField(field, e.target.value).catch(() => {})}
+                            disabled={savingField === field}
+                            className="w-full px-2 py-1 text-sm font-mono bg-gray-800 text-gray-300 border border-gray-600 rounded"
+                          >
+                            <option value="">Unset</option>
+                            {options.map(option => (
+                              <option key={option} value={option}>{labels[option]}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                    {(savingField === 'priority' || savingField === 'effort' || savingField === 'impact') && (
+                      <div className="text-xs text-gray-500 mt-1">Saving...</div>
+                    )}
+                  </div>
+
+                  {/* Dates */}
+                  <div>
+                    <div className="text-xs text-gray-400 font-mono mb-1">
+                      Dates
+                      {selectedActionDetail.due_date && !isClosedStatus(resolveStatus(selectedActionDetail)) && selectedActionDetail.due_date < todayIsoDate() && (
+                        <span className="ml-2 text-red-400">Overdue</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        { field: 'start_date', label: 'Start' },
+                        { field: 'due_date', label: 'Due' },
+                      ] as const).map(({ field, label }) => (
+                        <label key={field} className="block">
+                          <span className="block text-xs text-gray-500 font-mono mb-1">{label}</span>
+                          <input
+                            type="date"
+                            value={selectedActionDetail[field] || ''}
+                            onChange={(e) => handleUpdateField(field, e.target.value).catch(() => {})}
+                            disabled={savingField === field}
+                            className="w-full px-2 py-1 text-sm font-mono bg-gray-800 text-gray-300 border border-gray-600 rounded"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    {(savingField === 'start_date' || savingField === 'due_date') && (
+                      <div className="text-xs text-gray-500 mt-1">Saving...</div>
+                    )}
+                  </div>
+
                   {/* Metadata */}
                   <div className="pt-4 border-t border-gray-700">
                     <div className="text-xs text-gray-400 font-mono mb-2">Metadata</div>
                     <div className="space-y-1 text-xs font-mono text-gray-500">
                       <div>ID: {selectedActionDetail.id}</div>
-                      <div>Status: {selectedActionDetail.done ? 'Completed' : 'Active'}</div>
+                      <div>Status: {STATUS_LABELS[resolveStatus(selectedActionDetail)]}</div>
                       <div>Children: {selectedActionDetail.children.length}</div>
                       <div>Dependencies: {selectedActionDetail.dependencies.length}</div>
                       <div>Dependents: {selectedActionDetail.dependents.length}</div>
@@ -420,8 +506,8 @@ export default function TreemapInspector({
                   <div className="space-y-1">
                     {selectedActionDetail.children.map((child) => (
                       <div key={child.id} className="text-xs text-gray-300 font-mono flex items-center">
-                        <span className={`mr-2 ${child.done ? 'text-green-400' : 'text-yellow-400'}`}>
-                          {child.done ? '✓' : '○'}
+                        <span className={`mr-2 ${child.done ? 'text-green-400' : child.status === 'cancelled' ? 'text-gray-500' : 'text-yellow-400'}`}>
+                          {child.done ? '✓' : child.status === 'cancelled' ? '✕' : '○'}
                         </span>
                         <span className="truncate">{child.title}</span>
                       </div>
@@ -236,6 +236,16 @@ function TreemapIdPageContent() {
   
   const maxDepth = searchParams.get('depth') ? parseInt(searchParams.get('depth')!) : undefined;
   const isRootView = actionId === 'root';
+  // Share link token (see lib/services/share-links.ts): a read-only view of one subtree, without the inspector
+  const share = searchParams.get('share');
+
+  // Query string for moving to another treemap page, keeping the depth and any share link
+  const navigationParams = () => {
+    const params = new URLSearchParams();
+    if (maxDepth) params.set('depth', maxDepth.toString());
+    if (share) params.set('share', share);
+    return params;
+  };
 
   // Initialize depth slider value from URL params
   useEffect(() => {
@@ -266,7 +276,9 @@ function TreemapIdPageContent() {
   // Separate function to refresh tree data that can be called from multiple places
   const refreshTreeData = async () => {
     try {
-      const response = await fetch('/api/tree');
+      const response = await fetch(share
+        ? `/api/actions/tree/${actionId}?includeCompleted=false&share=${encodeURIComponent(share)}`
+        : '/api/actions/tree');
       const result = await response.json();
       
       if (result.success) {
@@ -277,8 +289,8 @@ function TreemapIdPageContent() {
           // Find the target action in the tree
           const foundAction = findActionInTree(result.data.rootActions, actionId);
           if (foundAction) {
-            // Check if this is a leaf node (no children)
-            if (foundAction.children.length === 0) {
+            // Check if this is a leaf node (no children) - a shared leaf has no parent within reach, so stay on it
+            if (foundAction.children.length === 0 && !share) {
               // This is a leaf node - redirect to parent
               // First try to find the parent by searching for actions that have this as a child
               const findParentAction = (nodes: ActionNode[], targetId: string): ActionNode | null => {
@@ -295,22 +307,19 @@ function TreemapIdPageContent() {
               const parentAction = findParentAction(result.data.rootActions, actionId);
               if (parentAction) {
                 // Redirect to parent action
-                const params = new URLSearchParams();
-                if (maxDepth) params.set('depth', maxDepth.toString());
-                router.replace(`/treemap/${parentAction.id}?${params.toString()}`);
+                router.replace(`/treemap/${parentAction.id}?${navigationParams().toString()}`);
                 return;
               } else {
                 // No parent found, redirect to root
-                const params = new URLSearchParams();
-                if (maxDepth) params.set('depth', maxDepth.toString());
-                router.replace(`/treemap/root?${params.toString()}`);
+                router.replace(`/treemap/root?${navigationParams().toString()}`);
                 return;
               }
             }
             setTargetAction(foundAction);
             
-            // Also fetch the action detail to get parent_chain for breadcrumbs
-            if (!isRootView) {
+            // Also fetch the action detail to get parent_chain for breadcrumbs - not for share links, whose
+            // visitors shouldn't see what lies above the shared action
+            if (!isRootView && !share) {
               try {
                 const detailResponse = await fetch(`/api/actions/${actionId}`);
                 if (detailResponse.ok) {
@@ -349,7 +358,7 @@ function TreemapIdPageContent() {
     if (actionId) {
       fetchTreeData();
     }
-  }, [actionId, isRootView, maxDepth, router]);
+  }, [actionId, isRootView, maxDepth, share, router]);
 
   // Window resize handler for responsive inspector
   useEffect(() => {
@@ -416,9 +425,7 @@ function TreemapIdPageContent() {
     if (isSecondClick && !isLeaf) {
       // Second click: navigate to focus on this node (only if not a leaf)
       console.log('NAVIGATING to:', nodeId);
-      const params = new URLSearchParams();
-      if (maxDepth) params.set('depth', maxDepth.toString());
-      router.push(`/treemap/${nodeId}?${params.toString()}`);
+      router.push(`/treemap/${nodeId}?${navigationParams().toString()}`);
     } else {
       // First click: select node and freeze highlighting
       console.log('SELECTING node:', nodeId);
@@ -477,13 +484,13 @@ function TreemapIdPageContent() {
       }
     };
 
-    if (selectedNodeId) {
+    if (selectedNodeId && !share) {
       fetchActionDetail(selectedNodeId);
     } else {
       setSelectedActionDetail(null);
       setLoadingActionDetail(false);
     }
-  }, [selectedNodeId]);
+  }, [selectedNodeId, share]);
 
   // Copy functions
   const copyPromptToClipboard = async () => {
@@ -618,7 +625,7 @@ function TreemapIdPageContent() {
       setSelectedActionDetail(null);
       
       // Refresh tree data
-      const treeResponse = await fetch('/api/tree');
+      const treeResponse = await fetch('/api/actions/tree');
       const treeResult = await treeResponse.json();
       if (treeResult.success) {
         setTreeData(treeResult.data);
@@ -657,12 +664,14 @@ function TreemapIdPageContent() {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-black">
         <div className="text-red-400 font-mono mb-4">Error: {error}</div>
-        <button
-          onClick={handleBackClick}
-          className="px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 font-mono"
-        >
-          Back to Full Tree
-        </button>
+        {!share && (
+          <button
+            onClick={handleBackClick}
+            className="px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 font-mono"
+          >
+            Back to Full Tree
+          </button>
+        )}
       </div>
     );
   }
@@ -671,12 +680,14 @@ function TreemapIdPageContent() {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-black">
         <div className="text-gray-500 font-mono mb-4">No actions found</div>
-        <button
-          onClick={handleBackClick}
-          className="px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 font-mono"
-        >
-          Back to Full Tree
-        </button>
+        {!share && (
+          <button
+            onClick={handleBackClick}
+            className="px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 font-mono"
+          >
+            Back to Full Tree
+          </button>
+        )}
       </div>
     );
   }
@@ -875,7 +886,7 @@ function TreemapIdPageContent() {
         <div className="flex-1 relative">
           {/* Small floating controls for depth and back button */}
           <div className="absolute top-6 right-6 z-10 flex items-center space-x-3 bg-gray-900/80 backdrop-blur-sm border border-gray-700 rounded-lg px-3 py-2">
-            {displayAction && (
+            {displayAction && !share && (
               <button
                 onClick={handleBackClick}
                 className="px-2 py-1 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 font-mono text-xs transition-colors"
@@ -959,8 +970,8 @@ function TreemapIdPageContent() {
           </div>
         </div>
         
-        {/* Right side: Inspector with full height */}
-        <TreemapInspector 
+        {/* Right side: Inspector with full height - share links are read-only, so they get none */}
+        {!share && <TreemapInspector 
           selectedActionDetail={selectedActionDetail}
           loadingActionDetail={loadingActionDetail}
           copying={copying}
@@ -983,7 +994,7 @@ function TreemapIdPageContent() {
           deleting={deleting}
           onActionUpdate={handleActionUpdate}
           onDataRefresh={refreshTreeData}
-        />
+        />}
       </div>
     </div>
   );
@@ -1,11 +1,13 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
+import { STATUS_ICONS, STATUS_LABELS, isClosedStatus, resolveStatus, type ActionStatus } from '../lib/utils/action-status';
 
 export interface TreeNodeData {
   id: string;
   title: string;
   done: boolean;
+  status?: ActionStatus;
   created_at: string;
   children: TreeNodeData[];
   dependencies: string[];
@@ -72,12 +74,13 @@ export const TreeNode: React.FC<TreeNodeProps> = ({
   // Style variables for theming
   const indentSize = 16; // pixels per depth level
   const indent = depth * indentSize;
+  const status = resolveStatus(node);
   
   return (
     <div className={`tree-node ${className}`}>
       {/* Current node */}
       <div
-        className={`tree-node-item ${isCurrentAction ? 'current' : ''} ${node.done ? 'completed' : 'pending'}`}
+        className={`tree-node-item ${isCurrentAction ? 'current' : ''} ${isClosedStatus(status) ? 'completed' : 'pending'} ${status}`}
         style={{ paddingLeft: `${indent}px` }}
         onClick={handleNodeClick}
         onKeyDown={handleKeyDown}
@@ -97,9 +100,9 @@ export const TreeNode: React.FC<TreeNodeProps> = ({
           {hasChildren ? (isExpanded ? '▼' : '▶') : ''}
         </button>
         
-        {/* Completion status indicator */}
-        <span className={`status-indicator ${node.done ? 'done' : 'pending'}`}>
-          {node.done ? '✓' : ''}
+        {/* Status indicator */}
+        <span className={`status-indicator ${status === 'todo' ? 'pending' : status}`} title={STATUS_LABELS[status]}>
+          {STATUS_ICONS[status]}
         </span>
         
         {/* Action title */}
@@ -217,6 +220,19 @@ export const TreeNode: React.FC<TreeNodeProps> = ({
           color: #28a745;
         }
         
+        .status-indicator.in_progress,
+        .status-indicator.in_review {
+          color: #0d6efd;
+        }
+        
+        .status-indicator.blocked {
+          color: #dc3545;
+        }
+        
+        .status-indicator.cancelled {
+          color: #6c757d;
+        }
+        
         .status-indicator.pending {
           color: transparent;
         }
@@ -238,6 +254,10 @@ export const TreeNode: React.FC<TreeNodeProps> = ({
           opacity: 0.7;
         }
         
+        .tree-node-item.cancelled .node-title {
+          text-decoration: line-through;
+        }
+        
         .tree-children.collapsed {
           max-height: 0 !important;
           opacity: 0;
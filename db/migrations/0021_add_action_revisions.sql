@@ -0,0 +1,12 @@
+CREATE TABLE "action_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"change_type" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"author" text,
+	"agent_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "action_revisions" ADD CONSTRAINT "action_revisions_action_id_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."actions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
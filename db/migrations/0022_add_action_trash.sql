@@ -0,0 +1,12 @@
+CREATE TABLE "action_trash" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action_id" uuid NOT NULL,
+	"deletion_id" uuid NOT NULL,
+	"root_action_id" uuid NOT NULL,
+	"title" text,
+	"snapshot" jsonb NOT NULL,
+	"deleted_by" text,
+	"agent_id" text,
+	"deleted_at" timestamp DEFAULT now() NOT NULL,
+	"purge_after" timestamp NOT NULL
+);
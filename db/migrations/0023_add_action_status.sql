@@ -0,0 +1,2 @@
+ALTER TABLE "actions" ADD COLUMN "status" text DEFAULT 'todo' NOT NULL;--> statement-breakpoint
+UPDATE "actions" SET "status" = 'done' WHERE "done" = true;
@@ -0,0 +1,8 @@
+CREATE TABLE "action_claims" (
+	"action_id" uuid PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"claimed_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "action_claims" ADD CONSTRAINT "action_claims_action_id_actions_id_fk" FOREIGN KEY ("action_id") REFERENCES "public"."actions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
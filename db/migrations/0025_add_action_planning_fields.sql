@@ -0,0 +1,3 @@
+ALTER TABLE "actions" ADD COLUMN "priority" text;--> statement-breakpoint
+ALTER TABLE "actions" ADD COLUMN "effort" text;--> statement-breakpoint
+ALTER TABLE "actions" ADD COLUMN "impact" text;
\ No newline at end of file
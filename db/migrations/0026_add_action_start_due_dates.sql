@@ -0,0 +1,2 @@
+ALTER TABLE "actions" ADD COLUMN "start_date" date;--> statement-breakpoint
+ALTER TABLE "actions" ADD COLUMN "due_date" date;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "oauth_authorization_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code_hash" text NOT NULL,
+	"client_id" text NOT NULL,
+	"redirect_uri" text NOT NULL,
+	"code_challenge" text NOT NULL,
+	"scope" text,
+	"expires_at" timestamp NOT NULL,
+	"consumed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "oauth_authorization_codes_code_hash_unique" UNIQUE("code_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "oauth_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"access_token_hash" text NOT NULL,
+	"refresh_token_hash" text,
+	"client_id" text NOT NULL,
+	"scope" text,
+	"authorization_code_id" uuid,
+	"access_expires_at" timestamp NOT NULL,
+	"refresh_expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "oauth_tokens_access_token_hash_unique" UNIQUE("access_token_hash"),
+	CONSTRAINT "oauth_tokens_refresh_token_hash_unique" UNIQUE("refresh_token_hash")
+);
@@ -0,0 +1,11 @@
+CREATE TABLE "oauth_clients" (
+	"client_id" text PRIMARY KEY NOT NULL,
+	"client_secret_hash" text,
+	"client_name" text,
+	"client_uri" text,
+	"redirect_uris" jsonb NOT NULL,
+	"grant_types" jsonb NOT NULL,
+	"token_endpoint_auth_method" text NOT NULL,
+	"scope" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
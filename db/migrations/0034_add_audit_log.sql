@@ -0,0 +1,15 @@
+CREATE TABLE "audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"action_id" uuid NOT NULL,
+	"operation" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"user_id" uuid,
+	"api_token_id" uuid,
+	"client_id" text,
+	"agent_id" text,
+	"author" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "usage_counters" (
+	"organization_id" uuid NOT NULL,
+	"subject" text NOT NULL,
+	"bucket" text NOT NULL,
+	"period" text NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "usage_counters_subject_bucket_period_window_start_pk" PRIMARY KEY("subject","bucket","period","window_start")
+);
+--> statement-breakpoint
+ALTER TABLE "usage_counters" ADD CONSTRAINT "usage_counters_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -1,15 +1,24 @@
-import { pgTable, uuid, text, jsonb, integer, primaryKey, timestamp, boolean, vector } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, jsonb, integer, primaryKey, timestamp, boolean, vector, date } from 'drizzle-orm/pg-core';
 import { z } from 'zod';
+import { ACTION_STATUSES } from '../lib/utils/action-status';
+import { ACTION_PRIORITIES, ACTION_EFFORTS, ACTION_IMPACTS } from '../lib/utils/action-priority';
+import type { OrganizationRole, TokenScope } from '../lib/utils/organization-roles';
 
 // Zod schema for actions.data field
 export const actionDataSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional().describe("Detailed instructions or context describing how the action should be performed"),
   vision: z.string().optional().describe("A clear communication of the state of the world when the action is complete"),
+  priority: z.enum(ACTION_PRIORITIES).optional().describe("How urgent the action is: urgent, high, medium or low"),
+  effort: z.enum(ACTION_EFFORTS).optional().describe("Estimated size: xs, s, m, l or xl"),
+  impact: z.enum(ACTION_IMPACTS).optional().describe("How much value completing the action delivers: high, medium or low"),
 });
 
 export type ActionData = z.infer<typeof actionDataSchema>;
 
+// Lifecycle status for actions (see lib/utils/action-status.ts)
+export const actionStatusSchema = z.enum(ACTION_STATUSES);
+
 // Template content types for multiple audience views
 export type TemplateContent = {
   engineering?: {
@@ -38,10 +47,41 @@ export type TemplateContent = {
   };
 };
 
+// Tenants (workspaces). Actions, edges, completion contexts and work log entries each belong to one organization.
+export const organizations = pgTable('organizations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(), // Lowercase, used to pick a workspace when signing in
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// People who can sign in to authorize MCP clients for the organizations they belong to
+export const users = pgTable('users', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  email: text('email').notNull().unique(), // Stored lowercase
+  name: text('name'),
+  passwordHash: text('password_hash'), // scrypt, see lib/services/organizations.ts; null means the user can't sign in
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// User ↔ organization memberships with the user's role in that organization
+export const memberships = pgTable('user_organizations', {
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  role: text('role').$type<OrganizationRole>().notNull(), // owner, admin, member, viewer
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.organizationId] }),
+}));
+
 export const actions = pgTable('actions', {
   id: uuid('id').primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
   data: jsonb('data').$type<ActionData>(),
-  done: boolean('done').default(false).notNull(),
+  done: boolean('done').default(false).notNull(), // Mirrors status === 'done'; kept for existing readers
+  status: text('status').$type<z.infer<typeof actionStatusSchema>>().default('todo').notNull(), // todo, in_progress, blocked, in_review, done, cancelled
   version: integer('version').default(0),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -49,6 +89,13 @@ export const actions = pgTable('actions', {
   title: text('title'),
   description: text('description'),
   vision: text('vision'),
+  // Planning fields used to rank unblocked work (see lib/utils/action-priority.ts); null means unset
+  priority: text('priority').$type<(typeof ACTION_PRIORITIES)[number]>(),
+  effort: text('effort').$type<(typeof ACTION_EFFORTS)[number]>(),
+  impact: text('impact').$type<(typeof ACTION_IMPACTS)[number]>(),
+  // Release planning dates (YYYY-MM-DD, see lib/utils/action-dates.ts); null means unset
+  startDate: date('start_date', { mode: 'string' }),
+  dueDate: date('due_date', { mode: 'string' }),
   // Semantic fields for AI-powered action management
   embeddingVector: vector('embedding_vector', { dimensions: 1536 }), // OpenAI embedding dimensions
   nodeSummary: text('node_summary'),
@@ -60,6 +107,7 @@ export const actions = pgTable('actions', {
 export const edges = pgTable('edges', {
   src: uuid('src').references(() => actions.id, { onDelete: 'cascade' }),
   dst: uuid('dst').references(() => actions.id, { onDelete: 'cascade' }),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }), // Always the organization of both endpoints
   kind: text('kind'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -67,6 +115,176 @@ export const edges = pgTable('edges', {
   pk: primaryKey({ columns: [table.src, table.dst, table.kind] }),
 }));
 
+// Immutable revision history for actions - one row per mutation, keyed by the action's version
+export const actionRevisions = pgTable('action_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').notNull().references(() => actions.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(), // Value of actions.version after this mutation
+  changeType: text('change_type').notNull(), // created, updated, completed, uncompleted, status_changed, family_changed, dependency_added, dependency_removed, tags_added, tags_removed, deleted, restored
+  changes: jsonb('changes').$type<Record<string, { from?: unknown; to?: unknown }>>().notNull(), // Field-level diff
+  author: text('author'), // Human author (user name/email) if known
+  agentId: text('agent_id'), // MCP session or agent identifier if the change came from an agent
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Audit log - one row per ActionsService mutation, attributed to the user, token and MCP session behind it.
+// No foreign key to actions, so entries outlive the actions they describe (deletes, purged trash).
+export const auditLog = pgTable('audit_log', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  actionId: uuid('action_id').notNull(),
+  operation: text('operation').notNull(), // Same values as action_revisions.change_type
+  changes: jsonb('changes').$type<Record<string, { from?: unknown; to?: unknown }>>().notNull(), // Field-level diff
+  userId: uuid('user_id'), // Signed-in user, or the user behind the token; null for the instance owner and the web UI
+  apiTokenId: uuid('api_token_id'), // Personal API token the request was made with
+  clientId: text('client_id'), // OAuth client the request's access token was issued to
+  agentId: text('agent_id'), // MCP session or agent identifier
+  author: text('author'), // Human author if the caller named one
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Trash bin for deleted actions - one row per trashed action holding everything needed to restore it.
+// No foreign key to actions: the live row (and its cascading edges, contexts, history) is gone while trashed.
+export const actionTrash = pgTable('action_trash', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actionId: uuid('action_id').notNull(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  deletionId: uuid('deletion_id').notNull(), // Groups actions trashed by the same delete (e.g. delete_recursive)
+  rootActionId: uuid('root_action_id').notNull(), // The action the delete was issued against
+  title: text('title'),
+  snapshot: jsonb('snapshot').$type<{
+    action: Record<string, unknown>;
+    edges: Record<string, unknown>[];
+    completion_contexts: Record<string, unknown>[];
+    revisions: Record<string, unknown>[];
+    tags?: string[];
+  }>().notNull(),
+  deletedBy: text('deleted_by'), // Human author if known
+  agentId: text('agent_id'), // MCP session that issued the delete
+  deletedAt: timestamp('deleted_at').defaultNow().notNull(),
+  purgeAfter: timestamp('purge_after').notNull(),
+});
+
+// Time-limited leases so parallel agents don't pick up the same action
+export const actionClaims = pgTable('action_claims', {
+  actionId: uuid('action_id').primaryKey().references(() => actions.id, { onDelete: 'cascade' }), // One live claim per action
+  sessionId: text('session_id').notNull(), // Claiming agent session (same session_id the hooks capture)
+  claimedAt: timestamp('claimed_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // Claims past this are treated as released
+});
+
+// Free-form labels for grouping actions across the family tree (e.g. "frontend", "v2")
+export const tags = pgTable('tags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull().unique(), // Normalized: lowercase, hyphen-separated
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const actionTags = pgTable('action_tags', {
+  actionId: uuid('action_id').notNull().references(() => actions.id, { onDelete: 'cascade' }),
+  tagId: uuid('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.actionId, table.tagId] }),
+}));
+
+// OAuth clients registered through RFC 7591 dynamic client registration (/register)
+export const oauthClients = pgTable('oauth_clients', {
+  clientId: text('client_id').primaryKey(),
+  clientSecretHash: text('client_secret_hash'), // Only for confidential clients; public clients use PKCE alone
+  clientName: text('client_name'),
+  clientUri: text('client_uri'),
+  redirectUris: jsonb('redirect_uris').$type<string[]>().notNull(), // Exact-match allow-list for /oauth/authorize
+  grantTypes: jsonb('grant_types').$type<string[]>().notNull(),
+  tokenEndpointAuthMethod: text('token_endpoint_auth_method').notNull(), // none, client_secret_basic or client_secret_post
+  scope: text('scope'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// OAuth 2.1 authorization codes - single use and short lived. Only a SHA-256 hash of the code is stored.
+export const oauthAuthorizationCodes = pgTable('oauth_authorization_codes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  codeHash: text('code_hash').notNull().unique(),
+  clientId: text('client_id').notNull(),
+  redirectUri: text('redirect_uri').notNull(), // Must match exactly when the code is exchanged
+  codeChallenge: text('code_challenge').notNull(), // PKCE challenge - always S256
+  scope: text('scope'),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }), // Workspace chosen on the consent screen
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Null when approved with the owner password
+  expiresAt: timestamp('expires_at').notNull(),
+  consumedAt: timestamp('consumed_at'), // Set on exchange; a second exchange revokes the tokens it issued
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Access/refresh token pairs issued by the token endpoint. Only SHA-256 hashes are stored.
+export const oauthTokens = pgTable('oauth_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  accessTokenHash: text('access_token_hash').notNull().unique(),
+  refreshTokenHash: text('refresh_token_hash').unique(),
+  clientId: text('client_id').notNull(),
+  scope: text('scope'),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }), // Every MCP request made with the token is scoped to this organization
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  authorizationCodeId: uuid('authorization_code_id'), // Code the pair was issued for (kept through refreshes)
+  accessExpiresAt: timestamp('access_expires_at').notNull(),
+  refreshExpiresAt: timestamp('refresh_expires_at'),
+  revokedAt: timestamp('revoked_at'), // Revoked pairs are rejected even before they expire
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Browser sign-ins from /signin. They identify who is viewing completion pages and the feed, so team and private
+// items can be shown to members. Only a SHA-256 hash of the session token (kept in a cookie) is stored.
+export const webSessions = pgTable('web_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Null when signed in with the owner password
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Personal API tokens created from /settings/tokens, e.g. for CI agents. Only a SHA-256 hash of the token is stored.
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Creator; null for tokens created by the instance owner
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  tokenPrefix: text('token_prefix').notNull(), // First characters of the token so people can tell tokens apart
+  scopes: jsonb('scopes').$type<TokenScope[]>().notNull(), // read, write, admin
+  rootActionId: uuid('root_action_id'), // Per-subtree tokens may only touch this action and its descendants
+  expiresAt: timestamp('expires_at'), // Never expires when null
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Expiring read-only links to one completion page or one action subtree, for people outside the organization.
+// Only a SHA-256 hash of the token in the link is stored.
+export const shareLinks = pgTable('share_links', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // Creator; null for links created by the instance owner
+  actionId: uuid('action_id').notNull().references(() => actions.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull(), // done: the completion page, tree: /tree and /treemap for the action and its descendants
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Fixed-window request counters behind the MCP and AI rate limits and quotas (see lib/services/usage.ts)
+export const usageCounters = pgTable('usage_counters', {
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  subject: text('subject').notNull(), // Who is counted: token:<id>, client:<id>:<user>, or org:<id> for daily quotas and the web UI
+  bucket: text('bucket').notNull(), // mcp or ai
+  period: text('period').notNull(), // minute or day
+  windowStart: timestamp('window_start').notNull(),
+  count: integer('count').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.subject, table.bucket, table.period, table.windowStart] }),
+}));
+
 // Simple Completion Context Schema for Prototype
 export const completionContextSchema = z.object({
   implementation_story: z.string().optional(),  // "How did you build this?" (supports markdown)
@@ -127,6 +345,7 @@ export type CompletionContext = z.infer<typeof completionContextSchema>;
 export const completionContexts = pgTable('completion_contexts', {
   id: uuid('id').primaryKey().defaultRandom(),
   actionId: uuid('action_id').notNull().references(() => actions.id, { onDelete: 'cascade' }),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
   
   // Simple, flexible story capture (supports markdown formatting)
   implementationStory: text('implementation_story'), // "How did you build this?"
@@ -238,6 +457,7 @@ export const waitlist = pgTable('waitlist', {
 // Work log for agent activity and collaboration tracking
 export const workLog = pgTable('work_log', {
   id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
   content: text('content').notNull(), // Rich narrative: "Claimed action X, discovered it depends on Y and Z, moved X under parent P"
   metadata: jsonb('metadata'), // Flexible data: action IDs, agent info, whatever makes sense
   timestamp: timestamp('timestamp').defaultNow().notNull(),
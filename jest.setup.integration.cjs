@@ -115,6 +115,8 @@ jest.mock('./lib/db/adapter', () => {
 
   return {
     getDb: () => mockDb,
+    withTransaction: (fn) => fn(),
+    afterCommit: (callback) => callback(),
     initializePGlite: jest.fn(() => Promise.resolve()),
     cleanupPGlite: jest.fn(() => Promise.resolve()),
     resetCache: jest.fn(),
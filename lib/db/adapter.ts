@@ -1,12 +1,27 @@
-import { drizzle } from "drizzle-orm/vercel-postgres";
+import { AsyncLocalStorage } from "async_hooks";
+import { drizzle, type VercelPgDatabase } from "drizzle-orm/vercel-postgres";
 import { sql } from "drizzle-orm";
-import { sql as vercelSql } from "@vercel/postgres";
+import { createPool } from "@vercel/postgres";
 
 // Lazy-load database connection to avoid startup failures
-let db: ReturnType<typeof drizzle> | null = null;
+let db: VercelPgDatabase | null = null;
 let pgliteDb: any = null;
 
+// The open transaction, if any, for the code running inside withTransaction. `tx` is cleared once it settles, so
+// background work started inside it (summaries, embeddings) goes back to the shared connection.
+interface TransactionState {
+  tx: any | null;
+  afterCommit: Array<() => Promise<void>>;
+}
+
+const transactions = new AsyncLocalStorage<TransactionState>();
+
 function getDb() {
+  const transaction = transactions.getStore()?.tx;
+  if (transaction) {
+    return transaction;
+  }
+
   // Check both DATABASE_URL and POSTGRES_URL for compatibility
   const databaseUrl = process.env.DATABASE_URL || process.env.POSTGRES_URL;
   
@@ -22,14 +37,53 @@ function getDb() {
     return pgliteDb;
   }
   
-  // Handle regular PostgreSQL URLs with Vercel Postgres
+  // Handle regular PostgreSQL URLs with Vercel Postgres. drizzle needs the pool itself (not the `sql` proxy) so that
+  // a transaction checks out one client and runs BEGIN, its statements and COMMIT on it.
   if (!db) {
-    db = drizzle(vercelSql);
+    db = drizzle(createPool({ connectionString: process.env.POSTGRES_URL || databaseUrl }));
   }
   
   return db;
 }
 
+/**
+ * Run `fn` in a database transaction: every getDb() query inside it, from any service, goes through the transaction,
+ * which commits when `fn` resolves and rolls back when it throws. Nested calls join the outer transaction.
+ */
+async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactions.getStore()?.tx) {
+    return fn();
+  }
+
+  const state: TransactionState = { tx: null, afterCommit: [] };
+  let result: T;
+  try {
+    result = await getDb().transaction((tx: any) => {
+      state.tx = tx;
+      return transactions.run(state, fn);
+    });
+  } finally {
+    state.tx = null;
+  }
+
+  for (const callback of state.afterCommit) {
+    await callback();
+  }
+  return result;
+}
+
+/**
+ * Run `callback` once the current transaction commits - straight away outside one, and never if it rolls back
+ */
+async function afterCommit(callback: () => Promise<void>): Promise<void> {
+  const state = transactions.getStore();
+  if (state?.tx) {
+    state.afterCommit.push(callback);
+  } else {
+    await callback();
+  }
+}
+
 // Store reference to the raw PGlite instance for cleanup
 let rawPgliteInstance: any = null;
 let initializationPromise: Promise<any> | null = null;
@@ -237,4 +291,4 @@ export function resetCache() {
   currentDbPath = null;
 }
 
-export { getDb };
\ No newline at end of file
+export { getDb, withTransaction, afterCommit };
\ No newline at end of file
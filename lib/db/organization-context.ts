@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { eq, type Column } from 'drizzle-orm';
+import { scopesForRole, type OrganizationRole, type TokenScope } from '../utils/organization-roles';
+
+/**
+ * The organization every existing row was migrated into (0030_add_organizations), and the one
+ * used by callers that don't run inside an organization scope: the web UI, cron jobs and scripts.
+ */
+export const DEFAULT_ORGANIZATION_ID = '00000000-0000-4000-8000-000000000001';
+
+export interface OrganizationContext {
+  organizationId: string;
+  userId?: string | null; // Signed-in user behind the request, if known
+  role: OrganizationRole; // What the caller may do in the organization - see lib/services/permissions.ts
+  scopes: TokenScope[]; // Scopes of the token behind the request; never more than the role allows
+  rootActionId?: string | null; // Set for per-subtree tokens: only this action and its descendants may be touched
+  apiTokenId?: string | null; // Personal API token behind the request, if any - recorded in the audit log
+  clientId?: string | null; // OAuth client the request's access token was issued to, if any - recorded in the audit log
+}
+
+const storage = new AsyncLocalStorage<OrganizationContext>();
+
+/**
+ * Run `fn` with every tenant-scoped query (actions, edges, completion contexts, work log)
+ * restricted to the given organization.
+ */
+export function runWithOrganization<T>(context: OrganizationContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getOrganizationContext(): OrganizationContext {
+  // Unscoped callers (web UI, cron jobs, scripts) act as the owner of the default organization
+  return storage.getStore() ?? { organizationId: DEFAULT_ORGANIZATION_ID, userId: null, role: 'owner', scopes: scopesForRole('owner'), rootActionId: null };
+}
+
+export function getOrganizationId(): string {
+  return getOrganizationContext().organizationId;
+}
+
+/**
+ * Where-condition restricting a tenant-scoped table to the current organization
+ */
+export function inOrganization(table: { organizationId: Column }) {
+  return eq(table.organizationId, getOrganizationId());
+}
@@ -12,7 +12,7 @@ export function useActions() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch('/api/tree')
+      const response = await fetch('/api/actions/tree')
       if (!response.ok) {
         throw new Error(`Failed to fetch actions: ${response.statusText}`)
       }
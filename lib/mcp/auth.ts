@@ -1,13 +1,98 @@
-// Validate authentication
-export function validateAuth(request: Request): boolean {
+import { OAuthService, getConsentMode } from '../services/oauth';
+import { ApiTokensService, isApiToken } from '../services/api-tokens';
+import { WebSessionsService, readSessionCookie } from '../services/web-sessions';
+import { DEFAULT_ORGANIZATION_ID, getOrganizationContext, runWithOrganization, type OrganizationContext } from '../db/organization-context';
+import { PermissionDeniedError, actionIdsInArgs, assertActionsInSubtree } from '../services/permissions';
+import { RateLimitError, UsageService, type UsageBucket } from '../services/usage';
+import { hasRole, scopesForRole, type OrganizationRole, type TokenScope } from '../utils/organization-roles';
+
+// Anything with request headers - a Request, or next/headers in a server component
+type WithHeaders = { headers: { get(name: string): string | null } };
+
+// Look up the request's bearer token - either a live (unexpired, unrevoked) token from our OAuth flow, or a personal
+// API token from /settings/tokens - and return the organization context requests made with it run in
+export async function resolveAuth(request: WithHeaders): Promise<OrganizationContext | null> {
   const authHeader = request.headers.get('authorization');
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return false;
+    return null;
+  }
+  
+  const token = authHeader.substring(7).trim();
+  if (!token) {
+    return null;
   }
   
-  const token = authHeader.substring(7);
-  // Accept any token that starts with 'access_' (from our OAuth flow) OR 'test-token' for testing
-  return token.startsWith('access_') || token === 'test-token';
+  try {
+    if (isApiToken(token)) {
+      const info = await ApiTokensService.verify(token);
+      return info && {
+        organizationId: info.organization_id,
+        userId: info.user_id,
+        role: info.role,
+        scopes: info.scopes,
+        rootActionId: info.root_action_id,
+        apiTokenId: info.token_id,
+      };
+    }
+
+    const info = await OAuthService.verifyAccessToken(token);
+    // OAuth tokens act with the full role of the user who approved them, across the whole organization
+    return info && {
+      organizationId: info.organization_id,
+      userId: info.user_id,
+      role: info.role,
+      scopes: scopesForRole(info.role),
+      rootActionId: null,
+      clientId: info.client_id,
+    };
+  } catch (error) {
+    console.error('[MCP Auth] Token lookup failed:', error);
+    return null;
+  }
+}
+
+export async function validateAuth(request: Request): Promise<boolean> {
+  return (await resolveAuth(request)) !== null;
+}
+
+/**
+ * Who is looking at a page or feed that may be public: the bearer token's organization context, or the browser's
+ * /signin session. Anonymous viewers are outsiders (null) - except on development servers without an owner
+ * password, where anyone could approve an owner token anyway and so acts as the default organization's owner.
+ */
+export async function resolveViewer(request: WithHeaders): Promise<OrganizationContext | null> {
+  if (request.headers.get('authorization')) {
+    return resolveAuth(request);
+  }
+
+  const session = await resolveSession(request);
+  if (session) return session;
+
+  return getConsentMode() === 'open' ? getOrganizationContext() : null;
+}
+
+// The browser's live /signin session, if it has one - never the anonymous fallback of open development servers
+export async function resolveSession(request: WithHeaders): Promise<OrganizationContext | null> {
+  const sessionToken = readSessionCookie(request.headers.get('cookie'));
+  if (!sessionToken) return null;
+
+  try {
+    return await WebSessionsService.verify(sessionToken);
+  } catch (error) {
+    console.error('[MCP Auth] Session lookup failed:', error);
+    return null;
+  }
+}
+
+// 401 pointing clients at our OAuth metadata so they can start the authorization flow
+function unauthorizedResponse(request: Request): Response {
+  const url = new URL(request.url);
+  return new Response('Unauthorized', {
+    status: 401,
+    headers: {
+      'WWW-Authenticate': `Bearer realm="mcp", resource_metadata="${url.origin}/.well-known/oauth-authorization-server"`,
+    },
+  });
 }
 
 // Check if request is from the web interface (same origin)
@@ -43,6 +128,17 @@ export function isWebInterfaceRequest(request: Request): boolean {
   return false;
 }
 
+// The SSE transport runs tool calls outside the request that made them, so it can't carry an organization scope,
+// role or subtree. Only unrestricted tokens for the default organization may use it; everyone else has to use the
+// streamable /mcp endpoint.
+function canUseSse(context: OrganizationContext): boolean {
+  return context.organizationId === DEFAULT_ORGANIZATION_ID && context.role === 'owner' && !context.rootActionId;
+}
+
+function sseOrganizationResponse(): Response {
+  return new Response('The SSE transport is only available to unrestricted tokens of the default organization - connect to /mcp instead', { status: 403 });
+}
+
 export async function authenticatedHandler(method: string, request: Request, handler: (request: Request) => Promise<Response>) {
   const url = new URL(request.url);
   const pathParts = url.pathname.split('/').filter(Boolean);
@@ -60,8 +156,12 @@ export async function authenticatedHandler(method: string, request: Request, han
   // Check for authentication on SSE connection, but allow through even if missing for now
   if (transport === 'sse' && method === 'GET') {
     console.log('[MCP Auth] SSE connection establishment');
-    console.log('[MCP Auth] SSE Headers:', Object.fromEntries(request.headers.entries()));
-    if (validateAuth(request)) {
+    const tokenInfo = await resolveAuth(request);
+    if (tokenInfo) {
+      if (!canUseSse(tokenInfo)) {
+        console.log(`[MCP Auth] SSE refused for organization ${tokenInfo.organizationId} (${tokenInfo.role})`);
+        return sseOrganizationResponse();
+      }
       console.log('[MCP Auth] SSE authenticated - allowing through');
     } else {
       console.log('[MCP Auth] SSE not authenticated - allowing through anyway for connection establishment');
@@ -69,29 +169,132 @@ export async function authenticatedHandler(method: string, request: Request, han
     return handler(request);
   }
   
-  // Message endpoint - check if this is an exploratory request or authenticated request
-  if (transport === 'message') {
-    console.log('[MCP Auth] Message endpoint request');
-    console.log('[MCP Auth] Headers:', Object.fromEntries(request.headers.entries()));
-    console.log('[MCP Auth] URL:', request.url);
-    
-    if (!validateAuth(request)) {
-      console.log('[MCP Auth] Message endpoint - no authentication, allowing through for discovery');
-      // Allow through for discovery/exploration
-    } else {
-      console.log('[MCP Auth] Message endpoint - authenticated request');
-    }
-    return handler(request);
-  }
-  
-  // All other requests require authentication
-  if (!validateAuth(request)) {
+  // All other requests - including SSE messages, which carry the actual tool calls - require authentication
+  const tokenInfo = await resolveAuth(request);
+  if (!tokenInfo) {
     console.log('[MCP Auth] Authentication failed');
-    return new Response('Unauthorized', { status: 401 });
+    return unauthorizedResponse(request);
+  }
+  if (transport === 'message' && !canUseSse(tokenInfo)) {
+    console.log(`[MCP Auth] SSE message refused for organization ${tokenInfo.organizationId} (${tokenInfo.role})`);
+    return sseOrganizationResponse();
   }
   
   console.log('[MCP Auth] Authentication successful');
   console.log('[MCP Auth] Forwarding to MCP handler');
   
-  return handler(request);
+  // Every query made while handling the request is scoped to the token's organization, and tools
+  // check the token's role, scopes and subtree through the same context (see lib/services/permissions.ts)
+  return runWithOrganization(tokenInfo, async () => {
+    const limited = await rateLimitResponse('mcp', 'text');
+    if (limited) {
+      console.log(`[MCP Auth] Rate limited for organization ${tokenInfo.organizationId}`);
+      return limited;
+    }
+    return handler(request);
+  });
+}
+
+// Count the request against the caller's rate limit and quota (see lib/services/usage.ts), returning a 429 with
+// Retry-After once it goes over
+async function rateLimitResponse(bucket: UsageBucket, format: 'text' | 'json'): Promise<Response | null> {
+  try {
+    await UsageService.consume(bucket);
+    return null;
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+    const retryAfter = String(error.retryAfterSeconds);
+    return format === 'json'
+      ? new Response(JSON.stringify({ success: false, error: error.message }), {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': retryAfter },
+        })
+      : new Response(error.message, { status: 429, headers: { 'Retry-After': retryAfter } });
+  }
+}
+
+function apiErrorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Request body fields naming actions, for checking per-subtree tokens (see ACTION_ID_ARGS)
+async function bodyArgs(request: Request): Promise<Record<string, unknown> | null> {
+  if (!(request.headers.get('content-type') || '').includes('application/json')) return null;
+  try {
+    const body = await request.clone().json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap a REST route handler. Requests run in the organization of their bearer token or, without one, of the browser's
+ * /signin session (see resolveViewer), and need at least `minimumRole`; anonymous requests get a 401.
+ * Per-subtree tokens may only read an action through a route's `[id]` when it lies inside their subtree, may only use
+ * routes that change something when the route's `[id]` and every action named in the JSON body lie inside it, and
+ * can't delete the subtree root. Routes whose `[id]` isn't an action, such as /api/tokens/[id], pass `idParam: 'other'`.
+ * Routes given a `usage` bucket count each request against the caller's rate limit and quota for it.
+ * Routes given a `tokenScope` only accept bearer tokens carrying that scope, and otherwise a signed-in session even on
+ * open development servers - for routes that hand out credentials, such as /api/tokens, or that anonymous visitors
+ * may only reach with a share link, such as /api/actions/tree/[id].
+ */
+export function withApiAuth<Args extends [Request, ...any[]]>(
+  minimumRole: OrganizationRole,
+  handler: (...args: Args) => Promise<Response>,
+  options: { usage?: UsageBucket; tokenScope?: TokenScope; idParam?: 'action' | 'other' } = {}
+): (...args: Args) => Promise<Response> {
+  const limitedHandler = async (...args: Args) => {
+    const limited = options.usage ? await rateLimitResponse(options.usage, 'json') : null;
+    return limited ?? handler(...args);
+  };
+
+  return async (...args: Args) => {
+    const [request] = args;
+    const hasToken = Boolean(request.headers.get('authorization'));
+    const caller = hasToken
+      ? await resolveAuth(request)
+      : await (options.tokenScope ? resolveSession(request) : resolveViewer(request));
+    if (!caller) {
+      return apiErrorResponse(401, hasToken ? 'Invalid or expired access token' : 'Sign in or pass a bearer token to use this endpoint');
+    }
+    const operation = `${request.method} ${new URL(request.url).pathname}`;
+    if (hasToken && options.tokenScope && !caller.scopes.includes(options.tokenScope)) {
+      return apiErrorResponse(403, `${operation} requires a token with the ${options.tokenScope} scope - sign in or use a token that has it`);
+    }
+    if (!hasRole(caller.role, minimumRole)) {
+      return apiErrorResponse(403, PermissionDeniedError.forRole(minimumRole, caller.role, operation).message);
+    }
+
+    return runWithOrganization(caller, async () => {
+      if (caller.rootActionId) {
+        const params = await (args[1] as { params?: Promise<Record<string, string>> } | undefined)?.params;
+        const routeActionId = options.idParam !== 'other' ? params?.id : undefined;
+        // Reads are checked on the action the route names; changes on every action they touch, and must name one
+        const reading = minimumRole === 'viewer';
+        const actionIds = [
+          ...(routeActionId ? [routeActionId] : []),
+          ...(reading ? [] : actionIdsInArgs(await bodyArgs(request))),
+        ];
+        if (actionIds.length === 0 && !reading) {
+          return apiErrorResponse(403, `${operation} can't be used with a token limited to action ${caller.rootActionId} and its descendants - name an action in its subtree`);
+        }
+        if (request.method === 'DELETE' && routeActionId === caller.rootActionId) {
+          return apiErrorResponse(403, `${operation} can't delete ${caller.rootActionId} - it is the root of this token's subtree`);
+        }
+        try {
+          await assertActionsInSubtree(actionIds, operation);
+        } catch (error) {
+          if (error instanceof PermissionDeniedError) {
+            return apiErrorResponse(403, error.message);
+          }
+          throw error;
+        }
+      }
+      return limitedHandler(...args);
+    });
+  };
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { ActionSearchService, type ActionSuggestion } from "../services/action-search";
+
+// completion/complete for action IDs: prompt arguments take actionIdArgument() and resource templates pass
+// actionIdCompletions for {id}. The protocol version we negotiate has no per-value title, so each value is a label -
+// "Title (id)" - that a person can pick by title, and prompt arguments and {id} variables read the ID back out of it
+// with actionIdFromCompletion. Suggestions are ranked by how closely the title fuzzily matches what was typed.
+
+// Suggestions per request; the protocol allows up to 100, but a picker only needs the best few
+const COMPLETION_LIMIT = 20;
+
+// Actions fetched to rank - keyword matches plus the most recently updated open actions, so abbreviations and typos that
+// keyword search misses still find something
+const CANDIDATE_LIMIT = 100;
+
+// Longest title kept in a label
+const MAX_LABEL_TITLE_LENGTH = 60;
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+export async function completeActionId(value: string | undefined): Promise<string[]> {
+  try {
+    const query = actionIdFromCompletion(value ?? "").trim();
+    const [matches, recent] = await Promise.all([
+      ActionSearchService.suggestActions(query, CANDIDATE_LIMIT),
+      query.length >= 2 ? ActionSearchService.suggestActions("", CANDIDATE_LIMIT) : Promise.resolve([]),
+    ]);
+
+    const candidates = new Map<string, ActionSuggestion>();
+    for (const suggestion of [...matches, ...recent]) {
+      if (!candidates.has(suggestion.id)) candidates.set(suggestion.id, suggestion);
+    }
+
+    // Array.prototype.sort is stable, so equal scores keep the order the search returned them in
+    return [...candidates.values()]
+      .map(suggestion => ({ suggestion, score: matchScore(query, suggestion) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, COMPLETION_LIMIT)
+      .map(({ suggestion }) => completionLabel(suggestion));
+  } catch (error) {
+    // A failed completion shouldn't surface as an error while someone is typing
+    console.error('Error completing action ID:', error);
+    return [];
+  }
+}
+
+// Completion callbacks for a ResourceTemplate whose URI has an {id} variable
+export const actionIdCompletions = { id: completeActionId };
+
+// A prompt argument that takes an action ID, either bare or as a completion label
+export function actionIdArgument() {
+  return z.string().transform(actionIdFromCompletion).pipe(z.string().uuid());
+}
+
+/**
+ * The action ID in a completion label ("Title (id)"), or the value unchanged when it doesn't end with one
+ */
+export function actionIdFromCompletion(value: string): string {
+  const ids = decodeLabel(value).match(UUID_PATTERN);
+  return ids ? ids[ids.length - 1] : value;
+}
+
+// Clients may percent-encode a label they put into a URI
+function decodeLabel(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// The title is cleaned of characters that would end an {id} variable or start a query when the label goes into a URI
+function completionLabel({ id, title }: ActionSuggestion): string {
+  const cleaned = title.replace(/[/,?#{}]+/g, " ").replace(/\s+/g, " ").trim() || "Untitled";
+  const shortened = cleaned.length > MAX_LABEL_TITLE_LENGTH ? `${cleaned.slice(0, MAX_LABEL_TITLE_LENGTH - 3).trimEnd()}...` : cleaned;
+  return `${shortened} (${id})`;
+}
+
+// How well an action matches what was typed, from 0 (not at all) up: the start of its ID, then the whole title, the
+// start of the title, the start of a word, anywhere in the title, and finally the typed letters in order (an
+// abbreviation or a typo'd word), scored higher the more of them run together or start words
+function matchScore(query: string, { id, title }: ActionSuggestion): number {
+  if (!query) return 1;
+  const typed = query.toLowerCase();
+  const text = title.toLowerCase();
+
+  if (id.toLowerCase().startsWith(typed)) return 100;
+  if (text === typed) return 90;
+  if (text.startsWith(typed)) return 80;
+  if (text.split(/\W+/).some(word => word.startsWith(typed))) return 70;
+  if (text.includes(typed)) return 60;
+
+  let score = 0;
+  let position = -1;
+  for (const char of typed.replace(/\s+/g, "")) {
+    const next = text.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    score += next === position + 1 ? 3 : /\W/.test(text[next - 1] ?? " ") ? 2 : 1;
+    position = next;
+  }
+  // Scale into 1-50 by how tight the match was
+  return Math.max(1, Math.round((score / (3 * typed.replace(/\s+/g, "").length)) * 50));
+}
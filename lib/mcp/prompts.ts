@@ -1,17 +1,23 @@
 import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { ActionsService } from "../services/actions";
 import { buildActionPrompt } from "../utils/action-prompt-builder";
+import { DEFAULT_CONTEXT_MAX_TOKENS, parseMaxTokens } from "../utils/resource-query";
 import { BRAND } from "../config/brand";
+import { actionIdArgument, completeActionId } from "./completions";
 
 export function registerPrompts(server: any) {
   // Original action detail prompt
   server.prompt(
     'claude-code-next-action',
     'Structured prompt summarizing an action with context',
-    { action_id: z.string().uuid().describe('ID of the action to summarize') },
-    async ({ action_id }: { action_id: string }) => {
+    {
+      action_id: completable(actionIdArgument(), completeActionId).describe('ID of the action to summarize - type part of its title to search'),
+      max_tokens: z.string().optional().describe(`Token budget for the prompt (default ${DEFAULT_CONTEXT_MAX_TOKENS}, 0 for unlimited) - siblings, dependency stories, family summaries and learnings are trimmed to fit`),
+    },
+    async ({ action_id, max_tokens }: { action_id: string; max_tokens?: string }) => {
       const action = await ActionsService.getActionDetailResource(action_id);
-      const prompt = buildActionPrompt(action);
+      const prompt = buildActionPrompt(action, { maxTokens: parseMaxTokens(max_tokens) });
 
       return {
         messages: [
@@ -30,7 +36,7 @@ export function registerPrompts(server: any) {
   // Intelligent work prioritization prompt
   server.prompt(
     'prioritize-work',
-    'Get intelligent work recommendations based on vision, momentum, and dependencies',
+    'Get work recommendations from the server-side ranking, weighed against vision and momentum',
     {},
     async () => {
       const prompt = `I need help prioritizing what to work on next in the ${BRAND.name} project. Please:
@@ -40,11 +46,14 @@ export function registerPrompts(server: any) {
 3. Get all workable actions using the actions://unblocked MCP resource
 4. Get a count of total incomplete actions using actions://count
 
-Then analyze the workable actions and recommend the top 5 to work on based on:
+actions://unblocked is already ranked server-side: in-progress work first, then by rank_score
+(priority × impact × dependency fan-out, divided by effort), then oldest first. Each action carries
+its priority, effort, impact, fan_out (open actions waiting on it) and rank_score - don't invent your own scores.
+
+Starting from the top of that ranking, recommend the top 5 to work on. Keep the server order unless
+something argues against it, such as:
 - Strategic alignment with the actions.engineering vision
 - Building on recent momentum and completed work
-- Unlocking future work through dependencies
-- Effort vs impact ratio
 - Addressing technical debt or critical issues
 
 CRITICAL: Only recommend actions from the actions://unblocked resource. 
@@ -54,17 +63,17 @@ CRITICAL: Only recommend actions from the actions://unblocked resource.
 
 For each recommendation, provide:
 - The action title, description, and ID
-- A score (0-100) 
-- Clear reasoning for the score
+- Its rank_score, priority, effort, impact and fan_out
+- Clear reasoning, especially wherever you depart from the server order
 - Category (strategic, quick-win, momentum, technical-debt)
-- Estimated effort (low, medium, high)
+
+If important actions have no priority, effort or impact set, suggest values and offer to save them
+with update_action so future rankings improve.
 
 VALIDATION: Before submitting your top 5, double-check that:
 1. Each recommended action appears in actions://unblocked
 2. None appear in context://momentum recent completions
-3. All have incomplete status
-
-Be selective with scoring - most actions should score 20-80, with 80+ reserved for truly critical work.`;
+3. All have incomplete status`;
 
       return {
         messages: [
@@ -86,14 +95,16 @@ Be selective with scoring - most actions should score 20-80, with 80+ reserved f
     'Simple prompt to find the most important next action',
     {},
     async () => {
-      const prompt = `What's the most important thing I should work on next? Use the actions://unblocked resource to find available tasks and pick the top priority based on the project vision (context://vision).
+      const prompt = `What's the most important thing I should work on next? Use the actions://unblocked resource to find available tasks and pick the top priority based on the project vision (context://vision). Actions other agents have claimed are already left out.
+
+Before starting, claim the action with the claim_action tool so parallel agents don't pick it up too. If the claim fails because someone else got there first, pick the next best action. To take the top-ranked action without choosing yourself, call claim_next_action - it claims and loads the full context in one step. Claim again to renew the lease on long tasks, and use release_action if you stop without finishing.
 
 IMPORTANT: Once you start working on a task, you must complete it fully before moving to anything else. This includes:
 - Running pnpm build and ensuring it succeeds
 - Running pnpm test and ensuring all tests pass  
 - Pushing to main branch and verifying deployment
 - Getting user validation of the implementation
-- Using the complete_action tool to mark it done
+- Using the complete_action tool to mark it done (this also frees your claim)
 
 No task switching until current work is fully complete and verified.`;
 
@@ -166,7 +177,7 @@ No task switching until current work is fully complete and verified.`;
   server.prompt(
     'action-context',
     'Get full context on a specific action',
-    { action_id: z.string().uuid().describe('ID of the action to analyze') },
+    { action_id: completable(actionIdArgument(), completeActionId).describe('ID of the action to analyze - type part of its title to search') },
     async ({ action_id }: { action_id: string }) => {
       const prompt = `I need full context on action ${action_id}. Please:
 1. Use actions://${action_id} to get the action details
@@ -385,10 +396,10 @@ Start with a thorough search - it's better to complete an existing forgotten act
 
 export const promptCapabilities = {
   'claude-code-next-action': {
-    description: 'Structured prompt summarizing an action with context',
+    description: `Structured prompt summarizing an action with context, trimmed to max_tokens (default ${DEFAULT_CONTEXT_MAX_TOKENS})`,
   },
   'prioritize-work': {
-    description: 'Get intelligent work recommendations based on vision, momentum, and dependencies',
+    description: 'Get work recommendations from the server-side ranking, weighed against vision and momentum',
   },
   'next-action': {
     description: 'Simple prompt to find the most important next action',
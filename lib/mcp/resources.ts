@@ -1,9 +1,24 @@
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate, type Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { ActionsService } from "../services/actions";
 import { CompletionContextService } from "../services/completion-context";
+import { ActionHistoryService } from "../services/action-history";
+import { AuditLogService, DEFAULT_AUDIT_LIMIT, type AuditLogFilters } from "../services/audit-log";
+import { TrashService } from "../services/trash";
+import { UsageService } from "../services/usage";
+import { ClaimsService } from "../services/claims";
+import { GraphIntegrityService } from "../services/graph-integrity";
+import { ScheduleService } from "../services/schedule";
+import { TagsService, matchesTagFilter, parseTagFilter } from "../services/tags";
+import { DEFAULT_UPCOMING_DAYS, MAX_UPCOMING_DAYS } from "../utils/action-dates";
+import { estimateTokens, fitActionContext } from "../utils/action-prompt-builder";
+import { DEFAULT_CONTEXT_MAX_TOKENS, parseMaxTokens, parseResourceQuery, type ResourceQuery, type ResourceQueryParam } from "../utils/resource-query";
+import type { ActionContextResource } from "../types/resources";
+import { actionIdCompletions, actionIdFromCompletion } from "./completions";
 import { getDb } from "../db/adapter";
+import { inOrganization } from "../db/organization-context";
 import { actions, edges, completionContexts } from "../../db/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, ne, desc, sql } from "drizzle-orm";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { execSync } from "child_process";
@@ -16,21 +31,41 @@ export function registerResources(server: any) {
   // actions://list - List all work items with pagination support
   server.resource(
     "List all work items with pagination support (excludes completed items by default)", 
-    "actions://list",
+    new ResourceTemplate(new QueryUriTemplate("actions://list", LEGACY_LIST_QUERY_PARAMS), { list: listAs("actions://list", "List all work items") }),
+    async (uri: any) => readActionResource(uri, "actions", LEGACY_LIST_QUERY_PARAMS, { actions: [], total: 0 }, query =>
+      ActionsService.getActionListResource({
+        limit: query.limit,
+        offset: query.offset,
+        cursor: query.cursor,
+        includeCompleted: query.includeCompleted,
+        tags: parseTagFilter(query.tags, query.tagMatch),
+      }))
+  );
+
+  // actions://tree - Hierarchical view of work items
+  server.resource(
+    "Hierarchical view of work items showing family relationships (excludes completed items by default)",
+    new ResourceTemplate(new QueryUriTemplate("actions://tree", LEGACY_TREE_QUERY_PARAMS), { list: listAs("actions://tree", "Work item hierarchy") }),
+    async (uri: any) => readActionResource(uri, "action tree", LEGACY_TREE_QUERY_PARAMS, { rootActions: [] }, query =>
+      withTimeout(
+        ActionsService.getActionTreeResource(query.includeCompleted, parseTagFilter(query.tags, query.tagMatch), { maxDepth: query.maxDepth, maxNodes: query.maxNodes }),
+        "Tree resource"
+      ))
+  );
+
+  // actions://dependencies - Dependency graph view
+  server.resource(
+    "Dependency graph view showing all work item dependencies and dependents (excludes completed items by default)",
+    "actions://dependencies",
     async (uri: any) => {
       try {
-        // Parse URI parameters if present - default to reasonable limits
-        let limit = 20;
-        let offset = 0;
+        // Parse URI parameters
         let includeCompleted = false;
         
-        // Try to extract parameters from URI if it contains query string
         const uriString = uri.toString();
         if (uriString.includes('?')) {
           try {
             const url = new URL(uriString);
-            limit = parseInt(url.searchParams.get('limit') || '20');
-            offset = parseInt(url.searchParams.get('offset') || '0');
             
             // Parse includeCompleted parameter
             const includeCompletedParam = url.searchParams.get('includeCompleted');
@@ -49,10 +84,9 @@ export function registerResources(server: any) {
               {
                 uri: uri.toString(),
                 text: JSON.stringify({
-                  error: "Database not configured",
+                  error: "Database not configured", 
                   message: "DATABASE_URL environment variable is not set",
-                  actions: [],
-                  total: 0
+                  dependencies: []
                 }, null, 2),
                 mimeType: "application/json",
               },
@@ -60,7 +94,7 @@ export function registerResources(server: any) {
           };
         }
         
-        const result = await ActionsService.getActionListResource({ limit, offset, includeCompleted });
+        const result = await ActionsService.getActionDependenciesResource(includeCompleted);
         
         return {
           contents: [
@@ -72,34 +106,23 @@ export function registerResources(server: any) {
           ],
         };
       } catch (error) {
-        console.error('Error fetching actions resource:', error);
-        throw new Error(`Failed to fetch actions: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error fetching action dependencies resource:', error);
+        throw new Error(`Failed to fetch action dependencies: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
 
-  // actions://tree - Hierarchical view of work items
+  // actions://{id} - Individual work item core data
   server.resource(
-    "Hierarchical view of work items showing family relationships (excludes completed items by default)",
-    "actions://tree",
-    async (uri: any) => {
+    "Individual work item core data",
+    new ResourceTemplate(new ActionIdUriTemplate("actions://{id}"), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => {
       try {
-        // Parse URI parameters
-        let includeCompleted = false;
+        // Handle id parameter which can be string or string[]
+        const actionId = Array.isArray(id) ? id[0] : id;
         
-        const uriString = uri.toString();
-        if (uriString.includes('?')) {
-          try {
-            const url = new URL(uriString);
-            
-            // Parse includeCompleted parameter
-            const includeCompletedParam = url.searchParams.get('includeCompleted');
-            if (includeCompletedParam !== null) {
-              includeCompleted = includeCompletedParam === 'true';
-            }
-          } catch (urlError) {
-            console.log('Could not parse URI parameters, using defaults:', urlError);
-          }
+        if (!actionId || actionId === '{id}') {
+          throw new Error("Work item ID is required - URI should be like 'actions://123'");
         }
         
         // Check if database is available
@@ -111,7 +134,11 @@ export function registerResources(server: any) {
                 text: JSON.stringify({
                   error: "Database not configured",
                   message: "DATABASE_URL environment variable is not set",
-                  rootActions: []
+                  id: actionId,
+                  title: "Action not available",
+                  children: [],
+                  dependencies: [],
+                  dependents: []
                 }, null, 2),
                 mimeType: "application/json",
               },
@@ -119,20 +146,67 @@ export function registerResources(server: any) {
           };
         }
         
-        console.log('[RESOURCE] Starting getActionTreeResource', { includeCompleted });
+        const result = await ActionsService.getWorkItemCoreData(actionId);
+        
+        // Return core data only - no relationships, no AI summaries
+        const coreData = result;
+        
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              text: JSON.stringify(coreData, null, 2),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error fetching action detail resource:', error);
+        throw new Error(`Failed to fetch action details: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
+  // actions://context/{id} - Rich context for agents to begin work
+  server.resource(
+    "Rich relationship context for agents to begin work on a specific item",
+    new ResourceTemplate(new QueryUriTemplate("actions://context/{id}", ["max_tokens"]), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => {
+      try {
+        // Handle id parameter which can be string or string[]
+        const actionId = Array.isArray(id) ? id[0] : id;
+        
+        if (!actionId || actionId === '{id}') {
+          throw new Error("Work item ID is required - URI should be like 'actions://context/123'");
+        }
         
-        // Add timeout protection for the tree resource
-        const timeoutMs = 45000; // 45 seconds, leaving buffer for the 60s maxDuration
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Tree resource timed out after 45 seconds')), timeoutMs);
-        });
+        // Check if database is available
+        if (!process.env.DATABASE_URL) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                text: JSON.stringify({
+                  error: "Database not configured",
+                  message: "DATABASE_URL environment variable is not set",
+                  id: actionId,
+                  context: null
+                }, null, 2),
+                mimeType: "application/json",
+              },
+            ],
+          };
+        }
         
-        const result = await Promise.race([
-          ActionsService.getActionTreeResource(includeCompleted),
-          timeoutPromise
-        ]) as any;
+        const maxTokens = parseMaxTokens(new URL(uri.toString()).searchParams.get('max_tokens'));
         
-        console.log('[RESOURCE] Completed getActionTreeResource');
+        // Use the full detail resource for agent context (all relationships and data), trimmed to the token budget
+        const detail = await ActionsService.getActionDetailResource(actionId);
+        let result: ActionContextResource = detail;
+        if (maxTokens) {
+          const fitted = fitActionContext(detail, maxTokens, action => estimateTokens(JSON.stringify(action, null, 2)));
+          result = { ...fitted.action, context_budget: fitted.budget };
+        }
         
         return {
           contents: [
@@ -144,31 +218,35 @@ export function registerResources(server: any) {
           ],
         };
       } catch (error) {
-        console.error('Error fetching action tree resource:', error);
-        throw new Error(`Failed to fetch action tree: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error fetching work context:', error);
+        throw new Error(`Failed to fetch work context: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
 
-  // actions://dependencies - Dependency graph view
+  // actions://history/{id} - Revision history for a specific work item
   server.resource(
-    "Dependency graph view showing all work item dependencies and dependents (excludes completed items by default)",
-    "actions://dependencies",
-    async (uri: any) => {
+    "Revision history for a specific work item showing every change, who made it, and when",
+    new ResourceTemplate(new QueryUriTemplate("actions://history/{id}", ["limit", "offset"]), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => {
       try {
+        // Handle id parameter which can be string or string[]
+        const actionId = Array.isArray(id) ? id[0] : id;
+        
+        if (!actionId || actionId === '{id}') {
+          throw new Error("Work item ID is required - URI should be like 'actions://history/123'");
+        }
+        
         // Parse URI parameters
-        let includeCompleted = false;
+        let limit = 50;
+        let offset = 0;
         
         const uriString = uri.toString();
         if (uriString.includes('?')) {
           try {
             const url = new URL(uriString);
-            
-            // Parse includeCompleted parameter
-            const includeCompletedParam = url.searchParams.get('includeCompleted');
-            if (includeCompletedParam !== null) {
-              includeCompleted = includeCompletedParam === 'true';
-            }
+            limit = parseInt(url.searchParams.get('limit') || '50');
+            offset = parseInt(url.searchParams.get('offset') || '0');
           } catch (urlError) {
             console.log('Could not parse URI parameters, using defaults:', urlError);
           }
@@ -181,9 +259,11 @@ export function registerResources(server: any) {
               {
                 uri: uri.toString(),
                 text: JSON.stringify({
-                  error: "Database not configured", 
+                  error: "Database not configured",
                   message: "DATABASE_URL environment variable is not set",
-                  dependencies: []
+                  action_id: actionId,
+                  revisions: [],
+                  total: 0
                 }, null, 2),
                 mimeType: "application/json",
               },
@@ -191,7 +271,7 @@ export function registerResources(server: any) {
           };
         }
         
-        const result = await ActionsService.getActionDependenciesResource(includeCompleted);
+        const result = await ActionHistoryService.getHistory(actionId, { limit, offset });
         
         return {
           contents: [
@@ -203,23 +283,31 @@ export function registerResources(server: any) {
           ],
         };
       } catch (error) {
-        console.error('Error fetching action dependencies resource:', error);
-        throw new Error(`Failed to fetch action dependencies: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error fetching action history:', error);
+        throw new Error(`Failed to fetch action history: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
 
-  // actions://{id} - Individual work item core data
+  // actions://audit - Who changed what, across the organization
   server.resource(
-    "Individual work item core data",
-    new ResourceTemplate("actions://{id}", { list: undefined }),
-    async (uri: any, { id }: { id: string | string[] }) => {
+    "Audit log of every change to work items, attributed to the user, API token, OAuth client and MCP session that made it",
+    new ResourceTemplate(new QueryUriTemplate("actions://audit", AUDIT_QUERY_PARAMS), { list: listAs("actions://audit", "Audit log") }),
+    async (uri: any) => {
       try {
-        // Handle id parameter which can be string or string[]
-        const actionId = Array.isArray(id) ? id[0] : id;
+        // Parse URI parameters
+        const filters: AuditLogFilters = {};
         
-        if (!actionId || actionId === '{id}') {
-          throw new Error("Work item ID is required - URI should be like 'actions://123'");
+        const uriString = uri.toString();
+        if (uriString.includes('?')) {
+          const url = new URL(uriString);
+          filters.actor = url.searchParams.get('actor') || undefined;
+          filters.action_id = url.searchParams.get('action_id') || undefined;
+          filters.operation = url.searchParams.get('operation') || undefined;
+          filters.since = url.searchParams.get('since') || undefined;
+          filters.until = url.searchParams.get('until') || undefined;
+          filters.limit = parseInt(url.searchParams.get('limit') || String(DEFAULT_AUDIT_LIMIT), 10) || DEFAULT_AUDIT_LIMIT;
+          filters.offset = parseInt(url.searchParams.get('offset') || '0', 10) || 0;
         }
         
         // Check if database is available
@@ -231,11 +319,8 @@ export function registerResources(server: any) {
                 text: JSON.stringify({
                   error: "Database not configured",
                   message: "DATABASE_URL environment variable is not set",
-                  id: actionId,
-                  title: "Action not available",
-                  children: [],
-                  dependencies: [],
-                  dependents: []
+                  entries: [],
+                  total: 0
                 }, null, 2),
                 mimeType: "application/json",
               },
@@ -243,40 +328,30 @@ export function registerResources(server: any) {
           };
         }
         
-        const result = await ActionsService.getWorkItemCoreData(actionId);
-        
-        // Return core data only - no relationships, no AI summaries
-        const coreData = result;
+        const result = await AuditLogService.query(filters);
         
         return {
           contents: [
             {
               uri: uri.toString(),
-              text: JSON.stringify(coreData, null, 2),
+              text: JSON.stringify(result, null, 2),
               mimeType: "application/json",
             },
           ],
         };
       } catch (error) {
-        console.error('Error fetching action detail resource:', error);
-        throw new Error(`Failed to fetch action details: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error fetching audit log:', error);
+        throw new Error(`Failed to fetch audit log: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
 
-  // actions://context/{id} - Rich context for agents to begin work
+  // actions://usage - Rate limit and quota usage for the caller and their organization
   server.resource(
-    "Rich relationship context for agents to begin work on a specific item",
-    new ResourceTemplate("actions://context/{id}", { list: undefined }),
-    async (uri: any, { id }: { id: string | string[] }) => {
+    "Current rate limit and daily quota usage for MCP requests and AI-backed calls",
+    new ResourceTemplate(new QueryUriTemplate("actions://usage", []), { list: listAs("actions://usage", "Rate limit and quota usage") }),
+    async (uri: any) => {
       try {
-        // Handle id parameter which can be string or string[]
-        const actionId = Array.isArray(id) ? id[0] : id;
-        
-        if (!actionId || actionId === '{id}') {
-          throw new Error("Work item ID is required - URI should be like 'actions://context/123'");
-        }
-        
         // Check if database is available
         if (!process.env.DATABASE_URL) {
           return {
@@ -286,18 +361,16 @@ export function registerResources(server: any) {
                 text: JSON.stringify({
                   error: "Database not configured",
                   message: "DATABASE_URL environment variable is not set",
-                  id: actionId,
-                  context: null
+                  buckets: []
                 }, null, 2),
                 mimeType: "application/json",
               },
             ],
           };
         }
-        
-        // Use the full detail resource for agent context (all relationships and data)
-        const result = await ActionsService.getActionDetailResource(actionId);
-        
+
+        const result = await UsageService.getUsage();
+
         return {
           contents: [
             {
@@ -308,8 +381,8 @@ export function registerResources(server: any) {
           ],
         };
       } catch (error) {
-        console.error('Error fetching work context:', error);
-        throw new Error(`Failed to fetch work context: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error fetching usage:', error);
+        throw new Error(`Failed to fetch usage: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
@@ -317,29 +390,30 @@ export function registerResources(server: any) {
   // actions://tree/{id} - Hierarchical view of work items scoped to a specific subtree
   server.resource(
     "Hierarchical view of work items showing family relationships within a specific subtree (excludes completed items by default)",
-    new ResourceTemplate("actions://tree/{id}", { list: undefined }),
-    async (uri: any, { id }: { id: string | string[] }) => {
+    new ResourceTemplate(new QueryUriTemplate("actions://tree/{id}", LEGACY_SUBTREE_QUERY_PARAMS), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => readActionResource(uri, "scoped action tree", LEGACY_SUBTREE_QUERY_PARAMS, { rootActions: [], rootAction: Array.isArray(id) ? id[0] : id }, query =>
+      withTimeout(
+        ActionsService.getActionTreeResourceScoped(requireActionId(id, "actions://tree/123"), query.includeCompleted, { maxDepth: query.maxDepth, maxNodes: query.maxNodes }),
+        "Scoped tree resource"
+      ))
+  );
+
+  // actions://trash - Deleted work items awaiting restore or purge
+  server.resource(
+    "Deleted work items that can still be restored with restore_action before they are purged",
+    new ResourceTemplate(new QueryUriTemplate("actions://trash", ["limit", "offset"]), { list: listAs("actions://trash", "Deleted work items") }),
+    async (uri: any) => {
       try {
-        // Handle id parameter which can be string or string[]
-        const rootActionId = Array.isArray(id) ? id[0] : id;
-        
-        if (!rootActionId || rootActionId === '{id}') {
-          throw new Error("Root work item ID is required - URI should be like 'actions://tree/123'");
-        }
-        
         // Parse URI parameters
-        let includeCompleted = false;
+        let limit = 20;
+        let offset = 0;
         
         const uriString = uri.toString();
         if (uriString.includes('?')) {
           try {
             const url = new URL(uriString);
-            
-            // Parse includeCompleted parameter
-            const includeCompletedParam = url.searchParams.get('includeCompleted');
-            if (includeCompletedParam !== null) {
-              includeCompleted = includeCompletedParam === 'true';
-            }
+            limit = parseInt(url.searchParams.get('limit') || '20');
+            offset = parseInt(url.searchParams.get('offset') || '0');
           } catch (urlError) {
             console.log('Could not parse URI parameters, using defaults:', urlError);
           }
@@ -354,8 +428,8 @@ export function registerResources(server: any) {
                 text: JSON.stringify({
                   error: "Database not configured",
                   message: "DATABASE_URL environment variable is not set",
-                  rootActions: [],
-                  rootAction: rootActionId
+                  items: [],
+                  total: 0
                 }, null, 2),
                 mimeType: "application/json",
               },
@@ -363,33 +437,61 @@ export function registerResources(server: any) {
           };
         }
         
-        console.log('[RESOURCE] Starting getActionTreeResourceScoped', { rootActionId, includeCompleted });
+        const result = await TrashService.listTrash({ limit, offset });
         
-        // Add timeout protection for the scoped tree resource
-        const timeoutMs = 45000; // 45 seconds, leaving buffer for the 60s maxDuration
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Scoped tree resource timed out after 45 seconds')), timeoutMs);
-        });
-        
-        const result = await Promise.race([
-          ActionsService.getActionTreeResourceScoped(rootActionId, includeCompleted),
-          timeoutPromise
-        ]) as any;
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              text: JSON.stringify(result, null, 2),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error fetching trash:', error);
+        throw new Error(`Failed to fetch trash: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
+  // actions://integrity - Structural health of the action graph
+  server.resource(
+    "Graph integrity report: family loops, dependency cycles, actions with multiple parents and broken edges",
+    "actions://integrity",
+    async (uri: any) => {
+      try {
+        // Check if database is available
+        if (!process.env.DATABASE_URL) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                text: JSON.stringify({
+                  error: "Database not configured",
+                  message: "DATABASE_URL environment variable is not set",
+                  issues: []
+                }, null, 2),
+                mimeType: "application/json",
+              },
+            ],
+          };
+        }
         
-        console.log('[RESOURCE] Completed getActionTreeResourceScoped');
+        const report = await GraphIntegrityService.validate();
         
         return {
           contents: [
             {
               uri: uri.toString(),
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify(report, null, 2),
               mimeType: "application/json",
             },
           ],
         };
       } catch (error) {
-        console.error('Error fetching scoped action tree resource:', error);
-        throw new Error(`Failed to fetch scoped action tree: ${error instanceof Error ? error.message : "Unknown error"}`);
+        console.error('Error validating graph integrity:', error);
+        throw new Error(`Failed to validate graph integrity: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   );
@@ -397,7 +499,7 @@ export function registerResources(server: any) {
   // actions://done - Recent completion logs with pagination
   server.resource(
     "Recent completion logs showing how work items were implemented, their impact, and learnings",
-    "actions://done",
+    new ResourceTemplate(new QueryUriTemplate("actions://done", ["limit", "offset", "visibility"]), { list: listAs("actions://done", "Recent completion logs") }),
     async (uri: any) => {
       try {
         // Parse URI parameters
@@ -449,11 +551,12 @@ export function registerResources(server: any) {
             completionTimestamp: completionContexts.completionTimestamp,
           })
           .from(completionContexts)
-          .innerJoin(actions, eq(completionContexts.actionId, actions.id));
-        
-        if (visibility) {
-          query.where(eq(completionContexts.changelogVisibility, visibility));
-        }
+          .innerJoin(actions, eq(completionContexts.actionId, actions.id))
+          .where(and(
+            ne(actions.status, 'cancelled'), // Cancelled work keeps its context but stays out of the log
+            visibility ? eq(completionContexts.changelogVisibility, visibility) : undefined,
+            inOrganization(completionContexts)
+          ));
         
         const logs = await query
           .limit(limit)
@@ -461,15 +564,15 @@ export function registerResources(server: any) {
           .orderBy(desc(completionContexts.completionTimestamp));
         
         // Get total count
-        const countQuery = getDb()
+        const countResult = await getDb()
           .select({ count: sql<number>`count(*)` })
-          .from(completionContexts);
-        
-        if (visibility) {
-          countQuery.where(eq(completionContexts.changelogVisibility, visibility));
-        }
-        
-        const countResult = await countQuery;
+          .from(completionContexts)
+          .innerJoin(actions, eq(completionContexts.actionId, actions.id))
+          .where(and(
+            ne(actions.status, 'cancelled'),
+            visibility ? eq(completionContexts.changelogVisibility, visibility) : undefined,
+            inOrganization(completionContexts)
+          ));
         const count = countResult?.[0]?.count || 0;
         
         return {
@@ -496,7 +599,7 @@ export function registerResources(server: any) {
   // actions://done/{id} - Individual work item's completion log
   server.resource(
     "Completion log for a specific work item showing implementation details, impact, and learnings",
-    new ResourceTemplate("actions://done/{id}", { list: undefined }),
+    new ResourceTemplate(new QueryUriTemplate("actions://done/{id}", []), { list: undefined, complete: actionIdCompletions }),
     async (uri: any, { id }: { id: string | string[] }) => {
       try {
         // Handle id parameter which can be string or string[]
@@ -539,7 +642,7 @@ export function registerResources(server: any) {
           })
           .from(completionContexts)
           .innerJoin(actions, eq(completionContexts.actionId, actions.id))
-          .where(eq(completionContexts.actionId, actionId))
+          .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
           .limit(1);
         
         if (result.length === 0) {
@@ -650,9 +753,11 @@ export function registerResources(server: any) {
                 completionTimestamp: completionContexts.completionTimestamp,
                 impactStory: completionContexts.impactStory,
                 isCurrentlyComplete: actions.done,
+                status: actions.status,
               })
               .from(completionContexts)
               .innerJoin(actions, eq(completionContexts.actionId, actions.id))
+              .where(inOrganization(completionContexts))
               .orderBy(desc(completionContexts.completionTimestamp))
               .limit(10);
             
@@ -729,10 +834,29 @@ export function registerResources(server: any) {
 
   // actions://unblocked - Get all unblocked work items (leaf nodes with dependencies met)
   server.resource(
-    "Get all unblocked work items (leaf nodes with all dependencies completed)",
-    "actions://unblocked",
+    "Get all unblocked work items (leaf nodes with all dependencies completed), ranked by priority, impact, effort and dependency fan-out, excluding actions other agents have claimed",
+    new ResourceTemplate(new QueryUriTemplate("actions://unblocked", ["session_id", "includeClaimed", "tags", "tagMatch"]), { list: listAs("actions://unblocked", "Unblocked work items") }),
     async (uri: any) => {
       try {
+        // Parse URI parameters
+        let sessionId: string | undefined;
+        let includeClaimed = false;
+        let tagsParam: string | null = null;
+        let tagMatchParam: string | null = null;
+        
+        const uriString = uri.toString();
+        if (uriString.includes('?')) {
+          try {
+            const url = new URL(uriString);
+            sessionId = url.searchParams.get('session_id') || undefined;
+            includeClaimed = url.searchParams.get('includeClaimed') === 'true';
+            tagsParam = url.searchParams.get('tags');
+            tagMatchParam = url.searchParams.get('tagMatch');
+          } catch (urlError) {
+            console.log('Could not parse URI parameters, using defaults:', urlError);
+          }
+        }
+        
         // Check if database is available
         if (!process.env.DATABASE_URL) {
           return {
@@ -754,11 +878,25 @@ export function registerResources(server: any) {
         const startTime = Date.now();
         console.log('[UNBLOCKED] Starting to get unblocked actions');
         
+        const tags = parseTagFilter(tagsParam, tagMatchParam);
+        
         // Get all unblocked actions using optimized query
-        const unblockedActions = await getUnblockedActionsOptimized(1000);
+        const allUnblocked = await getUnblockedActionsOptimized(1000);
+        const tagsByAction = await TagsService.getTagsForActions(allUnblocked.map(action => action.id));
+        
+        // Hide work other agents are actively leasing unless asked to show it
+        const claims = await ClaimsService.getActiveClaims(allUnblocked.map(action => action.id));
+        const unblockedActions = allUnblocked
+          .filter(action => !tags || matchesTagFilter(tagsByAction.get(action.id) || [], tags))
+          .filter(action => {
+            const claim = claims.get(action.id);
+            return includeClaimed || !claim || claim.session_id === sessionId;
+          })
+          .map(action => ({ ...action, tags: tagsByAction.get(action.id) || [] }))
+          .map(action => claims.has(action.id) ? { ...action, claim: claims.get(action.id) } : action);
         
         const duration = Date.now() - startTime;
-        console.log(`[UNBLOCKED] Found ${unblockedActions.length} unblocked actions in ${duration}ms`);
+        console.log(`[UNBLOCKED] Found ${unblockedActions.length} unblocked actions (${allUnblocked.length - unblockedActions.length} claimed) in ${duration}ms`);
         
         return {
           contents: [
@@ -767,6 +905,7 @@ export function registerResources(server: any) {
               text: JSON.stringify({
                 unblocked: unblockedActions,
                 total: unblockedActions.length,
+                claimed: allUnblocked.length - unblockedActions.length,
                 queryDuration: duration,
                 generatedAt: new Date().toISOString()
               }, null, 2),
@@ -831,6 +970,160 @@ export function registerResources(server: any) {
     }
   );
 
+  // actions://tags - Tags in use with how many actions carry each
+  server.resource(
+    "List every tag in use with how many actions (and open actions) carry it",
+    "actions://tags",
+    async (uri: any) => {
+      try {
+        // Check if database is available
+        if (!process.env.DATABASE_URL) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                text: JSON.stringify({
+                  error: "Database not configured",
+                  message: "DATABASE_URL environment variable is not set",
+                  tags: [],
+                  total: 0
+                }, null, 2),
+                mimeType: "application/json",
+              },
+            ],
+          };
+        }
+        
+        const tags = await TagsService.listTags();
+        
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              text: JSON.stringify({ tags, total: tags.length }, null, 2),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+        throw new Error(`Failed to fetch tags: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
+  // actions://overdue - Open work items past their due date
+  server.resource(
+    "Get open work items whose due date has passed, most overdue first",
+    new ResourceTemplate(new QueryUriTemplate("actions://overdue", ["limit"]), { list: listAs("actions://overdue", "Overdue work items") }),
+    async (uri: any) => {
+      try {
+        // Parse URI parameters
+        let limit = 100;
+        
+        const uriString = uri.toString();
+        if (uriString.includes('?')) {
+          try {
+            const url = new URL(uriString);
+            limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 1), 500);
+          } catch (urlError) {
+            console.log('Could not parse URI parameters, using defaults:', urlError);
+          }
+        }
+        
+        // Check if database is available
+        if (!process.env.DATABASE_URL) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                text: JSON.stringify({
+                  error: "Database not configured",
+                  message: "DATABASE_URL environment variable is not set",
+                  overdue: [],
+                  total: 0
+                }, null, 2),
+                mimeType: "application/json",
+              },
+            ],
+          };
+        }
+        
+        const result = await ScheduleService.getOverdueActions({ limit });
+        
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              text: JSON.stringify(result, null, 2),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error fetching overdue actions:', error);
+        throw new Error(`Failed to fetch overdue actions: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
+  // actions://upcoming - Open work items starting or due soon
+  server.resource(
+    "Get open work items starting or due in the next few days (default 14), soonest first",
+    new ResourceTemplate(new QueryUriTemplate("actions://upcoming", ["days", "limit"]), { list: listAs("actions://upcoming", "Upcoming work items") }),
+    async (uri: any) => {
+      try {
+        // Parse URI parameters
+        let days = DEFAULT_UPCOMING_DAYS;
+        let limit = 100;
+        
+        const uriString = uri.toString();
+        if (uriString.includes('?')) {
+          try {
+            const url = new URL(uriString);
+            days = Math.min(Math.max(parseInt(url.searchParams.get('days') || String(DEFAULT_UPCOMING_DAYS), 10) || DEFAULT_UPCOMING_DAYS, 0), MAX_UPCOMING_DAYS);
+            limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 1), 500);
+          } catch (urlError) {
+            console.log('Could not parse URI parameters, using defaults:', urlError);
+          }
+        }
+        
+        // Check if database is available
+        if (!process.env.DATABASE_URL) {
+          return {
+            contents: [
+              {
+                uri: uri.toString(),
+                text: JSON.stringify({
+                  error: "Database not configured",
+                  message: "DATABASE_URL environment variable is not set",
+                  upcoming: [],
+                  total: 0
+                }, null, 2),
+                mimeType: "application/json",
+              },
+            ],
+          };
+        }
+        
+        const result = await ScheduleService.getUpcomingActions({ days, limit });
+        
+        return {
+          contents: [
+            {
+              uri: uri.toString(),
+              text: JSON.stringify(result, null, 2),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error fetching upcoming actions:', error);
+        throw new Error(`Failed to fetch upcoming actions: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
   // actions://no-dependencies - Get work items with no dependencies
   server.resource(
     "Get incomplete work items that have no dependencies blocking them",
@@ -863,6 +1156,7 @@ export function registerResources(server: any) {
           id: a.id,
           data: a.data,
           done: a.done,
+          status: a.status,
           version: a.version,
           createdAt: new Date(a.created_at).toISOString(),
           updatedAt: new Date(a.updated_at).toISOString()
@@ -889,29 +1183,186 @@ export function registerResources(server: any) {
     }
   );
 
+  // action:// - Query-parameterized resources (docs/mcp-resource-redesign-proposal.md). The path names the resource,
+  // and every query parameter is parsed by parseResourceQuery, so unsupported ones are rejected instead of ignored.
+
+  // action://list - Actions filtered by status, a page at a time
+  server.resource(
+    "Work items filtered by status, oldest first, with cursor pagination",
+    new ResourceTemplate(new QueryUriTemplate("action://list", LIST_QUERY_PARAMS), { list: undefined }),
+    async (uri: any) => readActionResource(uri, "action list", LIST_QUERY_PARAMS, { actions: [], total: 0 }, query =>
+      ActionsService.getActionListResource({ statuses: query.statuses, limit: query.limit, cursor: query.cursor }))
+  );
+
+  // action://item/{id} - Everything about one action
+  server.resource(
+    "Full data for one work item: details, family, dependencies and completion logs",
+    new ResourceTemplate(new QueryUriTemplate("action://item/{id}", []), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => readActionResource(uri, "action item", [], { id }, () =>
+      ActionsService.getActionDetailResource(requireActionId(id, "action://item/123")))
+  );
+
+  // action://summary/{id} - Just enough to recognise one action
+  server.resource(
+    "Lightweight summary of one work item: title, status, family path and completion state",
+    new ResourceTemplate(new QueryUriTemplate("action://summary/{id}", []), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => readActionResource(uri, "action summary", [], { id }, () =>
+      ActionsService.getActionSummaryResource(requireActionId(id, "action://summary/123")))
+  );
+
+  // action://tree - The whole hierarchy, to a depth
+  server.resource(
+    "Hierarchy of all work items to a given depth",
+    new ResourceTemplate(new QueryUriTemplate("action://tree", TREE_QUERY_PARAMS), { list: undefined }),
+    async (uri: any) => readActionResource(uri, "action tree", TREE_QUERY_PARAMS, { rootActions: [] }, query =>
+      ActionsService.getActionTreeResource(query.includeCompleted, undefined, { maxDepth: query.depth, maxNodes: query.maxNodes, moreAt: "action://tree/{id}" }))
+  );
+
+  // action://tree/{id} - One subtree, to a depth
+  server.resource(
+    "Hierarchy under one work item to a given depth",
+    new ResourceTemplate(new QueryUriTemplate("action://tree/{id}", TREE_QUERY_PARAMS), { list: undefined, complete: actionIdCompletions }),
+    async (uri: any, { id }: { id: string | string[] }) => readActionResource(uri, "action subtree", TREE_QUERY_PARAMS, { rootActions: [] }, query =>
+      ActionsService.getActionTreeResourceScoped(requireActionId(id, "action://tree/123"), query.includeCompleted, { maxDepth: query.depth, maxNodes: query.maxNodes, moreAt: "action://tree/{id}" }))
+  );
+}
+
+const LIST_QUERY_PARAMS: ResourceQueryParam[] = ["status", "includeCompleted", "limit", "cursor"];
+const TREE_QUERY_PARAMS: ResourceQueryParam[] = ["depth", "maxNodes", "includeCompleted"];
+
+// The older actions:// list and trees keep their own parameter names, parsed by parseResourceQuery all the same
+const LEGACY_LIST_QUERY_PARAMS: ResourceQueryParam[] = ["limit", "offset", "cursor", "includeCompleted", "tags", "tagMatch"];
+const LEGACY_TREE_QUERY_PARAMS: ResourceQueryParam[] = ["maxDepth", "maxNodes", "includeCompleted", "tags", "tagMatch"];
+const LEGACY_SUBTREE_QUERY_PARAMS: ResourceQueryParam[] = ["maxDepth", "maxNodes", "includeCompleted"];
+const AUDIT_QUERY_PARAMS = ["actor", "action_id", "operation", "since", "until", "limit", "offset"];
+
+// Advertises a resource's query parameters in its template (RFC 6570 form-style query), but matches on the path alone so
+// the parameters can come in any order or be left out - the handler validates them afterwards
+class QueryUriTemplate extends UriTemplate {
+  private readonly pathTemplate: UriTemplate;
+
+  constructor(path: string, params: readonly string[]) {
+    super(params.length > 0 ? `${path}{?${params.join(",")}}` : path);
+    this.pathTemplate = new UriTemplate(path);
+  }
+
+  match(uri: string): Variables | null {
+    return withActionId(this.pathTemplate.match(uri.split("?")[0]));
+  }
+}
+
+// actions://{id} is registered ahead of named resources such as actions://audit, which are templates too so they can
+// take a query - it must leave their URIs to them rather than read "audit" as a work item ID
+class ActionIdUriTemplate extends UriTemplate {
+  match(uri: string): Variables | null {
+    const variables = super.match(uri);
+    const named = variables && `actions://${String(variables.id).split("?")[0]}` in resourceCapabilities;
+    return named ? null : withActionId(variables);
+  }
+}
+
+// An {id} picked with completion/complete arrives as a "Title (id)" label (see lib/mcp/completions.ts)
+function withActionId(variables: Variables | null): Variables | null {
+  return variables && typeof variables.id === "string" ? { ...variables, id: actionIdFromCompletion(variables.id) } : variables;
+}
+
+// Lists a templated resource under its bare URI, so it still shows up in resources/list
+function listAs(uri: string, name: string) {
+  return async () => ({ resources: [{ uri, name }] });
+}
+
+function requireActionId(id: string | string[], example: string): string {
+  const actionId = Array.isArray(id) ? id[0] : id;
+  if (!actionId || actionId === "{id}") {
+    throw new Error(`Work item ID is required - URI should be like '${example}'`);
+  }
+  return actionId;
+}
+
+// Parse the query, then read and serialize a resource, with the same errors for all of them
+async function readActionResource(
+  uri: any,
+  description: string,
+  params: readonly ResourceQueryParam[],
+  unavailable: Record<string, unknown>,
+  read: (query: ResourceQuery) => Promise<unknown>
+) {
+  try {
+    const query = parseResourceQuery(uri.toString(), params);
+
+    // Check if database is available
+    if (!process.env.DATABASE_URL) {
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            text: JSON.stringify({
+              error: "Database not configured",
+              message: "DATABASE_URL environment variable is not set",
+              ...unavailable
+            }, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+
+    const result = await read(query);
+
+    return {
+      contents: [
+        {
+          uri: uri.toString(),
+          text: JSON.stringify(result, null, 2),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  } catch (error) {
+    console.error(`Error fetching ${description}:`, error);
+    throw new Error(`Failed to fetch ${description}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+// Trees can outgrow the function's 60s maxDuration, so their reads give up after 45 seconds
+function withTimeout<T>(read: Promise<T>, description: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${description} timed out after 45 seconds`)), 45000);
+  });
+  return Promise.race([read, timeout]).finally(() => clearTimeout(timer));
 }
 
 export const resourceCapabilities = {
   "actions://list": {
-    description: "List all work items with pagination support (excludes completed items by default, use ?includeCompleted=true to include them)",
+    description: "List all work items with pagination support (excludes completed items by default, use ?includeCompleted=true to include them, ?tags=a,b to filter by tag and &tagMatch=all to require every tag). Page with ?limit=20 and ?cursor= set to the next_cursor of the previous page (null on the last page); ?offset= still works without a cursor",
   },
   "actions://count": {
     description: "Get counts of work items by status (total, incomplete, completed)",
   },
   "actions://unblocked": {
-    description: "Get all unblocked work items (leaf nodes with all dependencies completed)",
+    description: "Get all unblocked work items (leaf nodes with all dependencies completed), ranked by priority, impact, effort and dependency fan-out, excluding actions other agents have claimed (use ?session_id=... to keep your own claims, ?includeClaimed=true to show everything, ?tags=a,b to filter by tag)",
   },
   "actions://blockers": {
     description: "Get incomplete dependencies that are blocking other work",
   },
+  "actions://tags": {
+    description: "List every tag in use with how many actions (and open actions) carry it",
+  },
+  "actions://overdue": {
+    description: "Get open work items whose due date has passed, most overdue first (?limit=100)",
+  },
+  "actions://upcoming": {
+    description: "Get open work items starting or due in the next few days, soonest first (?days=14&limit=100)",
+  },
   "actions://no-dependencies": {
     description: "Get incomplete work items that have no dependencies blocking them",
   },
   "actions://tree": {
-    description: "Hierarchical view of work items showing family relationships (excludes completed items by default, use ?includeCompleted=true to include them)",
+    description: "Hierarchical view of work items showing family relationships (excludes completed items by default, use ?includeCompleted=true to include them, ?tags=a,b to keep only tagged items and their ancestors). Returns at most ?maxNodes=200 items (max 2000, 0 for unlimited), filled level by level, and ?maxDepth= levels (default unlimited). Nodes cut off carry truncated_children and a more_at URI to fetch the rest, and the response a truncated summary",
   },
   "actions://tree/{id}": {
-    description: "Hierarchical view of work items within a specific subtree, scoped to the given work item ID and its descendants (excludes completed items by default, use ?includeCompleted=true to include them)",
+    description: "Hierarchical view of work items within a specific subtree, scoped to the given work item ID and its descendants (excludes completed items by default, use ?includeCompleted=true to include them). Same ?maxNodes=200 and ?maxDepth= budget and truncation markers as actions://tree",
   },
   "actions://dependencies": {
     description: "Dependency graph view showing all work item dependencies and dependents (excludes completed items by default, use ?includeCompleted=true to include them)",
@@ -920,7 +1371,22 @@ export const resourceCapabilities = {
     description: "Individual work item core data",
   },
   "actions://context/{id}": {
-    description: "Rich relationship context for agents to begin work on a specific item",
+    description: "Rich relationship context for agents to begin work on a specific item, trimmed to fit ?max_tokens= (default " + DEFAULT_CONTEXT_MAX_TOKENS + ", max 100000, 0 for unlimited): siblings go first, then dependency stories oldest first, then family summaries are shortened, with learnings kept longest. context_budget says what was left out",
+  },
+  "actions://history/{id}": {
+    description: "Revision history for a specific work item showing every change (field edits, completion toggles, family moves, dependency changes), who made it, and when. Supports pagination (?limit=50&offset=0)",
+  },
+  "actions://audit": {
+    description: "Audit log of every create, update, completion toggle, family move, dependency and tag change, delete and restore, with the user, API token, OAuth client and MCP session behind it, newest first. Filter with ?actor= (any of those IDs, or an author), ?action_id=, ?operation= (e.g. completed), ?since= and ?until= (ISO 8601); paginate with ?limit=50&offset=0",
+  },
+  "actions://usage": {
+    description: "Rate limit and quota usage: requests this minute for the calling token, OAuth client or user, and requests today for the organization, for MCP requests (bucket mcp) and AI-backed routes and tools (bucket ai), with each limit and when it resets. Limits are set with MCP_RATE_LIMIT_PER_MINUTE, MCP_DAILY_QUOTA, AI_RATE_LIMIT_PER_MINUTE and AI_DAILY_QUOTA",
+  },
+  "actions://trash": {
+    description: "Deleted work items that can be restored with restore_action until they are purged after the retention period (TRASH_RETENTION_DAYS, default 30). Supports pagination (?limit=20&offset=0)",
+  },
+  "actions://integrity": {
+    description: "Graph integrity report: family loops, dependency cycles, actions with multiple parents and broken edges, each with a readable path",
   },
   "actions://done": {
     description: "Recent completion logs showing how work items were implemented, their impact, and learnings. Supports pagination (?limit=20&offset=0) and visibility filtering (?visibility=public|team|private)",
@@ -928,6 +1394,21 @@ export const resourceCapabilities = {
   "actions://done/{id}": {
     description: "Completion log for a specific work item showing implementation details, impact, and learnings",
   },
+  "action://list": {
+    description: "Work items oldest first, a page at a time. Query params: ?status=pending|completed|all or a comma-separated list of statuses (default: pending, or all with ?includeCompleted=true), ?limit=20 (max 100), ?cursor= (the next_cursor of the previous page). Unknown params are rejected",
+  },
+  "action://item/{id}": {
+    description: "Everything about one work item: details, family chain, children, dependencies, dependents, siblings and completion logs",
+  },
+  "action://summary/{id}": {
+    description: "Lightweight summary of one work item: title, status, family path from the root, number of children and completion state",
+  },
+  "action://tree": {
+    description: "Hierarchy of all work items. Query params: ?depth=3 (levels to return, max 10, 0 for unlimited), ?maxNodes=200 (items to return, max 2000, 0 for unlimited), ?includeCompleted=true (default: false). Cut-off nodes carry truncated_children and a more_at URI",
+  },
+  "action://tree/{id}": {
+    description: "Hierarchy under one work item, e.g. action://tree/{id}?depth=2&includeCompleted=true. Query params: ?depth=3 (levels to return counting the root, max 10, 0 for unlimited), ?maxNodes=200 (max 2000, 0 for unlimited), ?includeCompleted=true (default: false)",
+  },
   "context://vision": {
     description: "Project vision and strategic documents (VISION.md, CLAUDE.md) that guide development priorities",
   },
@@ -0,0 +1,54 @@
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ResourceEventsService, SUBSCRIBABLE_RESOURCES, isSubscribableResource, type ResourceUpdate } from "../services/resource-events";
+import { getOrganizationContext } from "../db/organization-context";
+
+// resources/subscribe and resources/unsubscribe, sending notifications/resources/updated when ActionsService changes a
+// subscribed resource. Notifications need a connection the server can write to between requests, which only the SSE
+// transport keeps open; the stateless HTTP transport refuses subscriptions instead of silently dropping them.
+export function registerSubscriptions(server: any) {
+  // Subscribed URI, exactly as the client gave it, to the organization it was subscribed in
+  const subscriptions = new Map<string, string>();
+  let stopListening: (() => void) | null = null;
+
+  const unsubscribeAll = () => {
+    subscriptions.clear();
+    stopListening?.();
+    stopListening = null;
+  };
+
+  const notify = (update: ResourceUpdate) => {
+    const changed = new Set(update.uris);
+    for (const [uri, organizationId] of subscriptions) {
+      if (organizationId !== update.organizationId || !changed.has(uri.split('?')[0])) continue;
+      server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        // The session has gone away
+        console.error(`Failed to send resource update for ${uri}, dropping this session's subscriptions:`, error);
+        unsubscribeAll();
+      });
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request: any, extra: any) => {
+    const { uri } = request.params;
+    if (!extra?.sessionId) {
+      throw new Error("Resource subscriptions need the SSE transport (/mcp/sse), which keeps a connection open for notifications");
+    }
+    if (!isSubscribableResource(uri)) {
+      throw new Error(`Cannot subscribe to ${uri} - subscribable resources are ${SUBSCRIBABLE_RESOURCES.join(', ')}`);
+    }
+
+    subscriptions.set(uri, getOrganizationContext().organizationId);
+    stopListening ??= ResourceEventsService.subscribe(notify);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: any) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      unsubscribeAll();
+    }
+    return {};
+  });
+}
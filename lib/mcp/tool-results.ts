@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+// Structured tool results: every tool declares an output schema and returns structuredContent that matches it, next to
+// the markdown text agents read. Scripts read the structured fields instead of parsing "ID: ..." out of the text.
+// Every result has the same envelope - ok, error (when ok is false) and links - and the tool's own fields, which are
+// only present when ok is true.
+
+// A link to a resource the result refers to, shaped like an MCP 2025-06-18 resource_link - read it with resources/read.
+// Links live in structuredContent only: the protocol version we speak (2025-03-26) has no resource_link content item,
+// so content lists them in a plain text item after the text fallback instead.
+export const resourceLinkSchema = z.object({
+  type: z.literal("resource_link"),
+  uri: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export type ResourceLink = z.infer<typeof resourceLinkSchema>;
+
+export const toolErrorSchema = z.object({
+  message: z.string(),
+  code: z.enum(["version_conflict", "claim_conflict", "permission_denied", "rate_limited"]).optional(),
+  details: z.record(z.any()).optional(), // e.g. the current server state for a version conflict
+});
+
+export type ToolError = z.infer<typeof toolErrorSchema>;
+
+// The output schema for a tool returning the given fields, wrapped in the common envelope
+export function toolOutputSchema<Shape extends z.ZodRawShape>(shape: Shape) {
+  return {
+    ok: z.boolean().describe("false when the call failed - see error"),
+    error: toolErrorSchema.optional(),
+    links: z.array(resourceLinkSchema).describe("Resources for the actions in this result"),
+    ...z.object(shape).partial().shape,
+  };
+}
+
+// actions://{id} for an action - used for each action in a list result
+export function actionLink(id: string, title?: string | null): ResourceLink {
+  return {
+    type: "resource_link",
+    uri: `actions://${id}`,
+    name: title || id,
+    description: "Action details and relationships",
+    mimeType: "application/json",
+  };
+}
+
+// actions://{id} and actions://context/{id} for the action a tool acted on
+export function actionLinks(id: string, title?: string | null): ResourceLink[] {
+  return [
+    actionLink(id, title),
+    {
+      type: "resource_link",
+      uri: `actions://context/${id}`,
+      name: `Context: ${title || id}`,
+      description: "Full working context - family, dependencies and their completion records",
+      mimeType: "application/json",
+    },
+  ];
+}
+
+export function toolResult(text: string, data: Record<string, unknown>, links: ResourceLink[] = []) {
+  return {
+    content: [
+      { type: "text" as const, text },
+      ...(links.length > 0 ? [{ type: "text" as const, text: linksText(links) }] : []),
+    ],
+    structuredContent: { ok: true, ...data, links },
+  };
+}
+
+function linksText(links: ResourceLink[]): string {
+  return ["Resources:", ...links.map(link => `- ${link.name}: ${link.uri}`)].join("\n");
+}
+
+export function toolError(text: string, error: Partial<ToolError> = {}) {
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent: { ok: false, error: { message: text, ...error }, links: [] },
+    isError: true,
+  };
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// Database timestamps come back as Dates; structured content carries ISO strings
+export function isoTimestamp(value: Date | string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -2,10 +2,23 @@ import { z } from "zod";
 import { ActionsService } from "../services/actions";
 import { VectorPlacementService } from "../services/vector-placement";
 import { ActionSearchService } from "../services/action-search";
-import { WorkLogService } from "../services/work-log";
+import { WorkLogService, type WorkLogEntry } from "../services/work-log";
+import type { RevisionActor } from "../services/action-history";
+import { VersionConflictError } from "../services/version-conflict";
+import { ClaimsService, ClaimConflictError, MAX_CLAIM_TTL_MINUTES, getClaimTtlMinutes } from "../services/claims";
+import { WorkQueueService } from "../services/work-queue";
+import { MAX_TAGS_PER_REQUEST } from "../services/tags";
+import { PermissionDeniedError, assertRole, requiredDeleteRole, requiredToolRole, scopeToolArgs } from "../services/permissions";
+import { RateLimitError, UsageService } from "../services/usage";
+import { ACTION_STATUSES, SETTABLE_STATUSES, STATUS_LABELS, type ActionStatus } from "../utils/action-status";
+import { ACTION_PRIORITIES, ACTION_EFFORTS, ACTION_IMPACTS, type ActionPriority, type ActionEffort, type ActionImpact } from "../utils/action-priority";
+import { isoDateSchema } from "../utils/action-dates";
+import { DEFAULT_CONTEXT_MAX_TOKENS, MAX_CONTEXT_MAX_TOKENS } from "../utils/resource-query";
 import { getDb } from "../db/adapter";
+import { inOrganization } from "../db/organization-context";
 import { actions, edges, actionDataSchema } from "../../db/schema";
 import { eq, and } from "drizzle-orm";
+import { actionLink, actionLinks, errorMessage, isoTimestamp, toolError, toolOutputSchema, toolResult } from "./tool-results";
 
 // Helper function to make internal API calls with authentication
 async function makeApiCall(endpoint: string, options: RequestInit = {}, authToken?: string, hostHeader?: string) {
@@ -65,8 +78,118 @@ async function makeApiCall(endpoint: string, options: RequestInit = {}, authToke
   return data;
 }
 
+// Identify the calling MCP session so mutations are attributed in the action's revision history
+function actorFromExtra(extra: any): RevisionActor | undefined {
+  return extra?.sessionId ? { agent_id: extra.sessionId } : undefined;
+}
+
+// Surface a stale write as a structured conflict so the agent can re-read, merge and retry
+function versionConflictResponse(error: VersionConflictError) {
+  const details = error.toJSON();
+  return toolError(`Error: ${error.message}\n\nConflict details:\n${JSON.stringify(details, null, 2)}`, {
+    message: error.message,
+    code: "version_conflict",
+    details,
+  });
+}
+
+// The action as a tool left it, in the structured content of tools that create or change one
+const actionOutputSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  status: z.enum(ACTION_STATUSES),
+  done: z.boolean(),
+  priority: z.enum(ACTION_PRIORITIES).nullable(),
+  effort: z.enum(ACTION_EFFORTS).nullable(),
+  impact: z.enum(ACTION_IMPACTS).nullable(),
+  start_date: z.string().nullable(),
+  due_date: z.string().nullable(),
+  version: z.number().int(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+function actionOutput(action: any): z.infer<typeof actionOutputSchema> {
+  return {
+    id: action.id,
+    title: action.data?.title ?? null,
+    status: action.status,
+    done: action.done ?? false,
+    priority: action.priority ?? null,
+    effort: action.effort ?? null,
+    impact: action.impact ?? null,
+    start_date: action.startDate ?? null,
+    due_date: action.dueDate ?? null,
+    version: action.version ?? 0,
+    created_at: isoTimestamp(action.createdAt),
+    updated_at: isoTimestamp(action.updatedAt),
+  };
+}
+
+const claimOutputSchema = z.object({
+  action_id: z.string(),
+  session_id: z.string(),
+  claimed_at: z.string(),
+  expires_at: z.string(),
+});
+
+// add_tags and remove_tags (an ActionTagsResult)
+const tagsOutputShape = {
+  action_id: z.string(),
+  tags: z.array(z.string()).describe("Every tag on the action after the change"),
+  changed: z.array(z.string()).describe("Tags actually added or removed - empty when nothing changed"),
+  version: z.number().int().optional().describe("New version, only bumped when something changed"),
+};
+
+const workLogEntrySchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  metadata: z.record(z.any()).optional(),
+  timestamp: z.string(),
+});
+
+function workLogEntryOutput(entry: WorkLogEntry): z.infer<typeof workLogEntrySchema> {
+  return { ...entry, timestamp: entry.timestamp.toISOString() };
+}
+
+// Tools that call OpenAI on every use, and so count against the AI rate limit and quota (see lib/services/usage.ts)
+const AI_TOOLS = new Set(['decompose_action']);
+
+// Check the caller's role, the subtree of per-subtree tokens and the AI rate limit before any of the tool's own code runs (see TOOL_ROLES)
+function withToolPermission(name: string, handler: (args: any, extra: any) => Promise<any>) {
+  return async (args: any, extra: any) => {
+    try {
+      assertRole(requiredToolRole(name), name);
+      args = await scopeToolArgs(name, args);
+      if (AI_TOOLS.has(name)) {
+        await UsageService.consume('ai');
+      }
+      return await handler(args, extra);
+    } catch (error) {
+      if (error instanceof PermissionDeniedError) {
+        return toolError(`Error: ${error.message}`, { message: error.message, code: "permission_denied" });
+      }
+      if (error instanceof RateLimitError) {
+        return toolError(`Error: ${error.message}`, { message: error.message, code: "rate_limited" });
+      }
+      // A tool with an output schema has to return structured content, so nothing may escape as a bare error
+      console.error(`Error in tool ${name}:`, error);
+      return toolError(`Error: ${errorMessage(error)}`);
+    }
+  };
+}
+
+export function registerTools(mcpServer: any) {
+  // Every tool declares the fields of its structured content (see lib/mcp/tool-results.ts)
+  const server = {
+    tool: (name: string, description: string, schema: any, output: z.ZodRawShape, handler: (args: any, extra: any) => Promise<any>) =>
+      mcpServer.registerTool(
+        name,
+        { description, inputSchema: schema, outputSchema: toolOutputSchema(output) },
+        withToolPermission(name, handler),
+      ),
+  };
 
-export function registerTools(server: any) {
   // create_action - Create a new action
   server.tool(
     "create_action",
@@ -75,17 +198,39 @@ export function registerTools(server: any) {
       title: z.string().min(1).describe("The title for the action"),
       description: z.string().optional().describe("Detailed instructions or context describing how the action should be performed"),
       vision: z.string().optional().describe("A clear communication of the state of the world when the action is complete"),
+      priority: z.enum(ACTION_PRIORITIES).optional().describe("How urgent the action is: urgent, high, medium or low (unset ranks as medium)"),
+      effort: z.enum(ACTION_EFFORTS).optional().describe("Estimated size: xs (under an hour), s, m (about a day), l or xl (a week or more); unset ranks as m"),
+      impact: z.enum(ACTION_IMPACTS).optional().describe("How much value completing the action delivers: high, medium or low (unset ranks as medium)"),
+      start_date: isoDateSchema.optional().describe("Optional date work is planned to start (YYYY-MM-DD)"),
+      due_date: isoDateSchema.optional().describe("Optional deadline (YYYY-MM-DD). Open actions past it show up in actions://overdue"),
       family_id: z.string().uuid().describe("Required family action ID to create a family relationship"),
       depends_on_ids: z.array(z.string().uuid()).optional().describe("Optional array of action IDs that this action depends on"),
       override_duplicate_check: z.boolean().optional().describe("Override duplicate detection check if you intentionally want to create a similar action"),
     },
-    async ({ title, description, vision, family_id, depends_on_ids, override_duplicate_check }: { title: string; description?: string; vision?: string; family_id: string; depends_on_ids?: string[]; override_duplicate_check?: boolean }, extra: any) => {
+    {
+      created: z.boolean().describe("false when duplicate detection stopped the create - see duplicate_warning"),
+      action: actionOutputSchema,
+      parent_id: z.string(),
+      dependencies_count: z.number().int().optional(),
+      duplicate_warning: z.object({
+        message: z.string(),
+        suggestion: z.string(),
+        potential_duplicates: z.array(z.object({
+          id: z.string(),
+          title: z.string(),
+          description: z.string().optional(),
+          similarity: z.number(),
+          path: z.array(z.string()).optional(),
+        })),
+      }).optional(),
+    },
+    async ({ title, description, vision, priority, effort, impact, start_date, due_date, family_id, depends_on_ids, override_duplicate_check }: { title: string; description?: string; vision?: string; priority?: ActionPriority; effort?: ActionEffort; impact?: ActionImpact; start_date?: string; due_date?: string; family_id: string; depends_on_ids?: string[]; override_duplicate_check?: boolean }, extra: any) => {
       try {
         console.log(`Creating action with title: ${title}`);
         
         // Validate family_id exists
         const db = getDb();
-        const familyAction = await db.select().from(actions).where(eq(actions.id, family_id)).limit(1);
+        const familyAction = await db.select().from(actions).where(and(eq(actions.id, family_id), inOrganization(actions))).limit(1);
         
         if (familyAction.length === 0) {
           throw new Error(`Family action with ID ${family_id} not found. Use mcp__actions__search_actions or actions://tree to find a valid family.`);
@@ -96,9 +241,15 @@ export function registerTools(server: any) {
           title, 
           description, 
           vision, 
+          priority,
+          effort,
+          impact,
+          start_date,
+          due_date,
           parent_id: family_id, 
           depends_on_ids,
-          override_duplicate_check 
+          override_duplicate_check,
+          actor: actorFromExtra(extra),
         });
 
         // Check if duplicate warning was returned
@@ -121,43 +272,47 @@ export function registerTools(server: any) {
           
           warningMessage += `**Suggestion:** ${result.duplicate_warning.suggestion}`;
           
-          return {
-            content: [
-              {
-                type: "text",
-                text: warningMessage,
+          return toolResult(
+            warningMessage,
+            {
+              created: false,
+              duplicate_warning: {
+                ...result.duplicate_warning,
+                potential_duplicates: result.duplicate_warning.potential_duplicates.map(dup => ({
+                  ...dup,
+                  description: dup.description ?? undefined,
+                  path: dup.path ?? undefined,
+                })),
               },
-            ],
-          };
+            },
+            result.duplicate_warning.potential_duplicates.map(dup => actionLink(dup.id, dup.title)),
+          );
         }
 
         const { action, dependencies_count } = result;
         let message = `Created action: ${title}\nID: ${action.id}\nCreated: ${action.createdAt}`;
         
         message += `\nParent: ${family_id}`;
+        if (priority || effort || impact) {
+          message += `\nPlanning: priority ${priority || 'unset'}, effort ${effort || 'unset'}, impact ${impact || 'unset'}`;
+        }
+        if (start_date || due_date) {
+          message += `\nDates: start ${start_date || 'unset'}, due ${due_date || 'unset'}`;
+        }
         
         if (dependencies_count > 0) {
           message += `\nDependencies: ${dependencies_count} actions`;
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, {
+          created: true,
+          action: actionOutput(action),
+          parent_id: family_id,
+          dependencies_count,
+        }, actionLinks(action.id, title));
       } catch (error) {
         console.error('Error creating action:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error creating action: ${errorMessage(error)}`);
       }
     },
   );
@@ -171,31 +326,26 @@ export function registerTools(server: any) {
       action_id: z.string().uuid().describe("The ID of the action that depends on another"),
       depends_on_id: z.string().uuid().describe("The ID of the action that must be completed first"),
     },
+    {
+      action_id: z.string(),
+      depends_on_id: z.string(),
+      created_at: z.string().nullable(),
+    },
     async ({ action_id, depends_on_id }: { action_id: string; depends_on_id: string }, extra: any) => {
       try {
         console.log(`Creating dependency: ${action_id} depends on ${depends_on_id}`);
         
         // Call ActionsService directly to avoid HTTP authentication issues
-        const edge = await ActionsService.addDependency({ action_id, depends_on_id });
+        const edge = await ActionsService.addDependency({ action_id, depends_on_id, actor: actorFromExtra(extra) });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Created dependency: ${action_id} depends on ${depends_on_id}\nCreated: ${edge.createdAt}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Created dependency: ${action_id} depends on ${depends_on_id}\nCreated: ${edge.createdAt}`,
+          { action_id, depends_on_id, created_at: isoTimestamp(edge.createdAt) },
+          [actionLink(action_id), actionLink(depends_on_id)],
+        );
       } catch (error) {
         console.error('Error creating dependency:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating dependency: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error creating dependency: ${errorMessage(error)}`);
       }
     },
   );
@@ -206,17 +356,27 @@ export function registerTools(server: any) {
     "Delete an action and handle its children",
     {
       action_id: z.string().uuid().describe("The ID of the action to delete"),
-      child_handling: z.enum(["delete_recursive", "reparent"]).default("reparent").describe("How to handle child actions: delete_recursive (delete all children), or reparent (move children to deleted action's parent)"),
+      child_handling: z.enum(["delete_recursive", "reparent"]).default("reparent").describe("How to handle child actions: delete_recursive (delete all children - admins only), or reparent (move children to deleted action's parent)"),
       new_parent_id: z.string().uuid().optional().describe("Required if child_handling is 'reparent' - the new parent for orphaned children"),
     },
+    {
+      action_id: z.string(),
+      title: z.string().nullable(),
+      children_count: z.number().int(),
+      child_handling: z.enum(["delete_recursive", "reparent"]),
+      new_parent_id: z.string().nullable(),
+      trashed_count: z.number().int(),
+      purge_after: z.string(),
+    },
     async ({ action_id, child_handling, new_parent_id }: { action_id: string; child_handling?: "delete_recursive" | "reparent"; new_parent_id?: string }, extra: any) => {
       try {
         console.log(`Deleting action ${action_id} with child handling: ${child_handling}`);
+        assertRole(requiredDeleteRole(child_handling), `delete_action with ${child_handling}`);
         
         // Call ActionsService directly to avoid HTTP authentication issues
-        const result = await ActionsService.deleteAction({ action_id, child_handling, new_parent_id });
+        const result = await ActionsService.deleteAction({ action_id, child_handling, new_parent_id, actor: actorFromExtra(extra) });
 
-        const { deleted_action, children_count, child_handling: handling, new_parent_id: newParentId } = result;
+        const { deleted_action, children_count, child_handling: handling, new_parent_id: newParentId, trashed_count, purge_after } = result;
         let message = `Deleted action: ${deleted_action.data?.title}\nID: ${action_id}`;
         
         if (children_count > 0) {
@@ -226,24 +386,200 @@ export function registerTools(server: any) {
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        message += `\nMoved ${trashed_count} action(s) to trash until ${purge_after} - use restore_action with this ID to undo`;
+
+        // No links: the action is in the trash, so actions://{id} no longer resolves until it's restored
+        return toolResult(message, {
+          action_id,
+          title: deleted_action.data?.title ?? null,
+          children_count,
+          child_handling: handling,
+          new_parent_id: newParentId ?? null,
+          trashed_count,
+          purge_after,
+        });
       } catch (error) {
         console.error('Error deleting action:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deleting action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error deleting action: ${errorMessage(error)}`);
+      }
+    },
+  );
+
+  // restore_action - Bring a deleted action back from the trash
+  server.tool(
+    "restore_action",
+    "Restore a deleted action from the trash, along with any children that were deleted with it, its dependencies and completion context",
+    {
+      action_id: z.string().uuid().describe("The ID of the deleted action to restore (see actions://trash)"),
+    },
+    {
+      action_id: z.string(),
+      title: z.string().nullable(),
+      restored_action_ids: z.array(z.string()),
+      parent_id: z.string().nullable(),
+      restored_edges: z.number().int(),
+      skipped_edges: z.number().int(),
+    },
+    async ({ action_id }: { action_id: string }, extra: any) => {
+      try {
+        console.log(`Restoring action ${action_id} from trash`);
+        
+        // Call ActionsService directly to avoid HTTP authentication issues
+        const result = await ActionsService.restoreAction({ action_id, actor: actorFromExtra(extra) });
+
+        let message = `Restored action: ${result.action?.data?.title}\nID: ${action_id}`;
+        if (result.restored_action_ids.length > 1) {
+          message += `\nAlso restored ${result.restored_action_ids.length - 1} descendant action(s)`;
+        }
+        if (result.parent_id) {
+          message += `\nRejoined family: ${result.parent_id}`;
+        }
+        message += `\nRestored ${result.restored_edges} relationship(s)`;
+        if (result.skipped_edges > 0) {
+          message += ` (${result.skipped_edges} skipped because the related action no longer exists or has moved)`;
+        }
+
+        const restoredTitle = result.action?.data?.title ?? null;
+        return toolResult(message, {
+          action_id,
+          title: restoredTitle,
+          restored_action_ids: result.restored_action_ids,
+          parent_id: result.parent_id ?? null,
+          restored_edges: result.restored_edges,
+          skipped_edges: result.skipped_edges,
+        }, actionLinks(action_id, restoredTitle));
+      } catch (error) {
+        console.error('Error restoring action:', error);
+        return toolError(`Error restoring action: ${errorMessage(error)}`);
+      }
+    },
+  );
+
+  // claim_action - Lease an action to this session so parallel agents skip it
+  server.tool(
+    "claim_action",
+    "Claim an action before starting work on it. The claim is a time-limited lease: other agents won't see the action in actions://unblocked until you release it or the lease expires. Claim again to renew",
+    {
+      action_id: z.string().uuid().describe("The ID of the action to claim"),
+      session_id: z.string().min(1).optional().describe("Your agent session ID (the session_id your hooks report). Defaults to the MCP session"),
+      ttl_minutes: z.number().int().min(1).max(MAX_CLAIM_TTL_MINUTES).optional().describe(`How long the lease lasts before it expires automatically (default ${getClaimTtlMinutes()} minutes)`),
+    },
+    {
+      claim: claimOutputSchema,
+    },
+    async ({ action_id, session_id, ttl_minutes }: { action_id: string; session_id?: string; ttl_minutes?: number }, extra: any) => {
+      try {
+        const claimingSession = session_id || extra?.sessionId;
+        if (!claimingSession) {
+          return toolError("Error: No session to claim for - pass session_id");
+        }
+
+        const claim = await ClaimsService.claimAction({ action_id, session_id: claimingSession, ttl_minutes });
+
+        return toolResult(
+          `Claimed action: ${action_id}\nSession: ${claim.session_id}\nExpires: ${claim.expires_at}\n\nRelease it with release_action when you finish or stop working on it.`,
+          { claim },
+          actionLinks(action_id),
+        );
+      } catch (error) {
+        if (error instanceof ClaimConflictError) {
+          return toolError(`Error: ${error.message}. Pick another action from actions://unblocked.`, {
+            message: error.message,
+            code: "claim_conflict",
+            details: { ...error.claim },
+          });
+        }
+        console.error('Error claiming action:', error);
+        return toolError(`Error claiming action: ${errorMessage(error)}`);
+      }
+    },
+  );
+
+  // release_action - Give up this session's lease on an action
+  server.tool(
+    "release_action",
+    "Release your claim on an action so other agents can pick it up",
+    {
+      action_id: z.string().uuid().describe("The ID of the claimed action"),
+      session_id: z.string().min(1).optional().describe("The session ID used to claim the action. Defaults to the MCP session"),
+    },
+    {
+      action_id: z.string(),
+      released: z.boolean().describe("false when this session held no claim on the action"),
+    },
+    async ({ action_id, session_id }: { action_id: string; session_id?: string }, extra: any) => {
+      try {
+        const claimingSession = session_id || extra?.sessionId;
+        if (!claimingSession) {
+          return toolError("Error: No session to release for - pass session_id");
+        }
+
+        const result = await ClaimsService.releaseAction({ action_id, session_id: claimingSession });
+
+        return toolResult(
+          result.released
+            ? `Released claim on action: ${action_id}`
+            : `No claim to release on action: ${action_id}`,
+          { action_id, released: result.released },
+          actionLinks(action_id),
+        );
+      } catch (error) {
+        console.error('Error releasing action:', error);
+        return toolError(`Error releasing action: ${errorMessage(error)}`);
+      }
+    },
+  );
+
+  // claim_next_action - Pick, claim and load the next work item in one step
+  server.tool(
+    "claim_next_action",
+    "Claim the highest-ranked unblocked action and get its full working context in one call. Use this instead of reading actions://unblocked and claiming separately, so parallel agents never pick the same action",
+    {
+      scope_id: z.string().uuid().optional().describe("Only pick from this action's subtree"),
+      session_id: z.string().min(1).optional().describe("Your agent session ID (the session_id your hooks report). Defaults to the MCP session"),
+      ttl_minutes: z.number().int().min(1).max(MAX_CLAIM_TTL_MINUTES).optional().describe(`How long the lease lasts before it expires automatically (default ${getClaimTtlMinutes()} minutes)`),
+      max_tokens: z.number().int().min(0).max(MAX_CONTEXT_MAX_TOKENS).optional().describe(`Token budget for the prompt (default ${DEFAULT_CONTEXT_MAX_TOKENS}, 0 for unlimited) - siblings, dependency stories, family summaries and learnings are trimmed to fit`),
+    },
+    {
+      claimed: z.boolean().describe("false when the queue had nothing to claim"),
+      action: z.object({ id: z.string(), title: z.string(), version: z.number().int() }).optional(),
+      claim: claimOutputSchema.optional(),
+      remaining: z.number().int().optional().describe("Other unclaimed candidates left in the queue"),
+      prompt: z.string().optional().describe("The action's working context, trimmed to max_tokens as in the claude-code-next-action prompt"),
+    },
+    async ({ scope_id, session_id, ttl_minutes, max_tokens }: { scope_id?: string; session_id?: string; ttl_minutes?: number; max_tokens?: number }, extra: any) => {
+      try {
+        const claimingSession = session_id || extra?.sessionId;
+        if (!claimingSession) {
+          return toolError("Error: No session to claim for - pass session_id");
+        }
+
+        const result = await WorkQueueService.claimNextAction({ session_id: claimingSession, scope_id, ttl_minutes, max_tokens });
+
+        if (!result) {
+          return toolResult(
+            scope_id
+              ? `No unclaimed unblocked actions in the subtree of ${scope_id}`
+              : "No unclaimed unblocked actions available",
+            { claimed: false },
+          );
+        }
+
+        let message = `Claimed action: ${result.action.title}\nID: ${result.action.id}\nVersion: ${result.action.version}\nClaim expires: ${result.claim.expires_at}\n`;
+        message += `Remaining in queue: ${result.remaining}\n\n`;
+        message += result.prompt;
+        message += `\n\nRelease the claim with release_action if you stop without finishing.`;
+
+        return toolResult(message, {
+          claimed: true,
+          action: { id: result.action.id, title: result.action.title, version: result.action.version },
+          claim: result.claim,
+          remaining: result.remaining,
+          prompt: result.prompt,
+        }, actionLinks(result.action.id, result.action.title));
+      } catch (error) {
+        console.error('Error claiming next action:', error);
+        return toolError(`Error claiming next action: ${errorMessage(error)}`);
       }
     },
   );
@@ -256,105 +592,170 @@ export function registerTools(server: any) {
       action_id: z.string().uuid().describe("The ID of the action that currently depends on another"),
       depends_on_id: z.string().uuid().describe("The ID of the action that the dependency should be removed from"),
     },
+    {
+      action_id: z.string(),
+      depends_on_id: z.string(),
+      removed_at: z.string().nullable(),
+    },
     async ({ action_id, depends_on_id }: { action_id: string; depends_on_id: string }, extra: any) => {
       try {
         console.log(`[MCP TOOL] remove_dependency called with action_id: ${action_id}, depends_on_id: ${depends_on_id}`);
         console.log(`[MCP TOOL] Starting dependency removal...`);
         
         // Call ActionsService directly to avoid HTTP authentication issues
-        const result = await ActionsService.removeDependency({ action_id, depends_on_id });
+        const result = await ActionsService.removeDependency({ action_id, depends_on_id, actor: actorFromExtra(extra) });
         console.log(`[MCP TOOL] ActionsService.removeDependency completed successfully`);
 
         const { action, depends_on, deleted_edge } = result;
 
-        const response = {
-          content: [
-            {
-              type: "text",
-              text: `Removed dependency: ${action.data?.title} no longer depends on ${depends_on.data?.title}\nRemoved: ${deleted_edge.createdAt}`,
-            },
-          ],
-        };
+        const response = toolResult(
+          `Removed dependency: ${action.data?.title} no longer depends on ${depends_on.data?.title}\nRemoved: ${deleted_edge.createdAt}`,
+          { action_id, depends_on_id, removed_at: isoTimestamp(deleted_edge.createdAt) },
+          [actionLink(action_id, action.data?.title), actionLink(depends_on_id, depends_on.data?.title)],
+        );
         
         console.log(`[MCP TOOL] Returning successful response`);
         return response;
       } catch (error) {
         console.error('[MCP TOOL] Error removing dependency:', error);
-        const errorResponse = {
-          content: [
-            {
-              type: "text",
-              text: `Error removing dependency: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        const errorResponse = toolError(`Error removing dependency: ${errorMessage(error)}`);
         console.log(`[MCP TOOL] Returning error response`);
         return errorResponse;
       }
     },
   );
 
+  // add_tags - Label an action
+  server.tool(
+    "add_tags",
+    "Add one or more tags to an action. Tags are case-insensitive labels (e.g. 'frontend', 'v2') used to filter actions://list, actions://tree, actions://unblocked and search_actions. Missing tags are created; tags already on the action are ignored.",
+    {
+      action_id: z.string().uuid().describe("The ID of the action to tag"),
+      tags: z.array(z.string().min(1)).min(1).max(MAX_TAGS_PER_REQUEST).describe("Tags to add - letters, digits and - _ . : / (spaces become hyphens)"),
+    },
+    tagsOutputShape,
+    async ({ action_id, tags }: { action_id: string; tags: string[] }, extra: any) => {
+      try {
+        const result = await ActionsService.addTags({ action_id, tags, actor: actorFromExtra(extra) });
+
+        let message = result.changed.length > 0
+          ? `Added tag${result.changed.length !== 1 ? 's' : ''}: ${result.changed.join(', ')}`
+          : `No tags added - the action already has ${tags.length !== 1 ? 'these tags' : 'this tag'}`;
+        message += `\nTags: ${result.tags.length > 0 ? result.tags.join(', ') : 'none'}`;
+        if (result.version !== undefined) {
+          message += `\nVersion: ${result.version}`;
+        }
+
+        return toolResult(message, { ...result }, actionLinks(action_id));
+      } catch (error) {
+        return toolError(`Error adding tags: ${errorMessage(error)}`);
+      }
+    },
+  );
+
+  // remove_tags - Remove labels from an action
+  server.tool(
+    "remove_tags",
+    "Remove one or more tags from an action. Tags the action doesn't have are ignored.",
+    {
+      action_id: z.string().uuid().describe("The ID of the action to untag"),
+      tags: z.array(z.string().min(1)).min(1).max(MAX_TAGS_PER_REQUEST).describe("Tags to remove"),
+    },
+    tagsOutputShape,
+    async ({ action_id, tags }: { action_id: string; tags: string[] }, extra: any) => {
+      try {
+        const result = await ActionsService.removeTags({ action_id, tags, actor: actorFromExtra(extra) });
+
+        let message = result.changed.length > 0
+          ? `Removed tag${result.changed.length !== 1 ? 's' : ''}: ${result.changed.join(', ')}`
+          : `No tags removed - the action doesn't have ${tags.length !== 1 ? 'these tags' : 'this tag'}`;
+        message += `\nTags: ${result.tags.length > 0 ? result.tags.join(', ') : 'none'}`;
+        if (result.version !== undefined) {
+          message += `\nVersion: ${result.version}`;
+        }
+
+        return toolResult(message, { ...result }, actionLinks(action_id));
+      } catch (error) {
+        return toolError(`Error removing tags: ${errorMessage(error)}`);
+      }
+    },
+  );
+
   // update_action - Update an action
   server.tool(
     "update_action",
-    "Update an existing action's properties including title and description (use complete_action to mark actions as done)",
+    "Update an existing action's properties including title, description, status, start/due dates and the priority/effort/impact used to rank unblocked work (use complete_action to mark actions as done)",
     {
       action_id: z.string().uuid().describe("The ID of the action to update"),
       title: z.string().min(1).optional().describe("The new title for the action"),
       description: z.string().optional().describe("Detailed instructions or context describing how the action should be performed"),
       vision: z.string().optional().describe("A clear communication of the state of the world when the action is complete"),
+      status: z.enum(SETTABLE_STATUSES).optional().describe("Lifecycle status: todo, in_progress, blocked, in_review, or cancelled (won't do - unblocks dependents without counting as completed). Use complete_action to mark done"),
+      priority: z.enum(ACTION_PRIORITIES).nullable().optional().describe("How urgent the action is: urgent, high, medium or low. Pass null to clear"),
+      effort: z.enum(ACTION_EFFORTS).nullable().optional().describe("Estimated size: xs, s, m, l or xl. Pass null to clear"),
+      impact: z.enum(ACTION_IMPACTS).nullable().optional().describe("How much value completing the action delivers: high, medium or low. Pass null to clear"),
+      start_date: isoDateSchema.nullable().optional().describe("Date work is planned to start (YYYY-MM-DD). Pass null to clear"),
+      due_date: isoDateSchema.nullable().optional().describe("Deadline (YYYY-MM-DD). Pass null to clear"),
+      version: z.number().int().min(0).optional().describe("The version of the action you last read (from actions://{id}). If the action has changed since, the update is rejected with the current server state so you can re-read and merge"),
+    },
+    {
+      action: actionOutputSchema,
     },
-    async ({ action_id, title, description, vision }: { 
+    async ({ action_id, title, description, vision, status, priority, effort, impact, start_date, due_date, version }: { 
       action_id: string; 
       title?: string; 
       description?: string; 
       vision?: string; 
+      status?: ActionStatus;
+      priority?: ActionPriority | null;
+      effort?: ActionEffort | null;
+      impact?: ActionImpact | null;
+      start_date?: string | null;
+      due_date?: string | null;
+      version?: number;
     }, extra: any) => {
       try {
         // Validate that at least one field is provided
-        if (title === undefined && description === undefined && vision === undefined) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "Error: At least one field (title, description, or vision) must be provided",
-              },
-            ],
-          };
+        if (title === undefined && description === undefined && vision === undefined && status === undefined && priority === undefined && effort === undefined && impact === undefined && start_date === undefined && due_date === undefined) {
+          return toolError("Error: At least one field (title, description, vision, status, priority, effort, impact, start_date, or due_date) must be provided");
         }
 
         const updateData: any = {};
         if (title !== undefined) updateData.title = title;
         if (description !== undefined) updateData.description = description;
         if (vision !== undefined) updateData.vision = vision;
+        if (status !== undefined) updateData.status = status;
+        if (priority !== undefined) updateData.priority = priority;
+        if (effort !== undefined) updateData.effort = effort;
+        if (impact !== undefined) updateData.impact = impact;
+        if (start_date !== undefined) updateData.start_date = start_date;
+        if (due_date !== undefined) updateData.due_date = due_date;
         
         console.log(`Updating action ${action_id} with:`, updateData);
         
         // Call ActionsService directly to avoid HTTP authentication issues
         const action = await ActionsService.updateAction({
           action_id,
-          ...updateData
+          ...updateData,
+          expected_version: version,
+          actor: actorFromExtra(extra),
         });
-        let message = `Updated action: ${action.data?.title}\nID: ${action.id}\nUpdated: ${action.updatedAt}`;
+        let message = `Updated action: ${action.data?.title}\nID: ${action.id}\nStatus: ${STATUS_LABELS[action.status as ActionStatus] || action.status}`;
+        if (action.priority || action.effort || action.impact) {
+          message += `\nPlanning: priority ${action.priority || 'unset'}, effort ${action.effort || 'unset'}, impact ${action.impact || 'unset'}`;
+        }
+        if (action.startDate || action.dueDate) {
+          message += `\nDates: start ${action.startDate || 'unset'}, due ${action.dueDate || 'unset'}`;
+        }
+        message += `\nVersion: ${action.version}\nUpdated: ${action.updatedAt}`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { action: actionOutput(action) }, actionLinks(action.id, action.data?.title));
       } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflictResponse(error);
+        }
         console.error('Error updating action:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error updating action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error updating action: ${errorMessage(error)}`);
       }
     },
   );
@@ -447,6 +848,10 @@ export function registerTools(server: any) {
         })).optional().describe("Repositories involved in this work")
       }).optional().describe("Flexible git context including commits, pull requests, and repository information. Provide whatever information you have available."),
     },
+    {
+      action: actionOutputSchema,
+      changelog_visibility: z.enum(["private", "team", "public"]),
+    },
     async ({ action_id, changelog_visibility, technical_changes, outcomes, challenges, alignment_reflection, git_context }: { 
       action_id: string; 
       changelog_visibility: "private" | "team" | "public";
@@ -535,7 +940,8 @@ export function registerTools(server: any) {
             challenges,
             alignment_reflection,
             git_context
-          }
+          },
+          actor: actorFromExtra(extra),
         });
         
         let message = `✅ Completed action: ${action.data?.title}\nID: ${action.id}\nCompleted: ${action.updatedAt}`;
@@ -597,24 +1003,10 @@ export function registerTools(server: any) {
         
         message += `\n\n🤖 Server will generate editorial content from this objective data combined with hook activity logs.`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { action: actionOutput(action), changelog_visibility }, actionLinks(action.id, action.data?.title));
       } catch (error) {
         console.error('Error completing action:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error completing action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error completing action: ${errorMessage(error)}`);
       }
     },
   );
@@ -626,6 +1018,9 @@ export function registerTools(server: any) {
     {
       action_id: z.string().uuid().describe("The ID of the completed action to reopen"),
     },
+    {
+      action: actionOutputSchema,
+    },
     async ({ action_id }: { action_id: string }, extra: any) => {
       try {
         console.log(`Uncompleting action ${action_id}`);
@@ -633,30 +1028,17 @@ export function registerTools(server: any) {
         // Call ActionsService directly to avoid HTTP authentication issues
         const action = await ActionsService.updateAction({
           action_id,
-          done: false
+          done: false,
+          actor: actorFromExtra(extra),
         });
         
         let message = `🔄 Reopened action: ${action.data?.title}\nID: ${action.id}\nReopened: ${action.updatedAt}`;
         message += `\n\nAction is now available for further work. Previous completion context is preserved.`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { action: actionOutput(action) }, actionLinks(action.id, action.data?.title));
       } catch (error) {
         console.error('Error uncompleting action:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error uncompleting action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error uncompleting action: ${errorMessage(error)}`);
       }
     },
   );
@@ -668,15 +1050,23 @@ export function registerTools(server: any) {
     {
       action_id: z.string().uuid().describe("The ID of the action to move"),
       new_family_id: z.string().uuid().optional().describe("The ID of the new family action to join, or omit to make this an independent action"),
+      version: z.number().int().min(0).optional().describe("The version of the action you last read (from actions://{id}). If the action has changed since, the move is rejected with the current server state"),
     },
-    async ({ action_id, new_family_id }: { action_id: string; new_family_id?: string }, extra: any) => {
+    {
+      action_id: z.string(),
+      family_id: z.string().nullable().describe("The family the action joined, or null when it is now independent"),
+      version: z.number().int(),
+    },
+    async ({ action_id, new_family_id, version }: { action_id: string; new_family_id?: string; version?: number }, extra: any) => {
       try {
         console.log(`Updating family for action ${action_id} to family ${new_family_id || 'none (independent action)'}`);
         
         // Call ActionsService directly to avoid HTTP authentication issues
         const result = await ActionsService.updateFamily({
           action_id,
-          new_family_id: new_family_id
+          new_family_id: new_family_id,
+          expected_version: version,
+          actor: actorFromExtra(extra),
         });
         
         let message = `Updated family relationship for action: ${action_id}`;
@@ -685,25 +1075,18 @@ export function registerTools(server: any) {
         } else {
           message += `\nAction is now independent (no family)`;
         }
+        message += `\nVersion: ${result.version}`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { action_id, family_id: new_family_id ?? null, version: result.version }, [
+          ...actionLinks(action_id),
+          ...(new_family_id ? [actionLink(new_family_id)] : []),
+        ]);
       } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return versionConflictResponse(error);
+        }
         console.error('Error updating family:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error updating family: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error updating family: ${errorMessage(error)}`);
       }
     },
   );
@@ -720,14 +1103,38 @@ export function registerTools(server: any) {
       similarity_threshold: z.number().min(0).max(1).default(0.3).optional().describe("Minimum similarity threshold for vector search (0-1, default: 0.3). Lower values = more results"),
       include_completed: z.boolean().default(false).optional().describe("Include completed actions in results (default: false)"),
       exclude_ids: z.array(z.string().uuid()).optional().describe("Action IDs to exclude from search results"),
+      tags: z.array(z.string().min(1)).max(MAX_TAGS_PER_REQUEST).optional().describe("Only return actions carrying these tags"),
+      tag_match: z.enum(["any", "all"]).default("any").optional().describe("With tags: 'any' keeps actions with at least one of the tags, 'all' requires every tag (default: any)"),
     },
-    async ({ query, limit = 10, search_mode = "hybrid", similarity_threshold = 0.3, include_completed = false, exclude_ids = [] }: { 
+    {
+      query: z.string(),
+      search_mode: z.enum(["vector", "keyword", "hybrid", "id-based"]).describe("id-based when the query was an action ID"),
+      total_matches: z.number().int(),
+      results: z.array(z.object({
+        id: z.string(),
+        title: z.string(),
+        description: z.string().optional(),
+        done: z.boolean().optional(),
+        status: z.enum(ACTION_STATUSES).optional(),
+        match_type: z.enum(["vector", "keyword", "hybrid"]),
+        score: z.number(),
+        similarity: z.number().optional(),
+        relationship: z.string().optional().describe("For id-based searches: TARGET ACTION, PARENT, CHILD, SIBLING, DEPENDS ON TARGET or TARGET DEPENDS ON"),
+        keyword_matches: z.array(z.string()).optional(),
+        tags: z.array(z.string()).optional(),
+        path: z.array(z.string()).optional(),
+      })),
+      processing_time_ms: z.number(),
+    },
+    async ({ query, limit = 10, search_mode = "hybrid", similarity_threshold = 0.3, include_completed = false, exclude_ids = [], tags, tag_match = "any" }: { 
       query: string; 
       limit?: number; 
       search_mode?: "vector" | "keyword" | "hybrid";
       similarity_threshold?: number;
       include_completed?: boolean;
       exclude_ids?: string[];
+      tags?: string[];
+      tag_match?: "any" | "all";
     }, extra: any) => {
       try {
         console.log(`[MCP search_actions] Searching for: "${query}" (mode: ${search_mode})`);
@@ -737,7 +1144,8 @@ export function registerTools(server: any) {
           similarityThreshold: similarity_threshold,
           includeCompleted: include_completed,
           searchMode: search_mode,
-          excludeIds: exclude_ids
+          excludeIds: exclude_ids,
+          tags: tags && tags.length > 0 ? { tags, match: tag_match } : undefined
         });
 
         let message = `🔍 **Search Results for:** "${query}"\n`;
@@ -763,7 +1171,7 @@ export function registerTools(server: any) {
               else if (relationship === 'DEPENDS ON TARGET') relationshipIcon = '📨';
               else if (relationship === 'TARGET DEPENDS ON') relationshipIcon = '📩';
               
-              message += `${index + 1}. ${relationshipIcon} **${result.title}**${result.done ? ' ✅' : ''}\n`;
+              message += `${index + 1}. ${relationshipIcon} **${result.title}**${result.done ? ' ✅' : result.status === 'cancelled' ? ' ✕' : ''}\n`;
               message += `   ID: ${result.id}\n`;
               message += `   Relationship: ${relationship}\n`;
               
@@ -807,7 +1215,7 @@ export function registerTools(server: any) {
                 `${(result.similarity! * 100).toFixed(1)}% similarity` : 
                 `score: ${result.score.toFixed(2)}`;
               
-              message += `${index + 1}. ${matchIcon} **${result.title}** (${scoreDisplay})${result.done ? ' ✅' : ''}\n`;
+              message += `${index + 1}. ${matchIcon} **${result.title}** (${scoreDisplay})${result.done ? ' ✅' : result.status === 'cancelled' ? ' ✕' : ''}\n`;
               message += `   ID: ${result.id}\n`;
               
               if (result.description) {
@@ -817,6 +1225,10 @@ export function registerTools(server: any) {
               if (result.keywordMatches && result.keywordMatches.length > 0) {
                 message += `   Keywords: ${result.keywordMatches.join(', ')}\n`;
               }
+
+              if (result.tags && result.tags.length > 0) {
+                message += `   Tags: ${result.tags.join(', ')}\n`;
+              }
               
               if (result.hierarchyPath && result.hierarchyPath.length > 1) {
                 message += `   Path: ${result.hierarchyPath.join(' → ')}\n`;
@@ -849,24 +1261,31 @@ export function registerTools(server: any) {
         
         message += `\n\n🧠 **Powered by:** OpenAI embeddings + PostgreSQL pgvector + fuzzy text matching`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        const idBased = searchResult.searchMode === 'id-based';
+        return toolResult(message, {
+          query,
+          search_mode: idBased ? 'id-based' : search_mode,
+          total_matches: searchResult.totalMatches,
+          results: searchResult.results.map(result => ({
+            id: result.id,
+            title: result.title,
+            description: result.description ?? undefined,
+            done: result.done,
+            status: result.status,
+            match_type: result.matchType,
+            score: result.score,
+            similarity: result.similarity,
+            // ID-based searches put the relationship to the queried action first in keywordMatches
+            relationship: idBased ? result.keywordMatches?.[0] : undefined,
+            keyword_matches: idBased ? undefined : result.keywordMatches,
+            tags: result.tags,
+            path: result.hierarchyPath,
+          })),
+          processing_time_ms: searchResult.metadata.processingTimeMs,
+        }, searchResult.results.map(result => actionLink(result.id, result.title)));
       } catch (error) {
         console.error('[MCP search_actions] Search failed:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error searching actions: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error searching actions: ${errorMessage(error)}`);
       }
     },
   );
@@ -879,6 +1298,9 @@ export function registerTools(server: any) {
       content: z.string().min(1).describe("Rich narrative description of the work activity, including action IDs, blockers, discoveries, handoffs, etc."),
       metadata: z.record(z.any()).optional().describe("Optional structured metadata like agent_id, action_ids, event_type, etc."),
     },
+    {
+      entry: workLogEntrySchema,
+    },
     async ({ content, metadata }: { content: string; metadata?: Record<string, any> }, extra: any) => {
       try {
         console.log(`Adding work log entry: ${content.substring(0, 100)}...`);
@@ -888,24 +1310,13 @@ export function registerTools(server: any) {
           metadata,
         });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Added work log entry\nID: ${entry.id}\nTimestamp: ${entry.timestamp}\nContent: ${content}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Added work log entry\nID: ${entry.id}\nTimestamp: ${entry.timestamp}\nContent: ${content}`,
+          { entry: workLogEntryOutput(entry) },
+        );
       } catch (error) {
         console.error('Error adding work log entry:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error adding work log entry: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error adding work log entry: ${errorMessage(error)}`);
       }
     },
   );
@@ -919,6 +1330,9 @@ export function registerTools(server: any) {
       search: z.string().optional().describe("Search term to filter entries by content"),
       agent_id: z.string().optional().describe("Filter entries by specific agent ID"),
     },
+    {
+      entries: z.array(workLogEntrySchema),
+    },
     async ({ limit = 20, search, agent_id }: { limit?: number; search?: string; agent_id?: string }, extra: any) => {
       try {
         console.log(`Retrieving work log entries: limit=${limit}, search=${search}, agent_id=${agent_id}`);
@@ -949,24 +1363,10 @@ export function registerTools(server: any) {
           });
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { entries: entries.map(workLogEntryOutput) });
       } catch (error) {
         console.error('Error retrieving work log entries:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error retrieving work log entries: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error retrieving work log entries: ${errorMessage(error)}`);
       }
     },
   );
@@ -979,6 +1379,10 @@ export function registerTools(server: any) {
       action_id: z.string().uuid().describe("ID of the action to get work log for"),
       limit: z.number().min(1).max(50).optional().describe("Number of entries to retrieve (default: 10)"),
     },
+    {
+      action_id: z.string(),
+      entries: z.array(workLogEntrySchema),
+    },
     async ({ action_id, limit = 10 }: { action_id: string; limit?: number }, extra: any) => {
       try {
         console.log(`Getting work log for action: ${action_id}`);
@@ -1001,24 +1405,10 @@ export function registerTools(server: any) {
           });
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, { action_id, entries: entries.map(workLogEntryOutput) }, actionLinks(action_id));
       } catch (error) {
         console.error('Error getting action work log:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting action work log: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error getting action work log: ${errorMessage(error)}`);
       }
     },
   );
@@ -1034,6 +1424,18 @@ export function registerTools(server: any) {
       confidence_threshold: z.number().min(0).max(100).default(40).optional().describe("Minimum confidence threshold for suggestions (0-100, default: 40)"),
       include_create_new: z.boolean().default(true).optional().describe("Whether to include 'create new parent' suggestions (default: true)"),
     },
+    {
+      suggestions: z.array(z.object({
+        id: z.string().describe("The family_id to pass to create_action, except for create_new suggestions"),
+        title: z.string(),
+        description: z.string().optional(),
+        confidence: z.number().describe("0-100"),
+        source: z.enum(["vector", "classification", "create_new"]),
+        reasoning: z.string(),
+        path: z.array(z.string()),
+        creates_new_parent: z.boolean(),
+      })),
+    },
     async ({ title, description, limit = 5, confidence_threshold = 40, include_create_new = true }: { 
       title: string; 
       description?: string; 
@@ -1103,24 +1505,23 @@ export function registerTools(server: any) {
 
         message += `\n🔬 **Powered by:** Vector embeddings + AI classification`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, {
+          suggestions: result.suggestions.map(suggestion => ({
+            id: suggestion.id,
+            title: suggestion.title,
+            description: suggestion.description ?? undefined,
+            confidence: suggestion.confidence,
+            source: suggestion.source,
+            reasoning: suggestion.reasoning,
+            path: suggestion.hierarchyPath,
+            creates_new_parent: suggestion.canCreateNewParent,
+          })),
+        }, result.suggestions
+          .filter(suggestion => !suggestion.canCreateNewParent && suggestion.id !== 'CREATE_NEW_PARENT')
+          .map(suggestion => actionLink(suggestion.id, suggestion.title)));
       } catch (error) {
         console.error('[MCP suggest_parent] Error:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting parent suggestions: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error getting parent suggestions: ${errorMessage(error)}`);
       }
     },
   );
@@ -1134,6 +1535,21 @@ export function registerTools(server: any) {
       max_suggestions: z.number().min(1).max(10).optional().default(5).describe("Maximum number of child action suggestions to return (default: 5)"),
       include_reasoning: z.boolean().optional().default(true).describe("Whether to include reasoning for each suggestion (default: true)"),
     },
+    {
+      action_id: z.string(),
+      suggestions: z.array(z.object({
+        index: z.number().int(),
+        title: z.string(),
+        description: z.string().optional(),
+        reasoning: z.string().optional(),
+        confidence: z.number().describe("0-1"),
+      })),
+      dependencies: z.array(z.object({
+        dependent_index: z.number().int(),
+        depends_on_index: z.number().int(),
+        reasoning: z.string().optional(),
+      })).describe("Between suggestions, by index"),
+    },
     async ({ action_id, max_suggestions = 5, include_reasoning = true }: { 
       action_id: string; 
       max_suggestions?: number; 
@@ -1144,7 +1560,7 @@ export function registerTools(server: any) {
         
         // Validate action exists
         const db = getDb();
-        const actionResult = await db.select().from(actions).where(eq(actions.id, action_id)).limit(1);
+        const actionResult = await db.select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
         
         if (actionResult.length === 0) {
           throw new Error(`Action with ID ${action_id} not found. Use search_actions to find a valid action.`);
@@ -1224,24 +1640,21 @@ export function registerTools(server: any) {
 
         message += `\n🤖 **Powered by:** AI-driven task decomposition analysis`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: message,
-            },
-          ],
-        };
+        return toolResult(message, {
+          action_id,
+          suggestions: result.suggestions.map(suggestion => ({
+            ...suggestion,
+            description: suggestion.description ?? undefined,
+            reasoning: suggestion.reasoning ?? undefined,
+          })),
+          dependencies: result.dependencies.map(dependency => ({
+            ...dependency,
+            reasoning: dependency.reasoning ?? undefined,
+          })),
+        }, actionLinks(action_id, action.data?.title));
       } catch (error) {
         console.error('[MCP decompose_action] Error:', error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error decomposing action: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-        };
+        return toolError(`Error decomposing action: ${errorMessage(error)}`);
       }
     },
   );
@@ -1260,11 +1673,29 @@ export const toolCapabilities = {
   delete_action: {
     description: "Delete an action and handle its children",
   },
+  restore_action: {
+    description: "Restore a deleted action from the trash, along with any children that were deleted with it, its dependencies and completion context",
+  },
+  claim_action: {
+    description: "Claim an action before starting work on it. The claim is a time-limited lease: other agents won't see the action in actions://unblocked until you release it or the lease expires. Claim again to renew",
+  },
+  release_action: {
+    description: "Release your claim on an action so other agents can pick it up",
+  },
+  claim_next_action: {
+    description: "Claim the highest-ranked unblocked action and get its full working context in one call. Use this instead of reading actions://unblocked and claiming separately, so parallel agents never pick the same action",
+  },
+  add_tags: {
+    description: "Add tags to an action (creates tags that don't exist yet)",
+  },
+  remove_tags: {
+    description: "Remove tags from an action",
+  },
   remove_dependency: {
     description: "Remove a dependency relationship between two actions",
   },
   update_action: {
-    description: "Update an existing action's properties including title and description (use complete_action to mark actions as done)",
+    description: "Update an existing action's properties including title, description, status, start/due dates and the priority/effort/impact used to rank unblocked work (use complete_action to mark actions as done)",
   },
   complete_action: {
     description: "Mark an action as completed with required completion context for dynamic changelog generation. ALL parameters are required including editorial content (headline, deck, pull_quotes). Use measured, analytical language similar to The Economist or scientific journals.",
@@ -0,0 +1,139 @@
+import { and, eq, desc, count, sql } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { getOrganizationId } from '../db/organization-context';
+import { actionRevisions, actions } from '../../db/schema';
+
+type ActionRevisionSelect = typeof actionRevisions.$inferSelect;
+
+export type RevisionChangeType =
+  | 'created'
+  | 'updated'
+  | 'completed'
+  | 'uncompleted'
+  | 'status_changed'
+  | 'family_changed'
+  | 'dependency_added'
+  | 'dependency_removed'
+  | 'tags_added'
+  | 'tags_removed'
+  | 'deleted'
+  | 'restored';
+
+export type RevisionChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+// Who made a change - either a human author, an agent session, or both
+export interface RevisionActor {
+  author?: string;
+  agent_id?: string;
+}
+
+export interface RecordRevisionParams {
+  actionId: string;
+  version: number;
+  changeType: RevisionChangeType;
+  changes: RevisionChanges;
+  actor?: RevisionActor;
+}
+
+export interface ActionRevision {
+  id: string;
+  action_id: string;
+  version: number;
+  change_type: string;
+  changes: RevisionChanges;
+  author?: string;
+  agent_id?: string;
+  created_at: string;
+}
+
+export interface ActionHistoryResource {
+  action_id: string;
+  revisions: ActionRevision[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+function toActionRevision(row: ActionRevisionSelect): ActionRevision {
+  return {
+    id: row.id,
+    action_id: row.actionId,
+    version: row.version,
+    change_type: row.changeType,
+    changes: row.changes || {},
+    author: row.author || undefined,
+    agent_id: row.agentId || undefined,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Build a field-level diff between two versions of an action.
+ * Only fields present in `after` are compared, so callers can pass partial updates.
+ */
+export function diffFields(before: Record<string, any>, after: Record<string, any>): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const [field, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    const previous = before[field] ?? undefined;
+    if (previous !== value) {
+      changes[field] = { from: previous, to: value };
+    }
+  }
+  return changes;
+}
+
+export class ActionHistoryService {
+  /**
+   * Record an immutable revision for an action mutation
+   */
+  static async recordRevision(params: RecordRevisionParams): Promise<ActionRevision> {
+    const [revision] = await getDb()
+      .insert(actionRevisions)
+      .values({
+        actionId: params.actionId,
+        version: params.version,
+        changeType: params.changeType,
+        changes: params.changes,
+        author: params.actor?.author,
+        agentId: params.actor?.agent_id,
+      })
+      .returning();
+
+    return toActionRevision(revision);
+  }
+
+  /**
+   * Get the revision history for an action, newest first
+   */
+  static async getHistory(actionId: string, options: { limit?: number; offset?: number } = {}): Promise<ActionHistoryResource> {
+    const { limit = 50, offset = 0 } = options;
+    // Revisions carry no organization of their own; only show them for actions in the caller's organization
+    const condition = and(
+      eq(actionRevisions.actionId, actionId),
+      sql`exists (select 1 from ${actions} where ${actions.id} = ${actionRevisions.actionId} and ${actions.organizationId} = ${getOrganizationId()})`
+    );
+
+    const [rows, totalResult] = await Promise.all([
+      getDb()
+        .select()
+        .from(actionRevisions)
+        .where(condition)
+        .orderBy(desc(actionRevisions.version), desc(actionRevisions.createdAt))
+        .limit(limit)
+        .offset(offset),
+      getDb()
+        .select({ count: count() })
+        .from(actionRevisions)
+        .where(condition),
+    ]);
+
+    return {
+      action_id: actionId,
+      revisions: rows.map(toActionRevision),
+      total: Number(totalResult[0]?.count ?? 0),
+      limit,
+      offset,
+    };
+  }
+}
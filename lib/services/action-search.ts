@@ -1,9 +1,12 @@
-import { eq, or, and, ilike, inArray, sql, desc } from "drizzle-orm";
+import { eq, or, and, ilike, inArray, notInArray, sql, desc, type SQL } from "drizzle-orm";
 import { actions, edges } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { inOrganization } from "../db/organization-context";
 import { EmbeddingsService } from "./embeddings";
 import { VectorService } from "./vector";
 import { buildActionPath } from "../utils/path-builder";
+import { CLOSED_STATUSES, resolveStatus, type ActionStatus } from "../utils/action-status";
+import { TagsService, type TagFilter } from "./tags";
 
 export interface SearchResult {
   id: string;
@@ -17,10 +20,17 @@ export interface SearchResult {
   hierarchyPath?: string[];
   depth?: number;
   done?: boolean;
+  status?: ActionStatus;
+  tags?: string[];
   createdAt?: string;
   updatedAt?: string;
 }
 
+export interface ActionSuggestion {
+  id: string;
+  title: string;
+}
+
 export interface SearchOptions {
   limit?: number;
   similarityThreshold?: number;
@@ -28,6 +38,7 @@ export interface SearchOptions {
   searchMode?: 'vector' | 'keyword' | 'hybrid';
   excludeIds?: string[];
   minKeywordLength?: number;
+  tags?: TagFilter; // Only return actions carrying these tags
 }
 
 export interface SearchResponse {
@@ -62,7 +73,8 @@ export class ActionSearchService {
       includeCompleted = false,
       searchMode = 'hybrid',
       excludeIds = [],
-      minKeywordLength = 2
+      minKeywordLength = 2,
+      tags
     } = options;
 
     console.log(`[ActionSearchService] Starting ${searchMode} search for: "${query}"`);
@@ -82,6 +94,24 @@ export class ActionSearchService {
     const searchStartTime = performance.now();
 
     try {
+      // Resolve the tag filter up front so both search paths can be restricted to tagged actions
+      const taggedIds = tags ? new Set(await TagsService.getActionIdsWithTags(tags)) : undefined;
+      if (taggedIds && taggedIds.size === 0) {
+        return {
+          results: [],
+          totalMatches: 0,
+          searchQuery: query,
+          searchMode,
+          metadata: {
+            vectorMatches: 0,
+            keywordMatches: 0,
+            hybridMatches: 0,
+            processingTimeMs: performance.now() - startTime,
+            searchTimeMs: performance.now() - searchStartTime
+          }
+        };
+      }
+
       // Vector search (semantic similarity)
       if (searchMode === 'vector' || searchMode === 'hybrid') {
         const embeddingStartTime = performance.now();
@@ -99,10 +129,10 @@ export class ActionSearchService {
             }
           );
 
-          vectorResults = await this.convertVectorResultsToSearchResults(
+          vectorResults = (await this.convertVectorResultsToSearchResults(
             vectorMatches,
             'vector'
-          );
+          )).filter(result => !taggedIds || taggedIds.has(result.id));
         } catch (embeddingError) {
           console.warn('[ActionSearchService] Vector search failed, falling back to keyword-only:', embeddingError);
           embeddingTimeMs = performance.now() - embeddingStartTime;
@@ -117,7 +147,8 @@ export class ActionSearchService {
             limit: searchMode === 'hybrid' ? limit * 2 : limit,
             includeCompleted,
             excludeIds,
-            minKeywordLength
+            minKeywordLength,
+            onlyIds: taggedIds ? Array.from(taggedIds) : undefined
           }
         );
       }
@@ -133,8 +164,8 @@ export class ActionSearchService {
         limit
       );
 
-      // Add hierarchy paths for final results
-      const finalResults = await this.addHierarchyPaths(combinedResults);
+      // Add hierarchy paths and tags for final results
+      const finalResults = await this.addTags(await this.addHierarchyPaths(combinedResults));
 
       const totalProcessingTimeMs = performance.now() - startTime;
 
@@ -180,9 +211,10 @@ export class ActionSearchService {
       includeCompleted: boolean;
       excludeIds: string[];
       minKeywordLength: number;
+      onlyIds?: string[];
     }
   ): Promise<SearchResult[]> {
-    const { limit, includeCompleted, excludeIds, minKeywordLength } = options;
+    const { limit, includeCompleted, excludeIds, minKeywordLength, onlyIds } = options;
     
     // Extract keywords and create search patterns
     const keywords = this.extractKeywords(query, minKeywordLength);
@@ -200,6 +232,7 @@ export class ActionSearchService {
         description: actions.description,
         vision: actions.vision,
         done: actions.done,
+        status: actions.status,
         createdAt: actions.createdAt,
         updatedAt: actions.updatedAt,
         data: actions.data
@@ -207,11 +240,11 @@ export class ActionSearchService {
       .from(actions);
 
     // Build WHERE conditions
-    const whereConditions = [];
+    const whereConditions: (SQL | undefined)[] = [inOrganization(actions)];
 
-    // Exclude completed actions if requested
+    // Exclude closed (done or cancelled) actions if requested
     if (!includeCompleted) {
-      whereConditions.push(eq(actions.done, false));
+      whereConditions.push(notInArray(actions.status, CLOSED_STATUSES));
     }
 
     // Exclude specific IDs
@@ -220,6 +253,11 @@ export class ActionSearchService {
       whereConditions.push(sql`${actions.id} NOT IN (${sql.join(excludeIds.map(id => sql`${id}`), sql`, `)})`);
     }
 
+    // Restrict to a pre-filtered set (e.g. actions carrying the requested tags)
+    if (onlyIds) {
+      whereConditions.push(inArray(actions.id, onlyIds));
+    }
+
     // Create keyword search conditions
     const keywordConditions = [];
     
@@ -284,6 +322,7 @@ export class ActionSearchService {
         matchType: 'keyword' as const,
         keywordMatches: matches,
         done: action.done || false,
+        status: resolveStatus(action),
         createdAt: action.createdAt?.toISOString(),
         updatedAt: action.updatedAt?.toISOString()
       };
@@ -465,6 +504,19 @@ export class ActionSearchService {
     return resultsWithPaths;
   }
 
+  /**
+   * Add each result's tags
+   */
+  private static async addTags(results: SearchResult[]): Promise<SearchResult[]> {
+    try {
+      const tagsByAction = await TagsService.getTagsForActions(results.map(result => result.id));
+      return results.map(result => ({ ...result, tags: tagsByAction.get(result.id) || [] }));
+    } catch (error) {
+      console.warn('[ActionSearchService] Failed to load tags for results:', error);
+      return results;
+    }
+  }
+
   /**
    * Get search suggestions based on partial query
    */
@@ -483,12 +535,13 @@ export class ActionSearchService {
         data: actions.data
       })
       .from(actions)
-      .where(
+      .where(and(
         or(
           ilike(actions.title, `${partialQuery}%`),
           ilike(actions.description, `%${partialQuery}%`)
-        )
-      )
+        ),
+        inOrganization(actions)
+      ))
       .limit(limit * 2); // Get more to filter duplicates
 
     const suggestions = new Set<string>();
@@ -503,6 +556,49 @@ export class ActionSearchService {
     return Array.from(suggestions).slice(0, limit);
   }
 
+  /**
+   * Actions to offer while someone types an action argument, best match first: IDs starting with `partial`, then
+   * actions whose title, description or vision match it. Uses keyword search only, so completion never waits on an
+   * embedding. Too short to search, it offers the most recently updated open actions.
+   */
+  static async suggestActions(partial: string, limit: number = 20): Promise<ActionSuggestion[]> {
+    const query = partial.trim();
+    const db = getDb();
+    const toSuggestion = (action: { id: string; title: string | null; data: unknown }): ActionSuggestion => ({
+      id: action.id,
+      title: (action.data as { title?: string } | null)?.title || action.title || 'Untitled',
+    });
+
+    if (query.length < 2) {
+      const recent = await db
+        .select({ id: actions.id, title: actions.title, data: actions.data })
+        .from(actions)
+        .where(and(notInArray(actions.status, CLOSED_STATUSES), inOrganization(actions)))
+        .orderBy(desc(actions.updatedAt))
+        .limit(limit);
+      return recent.map(toSuggestion);
+    }
+
+    // Someone pasting or typing the start of an ID
+    const idMatches: ActionSuggestion[] = /^[0-9a-f-]+$/i.test(query)
+      ? (await db
+          .select({ id: actions.id, title: actions.title, data: actions.data })
+          .from(actions)
+          .where(and(ilike(sql`${actions.id}::text`, `${query}%`), inOrganization(actions)))
+          .limit(limit)).map(toSuggestion)
+      : [];
+
+    const keywordMatches = await this.performKeywordSearch(query, {
+      limit,
+      includeCompleted: true,
+      excludeIds: idMatches.map(match => match.id),
+      minKeywordLength: 2,
+    });
+    keywordMatches.sort((a, b) => b.score - a.score);
+
+    return [...idMatches, ...keywordMatches.map(({ id, title }) => ({ id, title }))].slice(0, limit);
+  }
+
   /**
    * Check if a string is a valid UUID format
    */
@@ -531,12 +627,13 @@ export class ActionSearchService {
           description: actions.description,
           vision: actions.vision,
           done: actions.done,
+          status: actions.status,
           createdAt: actions.createdAt,
           updatedAt: actions.updatedAt,
           data: actions.data
         })
         .from(actions)
-        .where(eq(actions.id, actionId))
+        .where(and(eq(actions.id, actionId), inOrganization(actions)))
         .limit(1);
 
       if (targetAction.length === 0) {
@@ -568,6 +665,7 @@ export class ActionSearchService {
         matchType: 'keyword',
         keywordMatches: ['TARGET ACTION'],
         done: target.done || false,
+        status: resolveStatus(target),
         createdAt: target.createdAt?.toISOString(),
         updatedAt: target.updatedAt?.toISOString()
       });
@@ -576,7 +674,7 @@ export class ActionSearchService {
       const dependentEdges = await db
         .select()
         .from(edges)
-        .where(and(eq(edges.src, actionId), eq(edges.kind, "depends_on")));
+        .where(and(eq(edges.src, actionId), eq(edges.kind, "depends_on"), inOrganization(edges)));
 
       if (dependentEdges.length > 0) {
         const dependentIds = dependentEdges.map((edge: any) => edge.dst).filter(Boolean);
@@ -587,12 +685,13 @@ export class ActionSearchService {
             description: actions.description,
             vision: actions.vision,
             done: actions.done,
+            status: actions.status,
             createdAt: actions.createdAt,
             updatedAt: actions.updatedAt,
             data: actions.data
           })
           .from(actions)
-          .where(inArray(actions.id, dependentIds));
+          .where(and(inArray(actions.id, dependentIds), inOrganization(actions)));
 
         for (const dependent of dependents) {
           results.push({
@@ -604,6 +703,7 @@ export class ActionSearchService {
             matchType: 'keyword',
             keywordMatches: ['DEPENDS ON TARGET'],
             done: dependent.done || false,
+            status: resolveStatus(dependent),
             createdAt: dependent.createdAt?.toISOString(),
             updatedAt: dependent.updatedAt?.toISOString()
           });
@@ -614,7 +714,7 @@ export class ActionSearchService {
       const dependencyEdges = await db
         .select()
         .from(edges)
-        .where(and(eq(edges.dst, actionId), eq(edges.kind, "depends_on")));
+        .where(and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"), inOrganization(edges)));
 
       if (dependencyEdges.length > 0) {
         const dependencyIds = dependencyEdges.map((edge: any) => edge.src).filter(Boolean);
@@ -625,12 +725,13 @@ export class ActionSearchService {
             description: actions.description,
             vision: actions.vision,
             done: actions.done,
+            status: actions.status,
             createdAt: actions.createdAt,
             updatedAt: actions.updatedAt,
             data: actions.data
           })
           .from(actions)
-          .where(inArray(actions.id, dependencyIds));
+          .where(and(inArray(actions.id, dependencyIds), inOrganization(actions)));
 
         for (const dependency of dependencies) {
           results.push({
@@ -642,6 +743,7 @@ export class ActionSearchService {
             matchType: 'keyword',
             keywordMatches: ['TARGET DEPENDS ON'],
             done: dependency.done || false,
+            status: resolveStatus(dependency),
             createdAt: dependency.createdAt?.toISOString(),
             updatedAt: dependency.updatedAt?.toISOString()
           });
@@ -652,7 +754,7 @@ export class ActionSearchService {
       const familyEdges = await db
         .select()
         .from(edges)
-        .where(and(eq(edges.dst, actionId), eq(edges.kind, "family")));
+        .where(and(eq(edges.dst, actionId), eq(edges.kind, "family"), inOrganization(edges)));
 
       if (familyEdges.length > 0) {
         const parentId = familyEdges[0].src;
@@ -665,12 +767,13 @@ export class ActionSearchService {
               description: actions.description,
               vision: actions.vision,
               done: actions.done,
+              status: actions.status,
               createdAt: actions.createdAt,
               updatedAt: actions.updatedAt,
               data: actions.data
             })
             .from(actions)
-            .where(eq(actions.id, parentId));
+            .where(and(eq(actions.id, parentId), inOrganization(actions)));
 
           if (parentActions.length > 0) {
             const parent = parentActions[0];
@@ -683,6 +786,7 @@ export class ActionSearchService {
               matchType: 'keyword',
               keywordMatches: ['PARENT'],
               done: parent.done || false,
+              status: resolveStatus(parent),
               createdAt: parent.createdAt?.toISOString(),
               updatedAt: parent.updatedAt?.toISOString()
             });
@@ -692,7 +796,7 @@ export class ActionSearchService {
           const siblingEdges = await db
             .select()
             .from(edges)
-            .where(and(eq(edges.src, parentId), eq(edges.kind, "family")));
+            .where(and(eq(edges.src, parentId), eq(edges.kind, "family"), inOrganization(edges)));
 
           const siblingIds = siblingEdges
             .map((edge: any) => edge.dst)
@@ -706,12 +810,13 @@ export class ActionSearchService {
                 description: actions.description,
                 vision: actions.vision,
                 done: actions.done,
+                status: actions.status,
                 createdAt: actions.createdAt,
                 updatedAt: actions.updatedAt,
                 data: actions.data
               })
               .from(actions)
-              .where(inArray(actions.id, siblingIds))
+              .where(and(inArray(actions.id, siblingIds), inOrganization(actions)))
               .limit(5); // Limit siblings to avoid too many results
 
             for (const sibling of siblings) {
@@ -724,6 +829,7 @@ export class ActionSearchService {
                 matchType: 'keyword',
                 keywordMatches: ['SIBLING'],
                 done: sibling.done || false,
+                status: resolveStatus(sibling),
                 createdAt: sibling.createdAt?.toISOString(),
                 updatedAt: sibling.updatedAt?.toISOString()
               });
@@ -736,7 +842,7 @@ export class ActionSearchService {
       const childEdges = await db
         .select()
         .from(edges)
-        .where(and(eq(edges.src, actionId), eq(edges.kind, "family")));
+        .where(and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges)));
 
       if (childEdges.length > 0) {
         const childIds = childEdges.map((edge: any) => edge.dst).filter(Boolean);
@@ -747,12 +853,13 @@ export class ActionSearchService {
             description: actions.description,
             vision: actions.vision,
             done: actions.done,
+            status: actions.status,
             createdAt: actions.createdAt,
             updatedAt: actions.updatedAt,
             data: actions.data
           })
           .from(actions)
-          .where(inArray(actions.id, childIds))
+          .where(and(inArray(actions.id, childIds), inOrganization(actions)))
           .limit(5); // Limit children to avoid too many results
 
         for (const child of children) {
@@ -765,6 +872,7 @@ export class ActionSearchService {
             matchType: 'keyword',
             keywordMatches: ['CHILD'],
             done: child.done || false,
+            status: resolveStatus(child),
             createdAt: child.createdAt?.toISOString(),
             updatedAt: child.updatedAt?.toISOString()
           });
@@ -1,11 +1,15 @@
 import { eq, and, inArray, sql } from "drizzle-orm";
 import { actions, edges } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { getOrganizationId, inOrganization } from "../db/organization-context";
 import { Action } from "../types/resources";
+import { ACTIONABLE_STATUSES, isClosedStatus, resolveStatus } from "../utils/action-status";
+import { compareByRank, getRankScore } from "../utils/action-priority";
 
 /**
  * Optimized version of getUnblockedActions that uses bulk queries
- * instead of individual queries per action
+ * instead of individual queries per action.
+ * Results are ranked (see compareByRank) before the limit is applied, with `fan_out` and `rank_score` set.
  */
 export async function getUnblockedActionsOptimized(limit: number = 50): Promise<Action[]> {
   console.log('[OPTIMIZED] Starting getUnblockedActions with limit:', limit);
@@ -17,11 +21,11 @@ export async function getUnblockedActionsOptimized(limit: number = 50): Promise<
     setTimeout(() => reject(new Error(`Operation timed out after ${timeout}ms`)), timeout);
   });
 
-  // Step 1: Get ALL incomplete actions in one query
+  // Step 1: Get ALL actionable actions (todo or in progress) in one query
   const queryPromise = getDb()
     .select()
     .from(actions)
-    .where(eq(actions.done, false));
+    .where(and(inArray(actions.status, ACTIONABLE_STATUSES), inOrganization(actions)));
     
   const incompleteActions = await Promise.race([queryPromise, timeoutPromise]) as any[];
   
@@ -39,12 +43,13 @@ export async function getUnblockedActionsOptimized(limit: number = 50): Promise<
   const dependencyEdges = await getDb()
     .select()
     .from(edges)
-    .where(eq(edges.kind, "depends_on"));
+    .where(and(eq(edges.kind, "depends_on"), inOrganization(edges)));
   
   console.log(`[OPTIMIZED] Loaded ${dependencyEdges.length} dependency edges in ${Date.now() - edgeQueryStart}ms`);
 
-  // Step 3: Build dependencies map (only dependency edges needed now)
+  // Step 3: Build dependencies map (only dependency edges needed now) and the reverse for fan-out
   const dependenciesMap = new Map<string, string[]>();
+  const dependentsMap = new Map<string, string[]>();
 
   // Build dependencies map from dependency edges
   for (const edge of dependencyEdges as any[]) {
@@ -53,29 +58,54 @@ export async function getUnblockedActionsOptimized(limit: number = 50): Promise<
         dependenciesMap.set(edge.dst, []);
       }
       dependenciesMap.get(edge.dst)!.push(edge.src);
+      if (!dependentsMap.has(edge.src)) {
+        dependentsMap.set(edge.src, []);
+      }
+      dependentsMap.get(edge.src)!.push(edge.dst);
     }
   }
 
-  // Step 4: Get all dependency action statuses in one query
-  const allDependencyIds = Array.from(new Set(
-    Array.from(dependenciesMap.values()).flat()
-  ));
+  // Step 4: Get the status of every action on either end of a dependency in one query
+  const allEdgeActionIds = Array.from(new Set([
+    ...dependenciesMap.keys(),
+    ...dependentsMap.keys(),
+  ]));
   
+  // A dependency is resolved once it is closed - done or cancelled
   let dependencyStatuses = new Map<string, boolean>();
-  if (allDependencyIds.length > 0) {
+  if (allEdgeActionIds.length > 0) {
     const dependencyActions = await getDb()
       .select({
         id: actions.id,
-        done: actions.done
+        done: actions.done,
+        status: actions.status
       })
       .from(actions)
-      .where(inArray(actions.id, allDependencyIds));
+      .where(and(inArray(actions.id, allEdgeActionIds), inOrganization(actions)));
     
     dependencyStatuses = new Map(
-      dependencyActions.map((a: any) => [a.id, a.done])
+      dependencyActions.map((a: any) => [a.id, isClosedStatus(resolveStatus(a))])
     );
   }
 
+  // Fan-out: how many open actions wait on this one, directly or through others
+  const countOpenDependents = (actionId: string): number => {
+    const seen = new Set<string>([actionId]);
+    const queue = [actionId];
+    let open = 0;
+    while (queue.length > 0) {
+      for (const dependentId of dependentsMap.get(queue.shift()!) || []) {
+        if (seen.has(dependentId)) continue;
+        seen.add(dependentId);
+        if (dependencyStatuses.get(dependentId) === false) {
+          open++;
+          queue.push(dependentId);
+        }
+      }
+    }
+    return open;
+  };
+
   console.log(`[OPTIMIZED] Loaded ${dependencyStatuses.size} dependency statuses`);
 
   // Step 5: Check each action for workability (simplified - only check dependencies)
@@ -92,8 +122,8 @@ export async function getUnblockedActionsOptimized(limit: number = 50): Promise<
     // Check dependencies only - parent-child relationships are now handled through dependencies
     const dependencies = dependenciesMap.get(action.id) || [];
     const hasUnmetDependencies = dependencies.some(depId => {
-      const depDone = dependencyStatuses.get(depId);
-      return depDone === false; // Explicitly false, not undefined
+      const depClosed = dependencyStatuses.get(depId);
+      return depClosed === false; // Explicitly false, not undefined
     });
 
     if (hasUnmetDependencies) {
@@ -101,24 +131,32 @@ export async function getUnblockedActionsOptimized(limit: number = 50): Promise<
     }
 
     // No unmet dependencies - action is unblocked
-    unblockedActions.push({
+    const unblocked: Action = {
       id: action.id,
       data: action.data as { title: string },
       done: action.done,
+      status: resolveStatus(action),
       version: action.version,
       createdAt: action.createdAt.toISOString(),
       updatedAt: action.updatedAt.toISOString(),
-    });
-
-    if (unblockedActions.length >= limit) {
-      break;
-    }
+      priority: action.priority,
+      effort: action.effort,
+      impact: action.impact,
+      startDate: action.startDate,
+      dueDate: action.dueDate,
+      fan_out: countOpenDependents(action.id),
+    };
+    unblocked.rank_score = getRankScore(unblocked);
+    unblockedActions.push(unblocked);
   }
 
+  // Rank everything before applying the limit so the cut keeps the most valuable work
+  const ranked = unblockedActions.sort(compareByRank).slice(0, limit);
+
   console.log(`[OPTIMIZED] Found ${unblockedActions.length} unblocked actions in ${Date.now() - filterStart}ms filtering`);
   console.log(`[OPTIMIZED] Total time: ${Date.now() - startTime}ms`);
 
-  return unblockedActions;
+  return ranked;
 }
 
 /**
@@ -133,7 +171,8 @@ export async function getUnblockedActionsSingleQuery(): Promise<Action[]> {
   // Since parents now depend on children, family relationships are automatically handled
   const query = sql`
     WITH incomplete_actions AS (
-      SELECT * FROM ${actions} WHERE ${actions.done} = false
+      SELECT * FROM ${actions}
+      WHERE ${actions.status} IN ('todo', 'in_progress') AND ${actions.organizationId} = ${getOrganizationId()}
     ),
     -- Actions with incomplete dependencies
     has_incomplete_deps AS (
@@ -142,12 +181,13 @@ export async function getUnblockedActionsSingleQuery(): Promise<Action[]> {
       JOIN ${actions} a ON a.id = e.src
       WHERE e.kind = 'depends_on' 
         AND e.dst IN (SELECT id FROM incomplete_actions)
-        AND a.done = false
+        AND a.status NOT IN ('done', 'cancelled')
     )
     SELECT 
       a.id,
       a.data,
       a.done,
+      a.status,
       a.version,
       a.created_at,
       a.updated_at
@@ -165,6 +205,7 @@ export async function getUnblockedActionsSingleQuery(): Promise<Action[]> {
     id: row.id,
     data: row.data as { title: string },
     done: row.done,
+    status: resolveStatus(row),
     version: row.version,
     createdAt: new Date(row.created_at).toISOString(),
     updatedAt: new Date(row.updated_at).toISOString(),
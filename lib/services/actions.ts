@@ -1,4 +1,4 @@
-import { eq, and, count, inArray, sql, desc } from "drizzle-orm";
+import { eq, and, or, gt, count, inArray, notInArray, sql, desc } from "drizzle-orm";
 import { actions, actionDataSchema, edges, completionContexts } from "../../db/schema";
 import { 
   ActionListResource, 
@@ -9,9 +9,11 @@ import {
   ActionDetailResource,
   ActionMetadata,
   DependencyCompletionContext,
+  ActionSummaryResource,
   Action 
 } from "../types/resources";
-import { getDb } from "../db/adapter";
+import { getDb, withTransaction } from "../db/adapter";
+import { getOrganizationId, inOrganization } from "../db/organization-context";
 import "../db/init"; // Auto-initialize PGlite if needed
 import { EmbeddingsService } from './embeddings';
 import { VectorService } from './vector';
@@ -23,7 +25,20 @@ import { ActionSearchService } from './action-search';
 import { EditorialAIService } from './editorial-ai';
 import { EnhancedContextService } from './enhanced-context';
 import { ContextService } from './context';
+import { ActionHistoryService, diffFields, type RevisionActor, type RevisionChangeType, type RevisionChanges } from './action-history';
+import { AuditLogService } from './audit-log';
+import { ResourceEventsService } from './resource-events';
+import { VersionConflictError, type ActionConflictState } from './version-conflict';
+import { TrashService } from './trash';
+import { ClaimsService } from './claims';
+import { GraphIntegrityService } from './graph-integrity';
+import { TagsService, matchesTagFilter, type TagFilter } from './tags';
+import { getUnblockedActionsOptimized } from './actions-optimized';
+import { CLOSED_STATUSES, isClosedStatus, resolveStatus, type ActionStatus } from '../utils/action-status';
+import type { ActionPriority, ActionEffort, ActionImpact } from '../utils/action-priority';
+import { assertValidDateRange } from '../utils/action-dates';
 import { buildActionPath, buildActionBreadcrumb } from '../utils/path-builder';
+import { decodeListCursor, encodeListCursor } from '../utils/resource-query';
 
 // Default confidence threshold for automatically applying placement suggestions
 
@@ -33,7 +48,7 @@ async function hasIncompleteDependencies(actionId: string): Promise<{ hasIncompl
   const dependencyEdges = await getDb()
     .select()
     .from(edges)
-    .where(and(eq(edges.dst, actionId), eq(edges.kind, "depends_on")));
+    .where(and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"), inOrganization(edges)));
   
   if (dependencyEdges.length === 0) {
     return { hasIncomplete: false, incompleteDeps: [] };
@@ -42,12 +57,13 @@ async function hasIncompleteDependencies(actionId: string): Promise<{ hasIncompl
   // Get the completion status of all dependencies
   const dependencyIds = dependencyEdges.map((edge: any) => edge.src).filter(Boolean);
   const dependencyActions = await getDb()
-    .select({ id: actions.id, done: actions.done, title: actions.title })
+    .select({ id: actions.id, done: actions.done, status: actions.status, title: actions.title })
     .from(actions)
-    .where(inArray(actions.id, dependencyIds));
+    .where(and(inArray(actions.id, dependencyIds), inOrganization(actions)));
   
+  // Cancelled dependencies are resolved too - they no longer block
   const incompleteDeps = dependencyActions
-    .filter((action: any) => !action.done)
+    .filter((action: any) => !isClosedStatus(resolveStatus(action)))
     .map((action: any) => `"${action.title || action.id}" (${action.id})`);
   
   return {
@@ -69,7 +85,7 @@ async function getAllDescendants(actionIds: string[]): Promise<string[]> {
     
     for (const actionId of currentLevel) {
       const childEdgesResult = await getDb().select().from(edges).where(
-        and(eq(edges.src, actionId), eq(edges.kind, "family"))
+        and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))
       );
       const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
       
@@ -85,69 +101,131 @@ async function getAllDescendants(actionIds: string[]): Promise<string[]> {
   return Array.from(descendants);
 }
 
-// Check if all dependencies for an action have been completed
-// Helper function to check if family dependencies are met recursively
-async function familyDependenciesMet(actionId: string): Promise<boolean> {
-  // Get family relationship
-  const familyEdgesResult = await getDb()
-    .select()
-    .from(edges)
-    .where(and(eq(edges.dst, actionId), eq(edges.kind, "family")));
-  const familyEdges = Array.isArray(familyEdgesResult) ? familyEdgesResult : [];
-  
-  if (familyEdges.length === 0) {
-    // No family, so family dependencies are met
-    return true;
+// Keep only the nodes that match, plus the ancestors needed to reach them
+function pruneTree(nodes: ActionNode[], keep: (node: ActionNode) => boolean): ActionNode[] {
+  return nodes.flatMap(node => {
+    const children = pruneTree(node.children, keep);
+    return keep(node) || children.length > 0 ? [{ ...node, children }] : [];
+  });
+}
+
+function countTreeNodes(nodes: ActionNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countTreeNodes(node.children), 0);
+}
+
+// Keep at most `maxDepth` levels and `maxNodes` nodes of the tree, filling it level by level so every kept node's
+// ancestors are kept too. Nodes that lose children are marked with how many, and where to read the rest.
+function applyTreeBudget(nodes: ActionNode[], options: TreeResourceOptions): Pick<ActionTreeResource, 'rootActions' | 'truncated'> {
+  const { maxDepth = null, maxNodes = null, moreAt = 'actions://tree/{id}' } = options;
+  let remaining = maxNodes ?? Infinity;
+  const take = (candidates: ActionNode[], level: number): ActionNode[] => {
+    const kept = maxDepth === null || level <= maxDepth ? candidates.slice(0, remaining) : [];
+    remaining -= kept.length;
+    return kept.map(node => ({ ...node }));
+  };
+
+  const rootActions = take(nodes, 1);
+  let returned = rootActions.length;
+  let level = rootActions;
+  for (let depth = 1; level.length > 0; depth++) {
+    const next: ActionNode[] = [];
+    for (const node of level) {
+      const children = take(node.children, depth + 1);
+      if (children.length < node.children.length) {
+        node.truncated_children = node.children.length - children.length;
+        node.more_at = moreAt.replace('{id}', node.id);
+      }
+      node.children = children;
+      next.push(...children);
+    }
+    returned += next.length;
+    level = next;
   }
-  
-  const familyId = familyEdges[0].src;
-  if (!familyId) {
-    return true;
+
+  const total = countTreeNodes(nodes);
+  if (returned === total) {
+    return { rootActions };
   }
-  
-  // Check if family's direct dependencies are met
-  const familyDepsOk = await dependenciesMetDirectly(familyId);
-  if (!familyDepsOk) {
-    return false;
+  const omittedRoots = nodes.length - rootActions.length;
+  return {
+    rootActions,
+    truncated: {
+      max_depth: maxDepth,
+      max_nodes: maxNodes,
+      returned_nodes: returned,
+      total_nodes: total,
+      omitted_roots: omittedRoots,
+      message: `Tree truncated to ${returned} of ${total} actions. Nodes with truncated_children left children out - fetch more at their more_at URI`
+        + (omittedRoots > 0 ? `; ${omittedRoots} top-level actions were left out - raise maxNodes to see them` : ''),
+    },
+  };
+}
+
+// Creation time to the millisecond, the precision list cursors carry
+const createdAtMs = sql`date_trunc('milliseconds', ${actions.createdAt})`;
+
+// Record a revision in the action's history, and who made it in the audit log, inside the mutation's transaction - if
+// either write fails the mutation fails with it. Resource subscribers hear about the change once it commits; which
+// resources it touched is worked out now, against the graph the mutation is changing.
+async function recordRevision(
+  actionId: string,
+  version: number,
+  changeType: RevisionChangeType,
+  changes: RevisionChanges,
+  actor?: RevisionActor,
+  relatedActionIds?: string[]
+): Promise<void> {
+  await ActionHistoryService.recordRevision({ actionId, version, changeType, changes, actor });
+  await AuditLogService.record({ actionId, operation: changeType, changes, actor });
+  try {
+    await ResourceEventsService.actionChanged({ actionId, changeType, changes, relatedActionIds });
+  } catch (error) {
+    console.error(`Failed to notify resource subscribers about action ${actionId}:`, error);
   }
-  
-  // Recursively check family's family dependencies
-  return await familyDependenciesMet(familyId);
 }
 
-// Helper function to check only direct dependencies (not parent dependencies)
-async function dependenciesMetDirectly(actionId: string): Promise<boolean> {
-  const dependencyEdgesResult = await getDb()
-    .select()
-    .from(edges)
-    .where(and(eq(edges.dst, actionId), eq(edges.kind, "depends_on")));
-  const dependencyEdges = Array.isArray(dependencyEdgesResult) ? dependencyEdgesResult : [];
-  const dependencyIds = dependencyEdges
-    .map((edge: any) => edge.src)
-    .filter((id: any): id is string => id !== null);
-
-  if (dependencyIds.length > 0) {
-    const dependencies = await getDb()
-      .select()
-      .from(actions)
-      .where(inArray(actions.id, dependencyIds));
-    const unmet = dependencies.find((dep: any) => !dep.done);
-    if (unmet) {
-      return false;
-    }
+// Increment an action's version (and touch updatedAt), returning the new version.
+// When expectedVersion is given the bump only applies if the stored version still matches,
+// and null is returned if another writer got there first.
+async function bumpVersion(actionId: string): Promise<number>;
+async function bumpVersion(actionId: string, expectedVersion: number | undefined): Promise<number | null>;
+async function bumpVersion(actionId: string, expectedVersion?: number): Promise<number | null> {
+  const condition = expectedVersion === undefined
+    ? eq(actions.id, actionId)
+    : and(eq(actions.id, actionId), sql`coalesce(${actions.version}, 0) = ${expectedVersion}`);
+  const updated = await getDb()
+    .update(actions)
+    .set({ version: sql`coalesce(${actions.version}, 0) + 1`, updatedAt: new Date() })
+    .where(and(condition, inOrganization(actions)))
+    .returning({ version: actions.version });
+  if (updated.length === 0) {
+    return expectedVersion === undefined ? 0 : null;
   }
-  return true;
+  return updated[0].version ?? 0;
 }
 
-async function dependenciesMet(actionId: string): Promise<boolean> {
-  // Check both direct dependencies and family dependencies
-  const directDepsOk = await dependenciesMetDirectly(actionId);
-  if (!directDepsOk) {
-    return false;
+// Current server-side state of an action, attached to version conflicts so callers can merge
+async function getConflictState(actionId: string): Promise<ActionConflictState> {
+  const [action] = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
+  if (!action) {
+    throw new Error(`Action with ID ${actionId} not found`);
   }
-  
-  const familyDepsOk = await familyDependenciesMet(actionId);
-  return familyDepsOk;
+  const familyEdges = await getDb().select().from(edges).where(
+    and(eq(edges.dst, actionId), eq(edges.kind, "family"), inOrganization(edges))
+  ).limit(1);
+  const parentId = Array.isArray(familyEdges) && familyEdges.length > 0 ? familyEdges[0].src : undefined;
+
+  return {
+    id: action.id,
+    title: action.title || action.data?.title || 'untitled',
+    description: action.description || action.data?.description || undefined,
+    vision: action.vision || action.data?.vision || undefined,
+    done: action.done,
+    status: resolveStatus(action),
+    version: action.version ?? 0,
+    parent_id: parentId || undefined,
+    updated_at: action.updatedAt.toISOString(),
+  };
 }
 
 
@@ -155,9 +233,15 @@ export interface CreateActionParams {
   title: string;
   description?: string;
   vision?: string;
+  priority?: ActionPriority;
+  effort?: ActionEffort;
+  impact?: ActionImpact;
+  start_date?: string; // YYYY-MM-DD
+  due_date?: string; // YYYY-MM-DD
   parent_id?: string;  // Parent action that this action belongs to
   depends_on_ids?: string[];
   override_duplicate_check?: boolean;
+  actor?: RevisionActor;
 }
 
 export interface DuplicateActionInfo {
@@ -183,7 +267,16 @@ export interface CreateActionResult {
 export interface ListActionsParams {
   limit?: number;
   offset?: number;
+  cursor?: string | null; // A next_cursor from a previous page - replaces offset
   includeCompleted?: boolean;
+  statuses?: ActionStatus[]; // Only actions with these statuses - replaces includeCompleted
+  tags?: TagFilter; // Only actions carrying these tags
+}
+
+export interface TreeResourceOptions {
+  maxDepth?: number | null; // Levels to return, counting the top level
+  maxNodes?: number | null; // Actions to return, filling the tree level by level
+  moreAt?: string; // Template for a subtree's URI, with {id}, that truncation markers point to (default: actions://tree/{id})
 }
 
 export interface AddFamilyActionParams {
@@ -191,22 +284,44 @@ export interface AddFamilyActionParams {
   description?: string;
   vision?: string;
   parent_id: string;  // Will be renamed to family_id in next iteration
+  actor?: RevisionActor;
 }
 
 export interface AddDependencyParams {
   action_id: string;
   depends_on_id: string;
+  actor?: RevisionActor;
+}
+
+export interface ActionTagsParams {
+  action_id: string;
+  tags: string[];
+  actor?: RevisionActor;
+}
+
+export interface ActionTagsResult {
+  action_id: string;
+  tags: string[]; // Every tag on the action after the change
+  changed: string[]; // Tags actually added or removed - empty when nothing changed
+  version?: number; // New version, only bumped when something changed
 }
 
 export interface DeleteActionParams {
   action_id: string;
   child_handling?: "delete_recursive" | "reparent";
   new_parent_id?: string;  // Will be renamed to new_family_id in next iteration
+  actor?: RevisionActor;
+}
+
+export interface RestoreActionParams {
+  action_id: string;
+  actor?: RevisionActor;
 }
 
 export interface RemoveDependencyParams {
   action_id: string;
   depends_on_id: string;
+  actor?: RevisionActor;
 }
 
 export interface UpdateActionParams {
@@ -214,7 +329,17 @@ export interface UpdateActionParams {
   title?: string;
   description?: string;
   vision?: string;
+  // Planning fields used to rank unblocked work - null clears the field
+  priority?: ActionPriority | null;
+  effort?: ActionEffort | null;
+  impact?: ActionImpact | null;
+  // Release planning dates (YYYY-MM-DD) - null clears the date
+  start_date?: string | null;
+  due_date?: string | null;
   done?: boolean;
+  status?: ActionStatus; // Lifecycle status; done is kept in sync (status 'done' <=> done true)
+  expected_version?: number; // Reject the update with VersionConflictError if the stored version differs
+  actor?: RevisionActor;
   completion_context?: {
     // Legacy editorial fields (Phase 2)
     implementation_story?: string;
@@ -303,17 +428,20 @@ export interface UpdateActionParams {
 export interface UpdateFamilyParams {
   action_id: string;
   new_family_id?: string; // undefined means leave family (make it an independent action)
+  expected_version?: number; // Reject the move with VersionConflictError if the stored version differs
+  actor?: RevisionActor;
 }
 
 export class ActionsService {
   static async createAction(
     params: CreateActionParams
   ): Promise<CreateActionResult> {
-    const { title, description, vision, parent_id, depends_on_ids, override_duplicate_check } = params;
+    const { title, description, vision, priority, effort, impact, start_date, due_date, parent_id, depends_on_ids, override_duplicate_check, actor } = params;
+    assertValidDateRange(start_date, due_date);
     
     // Validate family exists if provided
     if (parent_id) {
-      const familyAction = await getDb().select().from(actions).where(eq(actions.id, parent_id)).limit(1);
+      const familyAction = await getDb().select().from(actions).where(and(eq(actions.id, parent_id), inOrganization(actions))).limit(1);
       if (familyAction.length === 0) {
         throw new Error(`Family action with ID ${parent_id} not found`);
       }
@@ -375,13 +503,16 @@ export class ActionsService {
     // Validate dependencies exist if provided
     if (depends_on_ids && depends_on_ids.length > 0) {
       for (const depId of depends_on_ids) {
-        const depAction = await getDb().select().from(actions).where(eq(actions.id, depId)).limit(1);
+        const depAction = await getDb().select().from(actions).where(and(eq(actions.id, depId), inOrganization(actions))).limit(1);
         if (depAction.length === 0) {
           throw new Error(`Dependency action with ID ${depId} not found`);
         }
       }
     }
     
+    // The new action's parent will wait on it, so none of its dependencies may already wait on that parent
+    await GraphIntegrityService.assertCanCreate({ title, parent_id, depends_on_ids });
+    
     // Build and validate action data
     const actionData: any = { title };
     if (description !== undefined) {
@@ -390,55 +521,85 @@ export class ActionsService {
     if (vision !== undefined) {
       actionData.vision = vision;
     }
+    if (priority !== undefined) {
+      actionData.priority = priority;
+    }
+    if (effort !== undefined) {
+      actionData.effort = effort;
+    }
+    if (impact !== undefined) {
+      actionData.impact = impact;
+    }
     
     // Validate action data against schema
     const validatedData = actionDataSchema.parse(actionData);
     
-    const newAction = await getDb()
-      .insert(actions)
-      .values({
-        id: crypto.randomUUID(),
-        data: validatedData,
-        // Set new columns for better performance and indexing
-        title: title,
-        description: description,
-        vision: vision,
-      })
-      .returning();
-
-    // Create family relationship if specified
-    if (parent_id) {
-      await getDb().insert(edges).values({
-        src: parent_id,
-        dst: newAction[0].id,
-        kind: "family",
-      });
-      
-      // Create automatic dependency: parent depends on child
-      // This ensures parent cannot be completed until child is done
-      await getDb().insert(edges).values({
-        src: newAction[0].id,  // child (must be completed first)
-        dst: parent_id,        // parent (depends on child)
-        kind: "depends_on",
-      });
-      
-      // Generate family summaries for actions with explicit families
-      generateFamilySummariesAsync(newAction[0].id).catch(console.error);
-    }
+    // The action, its edges and its revision and audit rows are written together or not at all
+    const newAction = await withTransaction(async () => {
+      const inserted = await getDb()
+        .insert(actions)
+        .values({
+          organizationId: getOrganizationId(),
+          id: crypto.randomUUID(),
+          data: validatedData,
+          // Set new columns for better performance and indexing
+          title: title,
+          description: description,
+          vision: vision,
+          priority: priority,
+          effort: effort,
+          impact: impact,
+          startDate: start_date,
+          dueDate: due_date,
+        })
+        .returning();
 
-    // Create dependency relationships if specified
-    if (depends_on_ids && depends_on_ids.length > 0) {
-      for (const depId of depends_on_ids) {
+      // Create family relationship if specified
+      if (parent_id) {
+        await getDb().insert(edges).values({
+          organizationId: getOrganizationId(),
+          src: parent_id,
+          dst: inserted[0].id,
+          kind: "family",
+        });
+      
+        // Create automatic dependency: parent depends on child
+        // This ensures parent cannot be completed until child is done
         await getDb().insert(edges).values({
-          src: depId,
-          dst: newAction[0].id,
+          organizationId: getOrganizationId(),
+          src: inserted[0].id,  // child (must be completed first)
+          dst: parent_id,        // parent (depends on child)
           kind: "depends_on",
         });
       }
-    }
+
+      // Create dependency relationships if specified
+      if (depends_on_ids && depends_on_ids.length > 0) {
+        for (const depId of depends_on_ids) {
+          await getDb().insert(edges).values({
+            organizationId: getOrganizationId(),
+            src: depId,
+            dst: inserted[0].id,
+            kind: "depends_on",
+          });
+        }
+      }
+
+      const createdChanges = diffFields({}, { title, description, vision, priority, effort, impact, start_date, due_date, parent_id });
+      if (depends_on_ids && depends_on_ids.length > 0) {
+        createdChanges.depends_on_ids = { to: depends_on_ids };
+      }
+      await recordRevision(inserted[0].id, inserted[0].version ?? 0, 'created', createdChanges, actor);
+      return inserted;
+    });
 
     let appliedFamilyId: string | undefined = parent_id;
 
+    // Generate family summaries for actions with explicit families
+    if (parent_id) {
+      generateFamilySummariesAsync(newAction[0].id).catch(console.error);
+    }
+
     // Generate embedding and node summary asynchronously (fire-and-forget)
     generateEmbeddingAsync(newAction[0].id, validatedData).catch(console.error);
     generateNodeSummaryAsync(newAction[0].id, validatedData).catch(console.error);
@@ -454,14 +615,13 @@ export class ActionsService {
   static async listActions(params: ListActionsParams = {}) {
     const { limit = 20, offset = 0, includeCompleted = false } = params;
     
-    let query = getDb()
+    // Default: exclude closed (done or cancelled) actions unless explicitly requested
+    const query = getDb()
       .select()
-      .from(actions);
-    
-    // Default: exclude completed actions unless explicitly requested
-    if (!includeCompleted) {
-      query = query.where(eq(actions.done, false)) as any;
-    }
+      .from(actions)
+      .where(includeCompleted
+        ? inOrganization(actions)
+        : and(inOrganization(actions), notInArray(actions.status, CLOSED_STATUSES)));
     
     const actionList = await query
       .limit(limit)
@@ -472,10 +632,10 @@ export class ActionsService {
   }
 
   static async addFamilyAction(params: AddFamilyActionParams) {
-    const { title, description, vision, parent_id } = params;
+    const { title, description, vision, parent_id, actor } = params;
     
     // Check that parent exists
-    const parentAction = await getDb().select().from(actions).where(eq(actions.id, parent_id)).limit(1);
+    const parentAction = await getDb().select().from(actions).where(and(eq(actions.id, parent_id), inOrganization(actions))).limit(1);
     
     if (parentAction.length === 0) {
       throw new Error(`Parent action with ID ${parent_id} not found`);
@@ -493,36 +653,51 @@ export class ActionsService {
     // Validate action data against schema
     const validatedData = actionDataSchema.parse(actionData);
     
-    const newAction = await getDb()
-      .insert(actions)
-      .values({
-        id: crypto.randomUUID(),
-        data: validatedData,
-        // Set new columns for better performance and indexing
-        title: title,
-        description: description,
-        vision: vision,
-      })
-      .returning();
-
-    // Create parent-child relationship
-    await getDb()
-      .insert(edges)
-      .values({
-        src: parent_id,
-        dst: newAction[0].id,
-        kind: "family",
-      });
+    // The action, its edges and its revision and audit rows are written together or not at all
+    const newAction = await withTransaction(async () => {
+      const inserted = await getDb()
+        .insert(actions)
+        .values({
+          organizationId: getOrganizationId(),
+          id: crypto.randomUUID(),
+          data: validatedData,
+          // Set new columns for better performance and indexing
+          title: title,
+          description: description,
+          vision: vision,
+        })
+        .returning();
+
+      // Create parent-child relationship
+      await getDb()
+        .insert(edges)
+        .values({
+          organizationId: getOrganizationId(),
+          src: parent_id,
+          dst: inserted[0].id,
+          kind: "family",
+        });
     
-    // Create automatic dependency: parent depends on child
-    // This ensures parent cannot be completed until child is done
-    await getDb()
-      .insert(edges)
-      .values({
-        src: newAction[0].id,  // child (must be completed first)
-        dst: parent_id,        // parent (depends on child)
-        kind: "depends_on",
-      });
+      // Create automatic dependency: parent depends on child
+      // This ensures parent cannot be completed until child is done
+      await getDb()
+        .insert(edges)
+        .values({
+          organizationId: getOrganizationId(),
+          src: inserted[0].id,  // child (must be completed first)
+          dst: parent_id,        // parent (depends on child)
+          kind: "depends_on",
+        });
+
+      await recordRevision(
+        inserted[0].id,
+        inserted[0].version ?? 0,
+        'created',
+        diffFields({}, { title, description, vision, parent_id }),
+        actor
+      );
+      return inserted;
+    });
 
     // Generate embedding and node summary asynchronously for new child action
     generateEmbeddingAsync(newAction[0].id, validatedData).catch(console.error);
@@ -541,25 +716,92 @@ export class ActionsService {
   }
 
   static async addDependency(params: AddDependencyParams) {
-    const { action_id, depends_on_id } = params;
+    const { action_id, depends_on_id, actor } = params;
+
+    // Both ends must belong to the caller's organization
+    const existing = await getDb()
+      .select({ id: actions.id })
+      .from(actions)
+      .where(and(inArray(actions.id, [action_id, depends_on_id]), inOrganization(actions)));
+    if (!existing.some((row: { id: string }) => row.id === action_id)) {
+      throw new Error(`Action with ID ${action_id} not found`);
+    }
+    if (!existing.some((row: { id: string }) => row.id === depends_on_id)) {
+      throw new Error(`Dependency action with ID ${depends_on_id} not found`);
+    }
+
+    await GraphIntegrityService.assertCanAddDependency(action_id, depends_on_id);
     
-    const newEdge = await getDb()
-      .insert(edges)
-      .values({
-        src: depends_on_id,
-        dst: action_id,
-        kind: "depends_on",
-      })
-      .returning();
+    const newEdge = await withTransaction(async () => {
+      const inserted = await getDb()
+        .insert(edges)
+        .values({
+          organizationId: getOrganizationId(),
+          src: depends_on_id,
+          dst: action_id,
+          kind: "depends_on",
+        })
+        .returning();
+
+      const version = await bumpVersion(action_id);
+      await recordRevision(action_id, version, 'dependency_added', { depends_on: { to: depends_on_id } }, actor);
+      return inserted;
+    });
 
     return newEdge[0];
   }
 
+  static async addTags(params: ActionTagsParams): Promise<ActionTagsResult> {
+    const { action_id, tags, actor } = params;
+
+    const existing = await getDb().select({ id: actions.id }).from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
+    if (existing.length === 0) {
+      throw new Error(`Action with ID ${action_id} not found`);
+    }
+
+    return withTransaction(async () => {
+      const before = await TagsService.getTags(action_id);
+      const added = await TagsService.attachTags(action_id, tags);
+      if (added.length === 0) {
+        return { action_id, tags: before, changed: [] };
+      }
+
+      const after = await TagsService.getTags(action_id);
+      const version = await bumpVersion(action_id);
+      await recordRevision(action_id, version, 'tags_added', { tags: { from: before, to: after } }, actor);
+
+      return { action_id, tags: after, changed: added, version };
+    });
+  }
+
+  static async removeTags(params: ActionTagsParams): Promise<ActionTagsResult> {
+    const { action_id, tags, actor } = params;
+
+    const existing = await getDb().select({ id: actions.id }).from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
+    if (existing.length === 0) {
+      throw new Error(`Action with ID ${action_id} not found`);
+    }
+
+    return withTransaction(async () => {
+      const before = await TagsService.getTags(action_id);
+      const removed = await TagsService.detachTags(action_id, tags);
+      if (removed.length === 0) {
+        return { action_id, tags: before, changed: [] };
+      }
+
+      const after = before.filter(tag => !removed.includes(tag));
+      const version = await bumpVersion(action_id);
+      await recordRevision(action_id, version, 'tags_removed', { tags: { from: before, to: after } }, actor);
+
+      return { action_id, tags: after, changed: removed, version };
+    });
+  }
+
   static async deleteAction(params: DeleteActionParams) {
-    const { action_id, child_handling = "reparent", new_parent_id } = params;
+    const { action_id, child_handling = "reparent", new_parent_id, actor } = params;
     
     // Check that action exists
-    const actionToDelete = await getDb().select().from(actions).where(eq(actions.id, action_id)).limit(1);
+    const actionToDelete = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
     
     if (actionToDelete.length === 0) {
       throw new Error(`Action with ID ${action_id} not found`);
@@ -567,52 +809,92 @@ export class ActionsService {
 
     // Get parent of action being deleted (for subtree summary regeneration)
     const parentEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.dst, action_id), eq(edges.kind, "family"))
+      and(eq(edges.dst, action_id), eq(edges.kind, "family"), inOrganization(edges))
     ).limit(1);
     const parentEdges = Array.isArray(parentEdgesResult) ? parentEdgesResult : [];
     const parent_id = parentEdges.length > 0 ? parentEdges[0].src : undefined;
 
     // Find all children (actions where this action is the parent)
     const childEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, action_id), eq(edges.kind, "family"))
+      and(eq(edges.src, action_id), eq(edges.kind, "family"), inOrganization(edges))
     );
 
     const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
     const memberIds = childEdges.map((edge: any) => edge.dst).filter((id: any): id is string => id !== null);
     
     // Handle children based on strategy
+    const trashedIds = [action_id];
     if (child_handling === "delete_recursive" && memberIds.length > 0) {
+      // Descendants go to the trash together with the action
       const allDescendants = await getAllDescendants(memberIds);
-      
-      // Delete all descendant actions (edges will cascade delete)
-      for (const descendantId of allDescendants) {
-        await getDb().delete(actions).where(eq(actions.id, descendantId));
-      }
+      trashedIds.push(...allDescendants.filter(id => id !== action_id));
     } else if (child_handling === "reparent" && memberIds.length > 0) {
       if (!new_parent_id) {
         throw new Error("new_parent_id is required when child_handling is 'reparent'");
       }
       
       // Check that new parent exists
-      const newParent = await getDb().select().from(actions).where(eq(actions.id, new_parent_id)).limit(1);
+      const newParent = await getDb().select().from(actions).where(and(eq(actions.id, new_parent_id), inOrganization(actions))).limit(1);
       if (newParent.length === 0) {
         throw new Error(`New parent action with ID ${new_parent_id} not found`);
       }
 
-      // Update all child edges to point to new parent
-      for (const memberId of memberIds) {
-        if (memberId) {
+      // Children can't be handed to something inside the subtree being deleted
+      const deletedSubtree = await getAllDescendants([action_id]);
+      if (deletedSubtree.includes(new_parent_id)) {
+        throw new Error(`Cannot reparent children to ${new_parent_id} - it is part of the action being deleted`);
+      }
+    }
+
+    // The deletion's revision and audit rows, the move to the trash and the reparenting happen together or not at all
+    const trash = await withTransaction(async () => {
+      // Record the deletion in the action's history so it travels with the trash snapshot
+      const version = await bumpVersion(action_id);
+      await recordRevision(
+        action_id,
+        version,
+        'deleted',
+        {
+          deleted: { from: false, to: true },
+          child_handling: { to: child_handling },
+          ...(trashedIds.length > 1 ? { trashed_action_ids: { to: trashedIds } } : {}),
+        },
+        actor,
+        // Reparented children now sit in the new parent's subtree
+        child_handling === "reparent" && new_parent_id && memberIds.length > 0 ? [new_parent_id] : undefined
+      );
+
+      // Move the action (and any recursively deleted descendants) to the trash.
+      // Live edges cascade away; the trash keeps a snapshot so restore_action can bring them back.
+      const trashed = await TrashService.moveToTrash(trashedIds, action_id, actor);
+
+      // Hand the children to the new parent. Checked once the deleted action's edges are gone, so a dependency that
+      // only ran through it can't block the move; a cycle rolls back the whole deletion.
+      if (child_handling === "reparent" && new_parent_id) {
+        for (const memberId of memberIds) {
+          await GraphIntegrityService.assertCanSetParent(memberId, new_parent_id);
           await getDb().insert(edges).values({
+            organizationId: getOrganizationId(),
             src: new_parent_id,
             dst: memberId,
             kind: "family",
           });
+
+          // Each child's history shows the move, as if it had been moved on its own
+          const memberVersion = await bumpVersion(memberId);
+          await recordRevision(
+            memberId,
+            memberVersion,
+            'family_changed',
+            { parent_id: { from: action_id, to: new_parent_id } },
+            actor
+          );
         }
       }
-    }
 
-    // Delete the action (this will cascade delete all edges due to foreign key constraints)
-    const deletedAction = await getDb().delete(actions).where(eq(actions.id, action_id)).returning();
+      return trashed;
+    });
+    const deletedAction = trash.trashed_actions.filter(action => action.id === action_id);
 
     // Regenerate subtree summaries for affected parents
     if (parent_id) {
@@ -637,22 +919,54 @@ export class ActionsService {
       deleted_action: deletedAction[0],
       children_count: memberIds.length,
       child_handling,
-      new_parent_id
+      new_parent_id,
+      trashed_count: trash.trashed_actions.length,
+      purge_after: trash.purge_after,
+    };
+  }
+
+  static async restoreAction(params: RestoreActionParams) {
+    const { action_id, actor } = params;
+
+    const result = await withTransaction(async () => {
+      const restored = await TrashService.restore(action_id);
+
+      const version = await bumpVersion(action_id);
+      await recordRevision(
+        action_id,
+        version,
+        'restored',
+        { deleted: { from: true, to: false }, restored_action_ids: { to: restored.restored_action_ids } },
+        actor
+      );
+      return restored;
+    });
+
+    // The family regains a member (or subtree), so its summary is stale
+    if (result.parent_id) {
+      generateSubtreeSummaryAsync(result.parent_id).catch(console.error);
+    }
+
+    const restoredAction = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
+
+    return {
+      ...result,
+      action: restoredAction[0],
     };
   }
 
   static async removeDependency(params: RemoveDependencyParams) {
-    const { action_id, depends_on_id } = params;
+    const { action_id, depends_on_id, actor } = params;
     
     console.log(`[REMOVE_DEPENDENCY] Starting removal: ${action_id} depends on ${depends_on_id}`);
     
     // Check that both actions exist
     console.log(`[REMOVE_DEPENDENCY] Checking if action ${action_id} exists...`);
-    const action = await getDb().select().from(actions).where(eq(actions.id, action_id)).limit(1);
+    const action = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
     console.log(`[REMOVE_DEPENDENCY] Action found: ${action.length > 0 ? action[0].data?.title : 'NOT FOUND'}`);
     
     console.log(`[REMOVE_DEPENDENCY] Checking if dependency action ${depends_on_id} exists...`);
-    const dependsOn = await getDb().select().from(actions).where(eq(actions.id, depends_on_id)).limit(1);
+    const dependsOn = await getDb().select().from(actions).where(and(eq(actions.id, depends_on_id), inOrganization(actions))).limit(1);
     console.log(`[REMOVE_DEPENDENCY] Dependency action found: ${dependsOn.length > 0 ? dependsOn[0].data?.title : 'NOT FOUND'}`);
     
     if (action.length === 0) {
@@ -669,7 +983,8 @@ export class ActionsService {
       and(
         eq(edges.src, depends_on_id),
         eq(edges.dst, action_id),
-        eq(edges.kind, "depends_on")
+        eq(edges.kind, "depends_on"),
+        inOrganization(edges)
       )
     ).limit(1);
     console.log(`[REMOVE_DEPENDENCY] Existing edge found: ${existingEdge.length > 0 ? 'YES' : 'NO'}`);
@@ -678,16 +993,23 @@ export class ActionsService {
       throw new Error(`No dependency found: ${action[0].data?.title} does not depend on ${dependsOn[0].data?.title}`);
     }
     
-    // Delete the dependency edge
-    console.log(`[REMOVE_DEPENDENCY] Deleting dependency edge...`);
-    const deletedEdge = await getDb().delete(edges).where(
-      and(
-        eq(edges.src, depends_on_id),
-        eq(edges.dst, action_id),
-        eq(edges.kind, "depends_on")
-      )
-    ).returning();
-    console.log(`[REMOVE_DEPENDENCY] Deleted edge:`, deletedEdge[0]);
+    const deletedEdge = await withTransaction(async () => {
+      // Delete the dependency edge
+      console.log(`[REMOVE_DEPENDENCY] Deleting dependency edge...`);
+      const deleted = await getDb().delete(edges).where(
+        and(
+          eq(edges.src, depends_on_id),
+          eq(edges.dst, action_id),
+          eq(edges.kind, "depends_on"),
+          inOrganization(edges)
+        )
+      ).returning();
+      console.log(`[REMOVE_DEPENDENCY] Deleted edge:`, deleted[0]);
+
+      const version = await bumpVersion(action_id);
+      await recordRevision(action_id, version, 'dependency_removed', { depends_on: { from: depends_on_id } }, actor);
+      return deleted;
+    });
 
     console.log(`[REMOVE_DEPENDENCY] Successfully removed dependency`);
     return {
@@ -698,27 +1020,55 @@ export class ActionsService {
   }
 
   static async updateAction(params: UpdateActionParams) {
-    const { action_id, title, description, vision, done, completion_context } = params;
+    const { action_id, title, description, vision, priority, effort, impact, start_date, due_date, done, status, completion_context, expected_version, actor } = params;
+    const planning = { priority, effort, impact };
+    const hasPlanningUpdate = priority !== undefined || effort !== undefined || impact !== undefined;
+    const hasDateUpdate = start_date !== undefined || due_date !== undefined;
     
     // Validate that at least one field is provided
-    if (title === undefined && description === undefined && vision === undefined && done === undefined && completion_context === undefined) {
-      throw new Error("At least one field (title, description, vision, done, or completion_context) must be provided");
+    if (title === undefined && description === undefined && vision === undefined && !hasPlanningUpdate && !hasDateUpdate && done === undefined && status === undefined && completion_context === undefined) {
+      throw new Error("At least one field (title, description, vision, priority, effort, impact, start_date, due_date, done, status, or completion_context) must be provided");
+    }
+
+    if (done !== undefined && status !== undefined && done !== (status === 'done')) {
+      throw new Error(`Conflicting update: done=${done} does not match status "${status}"`);
     }
     
     // Check that action exists
-    const existingAction = await getDb().select().from(actions).where(eq(actions.id, action_id)).limit(1);
+    const existingAction = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
     
     if (existingAction.length === 0) {
       throw new Error(`Action with ID ${action_id} not found`);
     }
+
+    const currentVersion = existingAction[0].version ?? 0;
+    if (expected_version !== undefined && currentVersion !== expected_version) {
+      throw new VersionConflictError(action_id, expected_version, await getConflictState(action_id));
+    }
     
-    // Build update object
+    // Check the date range against whichever side isn't being changed
+    if (hasDateUpdate) {
+      assertValidDateRange(
+        start_date !== undefined ? start_date : existingAction[0].startDate,
+        due_date !== undefined ? due_date : existingAction[0].dueDate
+      );
+    }
+    
+    // Resolve the target status - done is shorthand for completing, or reopening a closed action
+    const previousStatus = resolveStatus(existingAction[0]);
+    let nextStatus: ActionStatus | undefined = status;
+    if (nextStatus === undefined && done !== undefined) {
+      nextStatus = done ? 'done' : (isClosedStatus(previousStatus) ? 'todo' : previousStatus);
+    }
+    
+    // Build update object - every update produces a new version, incremented in the database so concurrent writers don't collide
     const updateData: any = {
       updatedAt: new Date(),
+      version: sql`coalesce(${actions.version}, 0) + 1`,
     };
     
     // Update data fields if provided (preserve existing data)
-    if (title !== undefined || description !== undefined || vision !== undefined) {
+    if (title !== undefined || description !== undefined || vision !== undefined || hasPlanningUpdate) {
       const currentData = existingAction[0].data as any || {};
       const newData = { ...currentData };
       
@@ -734,33 +1084,112 @@ export class ActionsService {
         newData.vision = vision;
         updateData.vision = vision; // Update new column
       }
+      for (const [field, value] of Object.entries(planning)) {
+        if (value === undefined) continue;
+        if (value === null) {
+          delete newData[field];
+        } else {
+          newData[field] = value;
+        }
+        updateData[field] = value;
+      }
       
       // Validate updated data against schema
       const validatedData = actionDataSchema.parse(newData);
       updateData.data = validatedData;
     }
     
-    // Update done if provided
-    if (done !== undefined) {
+    if (start_date !== undefined) {
+      updateData.startDate = start_date;
+    }
+    if (due_date !== undefined) {
+      updateData.dueDate = due_date;
+    }
+    
+    // Update status (and the done mirror) if provided
+    if (nextStatus !== undefined) {
       // If marking as complete, check for incomplete dependencies
-      if (done === true) {
+      if (nextStatus === 'done') {
         const { hasIncomplete, incompleteDeps } = await hasIncompleteDependencies(action_id);
         if (hasIncomplete) {
           throw new Error(`Cannot complete action "${existingAction[0].data?.title || action_id}". The following dependencies must be completed first: ${incompleteDeps.join(', ')}`);
         }
       }
-      updateData.done = done;
+      updateData.status = nextStatus;
+      updateData.done = nextStatus === 'done';
+    }
+    
+    // The revision's field-level diff against the previous state
+    const previous = existingAction[0];
+    const changes = diffFields({
+      title: previous.title ?? previous.data?.title,
+      description: previous.description ?? previous.data?.description,
+      vision: previous.vision ?? previous.data?.vision,
+      priority: previous.priority,
+      effort: previous.effort,
+      impact: previous.impact,
+      start_date: previous.startDate,
+      due_date: previous.dueDate,
+      done: previous.done,
+      status: previousStatus,
+    }, {
+      title,
+      description,
+      vision,
+      // Clearing a field that was never set isn't a change
+      priority: priority === null && !previous.priority ? undefined : priority,
+      effort: effort === null && !previous.effort ? undefined : effort,
+      impact: impact === null && !previous.impact ? undefined : impact,
+      start_date: start_date === null && !previous.startDate ? undefined : start_date,
+      due_date: due_date === null && !previous.dueDate ? undefined : due_date,
+      done: updateData.done,
+      status: nextStatus,
+    });
+    if (completion_context !== undefined) {
+      changes.completion_context = { to: completion_context };
+    }
+    let changeType: RevisionChangeType = 'updated';
+    if (changes.done) {
+      changeType = updateData.done ? 'completed' : 'uncompleted';
+    } else if (changes.status) {
+      changeType = 'status_changed';
+    }
+
+    // The update and its revision and audit rows are written together or not at all
+    const updatedAction = await withTransaction(async () => {
+      // Update the action - when a version is expected, only write if nobody else has in the meantime
+      const updated = await getDb()
+        .update(actions)
+        .set(updateData)
+        .where(and(
+          eq(actions.id, action_id),
+          inOrganization(actions),
+          expected_version === undefined ? undefined : sql`coalesce(${actions.version}, 0) = ${expected_version}`
+        ))
+        .returning();
+
+      if (updated.length === 0) {
+        if (expected_version !== undefined) {
+          throw new VersionConflictError(action_id, expected_version, await getConflictState(action_id));
+        }
+        throw new Error(`Action with ID ${action_id} not found`);
+      }
+
+      await recordRevision(action_id, updated[0].version ?? 0, changeType, changes, actor);
+      return updated;
+    });
+
+    // Closed work no longer needs its lease
+    if (nextStatus !== undefined && isClosedStatus(nextStatus)) {
+      try {
+        await ClaimsService.clearClaims(action_id);
+      } catch (error) {
+        console.error(`Failed to clear claims for action ${action_id}:`, error);
+      }
     }
-    
-    // Update the action
-    const updatedAction = await getDb()
-      .update(actions)
-      .set(updateData)
-      .where(eq(actions.id, action_id))
-      .returning();
 
-    // Generate embedding and node summary asynchronously if content was updated
-    if (updateData.data) {
+    // Generate embedding and node summary asynchronously if content was updated - planning fields don't affect them
+    if (title !== undefined || description !== undefined || vision !== undefined) {
       generateEmbeddingAsync(action_id, updateData.data).catch(console.error);
       generateNodeSummaryAsync(action_id, updateData.data).catch(console.error);
       
@@ -778,7 +1207,7 @@ export class ActionsService {
       try {
         // If marking as done and editorial content not provided, generate it
         let editorial: any = {};
-        if (done === true && 
+        if (nextStatus === 'done' && 
             completion_context.implementation_story && 
             completion_context.impact_story && 
             completion_context.learning_story &&
@@ -845,10 +1274,10 @@ export class ActionsService {
       }
     }
 
-    // If done status changed, regenerate subtree summary for family (member completion affects family summary)
-    if (done !== undefined) {
+    // If status changed, regenerate subtree summary for family (member completion affects family summary)
+    if (changes.status) {
       // Find family of this action and regenerate its subtree summary
-      getDb().select().from(edges).where(and(eq(edges.dst, action_id), eq(edges.kind, "family"))).limit(1)
+      getDb().select().from(edges).where(and(eq(edges.dst, action_id), eq(edges.kind, "family"), inOrganization(edges))).limit(1)
         .then((familyEdges: any) => {
           const familyEdgeResults = Array.isArray(familyEdges) ? familyEdges : [];
           if (familyEdgeResults.length > 0 && familyEdgeResults[0].src) {
@@ -862,73 +1291,90 @@ export class ActionsService {
   }
 
   static async updateFamily(params: UpdateFamilyParams) {
-    const { action_id, new_family_id } = params;
+    const { action_id, new_family_id, expected_version, actor } = params;
     
     // Check that action exists
-    const existingAction = await getDb().select().from(actions).where(eq(actions.id, action_id)).limit(1);
+    const existingAction = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
     if (existingAction.length === 0) {
       throw new Error(`Action with ID ${action_id} not found`);
     }
 
+    if (expected_version !== undefined && (existingAction[0].version ?? 0) !== expected_version) {
+      throw new VersionConflictError(action_id, expected_version, await getConflictState(action_id));
+    }
+
     // Check that new family exists if provided
     if (new_family_id) {
-      const newFamilyAction = await getDb().select().from(actions).where(eq(actions.id, new_family_id)).limit(1);
+      const newFamilyAction = await getDb().select().from(actions).where(and(eq(actions.id, new_family_id), inOrganization(actions))).limit(1);
       if (newFamilyAction.length === 0) {
         throw new Error(`New family action with ID ${new_family_id} not found`);
       }
 
-      // Check for circular reference - new family cannot be a descendant of this action
-      const descendants = await getAllDescendants([action_id]);
-      if (descendants.includes(new_family_id)) {
-        throw new Error(`Cannot set ${new_family_id} as family of ${action_id} - this would create a circular reference`);
-      }
+      // Reject family loops and moves that would make the new parent wait on itself
+      await GraphIntegrityService.assertCanSetParent(action_id, new_family_id);
     }
 
     // Get existing family before removing relationship (for subtree summary regeneration)
     const existingFamilyEdges = await getDb().select().from(edges).where(
-      and(eq(edges.dst, action_id), eq(edges.kind, "family"))
+      and(eq(edges.dst, action_id), eq(edges.kind, "family"), inOrganization(edges))
     ).limit(1);
     const existingFamilyEdgeResults = Array.isArray(existingFamilyEdges) ? existingFamilyEdges : [];
     const old_family_id = existingFamilyEdgeResults.length > 0 ? existingFamilyEdgeResults[0].src : undefined;
 
-    // Remove existing family relationship
-    await getDb().delete(edges).where(
-      and(eq(edges.dst, action_id), eq(edges.kind, "family"))
-    );
+    // The move and its revision and audit rows are written together or not at all
+    const version = await withTransaction(async () => {
+      // Claim the next version before touching edges so a concurrent writer can't interleave a move
+      const claimed = await bumpVersion(action_id, expected_version);
+      if (claimed === null) {
+        throw new VersionConflictError(action_id, expected_version!, await getConflictState(action_id));
+      }
 
-    // Remove existing dependency relationship from this action to old parent
-    if (old_family_id) {
+      // Remove existing family relationship
       await getDb().delete(edges).where(
-        and(
-          eq(edges.src, action_id),
-          eq(edges.dst, old_family_id),
-          eq(edges.kind, "depends_on")
-        )
+        and(eq(edges.dst, action_id), eq(edges.kind, "family"), inOrganization(edges))
       );
-    }
 
-    // Add new family relationship if provided
-    if (new_family_id) {
-      await getDb().insert(edges).values({
-        src: new_family_id,
-        dst: action_id,
-        kind: "family",
-      });
+      // Remove existing dependency relationship from this action to old parent
+      if (old_family_id) {
+        await getDb().delete(edges).where(
+          and(
+            eq(edges.src, action_id),
+            eq(edges.dst, old_family_id),
+            eq(edges.kind, "depends_on"),
+            inOrganization(edges)
+          )
+        );
+      }
+
+      // Add new family relationship if provided
+      if (new_family_id) {
+        await getDb().insert(edges).values({
+          organizationId: getOrganizationId(),
+          src: new_family_id,
+          dst: action_id,
+          kind: "family",
+        });
       
-      // Create automatic dependency: parent depends on child
-      // This ensures parent cannot be completed until child is done
-      await getDb().insert(edges).values({
-        src: action_id,        // child (must be completed first)
-        dst: new_family_id,    // parent (depends on child)
-        kind: "depends_on",
-      });
-    }
+        // Create automatic dependency: parent depends on child
+        // This ensures parent cannot be completed until child is done
+        await getDb().insert(edges).values({
+          organizationId: getOrganizationId(),
+          src: action_id,        // child (must be completed first)
+          dst: new_family_id,    // parent (depends on child)
+          kind: "depends_on",
+        });
+      }
 
-    // Update the action's timestamp
-    await getDb()
-      .update(actions)
-      .set({ updatedAt: new Date() })
-      .where(eq(actions.id, action_id));
+      // Record the move against the version claimed above
+      await recordRevision(
+        action_id,
+        claimed,
+        'family_changed',
+        { parent_id: { from: old_family_id ?? undefined, to: new_family_id } },
+        actor
+      );
+      return claimed;
+    });
 
     // Regenerate subtree summaries for both old and new families (if they exist)
     if (old_family_id) {
@@ -949,13 +1395,16 @@ export class ActionsService {
       action_id,
       old_family_id,
       new_family_id,
+      version,
     };
   }
 
   // Resource methods for MCP resources
 
   static async getActionListResource(params: ListActionsParams = {}): Promise<ActionListResource> {
-    const { limit = 20, offset = 0, includeCompleted = false } = params;
+    const { limit = 20, includeCompleted = false, statuses, tags } = params;
+    const cursor = params.cursor ? decodeListCursor(params.cursor) : null;
+    const offset = cursor ? 0 : params.offset ?? 0;
     
     // Build base query
     let totalQuery = getDb().select({ count: count() }).from(actions);
@@ -963,74 +1412,115 @@ export class ActionsService {
       .select()
       .from(actions);
     
-    // Default: exclude completed actions unless explicitly requested
-    if (!includeCompleted) {
-      totalQuery = totalQuery.where(eq(actions.done, false));
-      actionQuery = actionQuery.where(eq(actions.done, false));
+    const conditions = [inOrganization(actions)];
+    if (statuses) {
+      conditions.push(inArray(actions.status, statuses));
+    } else if (!includeCompleted) {
+      // Default: exclude closed (done or cancelled) actions unless explicitly requested
+      conditions.push(notInArray(actions.status, CLOSED_STATUSES));
+    }
+    if (tags) {
+      const taggedIds = await TagsService.getActionIdsWithTags(tags);
+      if (taggedIds.length === 0) {
+        return { actions: [], total: 0, offset, limit, next_cursor: null };
+      }
+      conditions.push(inArray(actions.id, taggedIds));
     }
+    totalQuery = totalQuery.where(and(...conditions));
+    // The cursor narrows the page, not the total
+    actionQuery = actionQuery.where(and(
+      ...conditions,
+      ...(cursor ? [or(gt(createdAtMs, cursor.createdAt), and(eq(createdAtMs, cursor.createdAt), gt(actions.id, cursor.id)))!] : [])
+    ));
     
     // Get total count
     const totalResult = await totalQuery;
     const total = totalResult[0].count;
     
-    // Get actions with pagination
-    const actionList = await actionQuery
-      .limit(limit)
+    // Get actions with pagination, plus one to tell whether another page follows
+    const page = await actionQuery
+      .limit(limit + 1)
       .offset(offset)
-      .orderBy(actions.createdAt);
+      .orderBy(createdAtMs, actions.id);
+    const actionList = page.slice(0, limit);
+    const last = actionList[actionList.length - 1];
+    const tagsByAction = await TagsService.getTagsForActions(actionList.map((action: any) => action.id));
 
     return {
       actions: actionList.map((action: any) => ({
         id: action.id,
         data: action.data as { title: string },
         done: action.done,
+        status: resolveStatus(action),
         version: action.version,
+        priority: action.priority,
+        effort: action.effort,
+        impact: action.impact,
+        startDate: action.startDate,
+        dueDate: action.dueDate,
+        tags: tagsByAction.get(action.id) || [],
         createdAt: action.createdAt.toISOString(),
         updatedAt: action.updatedAt.toISOString(),
       })),
       total,
       offset,
       limit,
+      next_cursor: page.length > limit ? encodeListCursor({ createdAt: last.createdAt, id: last.id }) : null,
     };
   }
 
-  static async getActionCounts(): Promise<{ total: number; incomplete: number; completed: number; generatedAt: string }> {
-    // Get total count
-    const totalResult = await getDb().select({ count: count() }).from(actions);
-    const total = totalResult[0].count;
+  static async getActionCounts(): Promise<{ total: number; incomplete: number; completed: number; cancelled: number; by_status: Record<ActionStatus, number>; generatedAt: string }> {
+    // Count actions per status in a single query
+    const statusResult = await getDb()
+      .select({ status: actions.status, count: count() })
+      .from(actions)
+      .where(inOrganization(actions))
+      .groupBy(actions.status);
+    
+    const by_status: Record<ActionStatus, number> = {
+      todo: 0,
+      in_progress: 0,
+      blocked: 0,
+      in_review: 0,
+      done: 0,
+      cancelled: 0,
+    };
+    for (const row of statusResult) {
+      by_status[resolveStatus(row)] += Number(row.count);
+    }
     
-    // Get completed count
-    const completedResult = await getDb().select({ count: count() }).from(actions).where(eq(actions.done, true));
-    const completed = completedResult[0].count;
+    const total = Object.values(by_status).reduce((sum, value) => sum + value, 0);
+    const completed = by_status.done;
+    const cancelled = by_status.cancelled;
     
-    // Calculate incomplete
-    const incomplete = total - completed;
+    // Incomplete means still open - cancelled work is closed without being completed
+    const incomplete = total - completed - cancelled;
     
     return {
       total,
       incomplete,
       completed,
+      cancelled,
+      by_status,
       generatedAt: new Date().toISOString()
     };
   }
 
-  static async getActionTreeResource(includeCompleted: boolean = false): Promise<ActionTreeResource> {
+  static async getActionTreeResource(includeCompleted: boolean = false, tags?: TagFilter, options: TreeResourceOptions = {}): Promise<ActionTreeResource> {
     console.log('[SERVICE] Starting optimized database queries for tree resource');
     
     try {
       // Optimize: Single query with limit and filtering at database level
       const MAX_ACTIONS = 500; // Reasonable limit to prevent timeouts
-      let actionQuery = getDb().select().from(actions).limit(MAX_ACTIONS);
-      
-      if (!includeCompleted) {
-        actionQuery = actionQuery.where(eq(actions.done, false));
-      }
+      const actionQuery = getDb().select().from(actions).limit(MAX_ACTIONS).where(includeCompleted
+        ? inOrganization(actions)
+        : and(inOrganization(actions), notInArray(actions.status, CLOSED_STATUSES)));
       
       // Execute all queries in parallel for better performance
       const [allActions, childEdgesResult, dependencyEdgesResult] = await Promise.all([
         actionQuery.orderBy(actions.createdAt),
-        getDb().select().from(edges).where(eq(edges.kind, "family")).limit(1000),
-        getDb().select().from(edges).where(eq(edges.kind, "depends_on")).limit(1000)
+        getDb().select().from(edges).where(and(eq(edges.kind, "family"), inOrganization(edges))).limit(1000),
+        getDb().select().from(edges).where(and(eq(edges.kind, "depends_on"), inOrganization(edges))).limit(1000)
       ]);
       
       console.log('[SERVICE] Got actions:', allActions.length);
@@ -1042,6 +1532,7 @@ export class ActionsService {
       
       const allEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
       const dependencyEdges = Array.isArray(dependencyEdgesResult) ? dependencyEdgesResult : [];
+      const tagsByAction = await TagsService.getTagsForActions(allActions.map((action: any) => action.id));
 
       // Build lookup maps more efficiently
       const actionMap = new Map(allActions.map((action: any) => [action.id, action]));
@@ -1084,8 +1575,8 @@ export class ActionsService {
           return null;
         }
         
-        // Skip completed actions unless includeCompleted is true
-        if (!includeCompleted && action.done) {
+        // Skip closed (done or cancelled) actions unless includeCompleted is true
+        if (!includeCompleted && isClosedStatus(resolveStatus(action))) {
           return null;
         }
         
@@ -1103,7 +1594,9 @@ export class ActionsService {
           description: action.description || action.data?.description,
           vision: action.vision || action.data?.vision,
           done: action.done,
+          status: resolveStatus(action),
           created_at: action.createdAt.toISOString(),
+          tags: tagsByAction.get(actionId) || [],
           children: filteredMembers,
           dependencies,
         };
@@ -1123,9 +1616,8 @@ export class ActionsService {
 
       console.log('[SERVICE] Built tree with root nodes:', rootNodes.length);
       
-      return {
-        rootActions: rootNodes,
-      };
+      const matchingNodes = tags ? pruneTree(rootNodes, node => matchesTagFilter(node.tags || [], tags)) : rootNodes;
+      return applyTreeBudget(matchingNodes, options);
       
     } catch (error) {
       console.error('[SERVICE] Error in getActionTreeResource:', error);
@@ -1145,7 +1637,7 @@ export class ActionsService {
     const childEdges = await getDb()
       .select()
       .from(edges)
-      .where(eq(edges.kind, "family"));
+      .where(and(eq(edges.kind, "family"), inOrganization(edges)));
     
     // Build children map
     const membersMap = new Map<string, string[]>();
@@ -1176,7 +1668,7 @@ export class ActionsService {
     return descendants;
   }
 
-  static async getActionTreeResourceScoped(rootActionId: string, includeCompleted: boolean = false): Promise<ActionTreeResource> {
+  static async getActionTreeResourceScoped(rootActionId: string, includeCompleted: boolean = false, options: TreeResourceOptions = {}): Promise<ActionTreeResource> {
     console.log('[SERVICE] Starting scoped tree resource for root:', rootActionId);
     
     try {
@@ -1184,7 +1676,7 @@ export class ActionsService {
       const rootActionResult = await getDb()
         .select()
         .from(actions)
-        .where(eq(actions.id, rootActionId))
+        .where(and(eq(actions.id, rootActionId), inOrganization(actions)))
         .limit(1);
         
       if (rootActionResult.length === 0) {
@@ -1193,8 +1685,8 @@ export class ActionsService {
       
       const rootAction = rootActionResult[0];
       
-      // Skip if root action is completed and includeCompleted is false
-      if (!includeCompleted && rootAction.done) {
+      // Skip if root action is closed and includeCompleted is false
+      if (!includeCompleted && isClosedStatus(resolveStatus(rootAction))) {
         return { 
           rootActions: [],
           rootAction: rootActionId,
@@ -1209,16 +1701,13 @@ export class ActionsService {
       console.log('[SERVICE] Found', descendantIds.length, 'descendants for root action');
       
       // Get all actions in the scope
-      let actionQuery = getDb()
+      const inScope = sql`${actions.id} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`;
+      const actionQuery = getDb()
         .select()
         .from(actions)
-        .where(sql`${actions.id} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`)
+        .where(and(includeCompleted ? inScope : and(inScope, notInArray(actions.status, CLOSED_STATUSES)), inOrganization(actions)))
         .limit(500);
       
-      if (!includeCompleted) {
-        actionQuery = actionQuery.where(eq(actions.done, false));
-      }
-      
       // Execute queries in parallel for better performance
       const [scopedActions, childEdgesResult, dependencyEdgesResult] = await Promise.all([
         actionQuery.orderBy(actions.createdAt),
@@ -1228,14 +1717,16 @@ export class ActionsService {
           .where(and(
             eq(edges.kind, "family"),
             sql`${edges.src} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`,
-            sql`${edges.dst} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`
+            sql`${edges.dst} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`,
+            inOrganization(edges)
           )),
         getDb()
           .select()
           .from(edges)
           .where(and(
             eq(edges.kind, "depends_on"),
-            sql`${edges.dst} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`
+            sql`${edges.dst} = ANY(${sql.raw(`ARRAY[${scopedActionIds.map(id => `'${id}'::uuid`).join(',')}]`)})`,
+            inOrganization(edges)
           ))
       ]);
       
@@ -1293,8 +1784,8 @@ export class ActionsService {
           return null;
         }
         
-        // Skip completed actions unless includeCompleted is true
-        if (!includeCompleted && action.done) {
+        // Skip closed (done or cancelled) actions unless includeCompleted is true
+        if (!includeCompleted && isClosedStatus(resolveStatus(action))) {
           return null;
         }
         
@@ -1312,6 +1803,7 @@ export class ActionsService {
           description: action.description || action.data?.description,
           vision: action.vision || action.data?.vision,
           done: action.done,
+          status: resolveStatus(action),
           created_at: action.createdAt.toISOString(),
           children: filteredMembers,
           dependencies,
@@ -1324,7 +1816,7 @@ export class ActionsService {
       console.log('[SERVICE] Built scoped tree');
       
       return {
-        rootActions: rootNode ? [rootNode] : [],
+        ...applyTreeBudget(rootNode ? [rootNode] : [], options),
         rootAction: rootActionId,
         scope: rootActionId
       };
@@ -1337,12 +1829,11 @@ export class ActionsService {
 
   static async getActionDependenciesResource(includeCompleted: boolean = false): Promise<ActionDependenciesResource> {
     // Get all actions and filter if needed
-    let actionQuery = getDb().select().from(actions);
-    if (!includeCompleted) {
-      actionQuery = actionQuery.where(eq(actions.done, false));
-    }
+    const actionQuery = getDb().select().from(actions).where(includeCompleted
+      ? inOrganization(actions)
+      : and(inOrganization(actions), notInArray(actions.status, CLOSED_STATUSES)));
     const allActions = await actionQuery.orderBy(actions.createdAt);
-    const dependencyEdgesResult = await getDb().select().from(edges).where(eq(edges.kind, "depends_on"));
+    const dependencyEdgesResult = await getDb().select().from(edges).where(and(eq(edges.kind, "depends_on"), inOrganization(edges)));
     const dependencyEdges = Array.isArray(dependencyEdgesResult) ? dependencyEdgesResult : [];
 
     const actionMap = new Map(allActions.map((action: any) => [action.id, action]));
@@ -1370,15 +1861,18 @@ export class ActionsService {
       action_id: action.id,
       action_title: action.data?.title || 'untitled',
       action_done: action.done,
+      action_status: resolveStatus(action),
       depends_on: (dependsOnMap.get(action.id) || []).map(depId => ({
         id: depId,
         title: (actionMap.get(depId) as any)?.data?.title || 'untitled',
         done: (actionMap.get(depId) as any)?.done || false,
+        status: resolveStatus((actionMap.get(depId) as any) || {}),
       })),
       dependents: (dependentsMap.get(action.id) || []).map(depId => ({
         id: depId,
         title: (actionMap.get(depId) as any)?.data?.title || 'untitled',
         done: (actionMap.get(depId) as any)?.done || false,
+        status: resolveStatus((actionMap.get(depId) as any) || {}),
       })),
     }));
 
@@ -1393,7 +1887,7 @@ export class ActionsService {
    */
   static async getActionWithContext(actionId: string): Promise<any> {
     // Get the action
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       throw new Error(`Action with ID ${actionId} not found`);
     }
@@ -1412,7 +1906,7 @@ export class ActionsService {
     if (needsFamilyContext || needsFamilyVision) {
       // Check if action has a family relationship
       const familyEdges = await getDb().select().from(edges).where(
-        and(eq(edges.dst, actionId), eq(edges.kind, "family"))
+        and(eq(edges.dst, actionId), eq(edges.kind, "family"), inOrganization(edges))
       ).limit(1);
       
       if (familyEdges.length > 0) {
@@ -1461,7 +1955,7 @@ export class ActionsService {
     
     // Check subtree summary (only if action has children)
     const childEdges = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "family"))
+      and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))
     ).limit(1);
     
     if (childEdges.length > 0 && !action.subtreeSummary) {
@@ -1489,6 +1983,7 @@ export class ActionsService {
       description: action.description || action.data?.description,
       vision: action.vision || action.data?.vision,
       done: action.done,
+      status: resolveStatus(action),
       version: action.version,
       created_at: action.createdAt.toISOString(),
       updated_at: action.updatedAt.toISOString(),
@@ -1500,7 +1995,7 @@ export class ActionsService {
 
     // Get parent relationship
     const parentEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.dst, actionId), eq(edges.kind, "family"))
+      and(eq(edges.dst, actionId), eq(edges.kind, "family"), inOrganization(edges))
     );
     const parentEdges = Array.isArray(parentEdgesResult) ? parentEdgesResult : [];
     const parentId = parentEdges.length > 0 ? parentEdges[0].src : undefined;
@@ -1510,7 +2005,7 @@ export class ActionsService {
     let currentParentId = parentId;
     
     while (currentParentId) {
-      const parentAction = await getDb().select().from(actions).where(eq(actions.id, currentParentId)).limit(1);
+      const parentAction = await getDb().select().from(actions).where(and(eq(actions.id, currentParentId), inOrganization(actions))).limit(1);
       
       if (parentAction.length === 0) break;
       
@@ -1518,7 +2013,7 @@ export class ActionsService {
       
       // Find the next parent
       const nextParentEdgesResult = await getDb().select().from(edges).where(
-        and(eq(edges.dst, currentParentId), eq(edges.kind, "family"))
+        and(eq(edges.dst, currentParentId), eq(edges.kind, "family"), inOrganization(edges))
       );
       const nextParentEdges = Array.isArray(nextParentEdgesResult) ? nextParentEdgesResult : [];
       currentParentId = nextParentEdges.length > 0 ? nextParentEdges[0].src : undefined;
@@ -1526,32 +2021,32 @@ export class ActionsService {
 
     // Get children
     const childEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "family"))
+      and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))
     );
     const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
     const memberIds = childEdges.map((edge: any) => edge.dst).filter((id: any): id is string => id !== null);
     const children = memberIds.length > 0 
-      ? await getDb().select().from(actions).where(inArray(actions.id, memberIds))
+      ? await getDb().select().from(actions).where(and(inArray(actions.id, memberIds), inOrganization(actions)))
       : [];
 
     // Get dependencies (actions this depends on)
     const dependencyEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"))
+      and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"), inOrganization(edges))
     );
     const dependencyEdges = Array.isArray(dependencyEdgesResult) ? dependencyEdgesResult : [];
     const dependencyIds = dependencyEdges.map((edge: any) => edge.src).filter((id: any): id is string => id !== null);
     const dependencies = dependencyIds.length > 0 
-      ? await getDb().select().from(actions).where(inArray(actions.id, dependencyIds))
+      ? await getDb().select().from(actions).where(and(inArray(actions.id, dependencyIds), inOrganization(actions)))
       : [];
 
     // Get dependents (actions that depend on this)
     const dependentEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "depends_on"))
+      and(eq(edges.src, actionId), eq(edges.kind, "depends_on"), inOrganization(edges))
     );
     const dependentEdges = Array.isArray(dependentEdgesResult) ? dependentEdgesResult : [];
     const dependentIds = dependentEdges.map((edge: any) => edge.dst).filter((id: any): id is string => id !== null);
     const dependents = dependentIds.length > 0 
-      ? await getDb().select().from(actions).where(inArray(actions.id, dependentIds))
+      ? await getDb().select().from(actions).where(and(inArray(actions.id, dependentIds), inOrganization(actions)))
       : [];
 
     // Get completion context from dependencies for enhanced knowledge transfer
@@ -1573,7 +2068,7 @@ export class ActionsService {
         })
         .from(completionContexts)
         .innerJoin(actions, eq(completionContexts.actionId, actions.id))
-        .where(inArray(completionContexts.actionId, dependencyIds))
+        .where(and(inArray(completionContexts.actionId, dependencyIds), inOrganization(completionContexts)))
         .orderBy(completionContexts.completionTimestamp);
 
       for (const context of completionContextResults) {
@@ -1615,7 +2110,7 @@ export class ActionsService {
           alignmentReflection: completionContexts.alignmentReflection,
         })
         .from(completionContexts)
-        .where(eq(completionContexts.actionId, actionId))
+        .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
         .limit(1);
 
       if (ownContextResult.length > 0) {
@@ -1645,7 +2140,7 @@ export class ActionsService {
     const siblings: ActionMetadata[] = [];
     if (parentId) {
       const siblingEdgesResult = await getDb().select().from(edges).where(
-        and(eq(edges.src, parentId), eq(edges.kind, "family"))
+        and(eq(edges.src, parentId), eq(edges.kind, "family"), inOrganization(edges))
       );
       const siblingEdges = Array.isArray(siblingEdgesResult) ? siblingEdgesResult : [];
       const siblingIds = siblingEdges
@@ -1653,7 +2148,7 @@ export class ActionsService {
         .filter((id: any): id is string => id !== null && id !== actionId); // Exclude current action
       
       if (siblingIds.length > 0) {
-        const siblingActions = await getDb().select().from(actions).where(inArray(actions.id, siblingIds));
+        const siblingActions = await getDb().select().from(actions).where(and(inArray(actions.id, siblingIds), inOrganization(actions)));
         siblings.push(...siblingActions.map(toActionMetadata));
       }
     }
@@ -1693,7 +2188,14 @@ export class ActionsService {
       description: action[0].description || action[0].data?.description,
       vision: action[0].vision || action[0].data?.vision,
       done: action[0].done,
+      status: resolveStatus(action[0]),
       version: action[0].version,
+      priority: action[0].priority,
+      effort: action[0].effort,
+      impact: action[0].impact,
+      start_date: action[0].startDate,
+      due_date: action[0].dueDate,
+      tags: await TagsService.getTags(actionId),
       created_at: action[0].createdAt.toISOString(),
       updated_at: action[0].updatedAt.toISOString(),
       parent_id: parentId || undefined,
@@ -1712,6 +2214,59 @@ export class ActionsService {
     };
   }
 
+  // Title, status and where the action sits - enough to recognise it without loading its context
+  static async getActionSummaryResource(actionId: string): Promise<ActionSummaryResource> {
+    const [action] = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
+    if (!action) {
+      throw new Error(`Action with ID ${actionId} not found`);
+    }
+
+    // Walk up the family edges to the root
+    const familyPath: Array<{ id: string; title: string }> = [];
+    const seen = new Set<string>([actionId]);
+    let currentId: string | null = actionId;
+    while (currentId) {
+      const [parentEdge]: { src: string | null }[] = await getDb()
+        .select({ src: edges.src })
+        .from(edges)
+        .where(and(eq(edges.dst, currentId), eq(edges.kind, "family"), inOrganization(edges)))
+        .limit(1);
+      currentId = parentEdge?.src && !seen.has(parentEdge.src) ? parentEdge.src : null;
+      if (currentId) {
+        seen.add(currentId);
+        const [parent] = await getDb().select().from(actions).where(and(eq(actions.id, currentId), inOrganization(actions))).limit(1);
+        if (!parent) break;
+        familyPath.unshift({ id: parent.id, title: parent.title || parent.data?.title || 'untitled' });
+      }
+    }
+
+    const [[childCount], [completion]] = await Promise.all([
+      getDb()
+        .select({ count: count() })
+        .from(edges)
+        .where(and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))),
+      action.done
+        ? getDb()
+            .select({ completionTimestamp: completionContexts.completionTimestamp })
+            .from(completionContexts)
+            .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
+            .limit(1)
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      id: action.id,
+      title: action.title || action.data?.title || 'untitled',
+      done: action.done,
+      status: resolveStatus(action),
+      version: action.version,
+      family_path: familyPath,
+      children_count: Number(childCount?.count ?? 0),
+      ...(completion?.completionTimestamp ? { completed_at: completion.completionTimestamp.toISOString() } : {}),
+      updated_at: action.updatedAt.toISOString(),
+    };
+  }
+
   // Core data only - no relationships, no AI summaries
   static async getWorkItemCoreData(actionId: string): Promise<{
     id: string;
@@ -1719,13 +2274,19 @@ export class ActionsService {
     description?: string;
     vision?: string;
     done: boolean;
+    status: ActionStatus;
     version: number | null;
+    priority: ActionPriority | null;
+    effort: ActionEffort | null;
+    impact: ActionImpact | null;
+    start_date: string | null;
+    due_date: string | null;
     created_at: string;
     updated_at: string;
     completion_context?: DependencyCompletionContext;
   }> {
     // Get the basic action data
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       throw new Error(`Action with ID ${actionId} not found`);
     }
@@ -1738,7 +2299,7 @@ export class ActionsService {
       const completionResult = await getDb()
         .select()
         .from(completionContexts)
-        .where(eq(completionContexts.actionId, actionId))
+        .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
         .limit(1);
       
       if (completionResult.length > 0) {
@@ -1765,7 +2326,13 @@ export class ActionsService {
       description: action.description || action.data?.description,
       vision: action.vision || action.data?.vision,
       done: action.done,
+      status: resolveStatus(action),
       version: action.version,
+      priority: action.priority ?? null,
+      effort: action.effort ?? null,
+      impact: action.impact ?? null,
+      start_date: action.startDate ?? null,
+      due_date: action.dueDate ?? null,
       created_at: action.createdAt.toISOString(),
       updated_at: action.updatedAt.toISOString(),
       completion_context: completionContext,
@@ -1773,74 +2340,11 @@ export class ActionsService {
   }
 
 
+  /**
+   * Actions ready to be picked up, ranked by priority, impact, effort and dependency fan-out
+   */
   static async getUnblockedActions(limit: number = 50): Promise<Action[]> {
-    // Get all incomplete actions
-    const openActions = await getDb()
-      .select()
-      .from(actions)
-      .where(eq(actions.done, false))
-      .orderBy(desc(actions.updatedAt))
-      .limit(limit * 3); // Get more than needed to account for filtering
-
-    const unblockedActions: Action[] = [];
-
-    for (const action of openActions) {
-      // Check if all dependencies are met
-      if (!(await dependenciesMet(action.id))) {
-        continue;
-      }
-
-      // Check if this is a leaf node (no incomplete children)
-      const childEdgesResult = await getDb()
-        .select()
-        .from(edges)
-        .where(and(eq(edges.src, action.id), eq(edges.kind, "family")));
-      const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
-      
-      if (childEdges.length === 0) {
-        // No children, this is a leaf node
-        unblockedActions.push({
-          id: action.id,
-          data: action.data as { title: string },
-          done: action.done,
-          version: action.version,
-          createdAt: action.createdAt.toISOString(),
-          updatedAt: action.updatedAt.toISOString(),
-        });
-        
-        if (unblockedActions.length >= limit) {
-          break;
-        }
-      } else {
-        // Has children - check if all are done
-        const childIds = childEdges.map(e => e.dst).filter((id): id is string => id !== null);
-        if (childIds.length > 0) {
-          const children = await getDb()
-            .select()
-            .from(actions)
-            .where(inArray(actions.id, childIds));
-          
-          const allChildrenDone = children.every((child: any) => child.done);
-          if (allChildrenDone) {
-            // All children are done, so this parent is unblocked
-            unblockedActions.push({
-              id: action.id,
-              data: action.data as { title: string },
-              done: action.done,
-              version: action.version,
-              createdAt: action.createdAt.toISOString(),
-              updatedAt: action.updatedAt.toISOString(),
-            });
-            
-            if (unblockedActions.length >= limit) {
-              break;
-            }
-          }
-        }
-      }
-    }
-
-    return unblockedActions;
+    return getUnblockedActionsOptimized(limit);
   }
 
 
@@ -1993,7 +2497,7 @@ export class ActionsService {
     const { action_id, max_suggestions = 5, include_reasoning = true, custom_context } = params;
 
     // Get the action details
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, action_id)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       throw new Error(`Action with ID ${action_id} not found`);
     }
@@ -2202,7 +2706,7 @@ async function generateNodeSummaryAsync(actionId: string, actionData: any): Prom
 async function generateSubtreeSummaryAsync(actionId: string): Promise<void> {
   try {
     // Get the action details and children
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       console.log(`Action ${actionId} not found, skipping subtree summary generation`);
       return;
@@ -2213,7 +2717,7 @@ async function generateSubtreeSummaryAsync(actionId: string): Promise<void> {
 
     // Get children to check if this action needs a subtree summary
     const childEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "family"))
+      and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))
     );
     const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
     
@@ -2224,7 +2728,7 @@ async function generateSubtreeSummaryAsync(actionId: string): Promise<void> {
 
     // Get children details
     const memberIds = childEdges.map(edge => edge.dst).filter((id): id is string => id !== null);
-    const childrenResult = await getDb().select().from(actions).where(inArray(actions.id, memberIds));
+    const childrenResult = await getDb().select().from(actions).where(and(inArray(actions.id, memberIds), inOrganization(actions)));
     const children = Array.isArray(childrenResult) ? childrenResult : [];
 
     const subtreeSummaryInput = {
@@ -2234,7 +2738,8 @@ async function generateSubtreeSummaryAsync(actionId: string): Promise<void> {
       children: children.map(child => ({
         title: (child.data as any)?.title || 'Untitled',
         description: (child.data as any)?.description,
-        done: Boolean(child.done)
+        done: Boolean(child.done),
+        status: resolveStatus(child)
       }))
     };
 
@@ -2256,7 +2761,7 @@ async function generateSubtreeSummaryAsync(actionId: string): Promise<void> {
 async function generateFamilySummariesAsync(actionId: string): Promise<void> {
   try {
     // Get the action details
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       console.log(`Action ${actionId} not found, skipping family summaries generation`);
       return;
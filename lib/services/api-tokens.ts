@@ -0,0 +1,210 @@
+// Personal API tokens, created and revoked from /settings/tokens. Unlike OAuth tokens they don't expire unless asked to,
+// carry explicit scopes and can be limited to one action subtree - e.g. a CI agent that only works on one project.
+// Only a SHA-256 hash of each token is stored; the raw token is shown once, when it is created.
+
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { actions, apiTokens, memberships } from '../../db/schema';
+import { getOrganizationContext, inOrganization } from '../db/organization-context';
+import { PermissionDeniedError, isInSubtree } from './permissions';
+import { generateSecret, hashToken } from './oauth';
+import {
+  TOKEN_SCOPES,
+  hasRole,
+  isTokenScope,
+  lowerRole,
+  roleForScopes,
+  scopesForRole,
+  type OrganizationRole,
+  type TokenScope,
+} from '../utils/organization-roles';
+
+export const API_TOKEN_PREFIX = 'mcp_pat_';
+export const MAX_API_TOKEN_NAME_LENGTH = 100;
+
+// Enough of the token to tell tokens apart in the settings page without making it guessable
+const DISPLAYED_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: TokenScope[];
+  root_action_id: string | null;
+  user_id: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreatedApiToken extends ApiToken {
+  token: string; // The raw token - never stored, so it can't be shown again
+}
+
+export interface ApiTokenInfo {
+  token_id: string;
+  organization_id: string;
+  user_id: string | null;
+  role: OrganizationRole; // The lower of the creator's current role and the token's scopes
+  scopes: TokenScope[];
+  root_action_id: string | null;
+}
+
+export interface CreateApiTokenParams {
+  name: string;
+  scopes: TokenScope[];
+  root_action_id?: string | null;
+  expires_in_days?: number | null;
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+function toApiToken(row: typeof apiTokens.$inferSelect): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    token_prefix: row.tokenPrefix,
+    scopes: row.scopes,
+    root_action_id: row.rootActionId ?? null,
+    user_id: row.userId ?? null,
+    expires_at: row.expiresAt?.toISOString() ?? null,
+    last_used_at: row.lastUsedAt?.toISOString() ?? null,
+    revoked_at: row.revokedAt?.toISOString() ?? null,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+// Tokens the caller may see and revoke: admins manage every token in the organization, everyone else their own
+function visibleTokens() {
+  const { role, userId } = getOrganizationContext();
+  if (hasRole(role, 'admin')) {
+    return inOrganization(apiTokens);
+  }
+  return and(inOrganization(apiTokens), userId ? eq(apiTokens.userId, userId) : isNull(apiTokens.userId));
+}
+
+export class ApiTokensService {
+  /**
+   * Create a token for the caller in the caller's organization. Scopes can't exceed the caller's role, and a caller
+   * that is itself limited to a subtree can only create tokens for (part of) that subtree.
+   */
+  static async create(params: CreateApiTokenParams): Promise<CreatedApiToken> {
+    const context = getOrganizationContext();
+
+    const name = params.name?.trim();
+    if (!name) {
+      throw new Error('Token name is required');
+    }
+    if (name.length > MAX_API_TOKEN_NAME_LENGTH) {
+      throw new Error(`Token name must be at most ${MAX_API_TOKEN_NAME_LENGTH} characters`);
+    }
+
+    if (!Array.isArray(params.scopes) || params.scopes.length === 0) {
+      throw new Error(`Choose at least one scope: ${TOKEN_SCOPES.join(', ')}`);
+    }
+    const invalid = params.scopes.filter(scope => !isTokenScope(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scope: ${invalid.join(', ')} - scopes are ${TOKEN_SCOPES.join(', ')}`);
+    }
+    // Scopes are cumulative: write includes read, admin includes both
+    const tokenRole = roleForScopes(params.scopes);
+    if (!hasRole(context.role, tokenRole) || !params.scopes.every(scope => context.scopes.includes(scope))) {
+      throw new PermissionDeniedError(`Creating a token with the ${params.scopes.join(', ')} scopes requires the ${tokenRole} role or higher - you have the ${context.role} role`);
+    }
+    const scopes = scopesForRole(tokenRole);
+
+    const rootActionId = params.root_action_id || context.rootActionId || null;
+    if (rootActionId) {
+      const [root] = await getDb()
+        .select({ id: actions.id })
+        .from(actions)
+        .where(and(eq(actions.id, rootActionId), inOrganization(actions)))
+        .limit(1);
+      if (!root) {
+        throw new Error(`Action with ID ${rootActionId} not found`);
+      }
+      if (context.rootActionId && !(await isInSubtree(rootActionId, context.rootActionId))) {
+        throw new PermissionDeniedError(`This token is limited to action ${context.rootActionId} and its descendants - it can't create tokens for ${rootActionId}`);
+      }
+    }
+
+    let expiresAt: Date | null = null;
+    if (params.expires_in_days != null) {
+      if (!Number.isInteger(params.expires_in_days) || params.expires_in_days < 1) {
+        throw new Error('expires_in_days must be a whole number of days, at least 1');
+      }
+      expiresAt = new Date(Date.now() + params.expires_in_days * 24 * 60 * 60 * 1000);
+    }
+
+    const token = generateSecret(API_TOKEN_PREFIX);
+    const [row] = await getDb()
+      .insert(apiTokens)
+      .values({
+        organizationId: context.organizationId,
+        userId: context.userId ?? null,
+        name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, DISPLAYED_PREFIX_LENGTH),
+        scopes,
+        rootActionId,
+        expiresAt,
+      })
+      .returning();
+
+    return { ...toApiToken(row), token };
+  }
+
+  static async list(): Promise<ApiToken[]> {
+    const rows = await getDb().select().from(apiTokens).where(visibleTokens()).orderBy(desc(apiTokens.createdAt));
+    return rows.map(toApiToken);
+  }
+
+  static async revoke(id: string): Promise<ApiToken> {
+    const [row] = await getDb()
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt), visibleTokens()))
+      .returning();
+    if (!row) {
+      throw new Error(`API token with ID ${id} not found`);
+    }
+    return toApiToken(row);
+  }
+
+  /**
+   * Look up a live (unexpired, unrevoked) token. Tokens of users who have since left the organization are rejected,
+   * and a token never grants more than its creator's current role.
+   */
+  static async verify(token: string): Promise<ApiTokenInfo | null> {
+    if (!isApiToken(token)) return null;
+
+    const [result] = await getDb()
+      .select({ token: apiTokens, role: memberships.role })
+      .from(apiTokens)
+      .leftJoin(memberships, and(
+        eq(memberships.userId, apiTokens.userId),
+        eq(memberships.organizationId, apiTokens.organizationId)
+      ))
+      .where(and(eq(apiTokens.tokenHash, hashToken(token)), isNull(apiTokens.revokedAt)))
+      .limit(1);
+    if (!result) return null;
+    const row = result.token;
+    if (row.expiresAt && row.expiresAt <= new Date()) return null;
+    if (row.userId && !result.role) return null;
+
+    await getDb().update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, row.id));
+
+    const role = lowerRole(row.userId ? result.role : 'owner', roleForScopes(row.scopes));
+    return {
+      token_id: row.id,
+      organization_id: row.organizationId,
+      user_id: row.userId ?? null,
+      role,
+      scopes: scopesForRole(role),
+      root_action_id: row.rootActionId ?? null,
+    };
+  }
+}
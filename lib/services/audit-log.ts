@@ -0,0 +1,161 @@
+// Audit log: who made each change through ActionsService - create, update, complete, uncomplete, reparent, dependency
+// and tag changes, delete and restore. Unlike the work log, which agents write in their own words, every entry is
+// recorded by the service itself and attributed to the user, API token, OAuth client and MCP session behind the call.
+
+import { and, count, desc, eq, gte, lte, or, type SQL } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { getOrganizationContext, inOrganization } from '../db/organization-context';
+import { auditLog } from '../../db/schema';
+import type { RevisionActor, RevisionChangeType, RevisionChanges } from './action-history';
+
+type AuditLogSelect = typeof auditLog.$inferSelect;
+
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 500;
+
+export interface AuditActor {
+  user_id: string | null;
+  api_token_id: string | null;
+  client_id: string | null;
+  agent_id: string | null;
+  author: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  action_id: string;
+  operation: string;
+  changes: RevisionChanges;
+  actor: AuditActor;
+  created_at: string;
+}
+
+export interface RecordAuditParams {
+  actionId: string;
+  operation: RevisionChangeType;
+  changes: RevisionChanges;
+  actor?: RevisionActor;
+}
+
+export interface AuditLogFilters {
+  actor?: string; // Matches a user ID, API token ID, OAuth client ID, MCP session ID or author
+  action_id?: string;
+  operation?: string;
+  since?: string; // ISO 8601 timestamps, inclusive
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogResource {
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toAuditEntry(row: AuditLogSelect): AuditEntry {
+  return {
+    id: row.id,
+    action_id: row.actionId,
+    operation: row.operation,
+    changes: row.changes || {},
+    actor: {
+      user_id: row.userId ?? null,
+      api_token_id: row.apiTokenId ?? null,
+      client_id: row.clientId ?? null,
+      agent_id: row.agentId ?? null,
+      author: row.author ?? null,
+    },
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function parseTimestamp(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: "${value}" - expected an ISO 8601 date or timestamp`);
+  }
+  return date;
+}
+
+export class AuditLogService {
+  /**
+   * Record a mutation in the current organization, attributed to whoever the request runs as
+   */
+  static async record(params: RecordAuditParams): Promise<void> {
+    const context = getOrganizationContext();
+    await getDb().insert(auditLog).values({
+      organizationId: context.organizationId,
+      actionId: params.actionId,
+      operation: params.operation,
+      changes: params.changes,
+      userId: context.userId ?? null,
+      apiTokenId: context.apiTokenId ?? null,
+      clientId: context.clientId ?? null,
+      agentId: params.actor?.agent_id ?? null,
+      author: params.actor?.author ?? null,
+    });
+  }
+
+  /**
+   * Entries in the current organization matching every given filter, newest first
+   */
+  static async query(filters: AuditLogFilters = {}): Promise<AuditLogResource> {
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    const conditions: SQL[] = [inOrganization(auditLog)];
+    if (filters.actor) {
+      // User and token IDs are uuid columns, which can't be compared with arbitrary text
+      const uuidMatches = UUID_PATTERN.test(filters.actor)
+        ? [eq(auditLog.userId, filters.actor), eq(auditLog.apiTokenId, filters.actor)]
+        : [];
+      conditions.push(or(
+        ...uuidMatches,
+        eq(auditLog.clientId, filters.actor),
+        eq(auditLog.agentId, filters.actor),
+        eq(auditLog.author, filters.actor)
+      )!);
+    }
+    if (filters.action_id) {
+      if (!UUID_PATTERN.test(filters.action_id)) {
+        throw new Error(`Invalid action_id: "${filters.action_id}" - expected a UUID`);
+      }
+      conditions.push(eq(auditLog.actionId, filters.action_id));
+    }
+    if (filters.operation) {
+      conditions.push(eq(auditLog.operation, filters.operation));
+    }
+    if (filters.since) {
+      conditions.push(gte(auditLog.createdAt, parseTimestamp('since', filters.since)));
+    }
+    if (filters.until) {
+      conditions.push(lte(auditLog.createdAt, parseTimestamp('until', filters.until)));
+    }
+    const condition = and(...conditions);
+
+    const [rows, totalResult] = await Promise.all([
+      getDb()
+        .select()
+        .from(auditLog)
+        .where(condition)
+        .orderBy(desc(auditLog.createdAt))
+        .limit(limit)
+        .offset(offset),
+      getDb()
+        .select({ count: count() })
+        .from(auditLog)
+        .where(condition),
+    ]);
+
+    return {
+      entries: rows.map(toAuditEntry),
+      total: Number(totalResult[0]?.count ?? 0),
+      limit,
+      offset,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { eq, and, inArray, sql } from "drizzle-orm";
 import { actions, edges } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { getOrganizationId } from "../db/organization-context";
 
 export interface BlockingDependency {
   blockingActionId: string;
@@ -20,6 +21,7 @@ export interface BlockingDependency {
 export async function getBlockingDependencies(): Promise<BlockingDependency[]> {
   console.log('[BLOCKING-DEPS] Starting analysis');
   const startTime = Date.now();
+  const organizationId = getOrganizationId();
 
   // Single query to get all blocking dependencies
   const query = sql`
@@ -34,8 +36,9 @@ export async function getBlockingDependencies(): Promise<BlockingDependency[]> {
       JOIN ${actions} dep ON dep.id = e.src
       JOIN ${actions} blocked ON blocked.id = e.dst
       WHERE e.kind = 'depends_on'
-        AND dep.done = false
-        AND blocked.done = false
+        AND e.organization_id = ${organizationId}
+        AND dep.status NOT IN ('done', 'cancelled')
+        AND blocked.status NOT IN ('done', 'cancelled')
     )
     SELECT 
       blocking_id,
@@ -76,6 +79,7 @@ export async function getBlockingDependencies(): Promise<BlockingDependency[]> {
 export async function getActionsWithNoDependencies(): Promise<any[]> {
   console.log('[NO-DEPS] Starting query');
   const startTime = Date.now();
+  const organizationId = getOrganizationId();
 
   const query = sql`
     WITH has_incomplete_deps AS (
@@ -83,17 +87,20 @@ export async function getActionsWithNoDependencies(): Promise<any[]> {
       FROM ${edges} e
       JOIN ${actions} dep ON dep.id = e.src
       WHERE e.kind = 'depends_on'
-        AND dep.done = false
+        AND e.organization_id = ${organizationId}
+        AND dep.status NOT IN ('done', 'cancelled')
     )
     SELECT 
       a.id,
       a.data,
       a.done,
+      a.status,
       a.version,
       a.created_at,
       a.updated_at
     FROM ${actions} a
-    WHERE a.done = false
+    WHERE a.status IN ('todo', 'in_progress')
+      AND a.organization_id = ${organizationId}
       AND a.id NOT IN (SELECT action_id FROM has_incomplete_deps)
     ORDER BY a.updated_at DESC
   `;
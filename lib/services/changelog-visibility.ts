@@ -0,0 +1,88 @@
+// Who may see a completed action's changelog entry - its done page, OG image, /api/changelog entry and feed item.
+// `completion_contexts.changelog_visibility` is one of:
+//   public  - anyone, signed in or not, so finished work can be shared
+//   team    - members of the action's organization, any role
+//   private - members of the action's organization who can change its work (member role or higher)
+// Everyone else gets a 404, exactly as if the action didn't exist.
+
+import { and, eq, or, type SQL } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { completionContexts } from '../../db/schema';
+import { getOrganizationId, type OrganizationContext } from '../db/organization-context';
+import type { ActionDetailResource, DependencyCompletionContext } from '../types/resources';
+import { hasRole } from '../utils/organization-roles';
+
+export const CHANGELOG_VISIBILITIES = ['private', 'team', 'public'] as const;
+
+export type ChangelogVisibility = typeof CHANGELOG_VISIBILITIES[number];
+
+// Null for anonymous viewers; see resolveViewer in lib/mcp/auth.ts
+export type Viewer = OrganizationContext | null;
+
+export function canViewChangelog(item: { organizationId: string; changelogVisibility: string }, viewer: Viewer): boolean {
+  if (item.changelogVisibility === 'public') return true;
+  if (!viewer || viewer.organizationId !== item.organizationId) return false;
+  if (item.changelogVisibility === 'team') return true;
+  // Private, or a value we don't recognise
+  return hasRole(viewer.role, 'member');
+}
+
+/**
+ * Condition on completion_contexts for listing the entries `viewer` may see: their own organization's entries
+ * (without private ones for viewers), or every public entry for anonymous viewers
+ */
+export function visibleChangelogCondition(viewer: Viewer): SQL {
+  if (!viewer) {
+    return eq(completionContexts.changelogVisibility, 'public');
+  }
+  const sameOrganization = eq(completionContexts.organizationId, viewer.organizationId);
+  if (hasRole(viewer.role, 'member')) {
+    return sameOrganization;
+  }
+  return and(sameOrganization, or(
+    eq(completionContexts.changelogVisibility, 'public'),
+    eq(completionContexts.changelogVisibility, 'team')
+  ))!;
+}
+
+/**
+ * Look up the organization of the action's changelog entry across all organizations, or null if the entry doesn't
+ * exist or `viewer` may not see it
+ */
+export async function getVisibleChangelogOrganization(actionId: string, viewer: Viewer): Promise<string | null> {
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(actionId)) return null;
+
+  const [item] = await getDb()
+    .select({ organizationId: completionContexts.organizationId, changelogVisibility: completionContexts.changelogVisibility })
+    .from(completionContexts)
+    .where(eq(completionContexts.actionId, actionId))
+    .limit(1);
+  return item && canViewChangelog(item, viewer) ? item.organizationId : null;
+}
+
+/**
+ * Organization context for reading an entry the viewer may see: the viewer's own when it is their organization,
+ * otherwise a read-only one for the entry's organization (public entries shared with outsiders)
+ */
+export function changelogReaderContext(organizationId: string, viewer: Viewer): OrganizationContext {
+  if (viewer && viewer.organizationId === organizationId) {
+    return viewer;
+  }
+  return { organizationId, userId: viewer?.userId ?? null, role: 'viewer', scopes: ['read'], rootActionId: null };
+}
+
+/**
+ * The action with the completion contexts - its own and its dependencies' - that `viewer` may not see removed.
+ * The action belongs to the current organization, as do its dependencies.
+ */
+export function withVisibleCompletionContexts<T extends ActionDetailResource>(action: T, viewer: Viewer): T {
+  const organizationId = getOrganizationId();
+  const visible = (context: DependencyCompletionContext) =>
+    canViewChangelog({ organizationId, changelogVisibility: context.changelog_visibility }, viewer);
+
+  return {
+    ...action,
+    completion_context: action.completion_context && visible(action.completion_context) ? action.completion_context : undefined,
+    dependency_completion_context: action.dependency_completion_context.filter(visible),
+  };
+}
@@ -0,0 +1,159 @@
+import { eq, and, gt, lte, or, inArray } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
+import { actions, actionClaims } from '../../db/schema';
+import { isClosedStatus, resolveStatus } from '../utils/action-status';
+
+const DEFAULT_CLAIM_TTL_MINUTES = 30;
+export const MAX_CLAIM_TTL_MINUTES = 24 * 60;
+const MAX_CLAIM_ATTEMPTS = 3;
+
+export interface ActionClaim {
+  action_id: string;
+  session_id: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+export interface ClaimActionParams {
+  action_id: string;
+  session_id: string;
+  ttl_minutes?: number;
+}
+
+export interface ReleaseActionParams {
+  action_id: string;
+  session_id: string;
+}
+
+export interface ReleaseActionResult {
+  action_id: string;
+  released: boolean; // false when the session held no claim on the action
+}
+
+/**
+ * Thrown when an action is already leased to a different session.
+ * The holder's claim is included so callers can report when it frees up.
+ */
+export class ClaimConflictError extends Error {
+  readonly code = 'CLAIM_CONFLICT';
+
+  constructor(readonly claim: ActionClaim) {
+    super(`Action ${claim.action_id} is already claimed by session ${claim.session_id} until ${claim.expires_at}`);
+    this.name = 'ClaimConflictError';
+  }
+}
+
+/**
+ * Default lease length, from CLAIM_TTL_MINUTES (default 30)
+ */
+export function getClaimTtlMinutes(): number {
+  const configured = parseInt(process.env.CLAIM_TTL_MINUTES || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? Math.min(configured, MAX_CLAIM_TTL_MINUTES) : DEFAULT_CLAIM_TTL_MINUTES;
+}
+
+function toActionClaim(row: typeof actionClaims.$inferSelect): ActionClaim {
+  return {
+    action_id: row.actionId,
+    session_id: row.sessionId,
+    claimed_at: row.claimedAt.toISOString(),
+    expires_at: row.expiresAt.toISOString(),
+  };
+}
+
+export class ClaimsService {
+  /**
+   * Lease an action to a session. Claiming an action you already hold renews the lease;
+   * claiming one held by another session fails until that lease is released or expires.
+   */
+  static async claimAction(params: ClaimActionParams): Promise<ActionClaim> {
+    const { action_id, session_id } = params;
+    const ttlMinutes = Math.min(Math.max(params.ttl_minutes ?? getClaimTtlMinutes(), 1), MAX_CLAIM_TTL_MINUTES);
+
+    const existing = await getDb().select().from(actions).where(and(eq(actions.id, action_id), inOrganization(actions))).limit(1);
+    if (existing.length === 0) {
+      throw new Error(`Action with ID ${action_id} not found`);
+    }
+    const status = resolveStatus(existing[0]);
+    if (isClosedStatus(status)) {
+      throw new Error(`Action with ID ${action_id} is ${status} and cannot be claimed`);
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000);
+
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      // Take the lease only if it's free, expired or already ours - a single statement so two agents can't both win
+      const claimed = await getDb()
+        .insert(actionClaims)
+        .values({ actionId: action_id, sessionId: session_id, claimedAt: now, expiresAt })
+        .onConflictDoUpdate({
+          target: actionClaims.actionId,
+          set: {
+            sessionId: session_id,
+            claimedAt: now,
+            expiresAt,
+          },
+          setWhere: or(eq(actionClaims.sessionId, session_id), lte(actionClaims.expiresAt, now)),
+        })
+        .returning();
+
+      if (claimed.length > 0) {
+        return toActionClaim(claimed[0]);
+      }
+
+      const [holder] = await getDb().select().from(actionClaims).where(eq(actionClaims.actionId, action_id)).limit(1);
+      if (holder) {
+        throw new ClaimConflictError(toActionClaim(holder));
+      }
+      // The holder released its lease between the two statements, so it's free now - try again
+    }
+
+    throw new Error(`Could not claim action ${action_id}: its lease kept changing hands, try again`);
+  }
+
+  /**
+   * Give up a session's lease on an action
+   */
+  static async releaseAction(params: ReleaseActionParams): Promise<ReleaseActionResult> {
+    const { action_id, session_id } = params;
+
+    const [current] = await getDb().select().from(actionClaims).where(eq(actionClaims.actionId, action_id)).limit(1);
+    if (current && current.sessionId !== session_id && current.expiresAt > new Date()) {
+      throw new ClaimConflictError(toActionClaim(current));
+    }
+
+    const released = await getDb()
+      .delete(actionClaims)
+      .where(and(eq(actionClaims.actionId, action_id), eq(actionClaims.sessionId, session_id)))
+      .returning({ actionId: actionClaims.actionId });
+
+    return { action_id, released: released.length > 0 };
+  }
+
+  /**
+   * Live (unexpired) claims, optionally limited to the given actions
+   */
+  static async getActiveClaims(actionIds?: string[]): Promise<Map<string, ActionClaim>> {
+    if (actionIds && actionIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await getDb()
+      .select()
+      .from(actionClaims)
+      .where(and(
+        gt(actionClaims.expiresAt, new Date()),
+        actionIds ? inArray(actionClaims.actionId, actionIds) : undefined
+      ));
+
+    return new Map(rows.map((row: typeof actionClaims.$inferSelect) => [row.actionId, toActionClaim(row)]));
+  }
+
+  /**
+   * Drop every claim on an action, e.g. once it is done or cancelled
+   */
+  static async clearClaims(actionId: string): Promise<void> {
+    await getDb().delete(actionClaims).where(eq(actionClaims.actionId, actionId));
+  }
+}
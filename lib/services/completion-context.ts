@@ -1,6 +1,8 @@
-import { eq, desc } from "drizzle-orm";
+import { and, eq, desc } from "drizzle-orm";
 import { completionContexts, completionContextSchema, type CompletionContext, type TemplateContent } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { getOrganizationId, inOrganization } from "../db/organization-context";
+import { visibleChangelogCondition, type Viewer } from "./changelog-visibility";
 
 export interface CreateCompletionContextParams {
   actionId: string;
@@ -185,7 +187,7 @@ export class CompletionContextService {
     const existing = await getDb()
       .select()
       .from(completionContexts)
-      .where(eq(completionContexts.actionId, actionId))
+      .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
       .limit(1);
     
     if (existing.length > 0) {
@@ -195,6 +197,7 @@ export class CompletionContextService {
     const newContext = await getDb()
       .insert(completionContexts)
       .values({
+        organizationId: getOrganizationId(),
         id: crypto.randomUUID(),
         actionId,
         implementationStory,
@@ -230,7 +233,7 @@ export class CompletionContextService {
     const existing = await getDb()
       .select()
       .from(completionContexts)
-      .where(eq(completionContexts.actionId, actionId))
+      .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
       .limit(1);
     
     if (existing.length > 0) {
@@ -256,7 +259,7 @@ export class CompletionContextService {
       const updatedContext = await getDb()
         .update(completionContexts)
         .set(updateData)
-        .where(eq(completionContexts.actionId, actionId))
+        .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
         .returning();
 
       return updatedContext[0];
@@ -273,7 +276,7 @@ export class CompletionContextService {
     const result = await getDb()
       .select()
       .from(completionContexts)
-      .where(eq(completionContexts.actionId, actionId))
+      .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
       .limit(1);
 
     return result.length > 0 ? result[0] : null;
@@ -298,7 +301,7 @@ export class CompletionContextService {
         ...(templateContent !== undefined && { templateContent }),
         ...(gitContext !== undefined && { gitContext }),
       })
-      .where(eq(completionContexts.actionId, actionId))
+      .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
       .returning();
 
     return updatedContext.length > 0 ? updatedContext[0] : null;
@@ -310,7 +313,7 @@ export class CompletionContextService {
   static async deleteCompletionContext(actionId: string) {
     const deletedContext = await getDb()
       .delete(completionContexts)
-      .where(eq(completionContexts.actionId, actionId))
+      .where(and(eq(completionContexts.actionId, actionId), inOrganization(completionContexts)))
       .returning();
 
     return deletedContext.length > 0 ? deletedContext[0] : null;
@@ -323,16 +326,17 @@ export class CompletionContextService {
     limit?: number;
     offset?: number;
     visibility?: string;
+    visibleTo?: Viewer; // Only the entries this viewer may see, instead of all of the current organization's
   } = {}) {
-    const { limit = 20, offset = 0, visibility } = params;
+    const { limit = 20, offset = 0, visibility, visibleTo } = params;
+    const scope = visibleTo !== undefined ? visibleChangelogCondition(visibleTo) : inOrganization(completionContexts);
     
-    let query = getDb()
+    const query = getDb()
       .select()
-      .from(completionContexts);
-    
-    if (visibility) {
-      query = query.where(eq(completionContexts.changelogVisibility, visibility)) as any;
-    }
+      .from(completionContexts)
+      .where(visibility
+        ? and(scope, eq(completionContexts.changelogVisibility, visibility))
+        : scope);
     
     const contexts = await query
       .limit(limit)
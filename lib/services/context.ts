@@ -1,7 +1,9 @@
 import { eq, and, inArray } from "drizzle-orm";
 import { actions, edges } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { inOrganization } from "../db/organization-context";
 import { ActionMetadata, RelationshipFlags } from "../types/resources";
+import { resolveStatus } from "../utils/action-status";
 
 export interface ActionRelationships {
   ancestors: ActionMetadata[];
@@ -30,13 +32,14 @@ export class ContextService {
       description: action.description || action.data?.description,
       vision: action.vision || action.data?.vision,
       done: action.done,
+      status: resolveStatus(action),
       version: action.version,
       created_at: action.createdAt.toISOString(),
       updated_at: action.updatedAt.toISOString(),
     });
 
     // Get the focal action
-    const actionResult = await getDb().select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const actionResult = await getDb().select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     if (actionResult.length === 0) {
       throw new Error(`Action with ID ${actionId} not found`);
     }
@@ -44,7 +47,7 @@ export class ContextService {
 
     // Get parent relationship
     const parentEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.dst, actionId), eq(edges.kind, "family"))
+      and(eq(edges.dst, actionId), eq(edges.kind, "family"), inOrganization(edges))
     );
     const parentEdges = Array.isArray(parentEdgesResult) ? parentEdgesResult : [];
     const parentId = parentEdges.length > 0 ? parentEdges[0].src : undefined;
@@ -54,7 +57,7 @@ export class ContextService {
     let currentParentId = parentId;
     
     while (currentParentId) {
-      const parentAction = await getDb().select().from(actions).where(eq(actions.id, currentParentId)).limit(1);
+      const parentAction = await getDb().select().from(actions).where(and(eq(actions.id, currentParentId), inOrganization(actions))).limit(1);
       
       if (parentAction.length === 0) break;
       
@@ -62,7 +65,7 @@ export class ContextService {
       
       // Find the next parent
       const nextParentEdgesResult = await getDb().select().from(edges).where(
-        and(eq(edges.dst, currentParentId), eq(edges.kind, "family"))
+        and(eq(edges.dst, currentParentId), eq(edges.kind, "family"), inOrganization(edges))
       );
       const nextParentEdges = Array.isArray(nextParentEdgesResult) ? nextParentEdgesResult : [];
       currentParentId = nextParentEdges.length > 0 ? nextParentEdges[0].src : undefined;
@@ -70,39 +73,39 @@ export class ContextService {
 
     // Get children (direct children only)
     const childEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "family"))
+      and(eq(edges.src, actionId), eq(edges.kind, "family"), inOrganization(edges))
     );
     const childEdges = Array.isArray(childEdgesResult) ? childEdgesResult : [];
     const childIds = childEdges.map((edge: any) => edge.dst).filter((id: any): id is string => id !== null);
     const children = childIds.length > 0 
-      ? (await getDb().select().from(actions).where(inArray(actions.id, childIds))).map(toActionMetadata)
+      ? (await getDb().select().from(actions).where(and(inArray(actions.id, childIds), inOrganization(actions)))).map(toActionMetadata)
       : [];
 
     // Get dependencies (actions this depends on)
     const dependencyEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"))
+      and(eq(edges.dst, actionId), eq(edges.kind, "depends_on"), inOrganization(edges))
     );
     const dependencyEdges = Array.isArray(dependencyEdgesResult) ? dependencyEdgesResult : [];
     const dependencyIds = dependencyEdges.map((edge: any) => edge.src).filter((id: any): id is string => id !== null);
     const dependencies = dependencyIds.length > 0 
-      ? (await getDb().select().from(actions).where(inArray(actions.id, dependencyIds))).map(toActionMetadata)
+      ? (await getDb().select().from(actions).where(and(inArray(actions.id, dependencyIds), inOrganization(actions)))).map(toActionMetadata)
       : [];
 
     // Get dependents (actions that depend on this)
     const dependentEdgesResult = await getDb().select().from(edges).where(
-      and(eq(edges.src, actionId), eq(edges.kind, "depends_on"))
+      and(eq(edges.src, actionId), eq(edges.kind, "depends_on"), inOrganization(edges))
     );
     const dependentEdges = Array.isArray(dependentEdgesResult) ? dependentEdgesResult : [];
     const dependentIds = dependentEdges.map((edge: any) => edge.dst).filter((id: any): id is string => id !== null);
     const dependents = dependentIds.length > 0 
-      ? (await getDb().select().from(actions).where(inArray(actions.id, dependentIds))).map(toActionMetadata)
+      ? (await getDb().select().from(actions).where(and(inArray(actions.id, dependentIds), inOrganization(actions)))).map(toActionMetadata)
       : [];
 
     // Get siblings (same-parent actions, excluding current action)
     const siblings: ActionMetadata[] = [];
     if (parentId) {
       const siblingEdgesResult = await getDb().select().from(edges).where(
-        and(eq(edges.src, parentId), eq(edges.kind, "family"))
+        and(eq(edges.src, parentId), eq(edges.kind, "family"), inOrganization(edges))
       );
       const siblingEdges = Array.isArray(siblingEdgesResult) ? siblingEdgesResult : [];
       const siblingIds = siblingEdges
@@ -110,7 +113,7 @@ export class ContextService {
         .filter((id: any): id is string => id !== null && id !== actionId); // Exclude current action
       
       if (siblingIds.length > 0) {
-        siblings.push(...(await getDb().select().from(actions).where(inArray(actions.id, siblingIds))).map(toActionMetadata));
+        siblings.push(...(await getDb().select().from(actions).where(and(inArray(actions.id, siblingIds), inOrganization(actions)))).map(toActionMetadata));
       }
     }
 
@@ -1,7 +1,9 @@
 import { eq, and, inArray } from "drizzle-orm";
 import { actions, edges, completionContexts } from "../../db/schema";
 import { getDb } from "../db/adapter";
+import { inOrganization } from "../db/organization-context";
 import { DependencyCompletion, SiblingContext } from "./editorial-ai";
+import { isClosedStatus, resolveStatus } from "../utils/action-status";
 
 export class EnhancedContextService {
   /**
@@ -15,7 +17,8 @@ export class EnhancedContextService {
         .from(edges)
         .where(and(
           eq(edges.dst, actionId),
-          eq(edges.kind, 'depends_on')
+          eq(edges.kind, 'depends_on'),
+          inOrganization(edges)
         ));
 
       if (dependencyEdges.length === 0) {
@@ -34,7 +37,8 @@ export class EnhancedContextService {
         .leftJoin(completionContexts, eq(completionContexts.actionId, actions.id))
         .where(and(
           inArray(actions.id, depIds),
-          eq(actions.done, true)
+          eq(actions.done, true),
+          inOrganization(actions)
         ));
 
       // Enhance each dependency with full context
@@ -77,7 +81,8 @@ export class EnhancedContextService {
         .from(edges)
         .where(and(
           eq(edges.dst, actionId),
-          eq(edges.kind, 'family')
+          eq(edges.kind, 'family'),
+          inOrganization(edges)
         ));
 
       if (familyEdges.length === 0) {
@@ -95,7 +100,8 @@ export class EnhancedContextService {
         .from(edges)
         .where(and(
           eq(edges.src, parentId),
-          eq(edges.kind, 'family')
+          eq(edges.kind, 'family'),
+          inOrganization(edges)
         ));
 
       const siblingIds = siblingEdges
@@ -115,7 +121,7 @@ export class EnhancedContextService {
         })
         .from(actions)
         .leftJoin(completionContexts, eq(completionContexts.actionId, actions.id))
-        .where(inArray(actions.id, siblingIds));
+        .where(and(inArray(actions.id, siblingIds), inOrganization(actions)));
 
       const completedSiblings = siblings
         .filter((sib: any) => sib.action.done)
@@ -124,8 +130,9 @@ export class EnhancedContextService {
           impactStory: sib.context?.impactStory || undefined
         }));
 
+      // Cancelled siblings are neither completed nor active work
       const activeSiblings = siblings
-        .filter((sib: any) => !sib.action.done)
+        .filter((sib: any) => !isClosedStatus(resolveStatus(sib.action)))
         .map((sib: any) => ({
           title: sib.action.title || '',
           vision: sib.action.vision || undefined
@@ -0,0 +1,364 @@
+// Structural checks for the action graph: family loops, dependency cycles and multiple parents.
+// Kept separate from ActionsService so callers can recognise cycle errors even where the service is mocked.
+
+import { and, inArray } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
+import { actions, edges } from '../../db/schema';
+
+export interface CycleStep {
+  id: string;
+  title: string;
+}
+
+/**
+ * Thrown when a new edge would close a loop. `cycle` starts and ends on the same action.
+ * For family cycles each step is the parent of the next; for dependency cycles each step must finish before the next.
+ */
+export class GraphCycleError extends Error {
+  readonly code = 'GRAPH_CYCLE';
+
+  constructor(
+    readonly kind: 'family' | 'depends_on',
+    readonly cycle: CycleStep[],
+    message: string
+  ) {
+    super(message);
+    this.name = 'GraphCycleError';
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      kind: this.kind,
+      cycle: this.cycle,
+    };
+  }
+}
+
+export type IntegrityIssueType =
+  | 'family_cycle'
+  | 'dependency_cycle'
+  | 'multiple_parents'
+  | 'self_reference'
+  | 'dangling_edge'
+  | 'missing_parent_dependency';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  action_ids: string[];
+  path?: CycleStep[];
+}
+
+export interface GraphIntegrityReport {
+  valid: boolean; // No errors - warnings don't affect validity
+  checked_at: string;
+  action_count: number;
+  edge_count: number;
+  error_count: number;
+  warning_count: number;
+  issues: IntegrityIssue[];
+}
+
+type Adjacency = Map<string, string[]>;
+
+interface ActionGraph {
+  children: Adjacency; // parent -> children (family edges)
+  before: Adjacency; // u -> v when u must finish before v (dependencies, and children before their parents)
+}
+
+function addEdge(adjacency: Adjacency, from: string, to: string) {
+  if (!adjacency.has(from)) {
+    adjacency.set(from, []);
+  }
+  adjacency.get(from)!.push(to);
+}
+
+function buildGraph(edgeRows: { src: string | null; dst: string | null; kind: string | null }[]): ActionGraph {
+  const graph: ActionGraph = { children: new Map(), before: new Map() };
+  for (const edge of edgeRows) {
+    if (!edge.src || !edge.dst) continue;
+    if (edge.kind === 'family') {
+      addEdge(graph.children, edge.src, edge.dst);
+      addEdge(graph.before, edge.dst, edge.src);
+    } else if (edge.kind === 'depends_on') {
+      addEdge(graph.before, edge.src, edge.dst);
+    }
+  }
+  return graph;
+}
+
+async function loadGraph(): Promise<ActionGraph> {
+  const edgeRows = await getDb().select({ src: edges.src, dst: edges.dst, kind: edges.kind }).from(edges).where(inOrganization(edges));
+  return buildGraph(edgeRows);
+}
+
+/**
+ * Shortest path from one action to another following the adjacency, or null if unreachable
+ */
+export function findPath(adjacency: Adjacency, from: string, to: string): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path: string[] = [];
+      for (let step: string | null = current; step !== null; step = previous.get(step)!) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    for (const next of adjacency.get(current) || []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * One representative loop per cycle in the adjacency, each closed back on its first action
+ */
+export function findCycles(adjacency: Adjacency): string[][] {
+  const cycles: string[][] = [];
+  const seenCycles = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    stack.push(node);
+    for (const next of adjacency.get(node) || []) {
+      if (state.get(next) === 'visiting') {
+        const loop = stack.slice(stack.indexOf(next));
+        // Rotate so the same loop found from a different start is only reported once
+        const start = loop.indexOf([...loop].sort()[0]);
+        const canonical = [...loop.slice(start), ...loop.slice(0, start)];
+        const key = canonical.join('>');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push([...canonical, canonical[0]]);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(node, 'done');
+  };
+
+  for (const node of adjacency.keys()) {
+    if (!state.has(node)) {
+      visit(node);
+    }
+  }
+  return cycles;
+}
+
+async function toSteps(ids: string[], knownTitles: Record<string, string> = {}): Promise<CycleStep[]> {
+  const unknown = Array.from(new Set(ids.filter(id => !(id in knownTitles))));
+  const titles = new Map<string, string>(Object.entries(knownTitles));
+  if (unknown.length > 0) {
+    const rows = await getDb().select({ id: actions.id, title: actions.title, data: actions.data }).from(actions).where(and(inArray(actions.id, unknown), inOrganization(actions)));
+    for (const row of rows as any[]) {
+      titles.set(row.id, row.title || row.data?.title || 'untitled');
+    }
+  }
+  return ids.map(id => ({ id, title: titles.get(id) || id }));
+}
+
+function formatPath(steps: CycleStep[]): string {
+  return steps.map(step => `"${step.title}"`).join(' → ');
+}
+
+export class GraphIntegrityService {
+  /**
+   * Reject a dependency that would make an action (indirectly) wait on itself
+   */
+  static async assertCanAddDependency(actionId: string, dependsOnId: string): Promise<void> {
+    if (actionId === dependsOnId) {
+      const cycle = await toSteps([actionId, actionId]);
+      throw new GraphCycleError('depends_on', cycle, `"${cycle[0].title}" cannot depend on itself`);
+    }
+
+    const graph = await loadGraph();
+    const path = findPath(graph.before, actionId, dependsOnId);
+    if (path) {
+      const cycle = await toSteps([dependsOnId, ...path]);
+      throw new GraphCycleError(
+        'depends_on',
+        cycle,
+        `Cannot make "${cycle[1].title}" depend on "${cycle[0].title}" - it would create a dependency cycle: ${formatPath(cycle)} (each must finish before the next)`
+      );
+    }
+  }
+
+  /**
+   * Reject moving an action under one of its own descendants, or under an action it already has to wait on
+   */
+  static async assertCanSetParent(actionId: string, newParentId: string): Promise<void> {
+    if (actionId === newParentId) {
+      const cycle = await toSteps([actionId, actionId]);
+      throw new GraphCycleError('family', cycle, `"${cycle[0].title}" cannot be its own parent`);
+    }
+
+    const graph = await loadGraph();
+
+    const familyPath = findPath(graph.children, actionId, newParentId);
+    if (familyPath) {
+      const cycle = await toSteps([...familyPath, actionId]);
+      throw new GraphCycleError(
+        'family',
+        cycle,
+        `Cannot move "${cycle[0].title}" under "${cycle[cycle.length - 2].title}" - it is already inside that action's family tree: ${formatPath(cycle)} (each is the parent of the next)`
+      );
+    }
+
+    // Parents wait on their children, so the new parent must not already be something this action waits on
+    const dependencyPath = findPath(graph.before, newParentId, actionId);
+    if (dependencyPath) {
+      const cycle = await toSteps([actionId, ...dependencyPath]);
+      throw new GraphCycleError(
+        'depends_on',
+        cycle,
+        `Cannot move "${cycle[0].title}" under "${cycle[1].title}" - the parent would have to wait on its child, which creates a dependency cycle: ${formatPath(cycle)} (each must finish before the next)`
+      );
+    }
+  }
+
+  /**
+   * Reject a new action whose dependencies already wait on its parent
+   */
+  static async assertCanCreate(params: { title: string; parent_id?: string; depends_on_ids?: string[] }): Promise<void> {
+    const { title, parent_id, depends_on_ids = [] } = params;
+    if (!parent_id || depends_on_ids.length === 0) return;
+
+    const graph = await loadGraph();
+    const newId = 'new-action';
+    for (const dependsOnId of depends_on_ids) {
+      const path = findPath(graph.before, parent_id, dependsOnId);
+      if (path) {
+        const cycle = await toSteps([dependsOnId, newId, ...path], { [newId]: title });
+        throw new GraphCycleError(
+          'depends_on',
+          cycle,
+          `Cannot create "${title}" under "${cycle[2].title}" depending on "${cycle[0].title}" - it would create a dependency cycle: ${formatPath(cycle)} (each must finish before the next)`
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the whole graph for loops, multiple parents and broken edges
+   */
+  static async validate(): Promise<GraphIntegrityReport> {
+    const [actionRows, edgeRows] = await Promise.all([
+      getDb().select({ id: actions.id, title: actions.title, data: actions.data }).from(actions).where(inOrganization(actions)),
+      getDb().select({ src: edges.src, dst: edges.dst, kind: edges.kind }).from(edges).where(inOrganization(edges)),
+    ]);
+
+    const titles: Record<string, string> = {};
+    for (const row of actionRows as any[]) {
+      titles[row.id] = row.title || row.data?.title || 'untitled';
+    }
+    const title = (id: string | null) => (id && titles[id]) || id || 'missing';
+    const issues: IntegrityIssue[] = [];
+
+    const validEdges = edgeRows.filter((edge: any) => {
+      if (!edge.src || !edge.dst || !(edge.src in titles) || !(edge.dst in titles)) {
+        issues.push({
+          type: 'dangling_edge',
+          severity: 'error',
+          message: `${edge.kind} edge ${edge.src} → ${edge.dst} points at an action that no longer exists`,
+          action_ids: [edge.src, edge.dst].filter(Boolean),
+        });
+        return false;
+      }
+      if (edge.src === edge.dst) {
+        issues.push({
+          type: 'self_reference',
+          severity: 'error',
+          message: `"${title(edge.src)}" has a ${edge.kind} edge to itself`,
+          action_ids: [edge.src],
+        });
+        return false;
+      }
+      return true;
+    });
+
+    const parentsByChild = new Map<string, string[]>();
+    const dependencyKeys = new Set<string>();
+    for (const edge of validEdges) {
+      if (edge.kind === 'family') {
+        addEdge(parentsByChild, edge.dst!, edge.src!);
+      } else if (edge.kind === 'depends_on') {
+        dependencyKeys.add(`${edge.src}>${edge.dst}`);
+      }
+    }
+
+    for (const [childId, parentIds] of parentsByChild) {
+      if (parentIds.length > 1) {
+        issues.push({
+          type: 'multiple_parents',
+          severity: 'error',
+          message: `"${title(childId)}" has ${parentIds.length} parents: ${parentIds.map(id => `"${title(id)}"`).join(', ')}`,
+          action_ids: [childId, ...parentIds],
+        });
+      }
+      for (const parentId of parentIds) {
+        if (!dependencyKeys.has(`${childId}>${parentId}`)) {
+          issues.push({
+            type: 'missing_parent_dependency',
+            severity: 'warning',
+            message: `"${title(parentId)}" does not depend on its child "${title(childId)}", so it can be completed first`,
+            action_ids: [parentId, childId],
+          });
+        }
+      }
+    }
+
+    const graph = buildGraph(validEdges);
+    for (const loop of findCycles(graph.children)) {
+      const path = loop.map(id => ({ id, title: title(id) }));
+      issues.push({
+        type: 'family_cycle',
+        severity: 'error',
+        message: `Family loop: ${formatPath(path)} (each is the parent of the next)`,
+        action_ids: loop.slice(0, -1),
+        path,
+      });
+    }
+    const dependencyAdjacency: Adjacency = new Map();
+    for (const edge of validEdges) {
+      if (edge.kind === 'depends_on') {
+        addEdge(dependencyAdjacency, edge.src!, edge.dst!);
+      }
+    }
+    for (const loop of findCycles(dependencyAdjacency)) {
+      const path = loop.map(id => ({ id, title: title(id) }));
+      issues.push({
+        type: 'dependency_cycle',
+        severity: 'error',
+        message: `Dependency cycle: ${formatPath(path)} (each must finish before the next)`,
+        action_ids: loop.slice(0, -1),
+        path,
+      });
+    }
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    return {
+      valid: errorCount === 0,
+      checked_at: new Date().toISOString(),
+      action_count: actionRows.length,
+      edge_count: edgeRows.length,
+      error_count: errorCount,
+      warning_count: issues.length - errorCount,
+      issues,
+    };
+  }
+}
@@ -0,0 +1,213 @@
+// OAuth client registry: RFC 7591 dynamic registration and the redirect URI allow-list checked by /oauth/authorize.
+
+import { timingSafeEqual } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { oauthClients } from '../../db/schema';
+import { OAuthError, generateSecret, hashToken } from './oauth';
+
+export const TOKEN_ENDPOINT_AUTH_METHODS = ['none', 'client_secret_basic', 'client_secret_post'] as const;
+export const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token'] as const;
+export const MAX_REDIRECT_URIS = 10;
+
+export type TokenEndpointAuthMethod = typeof TOKEN_ENDPOINT_AUTH_METHODS[number];
+
+export interface ClientRegistrationRequest {
+  redirect_uris?: unknown;
+  client_name?: unknown;
+  client_uri?: unknown;
+  grant_types?: unknown;
+  response_types?: unknown;
+  token_endpoint_auth_method?: unknown;
+  scope?: unknown;
+}
+
+export interface RegisteredClient {
+  client_id: string;
+  client_name?: string;
+  client_uri?: string;
+  redirect_uris: string[];
+  grant_types: string[];
+  response_types: string[];
+  token_endpoint_auth_method: TokenEndpointAuthMethod;
+  scope?: string;
+  client_id_issued_at: number;
+}
+
+export interface ClientRegistrationResponse extends RegisteredClient {
+  client_secret?: string; // Only returned once, at registration
+  client_secret_expires_at?: number; // 0 = never
+}
+
+/**
+ * Redirect URIs must be HTTPS, a loopback HTTP address (RFC 8252) or a native app's private-use scheme.
+ * Fragments are never allowed.
+ */
+export function isAllowedRedirectUri(redirectUri: string): boolean {
+  try {
+    const url = new URL(redirectUri);
+    if (url.hash) return false;
+    if (url.protocol === 'https:') return true;
+    if (url.protocol === 'http:') return isLoopback(url);
+    return !['javascript:', 'data:', 'file:', 'vbscript:', 'http:'].includes(url.protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isLoopback(url: URL): boolean {
+  return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+}
+
+/**
+ * Exact match against the registered URIs, except that loopback redirects may use any port (RFC 8252 §7.3)
+ * because native clients pick a free port at runtime.
+ */
+export function matchesRegisteredRedirectUri(registered: string[], redirectUri: string): boolean {
+  if (registered.includes(redirectUri)) return true;
+  let requested: URL;
+  try {
+    requested = new URL(redirectUri);
+  } catch {
+    return false;
+  }
+  if (requested.protocol !== 'http:' || !isLoopback(requested)) return false;
+
+  return registered.some(candidate => {
+    try {
+      const allowed = new URL(candidate);
+      return allowed.protocol === 'http:'
+        && allowed.hostname === requested.hostname
+        && allowed.pathname === requested.pathname
+        && allowed.search === requested.search;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new OAuthError('invalid_client_metadata', `${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function toRegisteredClient(row: typeof oauthClients.$inferSelect): RegisteredClient {
+  return {
+    client_id: row.clientId,
+    client_name: row.clientName || undefined,
+    client_uri: row.clientUri || undefined,
+    redirect_uris: row.redirectUris,
+    grant_types: row.grantTypes,
+    response_types: ['code'],
+    token_endpoint_auth_method: row.tokenEndpointAuthMethod as TokenEndpointAuthMethod,
+    scope: row.scope || undefined,
+    client_id_issued_at: Math.floor(row.createdAt.getTime() / 1000),
+  };
+}
+
+export class OAuthClientsService {
+  /**
+   * Validate client metadata and register a new client. Confidential clients get a secret that is
+   * returned here once and stored hashed.
+   */
+  static async register(metadata: ClientRegistrationRequest): Promise<ClientRegistrationResponse> {
+    const { redirect_uris } = metadata;
+    if (!Array.isArray(redirect_uris) || redirect_uris.length === 0) {
+      throw new OAuthError('invalid_redirect_uri', 'redirect_uris must list at least one redirect URI');
+    }
+    if (redirect_uris.length > MAX_REDIRECT_URIS) {
+      throw new OAuthError('invalid_redirect_uri', `At most ${MAX_REDIRECT_URIS} redirect URIs can be registered`);
+    }
+    for (const uri of redirect_uris) {
+      if (typeof uri !== 'string' || !isAllowedRedirectUri(uri)) {
+        throw new OAuthError('invalid_redirect_uri', `Redirect URI ${JSON.stringify(uri)} is not allowed - use https, a loopback http address or a private-use scheme, without a fragment`);
+      }
+    }
+
+    const grantTypes = metadata.grant_types === undefined ? ['authorization_code', 'refresh_token'] : metadata.grant_types;
+    if (!Array.isArray(grantTypes) || grantTypes.length === 0 || grantTypes.some(type => !(SUPPORTED_GRANT_TYPES as readonly unknown[]).includes(type))) {
+      throw new OAuthError('invalid_client_metadata', `grant_types must be a subset of ${SUPPORTED_GRANT_TYPES.join(', ')}`);
+    }
+    if (!grantTypes.includes('authorization_code')) {
+      throw new OAuthError('invalid_client_metadata', 'grant_types must include authorization_code');
+    }
+    if (metadata.response_types !== undefined
+      && (!Array.isArray(metadata.response_types) || metadata.response_types.some(type => type !== 'code'))) {
+      throw new OAuthError('invalid_client_metadata', 'response_types may only contain "code"');
+    }
+
+    const authMethod = metadata.token_endpoint_auth_method ?? 'none';
+    if (!(TOKEN_ENDPOINT_AUTH_METHODS as readonly unknown[]).includes(authMethod)) {
+      throw new OAuthError('invalid_client_metadata', `token_endpoint_auth_method must be one of ${TOKEN_ENDPOINT_AUTH_METHODS.join(', ')}`);
+    }
+
+    const clientUri = optionalString(metadata.client_uri, 'client_uri');
+    if (clientUri && !/^https?:\/\//.test(clientUri)) {
+      throw new OAuthError('invalid_client_metadata', 'client_uri must be an http(s) URL');
+    }
+
+    const clientSecret = authMethod === 'none' ? undefined : generateSecret('mcp_cs_');
+    const [row] = await getDb()
+      .insert(oauthClients)
+      .values({
+        clientId: generateSecret('mcp_client_'),
+        clientSecretHash: clientSecret ? hashToken(clientSecret) : null,
+        clientName: optionalString(metadata.client_name, 'client_name')?.slice(0, 200),
+        clientUri,
+        redirectUris: redirect_uris as string[],
+        grantTypes: grantTypes as string[],
+        tokenEndpointAuthMethod: authMethod as TokenEndpointAuthMethod,
+        scope: optionalString(metadata.scope, 'scope'),
+      })
+      .returning();
+
+    const client = toRegisteredClient(row);
+    return clientSecret
+      ? { ...client, client_secret: clientSecret, client_secret_expires_at: 0 }
+      : client;
+  }
+
+  static async getClient(clientId: string): Promise<RegisteredClient | null> {
+    if (!clientId) return null;
+    const [row] = await getDb().select().from(oauthClients).where(eq(oauthClients.clientId, clientId)).limit(1);
+    return row ? toRegisteredClient(row) : null;
+  }
+
+  /**
+   * Check an authorization request's client and redirect URI against the registry.
+   * Failures must be shown to the user rather than redirected, since the redirect target isn't trusted.
+   */
+  static async assertAuthorizationClient(clientId: string | undefined, redirectUri: string | undefined): Promise<RegisteredClient> {
+    const client = clientId ? await this.getClient(clientId) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client_id - register the client at /register first');
+    }
+    if (!redirectUri || !matchesRegisteredRedirectUri(client.redirect_uris, redirectUri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+    return client;
+  }
+
+  /**
+   * Token endpoint client authentication. Public clients only need a known client_id;
+   * confidential clients must also present their secret.
+   */
+  static async authenticateClient(clientId: string | undefined, clientSecret: string | undefined): Promise<RegisteredClient> {
+    const [row] = clientId
+      ? await getDb().select().from(oauthClients).where(eq(oauthClients.clientId, clientId)).limit(1)
+      : [];
+    if (!row) {
+      throw new OAuthError('invalid_client', 'Unknown client_id', 401);
+    }
+    if (row.clientSecretHash) {
+      const presented = Buffer.from(hashToken(clientSecret || ''));
+      if (!clientSecret || !timingSafeEqual(presented, Buffer.from(row.clientSecretHash))) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+    }
+    return toRegisteredClient(row);
+  }
+}
@@ -0,0 +1,369 @@
+// OAuth 2.1 authorization server state: PKCE-bound authorization codes and hashed access/refresh tokens.
+// Raw codes and tokens are only ever returned to the client - the database keeps SHA-256 hashes.
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { and, eq, gt, isNull, lt, or } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { DEFAULT_ORGANIZATION_ID } from '../db/organization-context';
+import { memberships, oauthAuthorizationCodes, oauthTokens } from '../../db/schema';
+import type { OrganizationRole } from '../utils/organization-roles';
+import { OrganizationsService, SignInError } from './organizations';
+
+export const AUTHORIZATION_CODE_TTL_SECONDS = 10 * 60;
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const DEFAULT_SCOPE = 'mcp';
+
+const ACCESS_TOKEN_PREFIX = 'mcp_at_';
+const REFRESH_TOKEN_PREFIX = 'mcp_rt_';
+
+/**
+ * An OAuth protocol error. `error` is one of the RFC 6749 (or RFC 7591) error codes and is returned to the client as-is.
+ */
+export class OAuthError extends Error {
+  constructor(
+    readonly error:
+      | 'invalid_request'
+      | 'invalid_client'
+      | 'invalid_grant'
+      | 'unauthorized_client'
+      | 'unsupported_grant_type'
+      | 'invalid_scope'
+      | 'access_denied'
+      | 'server_error'
+      | 'invalid_redirect_uri' // RFC 7591 registration errors
+      | 'invalid_client_metadata',
+    readonly description: string,
+    readonly status: number = 400
+  ) {
+    super(description);
+    this.name = 'OAuthError';
+  }
+
+  toJSON() {
+    return { error: this.error, error_description: this.description };
+  }
+}
+
+export interface AuthorizationRequest {
+  client_id: string;
+  redirect_uri: string;
+  code_challenge: string;
+  code_challenge_method: string;
+  scope?: string;
+}
+
+/**
+ * Who approved an authorization request: tokens issued from it act in this organization, on behalf of this user
+ */
+export interface AuthorizationGrant {
+  organization_id: string;
+  user_id?: string | null; // Null when approved with the owner password
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+}
+
+export interface AccessTokenInfo {
+  token_id: string;
+  client_id: string;
+  scope: string;
+  expires_at: string;
+  organization_id: string;
+  user_id: string | null;
+  role: OrganizationRole; // The user's membership role; owner for tokens approved with the owner password
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateSecret(prefix = ''): string {
+  return `${prefix}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * PKCE (RFC 7636) S256 check: the challenge must be the base64url SHA-256 of the verifier
+ */
+export function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) {
+    return false;
+  }
+  const expected = Buffer.from(createHash('sha256').update(codeVerifier).digest('base64url'));
+  const actual = Buffer.from(codeChallenge);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Validate the parts of an authorization request that don't depend on the client registry.
+ * Throws OAuthError with the code to send back to the client's redirect URI.
+ */
+export function assertValidAuthorizationRequest(params: { response_type?: string | null; code_challenge?: string | null; code_challenge_method?: string | null }): void {
+  if (params.response_type !== 'code') {
+    throw new OAuthError('invalid_request', 'response_type must be "code"');
+  }
+  if (!params.code_challenge) {
+    throw new OAuthError('invalid_request', 'code_challenge is required (PKCE)');
+  }
+  if (params.code_challenge_method !== 'S256') {
+    throw new OAuthError('invalid_request', 'code_challenge_method must be "S256"');
+  }
+  if (!/^[A-Za-z0-9\-_]{43}$/.test(params.code_challenge)) {
+    throw new OAuthError('invalid_request', 'code_challenge must be a base64url-encoded SHA-256 digest');
+  }
+}
+
+/**
+ * Whether approving an authorization request needs the owner password.
+ * Production deployments refuse to approve anything until OAUTH_OWNER_PASSWORD is set.
+ */
+export function getConsentMode(): 'password' | 'open' | 'disabled' {
+  if (process.env.OAUTH_OWNER_PASSWORD) return 'password';
+  return process.env.NODE_ENV === 'production' ? 'disabled' : 'open';
+}
+
+export function checkOwnerPassword(password: string | null | undefined): boolean {
+  const mode = getConsentMode();
+  if (mode === 'open') return true;
+  if (mode === 'disabled' || !password) return false;
+  const expected = Buffer.from(hashToken(process.env.OAUTH_OWNER_PASSWORD!));
+  return timingSafeEqual(expected, Buffer.from(hashToken(password)));
+}
+
+/**
+ * Check credentials from the consent screen or /signin: a workspace user's email and password (plus the workspace slug
+ * if they belong to several), or just the owner password for the default organization.
+ * Throws SignInError with a message to show the user.
+ */
+export async function signInGrant(params: { email?: string | null; password?: string | null; workspace?: string | null }): Promise<AuthorizationGrant> {
+  if (params.email?.trim()) {
+    const { user, membership } = await OrganizationsService.signIn({
+      email: params.email,
+      password: params.password || '',
+      organization_slug: params.workspace,
+    });
+    return { organization_id: membership.organization_id, user_id: user.id };
+  }
+
+  if (getConsentMode() === 'disabled') {
+    throw new SignInError('Sign in with a workspace account - the owner password is not configured on this server');
+  }
+  if (!checkOwnerPassword(params.password)) {
+    throw new SignInError('Incorrect password');
+  }
+  return { organization_id: DEFAULT_ORGANIZATION_ID };
+}
+
+export class OAuthService {
+  /**
+   * Persist an approved authorization request and return the single-use code for the redirect
+   */
+  static async createAuthorizationCode(
+    request: AuthorizationRequest,
+    grant: AuthorizationGrant = { organization_id: DEFAULT_ORGANIZATION_ID }
+  ): Promise<string> {
+    assertValidAuthorizationRequest({ response_type: 'code', ...request });
+
+    const code = generateSecret();
+    await getDb().insert(oauthAuthorizationCodes).values({
+      codeHash: hashToken(code),
+      clientId: request.client_id,
+      redirectUri: request.redirect_uri,
+      codeChallenge: request.code_challenge,
+      scope: request.scope || DEFAULT_SCOPE,
+      organizationId: grant.organization_id,
+      userId: grant.user_id ?? null,
+      expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000),
+    });
+    return code;
+  }
+
+  /**
+   * authorization_code grant: consume the code, verify PKCE and the original client/redirect, issue tokens
+   */
+  static async exchangeAuthorizationCode(params: { code: string; client_id: string; redirect_uri: string; code_verifier: string }): Promise<TokenResponse> {
+    const { code, client_id, redirect_uri, code_verifier } = params;
+    if (!code || !client_id || !redirect_uri || !code_verifier) {
+      throw new OAuthError('invalid_request', 'code, client_id, redirect_uri and code_verifier are required');
+    }
+
+    const codeHash = hashToken(code);
+    const [consumed] = await getDb()
+      .update(oauthAuthorizationCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(oauthAuthorizationCodes.codeHash, codeHash), isNull(oauthAuthorizationCodes.consumedAt)))
+      .returning();
+
+    if (!consumed) {
+      // A replayed code means it leaked - revoke whatever was issued for it
+      const [previous] = await getDb().select().from(oauthAuthorizationCodes).where(eq(oauthAuthorizationCodes.codeHash, codeHash)).limit(1);
+      if (previous) {
+        await this.revokeTokensForCode(previous.id);
+      }
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or has already been used');
+    }
+    if (consumed.expiresAt.getTime() <= Date.now()) {
+      throw new OAuthError('invalid_grant', 'Authorization code has expired');
+    }
+    if (consumed.clientId !== client_id) {
+      throw new OAuthError('invalid_grant', 'Authorization code was issued to a different client');
+    }
+    if (consumed.redirectUri !== redirect_uri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (!verifyPkce(code_verifier, consumed.codeChallenge)) {
+      throw new OAuthError('invalid_grant', 'code_verifier does not match the code_challenge');
+    }
+
+    return this.issueTokens(consumed.clientId, consumed.scope || DEFAULT_SCOPE, consumed.id, {
+      organization_id: consumed.organizationId,
+      user_id: consumed.userId,
+    });
+  }
+
+  /**
+   * refresh_token grant with rotation: the old pair is revoked and a new pair issued, only to the client it was issued to.
+   * Presenting an already-rotated refresh token revokes every token descended from the same authorization.
+   */
+  static async refreshAccessToken(params: { refresh_token: string; client_id: string }): Promise<TokenResponse> {
+    const { refresh_token, client_id } = params;
+    if (!refresh_token || !client_id) {
+      throw new OAuthError('invalid_request', 'refresh_token and client_id are required');
+    }
+
+    const [row] = await getDb().select().from(oauthTokens).where(eq(oauthTokens.refreshTokenHash, hashToken(refresh_token))).limit(1);
+    if (!row) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid');
+    }
+    if (row.clientId !== client_id) {
+      throw new OAuthError('invalid_grant', 'Refresh token was issued to a different client');
+    }
+    if (row.refreshExpiresAt && row.refreshExpiresAt.getTime() <= Date.now()) {
+      throw new OAuthError('invalid_grant', 'Refresh token has expired');
+    }
+
+    const [rotated] = await getDb()
+      .update(oauthTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(oauthTokens.id, row.id), isNull(oauthTokens.revokedAt)))
+      .returning({ id: oauthTokens.id });
+    if (!rotated) {
+      if (row.authorizationCodeId) {
+        await this.revokeTokensForCode(row.authorizationCodeId);
+      }
+      throw new OAuthError('invalid_grant', 'Refresh token has been revoked');
+    }
+
+    return this.issueTokens(row.clientId, row.scope || DEFAULT_SCOPE, row.authorizationCodeId, {
+      organization_id: row.organizationId,
+      user_id: row.userId,
+    });
+  }
+
+  /**
+   * Look up a bearer token. Returns null for unknown, expired or revoked tokens, and for tokens
+   * whose user is no longer a member of the token's organization.
+   */
+  static async verifyAccessToken(token: string): Promise<AccessTokenInfo | null> {
+    if (!token) return null;
+
+    const [result] = await getDb()
+      .select({ token: oauthTokens, role: memberships.role })
+      .from(oauthTokens)
+      .leftJoin(memberships, and(
+        eq(memberships.userId, oauthTokens.userId),
+        eq(memberships.organizationId, oauthTokens.organizationId)
+      ))
+      .where(and(
+        eq(oauthTokens.accessTokenHash, hashToken(token)),
+        isNull(oauthTokens.revokedAt),
+        gt(oauthTokens.accessExpiresAt, new Date())
+      ))
+      .limit(1);
+    if (!result) return null;
+    const row = result.token;
+    if (row.userId && !result.role) return null;
+
+    return {
+      token_id: row.id,
+      client_id: row.clientId,
+      scope: row.scope || DEFAULT_SCOPE,
+      expires_at: row.accessExpiresAt.toISOString(),
+      organization_id: row.organizationId,
+      user_id: row.userId ?? null,
+      role: row.userId ? result.role : 'owner',
+    };
+  }
+
+  /**
+   * RFC 7009 revocation. Either token of a pair revokes the whole pair; unknown tokens are ignored.
+   */
+  static async revokeToken(token: string): Promise<boolean> {
+    const tokenHash = hashToken(token);
+    const revoked = await getDb()
+      .update(oauthTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        or(eq(oauthTokens.accessTokenHash, tokenHash), eq(oauthTokens.refreshTokenHash, tokenHash)),
+        isNull(oauthTokens.revokedAt)
+      ))
+      .returning({ id: oauthTokens.id });
+    return revoked.length > 0;
+  }
+
+  /**
+   * Delete expired codes and tokens that can no longer be used. Returns how many rows were removed.
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const codes = await getDb()
+      .delete(oauthAuthorizationCodes)
+      .where(lt(oauthAuthorizationCodes.expiresAt, now))
+      .returning({ id: oauthAuthorizationCodes.id });
+    const tokens = await getDb()
+      .delete(oauthTokens)
+      .where(and(
+        lt(oauthTokens.accessExpiresAt, now),
+        or(isNull(oauthTokens.refreshExpiresAt), lt(oauthTokens.refreshExpiresAt, now))
+      ))
+      .returning({ id: oauthTokens.id });
+    return codes.length + tokens.length;
+  }
+
+  private static async issueTokens(clientId: string, scope: string, authorizationCodeId: string | null, grant: AuthorizationGrant): Promise<TokenResponse> {
+    const accessToken = generateSecret(ACCESS_TOKEN_PREFIX);
+    const refreshToken = generateSecret(REFRESH_TOKEN_PREFIX);
+    const now = Date.now();
+
+    await getDb().insert(oauthTokens).values({
+      accessTokenHash: hashToken(accessToken),
+      refreshTokenHash: hashToken(refreshToken),
+      clientId,
+      scope,
+      authorizationCodeId,
+      organizationId: grant.organization_id,
+      userId: grant.user_id ?? null,
+      accessExpiresAt: new Date(now + ACCESS_TOKEN_TTL_SECONDS * 1000),
+      refreshExpiresAt: new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000),
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refreshToken,
+      scope,
+    };
+  }
+
+  private static async revokeTokensForCode(authorizationCodeId: string): Promise<void> {
+    await getDb()
+      .update(oauthTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(oauthTokens.authorizationCodeId, authorizationCodeId), isNull(oauthTokens.revokedAt)));
+  }
+}
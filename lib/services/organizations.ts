@@ -0,0 +1,234 @@
+// Organizations (workspaces), the users who sign in to them and their memberships.
+// Actions, edges, completion contexts and the work log belong to exactly one organization - see lib/db/organization-context.ts.
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { and, asc, eq } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { memberships, organizations, users } from '../../db/schema';
+import { isOrganizationRole, type OrganizationRole } from '../utils/organization-roles';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  created_at: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name: string | null;
+  created_at: string;
+}
+
+export interface Membership {
+  organization_id: string;
+  organization_name: string;
+  organization_slug: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Signing in to authorize a client failed. The message is safe to show on the consent screen.
+ */
+export class SignInError extends Error {
+  readonly code = 'SIGN_IN_FAILED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignInError';
+  }
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<key>` (base64url)
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+export function verifyPassword(password: string, passwordHash: string | null | undefined): boolean {
+  const [scheme, salt, key] = (passwordHash || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64url');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function normalizeSlug(slug: string): string {
+  const normalized = slug.trim().toLowerCase();
+  if (!/^[a-z0-9][a-z0-9-]{0,62}$/.test(normalized)) {
+    throw new Error('Organization slug must be 1-63 lowercase letters, digits or dashes, starting with a letter or digit');
+  }
+  return normalized;
+}
+
+function normalizeEmail(email: string): string {
+  const normalized = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalized)) {
+    throw new Error(`Invalid email address: ${email}`);
+  }
+  return normalized;
+}
+
+function assertPassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function toOrganization(row: typeof organizations.$inferSelect): Organization {
+  return { id: row.id, name: row.name, slug: row.slug, created_at: row.createdAt.toISOString() };
+}
+
+function toUser(row: typeof users.$inferSelect): User {
+  return { id: row.id, email: row.email, name: row.name ?? null, created_at: row.createdAt.toISOString() };
+}
+
+export class OrganizationsService {
+  static async createOrganization(params: { name: string; slug: string }): Promise<Organization> {
+    const name = params.name.trim();
+    if (!name) {
+      throw new Error('Organization name is required');
+    }
+    const slug = normalizeSlug(params.slug);
+
+    if (await this.getOrganizationBySlug(slug)) {
+      throw new Error(`An organization with slug "${slug}" already exists`);
+    }
+
+    const [row] = await getDb().insert(organizations).values({ name, slug }).returning();
+    return toOrganization(row);
+  }
+
+  static async getOrganizationBySlug(slug: string): Promise<Organization | null> {
+    const [row] = await getDb().select().from(organizations).where(eq(organizations.slug, slug.trim().toLowerCase())).limit(1);
+    return row ? toOrganization(row) : null;
+  }
+
+  static async listOrganizations(): Promise<Organization[]> {
+    const rows = await getDb().select().from(organizations).orderBy(asc(organizations.createdAt));
+    return rows.map(toOrganization);
+  }
+
+  static async createUser(params: { email: string; name?: string; password?: string }): Promise<User> {
+    const email = normalizeEmail(params.email);
+    if (params.password !== undefined) {
+      assertPassword(params.password);
+    }
+
+    const [existing] = await getDb().select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+    if (existing) {
+      throw new Error(`A user with email ${email} already exists`);
+    }
+
+    const [row] = await getDb()
+      .insert(users)
+      .values({
+        email,
+        name: params.name?.trim() || null,
+        passwordHash: params.password === undefined ? null : hashPassword(params.password),
+      })
+      .returning();
+    return toUser(row);
+  }
+
+  static async getUserByEmail(email: string): Promise<User | null> {
+    const [row] = await getDb().select().from(users).where(eq(users.email, email.trim().toLowerCase())).limit(1);
+    return row ? toUser(row) : null;
+  }
+
+  static async setPassword(userId: string, password: string): Promise<void> {
+    assertPassword(password);
+    const updated = await getDb()
+      .update(users)
+      .set({ passwordHash: hashPassword(password), updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id });
+    if (updated.length === 0) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+  }
+
+  /**
+   * Add a user to an organization, or change their role if they already belong to it
+   */
+  static async addMember(params: { user_id: string; organization_id: string; role: OrganizationRole }): Promise<Membership> {
+    const { user_id, organization_id, role } = params;
+    if (!isOrganizationRole(role)) {
+      throw new Error(`Invalid role: ${role}`);
+    }
+
+    const [organization] = await getDb().select().from(organizations).where(eq(organizations.id, organization_id)).limit(1);
+    if (!organization) {
+      throw new Error(`Organization with ID ${organization_id} not found`);
+    }
+
+    await getDb()
+      .insert(memberships)
+      .values({ userId: user_id, organizationId: organization_id, role })
+      .onConflictDoUpdate({ target: [memberships.userId, memberships.organizationId], set: { role } });
+
+    return { organization_id, organization_name: organization.name, organization_slug: organization.slug, role };
+  }
+
+  static async removeMember(userId: string, organizationId: string): Promise<boolean> {
+    const removed = await getDb()
+      .delete(memberships)
+      .where(and(eq(memberships.userId, userId), eq(memberships.organizationId, organizationId)))
+      .returning({ userId: memberships.userId });
+    return removed.length > 0;
+  }
+
+  static async getMemberships(userId: string): Promise<Membership[]> {
+    const rows = await getDb()
+      .select({
+        organization_id: organizations.id,
+        organization_name: organizations.name,
+        organization_slug: organizations.slug,
+        role: memberships.role,
+      })
+      .from(memberships)
+      .innerJoin(organizations, eq(memberships.organizationId, organizations.id))
+      .where(eq(memberships.userId, userId))
+      .orderBy(asc(organizations.slug));
+    return rows;
+  }
+
+  /**
+   * Check a user's credentials and pick the organization they are signing in to: the one named by
+   * `organization_slug`, or their only membership. Throws SignInError with a message for the consent screen.
+   */
+  static async signIn(params: { email: string; password: string; organization_slug?: string | null }): Promise<{ user: User; membership: Membership }> {
+    const email = params.email.trim().toLowerCase();
+    const [row] = email ? await getDb().select().from(users).where(eq(users.email, email)).limit(1) : [];
+    // Same message for unknown users and wrong passwords
+    if (!row || !verifyPassword(params.password, row.passwordHash)) {
+      throw new SignInError('Incorrect email or password');
+    }
+
+    const userMemberships = await this.getMemberships(row.id);
+    const slug = params.organization_slug?.trim().toLowerCase();
+    if (slug) {
+      const membership = userMemberships.find(m => m.organization_slug === slug);
+      if (!membership) {
+        throw new SignInError(`You are not a member of the "${slug}" workspace`);
+      }
+      return { user: toUser(row), membership };
+    }
+
+    if (userMemberships.length === 0) {
+      throw new SignInError('You are not a member of any workspace');
+    }
+    if (userMemberships.length > 1) {
+      throw new SignInError(`Choose a workspace: ${userMemberships.map(m => m.organization_slug).join(', ')}`);
+    }
+    return { user: toUser(row), membership: userMemberships[0] };
+  }
+}
@@ -0,0 +1,149 @@
+// Role and scope checks for MCP tools and REST routes. The caller's role comes from the organization context
+// (lib/db/organization-context.ts): the token's membership role, or owner for unscoped callers.
+// Per-subtree API tokens (lib/services/api-tokens.ts) additionally carry the root of the subtree they may touch.
+
+import { and, eq } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { edges } from '../../db/schema';
+import { getOrganizationContext, inOrganization } from '../db/organization-context';
+import { hasRole, type OrganizationRole, type TokenScope } from '../utils/organization-roles';
+
+/**
+ * Minimum role for each MCP tool. Viewers may only use tools that don't change anything;
+ * tools missing from this map need the member role.
+ */
+export const TOOL_ROLES: Record<string, OrganizationRole> = {
+  search_actions: 'viewer',
+  get_work_log: 'viewer',
+  get_action_work_log: 'viewer',
+  suggest_parent: 'viewer',
+  decompose_action: 'viewer',
+};
+
+export function requiredToolRole(toolName: string): OrganizationRole {
+  return TOOL_ROLES[toolName] ?? 'member';
+}
+
+/**
+ * Deleting a whole subtree needs admin; deleting one action and reparenting its children only needs member
+ */
+export function requiredDeleteRole(childHandling?: 'delete_recursive' | 'reparent'): OrganizationRole {
+  return childHandling === 'delete_recursive' ? 'admin' : 'member';
+}
+
+/**
+ * Tool and route arguments that name actions. Per-subtree tokens may only pass actions inside their subtree.
+ */
+export const ACTION_ID_ARGS = ['action_id', 'family_id', 'parent_id', 'depends_on_id', 'depends_on_ids', 'new_parent_id', 'new_family_id', 'scope_id'] as const;
+
+export class PermissionDeniedError extends Error {
+  readonly code = 'PERMISSION_DENIED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+
+  static forRole(required: OrganizationRole, role: OrganizationRole, operation: string): PermissionDeniedError {
+    return new PermissionDeniedError(`${operation} requires the ${required} role or higher - this token has the ${role} role`);
+  }
+}
+
+/**
+ * Throw PermissionDeniedError unless the current caller has at least `required`
+ */
+export function assertRole(required: OrganizationRole, operation: string): void {
+  const { role } = getOrganizationContext();
+  if (!hasRole(role, required)) {
+    throw PermissionDeniedError.forRole(required, role, operation);
+  }
+}
+
+export function hasScope(scope: TokenScope): boolean {
+  return getOrganizationContext().scopes.includes(scope);
+}
+
+/**
+ * Whether `actionId` is `rootId` or one of its descendants, following family edges up from the action
+ */
+export async function isInSubtree(actionId: string, rootId: string): Promise<boolean> {
+  const seen = new Set<string>();
+  let current: string | undefined = actionId;
+  while (current && !seen.has(current)) {
+    if (current === rootId) return true;
+    seen.add(current);
+    const [parentEdge]: { src: string | null }[] = await getDb()
+      .select({ src: edges.src })
+      .from(edges)
+      .where(and(eq(edges.dst, current), eq(edges.kind, 'family'), inOrganization(edges)))
+      .limit(1);
+    current = parentEdge?.src ?? undefined;
+  }
+  return false;
+}
+
+/**
+ * Action IDs named by the ACTION_ID_ARGS of a tool call or request body
+ */
+export function actionIdsInArgs(args: Record<string, unknown> | null | undefined): string[] {
+  if (!args) return [];
+  return ACTION_ID_ARGS.flatMap(key => {
+    const value = args[key];
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.filter((id): id is string => typeof id === 'string');
+    return [];
+  });
+}
+
+/**
+ * Throw PermissionDeniedError if the caller holds a per-subtree token and any of `actionIds` lies outside its subtree.
+ * Callers without a subtree root may touch any action in their organization.
+ */
+export async function assertActionsInSubtree(actionIds: string[], operation: string): Promise<void> {
+  const { rootActionId } = getOrganizationContext();
+  if (!rootActionId) return;
+
+  for (const actionId of new Set(actionIds)) {
+    if (!(await isInSubtree(actionId, rootActionId))) {
+      throw new PermissionDeniedError(`${operation} is limited to action ${rootActionId} and its descendants - ${actionId} is outside that subtree`);
+    }
+  }
+}
+
+/**
+ * Throw PermissionDeniedError if the caller holds a per-subtree token and the move would take actions out of its
+ * reach: moving the subtree root itself, or detaching an action to the top level (no `newFamilyId`)
+ */
+export function assertCanMoveInSubtree(actionId: string, newFamilyId: string | null | undefined, operation: string): void {
+  const { rootActionId } = getOrganizationContext();
+  if (!rootActionId) return;
+
+  if (actionId === rootActionId) {
+    throw new PermissionDeniedError(`${operation} can't be used on ${rootActionId} - it is the root of this token's subtree`);
+  }
+  if (!newFamilyId) {
+    throw new PermissionDeniedError(`${operation} needs new_family_id - this token can't move actions out of its subtree`);
+  }
+}
+
+/**
+ * Check a tool call against the caller's subtree and return the arguments to run it with.
+ * claim_next_action picks from the subtree by default, and the subtree root itself can't be deleted
+ * or moved, since either would take the rest of the subtree out of the token's reach.
+ */
+export async function scopeToolArgs<T extends Record<string, unknown>>(toolName: string, args: T): Promise<T> {
+  const { rootActionId } = getOrganizationContext();
+  if (!rootActionId) return args;
+
+  if (toolName === 'claim_next_action' && !args.scope_id) {
+    args = { ...args, scope_id: rootActionId };
+  }
+  if (toolName === 'delete_action' && args.action_id === rootActionId) {
+    throw new PermissionDeniedError(`${toolName} can't be used on ${rootActionId} - it is the root of this token's subtree`);
+  }
+  if (toolName === 'join_family') {
+    assertCanMoveInSubtree(args.action_id as string, args.new_family_id as string | null | undefined, toolName);
+  }
+  await assertActionsInSubtree(actionIdsInArgs(args), toolName);
+  return args;
+}
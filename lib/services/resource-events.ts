@@ -0,0 +1,194 @@
+// Change events for MCP resource subscriptions. ActionsService reports every mutation here, and this works out which
+// subscribable resources - actions://{id}, actions://tree/{id}, actions://unblocked and actions://done - it changed, so
+// long-running agents hear when another session completes a dependency or moves their action.
+// Events reach listeners in this process, and with REDIS_URL set every other server instance too.
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { createClient } from 'redis';
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { afterCommit, getDb } from '../db/adapter';
+import { getOrganizationContext, inOrganization } from '../db/organization-context';
+import { edges } from '../../db/schema';
+import type { RevisionChangeType, RevisionChanges } from './action-history';
+
+export const SUBSCRIBABLE_RESOURCES = ['actions://{id}', 'actions://tree/{id}', 'actions://unblocked', 'actions://done'] as const;
+
+export interface ResourceUpdate {
+  organizationId: string;
+  uris: string[]; // Without query parameters; subscriptions to any variant of a URI match
+}
+
+export interface ActionChange {
+  actionId: string;
+  changeType: RevisionChangeType;
+  changes: RevisionChanges;
+  relatedActionIds?: string[]; // Other actions the change moved or touched that `changes` doesn't name
+}
+
+type ResourceUpdateListener = (update: ResourceUpdate) => void;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Changes that add to, remove from or alter the completion logs behind actions://done
+const COMPLETION_CHANGES = new Set<RevisionChangeType>(['completed', 'uncompleted', 'status_changed', 'deleted', 'restored']);
+
+// Fields of RevisionChanges that name other actions
+const ACTION_ID_FIELDS = ['parent_id', 'depends_on', 'trashed_action_ids', 'restored_action_ids'];
+
+const REDIS_CHANNEL = 'mcp:resource-updates';
+
+// Connection attempts before giving up on Redis until it is next needed, so an unreachable Redis never stalls anything
+const REDIS_CONNECT_RETRIES = 3;
+
+// Identifies this process's own events when they come back over Redis
+const INSTANCE_ID = randomUUID();
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open MCP session
+
+let publisher: Promise<ReturnType<typeof createClient>> | null = null;
+let subscriber: Promise<ReturnType<typeof createClient>> | null = null;
+
+// A Redis client, with `onEnd` called if the connection is lost for good
+function connect(onEnd: () => void): Promise<ReturnType<typeof createClient>> {
+  const client = createClient({
+    url: process.env.REDIS_URL,
+    socket: { reconnectStrategy: retries => retries < REDIS_CONNECT_RETRIES ? Math.min((retries + 1) * 200, 1000) : false },
+  });
+  client.on('error', error => console.error('Resource events Redis error:', error));
+  client.on('end', onEnd);
+  return client.connect().then(() => client);
+}
+
+function listenToRedis(): void {
+  if (subscriber || !process.env.REDIS_URL) return;
+  subscriber = connect(() => { subscriber = null; });
+  subscriber
+    .then(client => client.subscribe(REDIS_CHANNEL, message => {
+      const { origin, update } = JSON.parse(message) as { origin: string; update: ResourceUpdate };
+      if (origin !== INSTANCE_ID) {
+        emitter.emit('update', update);
+      }
+    }))
+    .catch(error => {
+      console.error('Failed to subscribe to resource updates over Redis:', error);
+      subscriber = null;
+    });
+}
+
+// Deliver an update to listeners in this process and, with REDIS_URL set, to every other server instance
+function publish(update: ResourceUpdate): void {
+  emitter.emit('update', update);
+
+  if (process.env.REDIS_URL) {
+    // Published in the background, so the mutation doesn't wait on Redis
+    publisher ??= connect(() => { publisher = null; });
+    publisher
+      .then(client => client.publish(REDIS_CHANNEL, JSON.stringify({ origin: INSTANCE_ID, update })))
+      .catch(error => {
+        console.error('Failed to publish resource update over Redis:', error);
+        publisher = null;
+      });
+  }
+}
+
+/**
+ * Whether `uri`, ignoring any query parameters, is one of the SUBSCRIBABLE_RESOURCES
+ */
+export function isSubscribableResource(uri: string): boolean {
+  const [path] = uri.split('?');
+  if (path === 'actions://unblocked' || path === 'actions://done') return true;
+  const match = path.match(/^actions:\/\/(?:tree\/)?([^/]+)$/);
+  return !!match && UUID_PATTERN.test(match[1]);
+}
+
+function idsIn(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id));
+}
+
+// The action and everything above it, following family edges
+async function ancestorsOf(actionId: string): Promise<string[]> {
+  const chain: string[] = [];
+  let current: string | undefined = actionId;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const [parentEdge]: { src: string | null }[] = await getDb()
+      .select({ src: edges.src })
+      .from(edges)
+      .where(and(eq(edges.dst, current), eq(edges.kind, 'family'), inOrganization(edges)))
+      .limit(1);
+    current = parentEdge?.src ?? undefined;
+  }
+  return chain;
+}
+
+// Actions linked to any of `actionIds` by a family or dependency edge, whose own views show them
+async function neighboursOf(actionIds: string[]): Promise<string[]> {
+  const rows: { src: string | null; dst: string | null }[] = await getDb()
+    .select({ src: edges.src, dst: edges.dst })
+    .from(edges)
+    .where(and(or(inArray(edges.src, actionIds), inArray(edges.dst, actionIds)), inOrganization(edges)));
+  return rows.flatMap(row => [row.src, row.dst]).filter((id): id is string => !!id);
+}
+
+/**
+ * Resources whose contents `change` altered, read from the graph as it stands - so for a deletion, call it before the
+ * action is moved to the trash.
+ */
+export async function resourceUrisForChange(change: ActionChange): Promise<string[]> {
+  const named = [
+    change.actionId,
+    ...ACTION_ID_FIELDS.flatMap(field => [...idsIn(change.changes[field]?.from), ...idsIn(change.changes[field]?.to)]),
+    ...(change.relatedActionIds ?? []),
+  ];
+  const actionIds = new Set([...named, ...(await neighboursOf([change.actionId]))]);
+
+  // Every subtree that contains the action, or contained it before it moved
+  const treeRoots = new Set(await ancestorsOf(change.actionId));
+  for (const formerParent of idsIn(change.changes.parent_id?.from)) {
+    (await ancestorsOf(formerParent)).forEach(id => treeRoots.add(id));
+  }
+  for (const relatedId of change.relatedActionIds ?? []) {
+    (await ancestorsOf(relatedId)).forEach(id => treeRoots.add(id));
+  }
+
+  return [
+    ...Array.from(actionIds, id => `actions://${id}`),
+    ...Array.from(treeRoots, id => `actions://tree/${id}`),
+    'actions://unblocked',
+    ...(COMPLETION_CHANGES.has(change.changeType) ? ['actions://done'] : []),
+  ];
+}
+
+export class ResourceEventsService {
+  /**
+   * Call `listener` with every resource update from now on, in any organization, until the returned function is called
+   */
+  static subscribe(listener: ResourceUpdateListener): () => void {
+    emitter.on('update', listener);
+    listenToRedis();
+    return () => {
+      emitter.off('update', listener);
+    };
+  }
+
+  /**
+   * Report a mutation in the current organization to subscribers here and on other server instances.
+   * The affected resources are worked out straight away, while the graph still holds the action (so a deletion reaches
+   * the subtrees that contained it), and delivered once the surrounding transaction commits - never if it rolls back.
+   * Does nothing - not even the lookups - when no one could be listening.
+   */
+  static async actionChanged(change: ActionChange): Promise<void> {
+    if (emitter.listenerCount('update') === 0 && !process.env.REDIS_URL) return;
+
+    const update: ResourceUpdate = {
+      organizationId: getOrganizationContext().organizationId,
+      uris: await resourceUrisForChange(change),
+    };
+    await afterCommit(async () => {
+      publish(update);
+    });
+  }
+}
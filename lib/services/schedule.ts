@@ -0,0 +1,119 @@
+import { and, asc, eq, gte, inArray, isNotNull, lt, lte, notInArray, or } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
+import { actions, edges } from '../../db/schema';
+import { CLOSED_STATUSES, resolveStatus, type ActionStatus } from '../utils/action-status';
+import { DEFAULT_UPCOMING_DAYS, addDays, daysBetween, todayIsoDate } from '../utils/action-dates';
+
+export interface ScheduledAction {
+  id: string;
+  title: string;
+  status: ActionStatus;
+  priority: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  days_until_due: number | null; // Negative once overdue
+  parent_id?: string;
+  parent_title?: string;
+}
+
+export interface OverdueResource {
+  today: string;
+  overdue: ScheduledAction[];
+  total: number;
+}
+
+export interface UpcomingResource {
+  today: string;
+  until: string;
+  days: number;
+  upcoming: ScheduledAction[];
+  total: number;
+}
+
+async function toScheduledActions(rows: any[], today: string): Promise<ScheduledAction[]> {
+  const parents = new Map<string, { id: string; title: string }>();
+  const ids = rows.map(row => row.id);
+  if (ids.length > 0) {
+    const familyEdges = await getDb()
+      .select({ parentId: edges.src, childId: edges.dst })
+      .from(edges)
+      .where(and(eq(edges.kind, 'family'), inArray(edges.dst, ids), inOrganization(edges)));
+    const parentIds = Array.from(new Set(familyEdges.map((edge: any) => edge.parentId).filter(Boolean))) as string[];
+    const parentRows = parentIds.length > 0
+      ? await getDb().select({ id: actions.id, title: actions.title, data: actions.data }).from(actions).where(and(inArray(actions.id, parentIds), inOrganization(actions)))
+      : [];
+    const titles = new Map<string, string>(parentRows.map((parent: any) => [parent.id, parent.title || parent.data?.title || 'untitled']));
+    for (const edge of familyEdges as any[]) {
+      if (edge.childId && edge.parentId) {
+        parents.set(edge.childId, { id: edge.parentId, title: titles.get(edge.parentId) || 'untitled' });
+      }
+    }
+  }
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title || row.data?.title || 'untitled',
+    status: resolveStatus(row),
+    priority: row.priority ?? null,
+    start_date: row.startDate ?? null,
+    due_date: row.dueDate ?? null,
+    days_until_due: row.dueDate ? daysBetween(today, row.dueDate) : null,
+    parent_id: parents.get(row.id)?.id,
+    parent_title: parents.get(row.id)?.title,
+  }));
+}
+
+export class ScheduleService {
+  /**
+   * Open actions whose due date has passed, most overdue first
+   */
+  static async getOverdueActions(params: { limit?: number; today?: string } = {}): Promise<OverdueResource> {
+    const { limit = 100, today = todayIsoDate() } = params;
+
+    const rows = await getDb()
+      .select()
+      .from(actions)
+      .where(and(
+        notInArray(actions.status, CLOSED_STATUSES),
+        isNotNull(actions.dueDate),
+        lt(actions.dueDate, today),
+        inOrganization(actions)
+      ))
+      .orderBy(asc(actions.dueDate), asc(actions.createdAt))
+      .limit(limit);
+
+    const overdue = await toScheduledActions(rows, today);
+    return { today, overdue, total: overdue.length };
+  }
+
+  /**
+   * Open actions due or starting within the next `days` days (today included), soonest first.
+   * Overdue actions are left to getOverdueActions.
+   */
+  static async getUpcomingActions(params: { days?: number; limit?: number; today?: string } = {}): Promise<UpcomingResource> {
+    const { days = DEFAULT_UPCOMING_DAYS, limit = 100, today = todayIsoDate() } = params;
+    const until = addDays(today, days);
+
+    const rows = await getDb()
+      .select()
+      .from(actions)
+      .where(and(
+        notInArray(actions.status, CLOSED_STATUSES),
+        or(
+          and(gte(actions.dueDate, today), lte(actions.dueDate, until)),
+          and(gte(actions.startDate, today), lte(actions.startDate, until))
+        ),
+        inOrganization(actions)
+      ));
+
+    // Sort on whichever date comes first so a start next week ranks ahead of a due date next month
+    const nextDate = (row: any) => [row.startDate, row.dueDate].filter((date: string | null) => date && date >= today).sort()[0] as string;
+    const soonest = [...rows]
+      .sort((a: any, b: any) => nextDate(a).localeCompare(nextDate(b)) || a.id.localeCompare(b.id))
+      .slice(0, limit);
+
+    const upcoming = await toScheduledActions(soonest, today);
+    return { today, until, days, upcoming, total: upcoming.length };
+  }
+}
@@ -0,0 +1,179 @@
+// Share links: expiring, read-only access to one completion page (/done/[id]) or one action subtree (/tree/[id] and
+// /treemap/[id]) for people who can't sign in - e.g. showing a client a piece of work without making its changelog
+// entry public. The link carries a random token; only a SHA-256 hash of it is stored, so links can be revoked early.
+
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { actions, completionContexts, shareLinks } from '../../db/schema';
+import { getOrganizationContext, inOrganization, runWithOrganization, type OrganizationContext } from '../db/organization-context';
+import { assertActionsInSubtree, assertRole, isInSubtree } from './permissions';
+import { generateSecret, hashToken } from './oauth';
+import { hasRole } from '../utils/organization-roles';
+
+export const SHARE_LINK_KINDS = ['done', 'tree'] as const;
+
+export type ShareLinkKind = typeof SHARE_LINK_KINDS[number];
+
+// Query parameter that carries the token, e.g. /done/<id>?share=<token>
+export const SHARE_PARAM = 'share';
+
+export const DEFAULT_SHARE_LINK_TTL_DAYS = 7;
+export const MAX_SHARE_LINK_TTL_DAYS = 90;
+
+const SHARE_TOKEN_PREFIX = 'done_sl_';
+
+export interface ShareLink {
+  id: string;
+  kind: ShareLinkKind;
+  action_id: string;
+  path: string; // Page the link opens, without the token
+  user_id: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreatedShareLink extends ShareLink {
+  token: string; // The raw token - never stored, so the link can't be shown again
+  url: string; // `path` with the token, relative to this server
+}
+
+export interface CreateShareLinkParams {
+  kind: ShareLinkKind;
+  action_id: string;
+  expires_in_days?: number | null;
+}
+
+export function isShareLinkKind(kind: unknown): kind is ShareLinkKind {
+  return typeof kind === 'string' && (SHARE_LINK_KINDS as readonly string[]).includes(kind);
+}
+
+export function shareLinkPath(kind: ShareLinkKind, actionId: string): string {
+  return kind === 'done' ? `/done/${actionId}` : `/tree/${actionId}`;
+}
+
+function toShareLink(row: typeof shareLinks.$inferSelect): ShareLink {
+  return {
+    id: row.id,
+    kind: row.kind as ShareLinkKind,
+    action_id: row.actionId,
+    path: shareLinkPath(row.kind as ShareLinkKind, row.actionId),
+    user_id: row.userId ?? null,
+    expires_at: row.expiresAt.toISOString(),
+    revoked_at: row.revokedAt?.toISOString() ?? null,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+// Links the caller may see and revoke: admins manage every link in the organization, everyone else their own
+function visibleLinks() {
+  const { role, userId } = getOrganizationContext();
+  if (hasRole(role, 'admin')) {
+    return inOrganization(shareLinks);
+  }
+  return and(inOrganization(shareLinks), userId ? eq(shareLinks.userId, userId) : isNull(shareLinks.userId));
+}
+
+export class ShareLinksService {
+  /**
+   * Create a link to an action in the caller's organization. Needs the member role - the same role that can make a
+   * changelog entry public - and callers limited to a subtree can only share actions inside it.
+   */
+  static async create(params: CreateShareLinkParams): Promise<CreatedShareLink> {
+    assertRole('member', 'Creating a share link');
+    const context = getOrganizationContext();
+
+    if (!isShareLinkKind(params.kind)) {
+      throw new Error(`Invalid share link kind: ${params.kind} - kinds are ${SHARE_LINK_KINDS.join(', ')}`);
+    }
+
+    const [action] = await getDb()
+      .select({ id: actions.id })
+      .from(actions)
+      .where(and(eq(actions.id, params.action_id), inOrganization(actions)))
+      .limit(1);
+    if (!action) {
+      throw new Error(`Action with ID ${params.action_id} not found`);
+    }
+    await assertActionsInSubtree([params.action_id], 'Creating a share link');
+
+    if (params.kind === 'done') {
+      const [entry] = await getDb()
+        .select({ id: completionContexts.id })
+        .from(completionContexts)
+        .where(and(eq(completionContexts.actionId, params.action_id), inOrganization(completionContexts)))
+        .limit(1);
+      if (!entry) {
+        throw new Error(`Action ${params.action_id} has no completion page to share - complete it first`);
+      }
+    }
+
+    const days = params.expires_in_days ?? DEFAULT_SHARE_LINK_TTL_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_LINK_TTL_DAYS) {
+      throw new Error(`expires_in_days must be a whole number of days between 1 and ${MAX_SHARE_LINK_TTL_DAYS}`);
+    }
+
+    const token = generateSecret(SHARE_TOKEN_PREFIX);
+    const [row] = await getDb()
+      .insert(shareLinks)
+      .values({
+        organizationId: context.organizationId,
+        userId: context.userId ?? null,
+        actionId: params.action_id,
+        kind: params.kind,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+      })
+      .returning();
+
+    const link = toShareLink(row);
+    return { ...link, token, url: `${link.path}?${SHARE_PARAM}=${encodeURIComponent(token)}` };
+  }
+
+  static async list(actionId?: string): Promise<ShareLink[]> {
+    const rows = await getDb()
+      .select()
+      .from(shareLinks)
+      .where(actionId ? and(visibleLinks(), eq(shareLinks.actionId, actionId)) : visibleLinks())
+      .orderBy(desc(shareLinks.createdAt));
+    return rows.map(toShareLink);
+  }
+
+  static async revoke(id: string): Promise<ShareLink> {
+    const [row] = await getDb()
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), isNull(shareLinks.revokedAt), visibleLinks()))
+      .returning();
+    if (!row) {
+      throw new Error(`Share link with ID ${id} not found`);
+    }
+    return toShareLink(row);
+  }
+
+  /**
+   * The read-only context a live link grants for `actionId`, or null. A done link only opens its own completion page;
+   * a tree link opens its action and any descendant, and limits reads to that subtree.
+   */
+  static async contextFor(token: string | null | undefined, kind: ShareLinkKind, actionId: string): Promise<OrganizationContext | null> {
+    if (!token || !token.startsWith(SHARE_TOKEN_PREFIX)) return null;
+
+    const [row] = await getDb()
+      .select()
+      .from(shareLinks)
+      .where(and(eq(shareLinks.tokenHash, hashToken(token)), isNull(shareLinks.revokedAt)))
+      .limit(1);
+    if (!row || row.kind !== kind || row.expiresAt <= new Date()) return null;
+
+    const context: OrganizationContext = {
+      organizationId: row.organizationId,
+      userId: null,
+      role: 'viewer',
+      scopes: ['read'],
+      rootActionId: row.actionId,
+    };
+    if (row.actionId === actionId) return context;
+    if (kind === 'done') return null;
+    return (await runWithOrganization(context, () => isInSubtree(actionId, row.actionId))) ? context : null;
+  }
+}
@@ -19,6 +19,7 @@ export interface SubtreeSummaryInput {
     title: string;
     description?: string;
     done: boolean;
+    status?: string; // Lifecycle status, so cancelled children aren't counted as outstanding scope
   }>;
 }
 
@@ -44,7 +45,7 @@ export class SubtreeSummaryService {
       const totalCount = input.children.length;
       
       const childrenText = input.children
-        .map(child => `- ${child.title}${child.done ? ' ✓' : ''}${child.description ? ` (${child.description})` : ''}`)
+        .map(child => `- ${child.title}${child.done ? ' ✓' : ''}${child.status === 'cancelled' ? ' (cancelled)' : ''}${child.description ? ` (${child.description})` : ''}`)
         .join('\n');
 
       const { text: summary } = await generateText({
@@ -197,6 +198,7 @@ Focus on the "what" and "scope", not implementation details.`,
     title: string;
     description?: string;
     done: boolean;
+    status?: string;
   }>> {
     const db = getDb();
     
@@ -204,7 +206,8 @@ Focus on the "what" and "scope", not implementation details.`,
       SELECT 
         COALESCE(a.title, a.data->>'title') as title,
         COALESCE(a.description, a.data->>'description') as description,
-        a.done
+        a.done,
+        a.status
       FROM ${actions} a
       INNER JOIN ${edges} e ON a.id = e.dst
       WHERE e.src = ${parentId} 
@@ -228,7 +231,8 @@ Focus on the "what" and "scope", not implementation details.`,
     return rows.map((row: any) => ({
       title: row.title || 'Untitled',
       description: row.description || undefined,
-      done: Boolean(row.done)
+      done: Boolean(row.done),
+      status: row.status || undefined
     }));
   }
 
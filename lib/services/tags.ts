@@ -0,0 +1,182 @@
+import { and, asc, count, countDistinct, eq, inArray, notInArray } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
+import { actions, actionTags, tags } from '../../db/schema';
+import { CLOSED_STATUSES } from '../utils/action-status';
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_REQUEST = 20; // Per add_tags/remove_tags call or search filter
+
+export type TagMatch = 'any' | 'all';
+
+export interface TagFilter {
+  tags: string[];
+  match?: TagMatch; // 'any' (default) keeps actions with at least one of the tags, 'all' requires every tag
+}
+
+export interface TagSummary {
+  name: string;
+  action_count: number;
+  open_action_count: number;
+}
+
+/**
+ * Tags are compared case-insensitively, so "Frontend", "#frontend" and " frontend " are the same tag.
+ * Whitespace becomes a hyphen; anything else outside letters, digits and `-_.:/` is rejected.
+ */
+export function normalizeTag(raw: string): string {
+  const name = raw.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-');
+  if (!name) {
+    throw new Error('Tag names cannot be empty');
+  }
+  if (name.length > MAX_TAG_LENGTH) {
+    throw new Error(`Tag "${name}" is longer than ${MAX_TAG_LENGTH} characters`);
+  }
+  if (!/^[a-z0-9][a-z0-9\-_.:/]*$/.test(name)) {
+    throw new Error(`Tag "${raw}" may only contain letters, digits and - _ . : /`);
+  }
+  return name;
+}
+
+/** Normalize and de-duplicate a list of tags, keeping first-seen order */
+export function normalizeTags(raw: string[]): string[] {
+  return Array.from(new Set(raw.map(normalizeTag)));
+}
+
+/**
+ * Parse a `tags` query parameter (comma-separated) and optional `tagMatch` into a filter,
+ * or undefined when no tags were given
+ */
+export function parseTagFilter(tagsParam: string | null | undefined, matchParam?: string | null): TagFilter | undefined {
+  const raw = (tagsParam || '').split(',').filter(tag => tag.trim() !== '');
+  if (raw.length === 0) return undefined;
+  return { tags: normalizeTags(raw), match: matchParam === 'all' ? 'all' : 'any' };
+}
+
+/** Whether an action's tags satisfy the filter */
+export function matchesTagFilter(actionTags: string[], filter: TagFilter): boolean {
+  const names = normalizeTags(filter.tags);
+  return filter.match === 'all'
+    ? names.every(name => actionTags.includes(name))
+    : names.some(name => actionTags.includes(name));
+}
+
+export class TagsService {
+  /**
+   * Tag names per action, sorted alphabetically. Actions without tags are absent from the map.
+   */
+  static async getTagsForActions(actionIds: string[]): Promise<Map<string, string[]>> {
+    const byAction = new Map<string, string[]>();
+    if (actionIds.length === 0) return byAction;
+
+    const rows = await getDb()
+      .select({ actionId: actionTags.actionId, name: tags.name })
+      .from(actionTags)
+      .innerJoin(tags, eq(actionTags.tagId, tags.id))
+      .where(inArray(actionTags.actionId, actionIds))
+      .orderBy(asc(tags.name));
+
+    for (const row of rows as { actionId: string; name: string }[]) {
+      if (!byAction.has(row.actionId)) {
+        byAction.set(row.actionId, []);
+      }
+      byAction.get(row.actionId)!.push(row.name);
+    }
+    return byAction;
+  }
+
+  static async getTags(actionId: string): Promise<string[]> {
+    return (await this.getTagsForActions([actionId])).get(actionId) || [];
+  }
+
+  /**
+   * IDs of the organization's actions carrying any (or all) of the filter's tags
+   */
+  static async getActionIdsWithTags(filter: TagFilter): Promise<string[]> {
+    const names = normalizeTags(filter.tags);
+    if (names.length === 0) return [];
+
+    const rows = await getDb()
+      .select({ actionId: actionTags.actionId, matched: countDistinct(actionTags.tagId) })
+      .from(actionTags)
+      .innerJoin(tags, eq(actionTags.tagId, tags.id))
+      .innerJoin(actions, eq(actionTags.actionId, actions.id))
+      .where(and(inArray(tags.name, names), inOrganization(actions)))
+      .groupBy(actionTags.actionId);
+
+    const required = filter.match === 'all' ? names.length : 1;
+    return (rows as { actionId: string; matched: number }[])
+      .filter(row => Number(row.matched) >= required)
+      .map(row => row.actionId);
+  }
+
+  /**
+   * Attach tags to an action, creating any that don't exist yet. Returns the tags that were newly attached.
+   */
+  static async attachTags(actionId: string, rawTags: string[]): Promise<string[]> {
+    const names = normalizeTags(rawTags);
+    const existing = new Set(await this.getTags(actionId));
+    const toAttach = names.filter(name => !existing.has(name));
+    if (toAttach.length === 0) return [];
+
+    await getDb().insert(tags).values(toAttach.map(name => ({ name }))).onConflictDoNothing();
+    const tagRows = await getDb().select({ id: tags.id, name: tags.name }).from(tags).where(inArray(tags.name, toAttach));
+    await getDb()
+      .insert(actionTags)
+      .values(tagRows.map((tag: { id: string }) => ({ actionId, tagId: tag.id })))
+      .onConflictDoNothing();
+
+    return toAttach;
+  }
+
+  /**
+   * Detach tags from an action. Returns the tags that were actually removed; unknown tags are ignored.
+   */
+  static async detachTags(actionId: string, rawTags: string[]): Promise<string[]> {
+    const names = normalizeTags(rawTags);
+    const existing = new Set(await this.getTags(actionId));
+    const toDetach = names.filter(name => existing.has(name));
+    if (toDetach.length === 0) return [];
+
+    const tagRows = await getDb().select({ id: tags.id }).from(tags).where(inArray(tags.name, toDetach));
+    await getDb()
+      .delete(actionTags)
+      .where(and(
+        eq(actionTags.actionId, actionId),
+        inArray(actionTags.tagId, tagRows.map((tag: { id: string }) => tag.id))
+      ));
+
+    return toDetach;
+  }
+
+  /**
+   * Every tag in use in the organization with how many actions (and open actions) carry it, most used first
+   */
+  static async listTags(): Promise<TagSummary[]> {
+    const [allRows, openRows] = await Promise.all([
+      getDb()
+        .select({ name: tags.name, total: count() })
+        .from(tags)
+        .innerJoin(actionTags, eq(actionTags.tagId, tags.id))
+        .innerJoin(actions, eq(actionTags.actionId, actions.id))
+        .where(inOrganization(actions))
+        .groupBy(tags.name),
+      getDb()
+        .select({ name: tags.name, total: count() })
+        .from(tags)
+        .innerJoin(actionTags, eq(actionTags.tagId, tags.id))
+        .innerJoin(actions, eq(actionTags.actionId, actions.id))
+        .where(and(notInArray(actions.status, CLOSED_STATUSES), inOrganization(actions)))
+        .groupBy(tags.name),
+    ]);
+
+    const openCounts = new Map<string, number>(openRows.map((row: any) => [row.name, Number(row.total)]));
+    return allRows
+      .map((row: any) => ({
+        name: row.name,
+        action_count: Number(row.total),
+        open_action_count: openCounts.get(row.name) || 0,
+      }))
+      .sort((a: TagSummary, b: TagSummary) => b.action_count - a.action_count || a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,315 @@
+import { eq, and, desc, count, inArray, or, lte } from 'drizzle-orm';
+import { getDb, withTransaction } from '../db/adapter';
+import { getOrganizationId, inOrganization } from '../db/organization-context';
+import { actions, edges, completionContexts, actionRevisions, actionTrash } from '../../db/schema';
+import type { RevisionActor } from './action-history';
+import { TagsService } from './tags';
+import { GraphIntegrityService } from './graph-integrity';
+
+type ActionTrashSelect = typeof actionTrash.$inferSelect;
+type TrashSnapshot = ActionTrashSelect['snapshot'];
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export interface TrashedAction {
+  id: string;
+  action_id: string;
+  title: string;
+  parent_id?: string;
+  deletion_id: string;
+  root_action_id: string;
+  deleted_by?: string;
+  agent_id?: string;
+  deleted_at: string;
+  purge_after: string;
+}
+
+export interface TrashResource {
+  items: TrashedAction[];
+  total: number;
+  limit: number;
+  offset: number;
+  retention_days: number;
+}
+
+export interface MoveToTrashResult {
+  deletion_id: string;
+  purge_after: string;
+  trashed_actions: any[]; // Action rows as they were when trashed
+}
+
+export interface RestoreFromTrashResult {
+  action_id: string;
+  deletion_id: string;
+  restored_action_ids: string[];
+  restored_edges: number;
+  skipped_edges: number;
+  parent_id?: string;
+}
+
+/**
+ * How long trashed actions are kept before purge, from TRASH_RETENTION_DAYS (default 30)
+ */
+export function getTrashRetentionDays(): number {
+  const configured = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+// Snapshots round-trip through JSON, so timestamp columns come back as strings
+function reviveDates<T extends Record<string, unknown>>(row: T): T {
+  const revived: Record<string, unknown> = { ...row };
+  for (const [key, value] of Object.entries(revived)) {
+    if (typeof value === 'string' && (key.endsWith('At') || key.endsWith('Timestamp'))) {
+      revived[key] = new Date(value);
+    }
+  }
+  return revived as T;
+}
+
+function edgeKey(edge: Record<string, unknown>): string {
+  return `${edge.src}|${edge.dst}|${edge.kind}`;
+}
+
+function toTrashedAction(row: ActionTrashSelect): TrashedAction {
+  const parentEdge = row.snapshot.edges.find(edge => edge.kind === 'family' && edge.dst === row.actionId);
+  return {
+    id: row.id,
+    action_id: row.actionId,
+    title: row.title || 'untitled',
+    parent_id: (parentEdge?.src as string | undefined) || undefined,
+    deletion_id: row.deletionId,
+    root_action_id: row.rootActionId,
+    deleted_by: row.deletedBy || undefined,
+    agent_id: row.agentId || undefined,
+    deleted_at: row.deletedAt.toISOString(),
+    purge_after: row.purgeAfter.toISOString(),
+  };
+}
+
+export class TrashService {
+  /**
+   * Snapshot actions (with their edges, completion contexts, history and tags) into the trash,
+   * then remove the live rows. All actions share one deletion so they can be restored together.
+   */
+  static async moveToTrash(actionIds: string[], rootActionId: string, actor?: RevisionActor): Promise<MoveToTrashResult> {
+    const deletionId = crypto.randomUUID();
+    const purgeAfter = new Date(Date.now() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+    if (actionIds.length === 0) {
+      return { deletion_id: deletionId, purge_after: purgeAfter.toISOString(), trashed_actions: [] };
+    }
+
+    // Snapshot and delete in one transaction, so a failed delete can't leave the actions both live and in the trash
+    return withTransaction(async () => {
+      const [actionRows, edgeRows, contextRows, revisionRows, tagsByAction] = await Promise.all([
+        getDb().select().from(actions).where(and(inArray(actions.id, actionIds), inOrganization(actions))),
+        getDb().select().from(edges).where(and(or(inArray(edges.src, actionIds), inArray(edges.dst, actionIds)), inOrganization(edges))),
+        getDb().select().from(completionContexts).where(and(inArray(completionContexts.actionId, actionIds), inOrganization(completionContexts))),
+        getDb().select().from(actionRevisions).where(inArray(actionRevisions.actionId, actionIds)),
+        TagsService.getTagsForActions(actionIds),
+      ]);
+
+      if (actionRows.length > 0) {
+        await getDb().insert(actionTrash).values(actionRows.map((action: any) => {
+          const snapshot: TrashSnapshot = JSON.parse(JSON.stringify({
+            action,
+            edges: edgeRows.filter((edge: any) => edge.src === action.id || edge.dst === action.id),
+            completion_contexts: contextRows.filter((context: any) => context.actionId === action.id),
+            revisions: revisionRows.filter((revision: any) => revision.actionId === action.id),
+            tags: tagsByAction.get(action.id) || [],
+          }));
+          return {
+            actionId: action.id,
+            organizationId: getOrganizationId(),
+            deletionId,
+            rootActionId,
+            title: action.title || action.data?.title || null,
+            snapshot,
+            deletedBy: actor?.author,
+            agentId: actor?.agent_id,
+            purgeAfter,
+          };
+        }));
+
+        // Edges, completion contexts and history cascade with the action rows
+        await getDb().delete(actions).where(and(inArray(actions.id, actionIds), inOrganization(actions)));
+      }
+
+      return {
+        deletion_id: deletionId,
+        purge_after: purgeAfter.toISOString(),
+        trashed_actions: actionRows,
+      };
+    });
+  }
+
+  /**
+   * List trashed actions, most recently deleted first
+   */
+  static async listTrash(options: { limit?: number; offset?: number } = {}): Promise<TrashResource> {
+    const { limit = 20, offset = 0 } = options;
+
+    const [rows, totalResult] = await Promise.all([
+      getDb()
+        .select()
+        .from(actionTrash)
+        .where(inOrganization(actionTrash))
+        .orderBy(desc(actionTrash.deletedAt))
+        .limit(limit)
+        .offset(offset),
+      getDb()
+        .select({ count: count() })
+        .from(actionTrash)
+        .where(inOrganization(actionTrash)),
+    ]);
+
+    return {
+      items: rows.map(toTrashedAction),
+      total: Number(totalResult[0]?.count ?? 0),
+      limit,
+      offset,
+      retention_days: getTrashRetentionDays(),
+    };
+  }
+
+  /**
+   * Restore a trashed action along with anything trashed beneath it by the same delete.
+   * Edges are only restored when both ends exist, and family edges are skipped for
+   * children that have since been given a new parent. An edge that would now close a loop
+   * throws GraphCycleError, so call this inside a transaction (restoreAction does) to roll it all back.
+   */
+  static async restore(actionId: string): Promise<RestoreFromTrashResult> {
+    const [entry] = await getDb()
+      .select()
+      .from(actionTrash)
+      .where(and(eq(actionTrash.actionId, actionId), inOrganization(actionTrash)))
+      .orderBy(desc(actionTrash.deletedAt))
+      .limit(1);
+
+    if (!entry) {
+      throw new Error(`Action with ID ${actionId} is not in the trash`);
+    }
+
+    const live = await getDb().select({ id: actions.id }).from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
+    if (live.length > 0) {
+      throw new Error(`Action with ID ${actionId} already exists - it may have been restored already`);
+    }
+
+    // Walk the snapshot's family edges to find what was trashed beneath this action
+    const batch: ActionTrashSelect[] = await getDb()
+      .select()
+      .from(actionTrash)
+      .where(and(eq(actionTrash.deletionId, entry.deletionId), inOrganization(actionTrash)));
+    const batchByActionId = new Map(batch.map(item => [item.actionId, item]));
+    const toRestore: ActionTrashSelect[] = [];
+    const queue = [actionId];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const currentId = queue.shift()!;
+      const item = batchByActionId.get(currentId);
+      if (!item || seen.has(currentId)) continue;
+      seen.add(currentId);
+      toRestore.push(item);
+      for (const edge of item.snapshot.edges) {
+        if (edge.kind === 'family' && edge.src === currentId) {
+          queue.push(edge.dst as string);
+        }
+      }
+    }
+    const restoredIds = new Set(toRestore.map(item => item.actionId));
+
+    // Snapshots taken before organizations existed carry no organization_id - the trash row's is authoritative
+    const organizationId = entry.organizationId;
+    await getDb().insert(actions).values(toRestore.map(item => ({ ...reviveDates(item.snapshot.action), organizationId }) as any));
+
+    // Collect unique edges and check which endpoints still exist outside the restored set
+    const candidateEdges = new Map<string, Record<string, unknown>>();
+    for (const item of toRestore) {
+      for (const edge of item.snapshot.edges) {
+        candidateEdges.set(edgeKey(edge), edge);
+      }
+    }
+    const outsideIds = Array.from(new Set(
+      Array.from(candidateEdges.values())
+        .flatMap(edge => [edge.src as string, edge.dst as string])
+        .filter(id => id && !restoredIds.has(id))
+    ));
+    const liveOutside = new Set<string>();
+    const outsideWithParent = new Set<string>();
+    if (outsideIds.length > 0) {
+      const existing = await getDb().select({ id: actions.id }).from(actions).where(and(inArray(actions.id, outsideIds), inOrganization(actions)));
+      existing.forEach((row: { id: string }) => liveOutside.add(row.id));
+      const parentEdges = await getDb().select().from(edges).where(
+        and(inArray(edges.dst, outsideIds), eq(edges.kind, 'family'), inOrganization(edges))
+      );
+      parentEdges.forEach((edge: any) => edge.dst && outsideWithParent.add(edge.dst));
+    }
+    const exists = (id: unknown) => typeof id === 'string' && (restoredIds.has(id) || liveOutside.has(id));
+
+    const skippedFamily = new Set<string>();
+    for (const edge of candidateEdges.values()) {
+      if (edge.kind === 'family' && !restoredIds.has(edge.dst as string) && outsideWithParent.has(edge.dst as string)) {
+        skippedFamily.add(`${edge.dst}|${edge.src}`);
+      }
+    }
+
+    const edgesToRestore = Array.from(candidateEdges.values()).filter(edge => {
+      if (!exists(edge.src) || !exists(edge.dst)) return false;
+      if (edge.kind === 'family') return !skippedFamily.has(`${edge.dst}|${edge.src}`);
+      // Drop the automatic child -> parent dependency that went with a skipped family edge
+      if (edge.kind === 'depends_on') return !skippedFamily.has(`${edge.src}|${edge.dst}`);
+      return true;
+    });
+
+    // The live graph may have moved on since the delete, so each edge is checked against what has been restored so far,
+    // the same way a new edge would be
+    for (const edge of edgesToRestore) {
+      if (edge.kind === 'family') {
+        await GraphIntegrityService.assertCanSetParent(edge.dst as string, edge.src as string);
+      } else if (edge.kind === 'depends_on') {
+        await GraphIntegrityService.assertCanAddDependency(edge.dst as string, edge.src as string);
+      }
+      await getDb().insert(edges).values({ ...reviveDates(edge), organizationId } as any).onConflictDoNothing();
+    }
+
+    const contexts = toRestore.flatMap(item => item.snapshot.completion_contexts);
+    if (contexts.length > 0) {
+      await getDb().insert(completionContexts).values(contexts.map(context => ({ ...reviveDates(context), organizationId }) as any)).onConflictDoNothing();
+    }
+
+    const revisions = toRestore.flatMap(item => item.snapshot.revisions);
+    if (revisions.length > 0) {
+      await getDb().insert(actionRevisions).values(revisions.map(revision => reviveDates(revision) as any)).onConflictDoNothing();
+    }
+
+    for (const item of toRestore) {
+      if (item.snapshot.tags && item.snapshot.tags.length > 0) {
+        await TagsService.attachTags(item.actionId, item.snapshot.tags);
+      }
+    }
+
+    await getDb().delete(actionTrash).where(and(inArray(actionTrash.id, toRestore.map(item => item.id)), inOrganization(actionTrash)));
+
+    const parentEdge = edgesToRestore.find(edge => edge.kind === 'family' && edge.dst === actionId);
+
+    return {
+      action_id: actionId,
+      deletion_id: entry.deletionId,
+      restored_action_ids: Array.from(restoredIds),
+      restored_edges: edgesToRestore.length,
+      skipped_edges: candidateEdges.size - edgesToRestore.length,
+      parent_id: (parentEdge?.src as string | undefined) || undefined,
+    };
+  }
+
+  /**
+   * Permanently remove trashed actions whose retention period has passed, across every organization
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await getDb()
+      .delete(actionTrash)
+      .where(lte(actionTrash.purgeAfter, now))
+      .returning({ id: actionTrash.id });
+    return purged.length;
+  }
+}
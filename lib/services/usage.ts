@@ -0,0 +1,187 @@
+// Rate limits and quotas for the MCP endpoint and the OpenAI-backed routes and tools, so a runaway agent loop can't
+// exhaust the server or the OpenAI budget. Each caller - an API token, an OAuth client acting for a user, or the
+// organization itself for the web UI - gets a per-minute rate limit, and each organization a daily quota.
+// Counters are fixed windows in the database, so limits hold across server instances.
+
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { getOrganizationContext, type OrganizationContext } from '../db/organization-context';
+import { usageCounters } from '../../db/schema';
+
+export const USAGE_BUCKETS = ['mcp', 'ai'] as const;
+
+export type UsageBucket = typeof USAGE_BUCKETS[number];
+
+type UsagePeriod = 'minute' | 'day';
+
+// Defaults when the environment doesn't say; 0 in the environment turns a limit off
+const DEFAULT_LIMITS: Record<UsageBucket, Record<UsagePeriod, number>> = {
+  mcp: { minute: 120, day: 0 },
+  ai: { minute: 10, day: 200 },
+};
+
+const LIMIT_ENV: Record<UsageBucket, Record<UsagePeriod, string>> = {
+  mcp: { minute: 'MCP_RATE_LIMIT_PER_MINUTE', day: 'MCP_DAILY_QUOTA' },
+  ai: { minute: 'AI_RATE_LIMIT_PER_MINUTE', day: 'AI_DAILY_QUOTA' },
+};
+
+const BUCKET_LABELS: Record<UsageBucket, string> = {
+  mcp: 'MCP',
+  ai: 'AI',
+};
+
+// Counters older than this are pruned when an organization starts a new day
+const COUNTER_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface UsageWindow {
+  used: number;
+  limit: number | null; // null when unlimited
+  resets_at: string;
+}
+
+export interface BucketUsage {
+  bucket: UsageBucket;
+  per_minute: UsageWindow; // For the caller
+  per_day: UsageWindow; // For the whole organization
+}
+
+export interface UsageResource {
+  subject: string;
+  organization_id: string;
+  buckets: BucketUsage[];
+  generated_at: string;
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+}
+
+/**
+ * Thrown when a call would go over a rate limit or quota. Carries how long to wait, for Retry-After.
+ */
+export class RateLimitError extends Error {
+  readonly code = 'RATE_LIMITED';
+
+  constructor(
+    readonly bucket: UsageBucket,
+    readonly period: UsagePeriod,
+    readonly limit: number,
+    readonly resetsAt: Date
+  ) {
+    super(period === 'minute'
+      ? `${BUCKET_LABELS[bucket]} rate limit reached: ${limit} requests per minute - try again in ${secondsUntil(resetsAt)} seconds`
+      : `Daily ${BUCKET_LABELS[bucket]} quota reached: ${limit} requests per day for this organization - it resets at ${resetsAt.toISOString()}`);
+    this.name = 'RateLimitError';
+  }
+
+  get retryAfterSeconds(): number {
+    return secondsUntil(this.resetsAt);
+  }
+}
+
+/**
+ * Configured limit for a bucket and period, or null when unlimited
+ */
+export function getUsageLimit(bucket: UsageBucket, period: UsagePeriod): number | null {
+  const configured = parseInt(process.env[LIMIT_ENV[bucket][period]] || '', 10);
+  const limit = Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_LIMITS[bucket][period];
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Who per-minute limits count against: the API token, the OAuth client and user, or the organization
+ */
+export function usageSubject(context: OrganizationContext): string {
+  if (context.apiTokenId) return `token:${context.apiTokenId}`;
+  if (context.clientId) return `client:${context.clientId}:${context.userId ?? 'owner'}`;
+  if (context.userId) return `user:${context.userId}`;
+  return `org:${context.organizationId}`;
+}
+
+function windowBounds(period: UsagePeriod, now: Date): { start: Date; end: Date } {
+  if (period === 'minute') {
+    const start = new Date(Math.floor(now.getTime() / 60_000) * 60_000);
+    return { start, end: new Date(start.getTime() + 60_000) };
+  }
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+// Count one request in the subject's current window and return the new total - a single statement, so
+// concurrent requests can't both slip under the limit
+async function increment(organizationId: string, subject: string, bucket: UsageBucket, period: UsagePeriod, windowStart: Date): Promise<number> {
+  const [row] = await getDb()
+    .insert(usageCounters)
+    .values({ organizationId, subject, bucket, period, windowStart, count: 1 })
+    .onConflictDoUpdate({
+      target: [usageCounters.subject, usageCounters.bucket, usageCounters.period, usageCounters.windowStart],
+      set: { count: sql`${usageCounters.count} + 1` },
+    })
+    .returning({ count: usageCounters.count });
+  return Number(row.count);
+}
+
+export class UsageService {
+  /**
+   * Count one request for the current caller, throwing RateLimitError if it goes over the caller's per-minute
+   * limit or the organization's daily quota
+   */
+  static async consume(bucket: UsageBucket): Promise<void> {
+    const context = getOrganizationContext();
+    const now = new Date();
+
+    // The per-minute limit comes first, so requests it turns away don't use up the daily quota
+    const minute = windowBounds('minute', now);
+    const minuteLimit = getUsageLimit(bucket, 'minute');
+    const perMinute = await increment(context.organizationId, usageSubject(context), bucket, 'minute', minute.start);
+    if (minuteLimit !== null && perMinute > minuteLimit) {
+      throw new RateLimitError(bucket, 'minute', minuteLimit, minute.end);
+    }
+
+    const day = windowBounds('day', now);
+    const dayLimit = getUsageLimit(bucket, 'day');
+    const perDay = await increment(context.organizationId, `org:${context.organizationId}`, bucket, 'day', day.start);
+    if (perDay === 1) {
+      await getDb()
+        .delete(usageCounters)
+        .where(and(eq(usageCounters.organizationId, context.organizationId), lt(usageCounters.windowStart, new Date(now.getTime() - COUNTER_RETENTION_MS))));
+    }
+    if (dayLimit !== null && perDay > dayLimit) {
+      throw new RateLimitError(bucket, 'day', dayLimit, day.end);
+    }
+  }
+
+  /**
+   * The current caller's usage in this minute, and their organization's today, against the configured limits
+   */
+  static async getUsage(): Promise<UsageResource> {
+    const context = getOrganizationContext();
+    const subject = usageSubject(context);
+    const organizationSubject = `org:${context.organizationId}`;
+    const now = new Date();
+    const minute = windowBounds('minute', now);
+    const day = windowBounds('day', now);
+
+    const rows: { subject: string; bucket: string; period: string; windowStart: Date; count: number }[] = await getDb()
+      .select()
+      .from(usageCounters)
+      .where(and(
+        eq(usageCounters.organizationId, context.organizationId),
+        inArray(usageCounters.subject, [subject, organizationSubject]),
+        inArray(usageCounters.windowStart, [minute.start, day.start])
+      ));
+    const used = (rowSubject: string, bucket: UsageBucket, period: UsagePeriod, windowStart: Date) =>
+      Number(rows.find(row => row.subject === rowSubject && row.bucket === bucket && row.period === period && row.windowStart.getTime() === windowStart.getTime())?.count ?? 0);
+
+    return {
+      subject,
+      organization_id: context.organizationId,
+      buckets: USAGE_BUCKETS.map(bucket => ({
+        bucket,
+        per_minute: { used: used(subject, bucket, 'minute', minute.start), limit: getUsageLimit(bucket, 'minute'), resets_at: minute.end.toISOString() },
+        per_day: { used: used(organizationSubject, bucket, 'day', day.start), limit: getUsageLimit(bucket, 'day'), resets_at: day.end.toISOString() },
+      })),
+      generated_at: now.toISOString(),
+    };
+  }
+}
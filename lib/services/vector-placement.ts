@@ -244,13 +244,14 @@ export class VectorPlacementService {
    */
   private static async buildFamilyMap(): Promise<Map<string, string>> {
     const { getDb } = await import('../db/adapter');
+    const { inOrganization } = await import('../db/organization-context');
     const { edges } = await import('../../db/schema');
     const { eq, and } = await import('drizzle-orm');
     
     const familyEdges = await getDb()
       .select()
       .from(edges)
-      .where(eq(edges.kind, "family"));
+      .where(and(eq(edges.kind, "family"), inOrganization(edges)));
     
     const familyMap = new Map<string, string>();
     
@@ -339,13 +340,14 @@ export class VectorPlacementService {
    */
   private static async getActionEmbedding(actionId: string): Promise<number[] | null> {
     const { getDb } = await import('../db/adapter');
+    const { inOrganization } = await import('../db/organization-context');
     const { actions } = await import('../../db/schema');
-    const { eq } = await import('drizzle-orm');
+    const { eq, and } = await import('drizzle-orm');
     
     const result = await getDb()
       .select({ embeddingVector: actions.embeddingVector })
       .from(actions)
-      .where(eq(actions.id, actionId))
+      .where(and(eq(actions.id, actionId), inOrganization(actions)))
       .limit(1);
     
     if (result.length > 0 && result[0].embeddingVector) {
@@ -6,6 +6,7 @@
  */
 
 import { getDb } from '../db/adapter';
+import { getOrganizationId } from '../db/organization-context';
 import { actions } from '../../db/schema';
 import { sql, eq } from 'drizzle-orm';
 
@@ -24,7 +25,8 @@ export interface VectorSearchOptions {
 
 export class VectorService {
   /**
-   * Find actions similar to a given embedding vector
+   * Find actions similar to a given embedding vector, within the caller's organization.
+   * The embedding batch helpers below span every organization - the embeddings cron fills them all in.
    * Uses cosine similarity with the IVFFLAT index for fast search
    */
   static async findSimilarActions(
@@ -51,8 +53,9 @@ export class VectorService {
         1 - (${actions.embeddingVector} <=> ${sql.raw(`'${vectorString}'::vector`)}) as similarity
       FROM ${actions}
       WHERE ${actions.embeddingVector} IS NOT NULL
+        AND ${actions.organizationId} = ${getOrganizationId()}
         AND 1 - (${actions.embeddingVector} <=> ${sql.raw(`'${vectorString}'::vector`)}) >= ${threshold}
-        AND ${actions.done} = false
+        AND ${actions.status} NOT IN ('done', 'cancelled')
         ${exclusionCondition}
       ORDER BY ${actions.embeddingVector} <=> ${sql.raw(`'${vectorString}'::vector`)}
       LIMIT ${limit}
@@ -0,0 +1,44 @@
+// Optimistic concurrency for action writes.
+// Kept separate from ActionsService so callers can recognise conflicts even where the service is mocked.
+
+import type { ActionStatus } from '../utils/action-status';
+
+// Snapshot of an action as the server currently sees it, returned with version conflicts
+export interface ActionConflictState {
+  id: string;
+  title: string;
+  description?: string;
+  vision?: string;
+  done: boolean;
+  status: ActionStatus;
+  version: number;
+  parent_id?: string;
+  updated_at: string;
+}
+
+/**
+ * Thrown when a write carries an expected version that no longer matches the stored action.
+ * Callers should re-read the action, merge their changes and retry with `current.version`.
+ */
+export class VersionConflictError extends Error {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    readonly actionId: string,
+    readonly expectedVersion: number,
+    readonly current: ActionConflictState
+  ) {
+    super(`Version conflict on action ${actionId}: expected version ${expectedVersion} but current version is ${current.version}. Re-read the action and retry with the current version.`);
+    this.name = 'VersionConflictError';
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      action_id: this.actionId,
+      expected_version: this.expectedVersion,
+      current: this.current,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+// Browser sessions from /signin. The web UI's own pages and /api/actions routes don't need one - they act as owner of
+// the default organization - but completion pages, OG images and the feed only show team and private items to
+// viewers they can identify, by bearer token or by this session (see lib/services/changelog-visibility.ts).
+
+import { and, eq, gt } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { memberships, webSessions } from '../../db/schema';
+import type { OrganizationContext } from '../db/organization-context';
+import { generateSecret, hashToken, type AuthorizationGrant } from './oauth';
+import { scopesForRole } from '../utils/organization-roles';
+
+export const SESSION_COOKIE = 'done_session';
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const SESSION_TOKEN_PREFIX = 'done_ws_';
+
+/**
+ * Read the session token from a Cookie header
+ */
+export function readSessionCookie(cookieHeader: string | null | undefined): string | null {
+  for (const part of (cookieHeader || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+export class WebSessionsService {
+  /**
+   * Start a session for whoever signed in. Returns the raw token for the cookie.
+   */
+  static async create(grant: AuthorizationGrant): Promise<{ token: string; expires_at: Date }> {
+    const token = generateSecret(SESSION_TOKEN_PREFIX);
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+    await getDb().insert(webSessions).values({
+      organizationId: grant.organization_id,
+      userId: grant.user_id ?? null,
+      tokenHash: hashToken(token),
+      expiresAt,
+    });
+    return { token, expires_at: expiresAt };
+  }
+
+  /**
+   * The viewer behind a live session, with their current role. Sessions of users who have left the organization are rejected.
+   */
+  static async verify(token: string): Promise<OrganizationContext | null> {
+    if (!token) return null;
+
+    const [result] = await getDb()
+      .select({ session: webSessions, role: memberships.role })
+      .from(webSessions)
+      .leftJoin(memberships, and(
+        eq(memberships.userId, webSessions.userId),
+        eq(memberships.organizationId, webSessions.organizationId)
+      ))
+      .where(and(eq(webSessions.tokenHash, hashToken(token)), gt(webSessions.expiresAt, new Date())))
+      .limit(1);
+    if (!result) return null;
+    const row = result.session;
+    if (row.userId && !result.role) return null;
+
+    const role = row.userId ? result.role : 'owner';
+    return { organizationId: row.organizationId, userId: row.userId ?? null, role, scopes: scopesForRole(role), rootActionId: null };
+  }
+
+  static async revoke(token: string): Promise<void> {
+    await getDb().delete(webSessions).where(eq(webSessions.tokenHash, hashToken(token)));
+  }
+}
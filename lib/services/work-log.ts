@@ -1,5 +1,6 @@
 import { eq, desc, and, ilike } from 'drizzle-orm';
 import { getDb } from '../db/adapter';
+import { getOrganizationId, inOrganization } from '../db/organization-context';
 import { workLog } from '../../db/schema';
 
 type WorkLogSelect = typeof workLog.$inferSelect;
@@ -25,6 +26,7 @@ export class WorkLogService {
     const [entry] = await db
       .insert(workLog)
       .values({
+        organizationId: getOrganizationId(),
         content: params.content,
         metadata: params.metadata || {},
       })
@@ -46,6 +48,7 @@ export class WorkLogService {
     const entries = await db
       .select()
       .from(workLog)
+      .where(inOrganization(workLog))
       .orderBy(desc(workLog.timestamp))
       .limit(limit);
 
@@ -65,7 +68,7 @@ export class WorkLogService {
     const entries = await db
       .select()
       .from(workLog)
-      .where(ilike(workLog.content, `%${query}%`))
+      .where(and(ilike(workLog.content, `%${query}%`), inOrganization(workLog)))
       .orderBy(desc(workLog.timestamp))
       .limit(limit);
 
@@ -85,7 +88,7 @@ export class WorkLogService {
     const entries = await db
       .select()
       .from(workLog)
-      .where(eq(workLog.metadata, { agent_id: agentId }))
+      .where(and(eq(workLog.metadata, { agent_id: agentId }), inOrganization(workLog)))
       .orderBy(desc(workLog.timestamp))
       .limit(limit);
 
@@ -111,7 +114,8 @@ export class WorkLogService {
         and(
           // Check if action ID appears in content OR metadata
           // This is a simple approach - we could enhance with vector search later
-          ilike(workLog.content, `%${actionId}%`)
+          ilike(workLog.content, `%${actionId}%`),
+          inOrganization(workLog)
         )
       )
       .orderBy(desc(workLog.timestamp))
@@ -133,7 +137,7 @@ export class WorkLogService {
     let query = db
       .select()
       .from(workLog)
-      .where(ilike(workLog.content, 'claude_code_hook:%'));
+      .where(and(ilike(workLog.content, 'claude_code_hook:%'), inOrganization(workLog)));
 
     if (hookType) {
       query = query.where(
@@ -169,7 +173,8 @@ export class WorkLogService {
           ilike(workLog.content, 'claude_code_hook:%'),
           // Use JSON path query to check metadata.tool_name
           // This is PostgreSQL specific - may need adjustment for other DBs
-          eq(workLog.metadata, { tool_name: toolName })
+          eq(workLog.metadata, { tool_name: toolName }),
+          inOrganization(workLog)
         )
       )
       .orderBy(desc(workLog.timestamp))
@@ -193,6 +198,7 @@ export class WorkLogService {
     // Fire-and-forget insertion for maximum performance
     db.insert(workLog)
       .values({
+        organizationId: getOrganizationId(),
         content: params.content,
         metadata: params.metadata || {},
       })
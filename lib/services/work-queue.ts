@@ -0,0 +1,109 @@
+import { and, eq } from 'drizzle-orm';
+import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
+import { edges } from '../../db/schema';
+import { ActionsService } from './actions';
+import { getUnblockedActionsOptimized } from './actions-optimized';
+import { ClaimsService, ClaimConflictError, type ActionClaim } from './claims';
+import { buildActionPrompt } from '../utils/action-prompt-builder';
+import { DEFAULT_CONTEXT_MAX_TOKENS } from '../utils/resource-query';
+import { compareByRank } from '../utils/action-priority';
+import type { Action, ActionDetailResource } from '../types/resources';
+
+export interface ClaimNextActionParams {
+  session_id: string;
+  scope_id?: string; // Only consider actions in this subtree
+  ttl_minutes?: number;
+  max_tokens?: number; // Token budget for the prompt (default DEFAULT_CONTEXT_MAX_TOKENS, 0 for unlimited)
+}
+
+export interface ClaimNextActionResult {
+  action: ActionDetailResource;
+  claim: ActionClaim;
+  prompt: string;
+  remaining: number; // Other unclaimed candidates left in the queue
+}
+
+/**
+ * Order unblocked actions for the queue: work already in progress first, then by rank score
+ * (priority, impact and dependency fan-out against effort - see getRankScore), then oldest first.
+ * Ties break on ID so every agent sees the same order.
+ */
+export function rankUnblockedActions<T extends Pick<Action, 'id' | 'status' | 'createdAt' | 'priority' | 'effort' | 'impact' | 'fan_out'>>(items: T[]): T[] {
+  return [...items].sort(compareByRank);
+}
+
+// The scope action plus everything beneath it, walked from one load of the family edges
+async function getSubtreeIds(scopeId: string): Promise<Set<string>> {
+  const familyEdges = await getDb().select().from(edges).where(and(eq(edges.kind, 'family'), inOrganization(edges)));
+  const childrenByParent = new Map<string, string[]>();
+  for (const edge of familyEdges as any[]) {
+    if (edge.src && edge.dst) {
+      if (!childrenByParent.has(edge.src)) {
+        childrenByParent.set(edge.src, []);
+      }
+      childrenByParent.get(edge.src)!.push(edge.dst);
+    }
+  }
+
+  const subtree = new Set<string>([scopeId]);
+  const queue = [scopeId];
+  while (queue.length > 0) {
+    for (const childId of childrenByParent.get(queue.shift()!) || []) {
+      if (!subtree.has(childId)) {
+        subtree.add(childId);
+        queue.push(childId);
+      }
+    }
+  }
+  return subtree;
+}
+
+export class WorkQueueService {
+  /**
+   * Claim the highest-ranked unblocked action for a session and return its prompt context, trimmed to `max_tokens`
+   * the same way as the claude-code-next-action prompt. Candidates are claimed in rank order, so if another agent
+   * wins the race for one the next is tried. Returns null when there is nothing left to pick up.
+   */
+  static async claimNextAction(params: ClaimNextActionParams): Promise<ClaimNextActionResult | null> {
+    const { session_id, scope_id, ttl_minutes, max_tokens = DEFAULT_CONTEXT_MAX_TOKENS } = params;
+
+    let candidates = await getUnblockedActionsOptimized(1000);
+
+    if (scope_id) {
+      const subtree = await getSubtreeIds(scope_id);
+      candidates = candidates.filter(action => subtree.has(action.id));
+    }
+
+    const claims = await ClaimsService.getActiveClaims(candidates.map(action => action.id));
+    const ranked = rankUnblockedActions(
+      candidates.filter(action => {
+        const claim = claims.get(action.id);
+        return !claim || claim.session_id === session_id;
+      })
+    );
+
+    for (let index = 0; index < ranked.length; index++) {
+      const candidate = ranked[index];
+      let claim: ActionClaim;
+      try {
+        claim = await ClaimsService.claimAction({ action_id: candidate.id, session_id, ttl_minutes });
+      } catch (error) {
+        if (error instanceof ClaimConflictError) {
+          continue; // Another agent got there first
+        }
+        throw error;
+      }
+
+      const action = await ActionsService.getActionDetailResource(candidate.id);
+      return {
+        action,
+        claim,
+        prompt: buildActionPrompt(action, { maxTokens: max_tokens || null }),
+        remaining: ranked.length - index - 1,
+      };
+    }
+
+    return null;
+  }
+}
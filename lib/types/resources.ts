@@ -1,14 +1,26 @@
 // Resource type definitions for MCP resources
 
+import type { ActionStatus } from '../utils/action-status';
+import type { ActionPriority, ActionEffort, ActionImpact } from '../utils/action-priority';
+
 export interface Action {
   id: string;
   data: {
     title: string;
   };
   done: boolean;
+  status: ActionStatus;
   version: number | null;
   createdAt: string;
   updatedAt: string;
+  priority?: ActionPriority | null;
+  effort?: ActionEffort | null;
+  impact?: ActionImpact | null;
+  startDate?: string | null; // YYYY-MM-DD
+  dueDate?: string | null; // YYYY-MM-DD
+  tags?: string[];
+  fan_out?: number; // Open actions that (transitively) wait on this one - set on unblocked results
+  rank_score?: number; // See getRankScore in lib/utils/action-priority.ts - set on unblocked results
 }
 
 export interface Edge {
@@ -25,6 +37,7 @@ export interface ActionListResource {
   total: number;
   offset?: number;
   limit?: number;
+  next_cursor?: string | null; // Pass as ?cursor= for the next page; null on the last page
   filtered_by_done?: boolean;
 }
 
@@ -33,6 +46,16 @@ export interface ActionTreeResource {
   rootActions: ActionNode[];
   rootAction?: string; // For scoped trees, the ID of the root action
   scope?: string; // For scoped trees, the ID of the scope action
+  truncated?: TreeTruncation; // Present when the tree was cut off to stay within its budget
+}
+
+export interface TreeTruncation {
+  max_depth: number | null;
+  max_nodes: number | null;
+  returned_nodes: number;
+  total_nodes: number;
+  omitted_roots: number; // Top-level actions left out entirely
+  message: string;
 }
 
 export interface ActionNode {
@@ -41,9 +64,26 @@ export interface ActionNode {
   description?: string;
   vision?: string;
   done: boolean;
+  status: ActionStatus;
   created_at: string;
+  tags?: string[];
   children: ActionNode[];
   dependencies: string[]; // IDs of actions this depends on
+  truncated_children?: number; // Children left out because the tree was cut off at this node
+  more_at?: string; // Where to read the subtree with the children left out
+}
+
+// action://summary/{id}
+export interface ActionSummaryResource {
+  id: string;
+  title: string;
+  done: boolean;
+  status: ActionStatus;
+  version: number | null;
+  family_path: Array<{ id: string; title: string }>; // From the root down to the parent
+  children_count: number;
+  completed_at?: string; // When the completion context was recorded, for done actions
+  updated_at: string;
 }
 
 // actions://dependencies
@@ -55,15 +95,18 @@ export interface DependencyMapping {
   action_id: string;
   action_title: string;
   action_done: boolean;
+  action_status: ActionStatus;
   depends_on: Array<{
     id: string;
     title: string;
     done: boolean;
+    status: ActionStatus;
   }>;
   dependents: Array<{
     id: string;
     title: string;
     done: boolean;
+    status: ActionStatus;
   }>;
 }
 
@@ -74,7 +117,14 @@ export interface ActionDetailResource {
   description?: string;
   vision?: string;
   done: boolean;
+  status: ActionStatus;
   version: number | null;
+  priority?: ActionPriority | null;
+  effort?: ActionEffort | null;
+  impact?: ActionImpact | null;
+  start_date?: string | null; // YYYY-MM-DD
+  due_date?: string | null; // YYYY-MM-DD
+  tags?: string[];
   created_at: string;
   updated_at: string;
   parent_id?: string;
@@ -90,6 +140,17 @@ export interface ActionDetailResource {
   completion_context?: DependencyCompletionContext; // action's own completion context if completed
 }
 
+// actions://context/{id} - the detail resource trimmed to a token budget
+export interface ActionContextResource extends ActionDetailResource {
+  context_budget?: ContextBudget;
+}
+
+export interface ContextBudget {
+  max_tokens: number;
+  estimated_tokens: number;
+  trimmed: string[]; // What was left out to fit, least important first, e.g. "siblings (4)"
+}
+
 // Relationship flags to help clients avoid duplicate display
 export interface RelationshipFlags {
   [action_id: string]: string[]; // array of relationship types: 'ancestor', 'child', 'dependency', 'dependent', 'sibling'
@@ -215,6 +276,7 @@ export interface ActionMetadata {
   description?: string;
   vision?: string;
   done: boolean;
+  status: ActionStatus;
   version: number | null;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,43 @@
+/**
+ * Start and due dates for release planning.
+ *
+ * Dates are calendar days (`YYYY-MM-DD`) with no time zone, so they compare as plain strings
+ * and "today" is the current UTC date.
+ */
+
+import { z } from 'zod';
+
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format')
+  .refine(value => !isNaN(Date.parse(`${value}T00:00:00Z`)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), {
+    message: 'Expected a valid calendar date',
+  });
+
+/** Default window for actions://upcoming */
+export const DEFAULT_UPCOMING_DAYS = 14;
+export const MAX_UPCOMING_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function todayIsoDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` - negative when `to` is earlier */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Reject a start date after the due date. Either side may be missing.
+ */
+export function assertValidDateRange(startDate: string | null | undefined, dueDate: string | null | undefined): void {
+  if (startDate && dueDate && startDate > dueDate) {
+    throw new Error(`Start date ${startDate} is after due date ${dueDate}`);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Planning fields (priority, effort, impact) and the deterministic score used to rank unblocked work.
+ *
+ * All three are optional - an unset field scores as the middle value, so unplanned actions
+ * rank between the ones that have been marked up and the ones marked down.
+ */
+
+export const ACTION_PRIORITIES = ['urgent', 'high', 'medium', 'low'] as const;
+export const ACTION_EFFORTS = ['xs', 's', 'm', 'l', 'xl'] as const;
+export const ACTION_IMPACTS = ['high', 'medium', 'low'] as const;
+
+export type ActionPriority = typeof ACTION_PRIORITIES[number];
+export type ActionEffort = typeof ACTION_EFFORTS[number];
+export type ActionImpact = typeof ACTION_IMPACTS[number];
+
+export const PRIORITY_LABELS: Record<ActionPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const EFFORT_LABELS: Record<ActionEffort, string> = {
+  xs: 'XS (under an hour)',
+  s: 'S (a few hours)',
+  m: 'M (about a day)',
+  l: 'L (a few days)',
+  xl: 'XL (a week or more)',
+};
+
+export const IMPACT_LABELS: Record<ActionImpact, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const PRIORITY_WEIGHTS: Record<ActionPriority, number> = { urgent: 4, high: 3, medium: 2, low: 1 };
+export const IMPACT_WEIGHTS: Record<ActionImpact, number> = { high: 3, medium: 2, low: 1 };
+/** Relative size in points - the score divides by this so quick wins float up */
+export const EFFORT_POINTS: Record<ActionEffort, number> = { xs: 1, s: 2, m: 3, l: 5, xl: 8 };
+
+export interface RankableAction {
+  priority?: string | null;
+  effort?: string | null;
+  impact?: string | null;
+  fan_out?: number; // Open actions that (transitively) wait on this one
+}
+
+/**
+ * Ranking score: priority × impact × fan-out bonus ÷ effort.
+ * Fan-out grows logarithmically so one deep chain doesn't drown out everything else.
+ */
+export function getRankScore(action: RankableAction): number {
+  const priority = PRIORITY_WEIGHTS[action.priority as ActionPriority] ?? PRIORITY_WEIGHTS.medium;
+  const impact = IMPACT_WEIGHTS[action.impact as ActionImpact] ?? IMPACT_WEIGHTS.medium;
+  const effort = EFFORT_POINTS[action.effort as ActionEffort] ?? EFFORT_POINTS.m;
+  const fanOutBonus = 1 + Math.log2(1 + (action.fan_out ?? 0));
+  return Math.round((priority * impact * fanOutBonus / effort) * 100) / 100;
+}
+
+/**
+ * Queue order for unblocked work: actions already in progress first, then by rank score,
+ * then oldest first. Ties break on ID so every agent sees the same order.
+ */
+export function compareByRank<T extends RankableAction & { id: string; status?: string | null; createdAt: string }>(a: T, b: T): number {
+  const inProgress = Number(b.status === 'in_progress') - Number(a.status === 'in_progress');
+  if (inProgress !== 0) return inProgress;
+  const score = getRankScore(b) - getRankScore(a);
+  if (score !== 0) return score;
+  const age = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  if (age !== 0) return age;
+  return a.id.localeCompare(b.id);
+}
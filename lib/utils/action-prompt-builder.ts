@@ -1,8 +1,152 @@
-import { ActionDetailResource } from '../types/resources';
+import { ActionDetailResource, ContextBudget } from '../types/resources';
+import { STATUS_LABELS, isClosedStatus, resolveStatus } from './action-status';
 
-export function buildActionPrompt(action: ActionDetailResource): string {
+export interface ActionPromptOptions {
+  maxTokens?: number | null; // Trim the context to fit about this many tokens; unlimited when absent
+}
+
+export interface FittedActionContext {
+  action: ActionDetailResource;
+  budget: ContextBudget;
+}
+
+// Left for the note saying what was trimmed
+const TRIMMED_NOTE_TOKENS = 100;
+
+// Length family summaries are cut to before they are dropped altogether
+const SHORT_SUMMARY_CHARS = 400;
+
+// What a dependency's completion record keeps once its editorial and git details are dropped
+const ESSENTIAL_COMPLETION_FIELDS = new Set([
+  'action_id', 'action_title', 'completion_timestamp', 'changelog_visibility', 'implementation_story', 'impact_story', 'learning_story',
+]);
+
+interface TrimStep {
+  kind: string;
+  apply: () => number; // How many items it removed or shortened
+}
+
+/**
+ * Rough token count for budgeting - about four characters per token for English prose and JSON
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function shorten(text: string | undefined, chars: number): string | undefined {
+  return text && text.length > chars ? `${text.slice(0, chars).trimEnd()}…` : text;
+}
+
+// Ways to shrink `action` in place, least valuable first. Siblings go first, then dependencies' editorial and git
+// details, then their stories - older dependencies before newer, impact before implementation - then the family
+// summaries are shortened, and learnings are kept until only dropping the summaries and whole completion records is left.
+function trimSteps(action: ActionDetailResource): TrimStep[] {
+  const oldestFirst = [...(action.dependency_completion_context ?? [])]
+    .sort((a, b) => a.completion_timestamp.localeCompare(b.completion_timestamp));
+  const own = action.completion_context;
+  type Story = 'implementation_story' | 'impact_story' | 'learning_story';
+  const dropStory = (context: ActionDetailResource['dependency_completion_context'][number] | undefined, story: Story) => () => {
+    if (!context?.[story]) return 0;
+    delete context[story];
+    return 1;
+  };
+
+  return [
+    { kind: 'siblings', apply: () => action.siblings?.splice(0).length ?? 0 },
+    ...oldestFirst.map(context => ({
+      kind: 'dependency editorial and git details',
+      apply: () => {
+        const extras = Object.keys(context).filter(key => !ESSENTIAL_COMPLETION_FIELDS.has(key));
+        extras.forEach(key => delete (context as unknown as Record<string, unknown>)[key]);
+        return extras.length > 0 ? 1 : 0;
+      },
+    })),
+    ...oldestFirst.map(context => ({ kind: 'dependency impact stories', apply: dropStory(context, 'impact_story') })),
+    ...oldestFirst.map(context => ({ kind: 'dependency implementation stories', apply: dropStory(context, 'implementation_story') })),
+    { kind: 'key insights', apply: () => own?.pull_quotes?.splice(0).length ?? 0 },
+    { kind: 'own impact story', apply: dropStory(own, 'impact_story') },
+    { kind: 'own implementation story', apply: dropStory(own, 'implementation_story') },
+    ...(['family_vision_summary', 'family_context_summary'] as const).map(field => ({
+      kind: `${field === 'family_vision_summary' ? 'broader vision' : 'family context'} shortened`,
+      apply: () => {
+        const short = shorten(action[field], SHORT_SUMMARY_CHARS);
+        if (short === action[field]) return 0;
+        action[field] = short;
+        return 1;
+      },
+    })),
+    ...oldestFirst.map(context => ({ kind: 'dependency learnings', apply: dropStory(context, 'learning_story') })),
+    { kind: 'own learnings', apply: dropStory(own, 'learning_story') },
+    ...(['family_vision_summary', 'family_context_summary'] as const).map(field => ({
+      kind: field === 'family_vision_summary' ? 'broader vision' : 'family context',
+      apply: () => {
+        if (!action[field]) return 0;
+        delete action[field];
+        return 1;
+      },
+    })),
+    ...oldestFirst.map(context => ({
+      kind: 'dependency completion records',
+      apply: () => {
+        action.dependency_completion_context = action.dependency_completion_context.filter(c => c !== context);
+        return 1;
+      },
+    })),
+  ];
+}
+
+/**
+ * Trim a copy of `action` until `measure` puts it within `maxTokens`, cutting the least important context first.
+ * The action's own details, vision, dependency list and family chain are never cut, so a tiny budget can still be
+ * exceeded.
+ */
+export function fitActionContext(
+  action: ActionDetailResource,
+  maxTokens: number,
+  measure: (action: ActionDetailResource) => number
+): FittedActionContext {
+  const fitted: ActionDetailResource = JSON.parse(JSON.stringify(action));
+  const trimmed = new Map<string, number>();
+  let tokens = measure(fitted);
+  for (const step of trimSteps(fitted)) {
+    if (tokens <= maxTokens) break;
+    const count = step.apply();
+    const remaining = measure(fitted);
+    // Only report cuts that made a difference - the prompt doesn't show everything the resource does
+    if (count > 0 && remaining < tokens) {
+      trimmed.set(step.kind, (trimmed.get(step.kind) ?? 0) + count);
+    }
+    tokens = remaining;
+  }
+  return {
+    action: fitted,
+    budget: {
+      max_tokens: maxTokens,
+      estimated_tokens: tokens,
+      trimmed: Array.from(trimmed, ([kind, count]) => `${kind} (${count})`),
+    },
+  };
+}
+
+export function buildActionPrompt(action: ActionDetailResource, options: ActionPromptOptions = {}): string {
+  if (!options.maxTokens) return renderActionPrompt(action);
+
+  const { action: fitted, budget } = fitActionContext(
+    action,
+    options.maxTokens - TRIMMED_NOTE_TOKENS,
+    candidate => estimateTokens(renderActionPrompt(candidate))
+  );
+  if (budget.trimmed.length === 0) return renderActionPrompt(fitted);
+  return renderActionPrompt(fitted, `# Trimmed Context\n`
+    + `To fit ${options.maxTokens} tokens this prompt leaves out: ${budget.trimmed.join(', ')}. `
+    + `Read actions://context/${action.id}?max_tokens=0 for the full context, or actions://done/{id} for a dependency's completion log.\n`);
+}
+
+function renderActionPrompt(action: ActionDetailResource, trimmedNote?: string): string {
+  const status = resolveStatus(action);
   let prompt = `# Current Task\n**${action.title}**\n`;
   prompt += `https://done.engineering/${action.id}\n`;
+  if (status !== 'todo') prompt += `Status: ${STATUS_LABELS[status]}\n`;
   if (action.description) prompt += `\n${action.description}\n\n`;
   else prompt += `\n`;
   prompt += `# Vision\n${action.vision || 'No vision defined for this action.'}\n\n`;
@@ -13,8 +157,12 @@ export function buildActionPrompt(action: ActionDetailResource): string {
   if (action.dependencies && action.dependencies.length > 0) {
     prompt += `# Dependencies\n`;
     for (const dep of action.dependencies) {
-      const status = dep.done ? '✓ Complete' : '○ Incomplete';
-      prompt += `- **${dep.title}** — ${status}\n`;
+      const depStatus = resolveStatus(dep);
+      const label = depStatus === 'done' ? '✓ Complete'
+        : depStatus === 'cancelled' ? '✕ Cancelled'
+        : depStatus === 'todo' ? '○ Incomplete'
+        : `○ Incomplete (${STATUS_LABELS[depStatus]})`;
+      prompt += `- **${dep.title}** — ${label}\n`;
     }
     prompt += `\n`;
   }
@@ -74,8 +222,12 @@ export function buildActionPrompt(action: ActionDetailResource): string {
     }
   }
 
-  // Add lifecycle instructions for incomplete actions
-  if (!action.done) {
+  if (trimmedNote) {
+    prompt += `\n${trimmedNote}`;
+  }
+
+  // Add lifecycle instructions for open actions (not done or cancelled)
+  if (!isClosedStatus(status)) {
     prompt += `\n\n# Task Execution Lifecycle\n\n`;
     prompt += `## Before You Begin\n`;
     prompt += `1. **Start working on this task** - Begin implementation immediately\n`;
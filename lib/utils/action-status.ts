@@ -0,0 +1,57 @@
+/**
+ * Action status lifecycle shared by the services, MCP layer and UI.
+ *
+ * `done` is kept on actions as a mirror of `status === 'done'` for existing readers,
+ * but `status` is the source of truth.
+ */
+
+export const ACTION_STATUSES = ['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled'] as const;
+
+export type ActionStatus = typeof ACTION_STATUSES[number];
+
+/** Statuses that can be set directly - done goes through completion so it always carries completion context */
+export const SETTABLE_STATUSES = ['todo', 'in_progress', 'blocked', 'in_review', 'cancelled'] as const;
+
+/** Statuses that end an action's lifecycle - closed actions no longer block their dependents */
+export const CLOSED_STATUSES: ActionStatus[] = ['done', 'cancelled'];
+
+/** Statuses that can be picked up as the next piece of work */
+export const ACTIONABLE_STATUSES: ActionStatus[] = ['todo', 'in_progress'];
+
+export const STATUS_LABELS: Record<ActionStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  blocked: 'Blocked',
+  in_review: 'In review',
+  done: 'Done',
+  cancelled: 'Cancelled',
+};
+
+/** Compact markers for tree views - todo stays blank so the tree reads like a checklist */
+export const STATUS_ICONS: Record<ActionStatus, string> = {
+  todo: '',
+  in_progress: '◐',
+  blocked: '⊘',
+  in_review: '◎',
+  done: '✓',
+  cancelled: '✕',
+};
+
+export function isActionStatus(value: unknown): value is ActionStatus {
+  return typeof value === 'string' && (ACTION_STATUSES as readonly string[]).includes(value);
+}
+
+export function isClosedStatus(status: string | null | undefined): boolean {
+  return CLOSED_STATUSES.includes(status as ActionStatus);
+}
+
+/**
+ * Resolve an action's status, falling back to the legacy `done` flag for rows
+ * (or API payloads) that predate the status column
+ */
+export function resolveStatus(action: { status?: string | null; done?: boolean | null }): ActionStatus {
+  if (isActionStatus(action.status)) {
+    return action.status;
+  }
+  return action.done ? 'done' : 'todo';
+}
@@ -0,0 +1,46 @@
+/**
+ * Membership roles within an organization (workspace), strongest first.
+ */
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` grants at least the access of `minimum` (owner > admin > member > viewer)
+ */
+export function hasRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+  return ORGANIZATION_ROLES.indexOf(role) <= ORGANIZATION_ROLES.indexOf(minimum);
+}
+
+export function lowerRole(a: OrganizationRole, b: OrganizationRole): OrganizationRole {
+  return hasRole(a, b) ? b : a;
+}
+
+/**
+ * Scopes of personal API tokens. A token never gets more than its creator's role allows.
+ */
+export const TOKEN_SCOPES = ['read', 'write', 'admin'] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export function isTokenScope(value: unknown): value is TokenScope {
+  return typeof value === 'string' && (TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+// read → viewer, write → member, admin → admin
+export function roleForScopes(scopes: readonly TokenScope[]): OrganizationRole {
+  if (scopes.includes('admin')) return 'admin';
+  if (scopes.includes('write')) return 'member';
+  return 'viewer';
+}
+
+export function scopesForRole(role: OrganizationRole): TokenScope[] {
+  if (hasRole(role, 'admin')) return ['read', 'write', 'admin'];
+  if (hasRole(role, 'member')) return ['read', 'write'];
+  return ['read'];
+}
@@ -7,6 +7,7 @@
 
 import { eq, and } from 'drizzle-orm';
 import { getDb } from '../db/adapter';
+import { inOrganization } from '../db/organization-context';
 import { actions, edges } from '../../db/schema';
 
 export interface PathSegment {
@@ -40,7 +41,7 @@ export async function buildActionPath(
   
   // First, get the current action if we're including it
   if (includeCurrentAction) {
-    const currentActionResult = await db.select().from(actions).where(eq(actions.id, actionId)).limit(1);
+    const currentActionResult = await db.select().from(actions).where(and(eq(actions.id, actionId), inOrganization(actions))).limit(1);
     
     if (currentActionResult.length === 0) {
       throw new Error(`Action with ID ${actionId} not found`);
@@ -64,7 +65,7 @@ export async function buildActionPath(
   while (depth < maxDepth) {
     // Find the parent of the current action
     const parentEdgesResult = await db.select().from(edges).where(
-      and(eq(edges.dst, currentId), eq(edges.kind, "family"))
+      and(eq(edges.dst, currentId), eq(edges.kind, "family"), inOrganization(edges))
     );
     
     const parentEdges = Array.isArray(parentEdgesResult) ? parentEdgesResult : [];
@@ -84,7 +85,7 @@ export async function buildActionPath(
     visitedIds.add(parentId);
     
     // Get the parent action details
-    const parentActionResult = await db.select().from(actions).where(eq(actions.id, parentId)).limit(1);
+    const parentActionResult = await db.select().from(actions).where(and(eq(actions.id, parentId), inOrganization(actions))).limit(1);
     
     if (parentActionResult.length === 0) {
       // Parent action not found, stop traversal
@@ -0,0 +1,187 @@
+/**
+ * Query parameters for the `action://` MCP resources (see docs/mcp-resource-redesign-proposal.md).
+ *
+ * The path says which resource to read and the query says how to present it. Every resource parses its query here,
+ * so `?depth=2&includeCompleted=true` means the same thing wherever it is accepted, and a parameter a resource
+ * doesn't support is an error rather than silently ignored.
+ */
+
+import { ACTION_STATUSES, CLOSED_STATUSES, isActionStatus, type ActionStatus } from './action-status';
+
+export const RESOURCE_QUERY_PARAMS = ['status', 'depth', 'maxNodes', 'includeCompleted', 'limit', 'cursor'] as const;
+
+/** Parameters the older `actions://list` and `actions://tree` resources take as well */
+export const LEGACY_RESOURCE_QUERY_PARAMS = ['maxDepth', 'offset', 'tags', 'tagMatch'] as const;
+
+export type ResourceQueryParam = typeof RESOURCE_QUERY_PARAMS[number] | typeof LEGACY_RESOURCE_QUERY_PARAMS[number];
+
+/** How `tags` are matched: any of them (the default) or all of them */
+export const TAG_MATCHES = ['any', 'all'] as const;
+
+/** Shorthands accepted by `status`, besides a comma-separated list of statuses */
+export const STATUS_FILTERS = ['pending', 'completed', 'all'] as const;
+
+export const DEFAULT_RESOURCE_LIMIT = 20;
+export const MAX_RESOURCE_LIMIT = 100;
+
+/** Levels of a tree to return, counting its top level; 0 in a query means unlimited */
+export const DEFAULT_TREE_DEPTH = 3;
+export const MAX_TREE_DEPTH = 10;
+
+/** Actions a tree may hold before the rest is cut off, filling it level by level; 0 in a query means unlimited */
+export const DEFAULT_TREE_MAX_NODES = 200;
+export const MAX_TREE_MAX_NODES = 2000;
+
+/** Token budget for an action's context (see lib/utils/action-prompt-builder.ts); 0 in a query means unlimited */
+export const DEFAULT_CONTEXT_MAX_TOKENS = 8000;
+export const MAX_CONTEXT_MAX_TOKENS = 100000;
+
+const OPEN_STATUSES = ACTION_STATUSES.filter(status => !CLOSED_STATUSES.includes(status));
+
+export interface ResourceQuery {
+  statuses: ActionStatus[]; // From status, or includeCompleted when status is absent
+  includeCompleted: boolean;
+  depth: number | null; // null when unlimited
+  maxDepth: number | null; // The actions:// trees' name for depth, unlimited (null) by default
+  maxNodes: number | null; // null when unlimited
+  limit: number;
+  offset: number;
+  cursor: string | null;
+  tags: string | null; // Comma-separated, as given - see parseTagFilter
+  tagMatch: typeof TAG_MATCHES[number];
+}
+
+/**
+ * How much of a tree to return - see ActionsService.getActionTreeResource
+ */
+export interface TreeBudget {
+  maxDepth: number | null; // Levels counting the top level; null when unlimited
+  maxNodes: number | null; // null when unlimited
+}
+
+export interface ListCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Thrown for a query parameter the resource doesn't accept or a value it can't parse
+ */
+export class ResourceQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceQueryError';
+  }
+}
+
+function parseStatuses(value: string): ActionStatus[] {
+  if (value === 'pending') return [...OPEN_STATUSES];
+  if (value === 'completed') return ['done'];
+  if (value === 'all') return [...ACTION_STATUSES];
+
+  const statuses = value.split(',').map(status => status.trim());
+  const invalid = statuses.filter(status => !isActionStatus(status));
+  if (invalid.length > 0) {
+    throw new ResourceQueryError(`Invalid status: "${invalid.join(', ')}" - expected ${STATUS_FILTERS.join(', ')} or a comma-separated list of ${ACTION_STATUSES.join(', ')}`);
+  }
+  return statuses as ActionStatus[];
+}
+
+function parseBoolean(name: string, value: string): boolean {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new ResourceQueryError(`Invalid ${name}: "${value}" - expected true or false`);
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < min || number > max) {
+    throw new ResourceQueryError(`Invalid ${name}: "${value}" - expected a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Parse the query string of `uri`, accepting only the `accepted` parameters and filling in defaults for the rest
+ */
+export function parseResourceQuery(uri: string, accepted: readonly ResourceQueryParam[]): ResourceQuery {
+  const queryStart = uri.indexOf('?');
+  const params = new URLSearchParams(queryStart === -1 ? '' : uri.slice(queryStart + 1));
+
+  for (const name of params.keys()) {
+    if (!(accepted as readonly string[]).includes(name)) {
+      const supported = accepted.length > 0 ? `supported: ${accepted.join(', ')}` : 'it takes no query parameters';
+      throw new ResourceQueryError(`Unknown query parameter "${name}" for ${uri.slice(0, queryStart)} - ${supported}`);
+    }
+  }
+
+  const includeCompletedParam = params.get('includeCompleted');
+  const includeCompleted = includeCompletedParam === null ? false : parseBoolean('includeCompleted', includeCompletedParam);
+  const statusParam = params.get('status');
+  const depthParam = params.get('depth');
+  const limitParam = params.get('limit');
+  const offsetParam = params.get('offset');
+  const tagMatchParam = params.get('tagMatch');
+
+  const depth = depthParam === null ? DEFAULT_TREE_DEPTH : parseInteger('depth', depthParam, 0, MAX_TREE_DEPTH);
+  const { maxDepth, maxNodes } = parseTreeBudget(params, { maxDepth: null, maxNodes: DEFAULT_TREE_MAX_NODES });
+  if (tagMatchParam !== null && !(TAG_MATCHES as readonly string[]).includes(tagMatchParam)) {
+    throw new ResourceQueryError(`Invalid tagMatch: "${tagMatchParam}" - expected ${TAG_MATCHES.join(' or ')}`);
+  }
+
+  return {
+    statuses: statusParam !== null ? parseStatuses(statusParam) : includeCompleted ? [...ACTION_STATUSES] : [...OPEN_STATUSES],
+    includeCompleted,
+    depth: depth === 0 ? null : depth,
+    maxDepth,
+    maxNodes,
+    limit: limitParam === null ? DEFAULT_RESOURCE_LIMIT : parseInteger('limit', limitParam, 1, MAX_RESOURCE_LIMIT),
+    offset: offsetParam === null ? 0 : parseInteger('offset', offsetParam, 0, Number.MAX_SAFE_INTEGER),
+    cursor: params.get('cursor') || null,
+    tags: params.get('tags') || null,
+    tagMatch: (tagMatchParam ?? 'any') as typeof TAG_MATCHES[number],
+  };
+}
+
+/**
+ * Read `maxDepth` and `maxNodes` from a query, where 0 means unlimited, falling back to `defaults` for either one absent
+ */
+export function parseTreeBudget(params: URLSearchParams, defaults: TreeBudget): TreeBudget {
+  const maxDepthParam = params.get('maxDepth');
+  const maxNodesParam = params.get('maxNodes');
+  const maxDepth = maxDepthParam === null ? defaults.maxDepth : parseInteger('maxDepth', maxDepthParam, 0, MAX_TREE_DEPTH);
+  const maxNodes = maxNodesParam === null ? defaults.maxNodes : parseInteger('maxNodes', maxNodesParam, 0, MAX_TREE_MAX_NODES);
+  return {
+    maxDepth: maxDepth === 0 ? null : maxDepth,
+    maxNodes: maxNodes === 0 ? null : maxNodes,
+  };
+}
+
+/**
+ * Read a `max_tokens` value, where 0 means unlimited, falling back to DEFAULT_CONTEXT_MAX_TOKENS when absent
+ */
+export function parseMaxTokens(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return DEFAULT_CONTEXT_MAX_TOKENS;
+  const maxTokens = parseInteger('max_tokens', value, 0, MAX_CONTEXT_MAX_TOKENS);
+  return maxTokens === 0 ? null : maxTokens;
+}
+
+/**
+ * Opaque cursor pointing just after an action in a list ordered by creation time, then ID
+ */
+export function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify({ c: cursor.createdAt.toISOString(), i: cursor.id })).toString('base64url');
+}
+
+export function decodeListCursor(cursor: string): ListCursor {
+  try {
+    const { c, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const createdAt = new Date(c);
+    if (typeof i === 'string' && typeof c === 'string' && !isNaN(createdAt.getTime())) {
+      return { createdAt, id: i };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ResourceQueryError(`Invalid cursor: "${cursor}" - pass the next_cursor from a previous page`);
+}
@@ -23,6 +23,7 @@ async function main() {
     .select({
       parent_id: edges.src,
       child_id: edges.dst,
+      organization_id: edges.organizationId,
     })
     .from(edges)
     .where(eq(edges.kind, "family"));
@@ -34,7 +35,7 @@ async function main() {
   let addedCount = 0;
   let skippedCount = 0;
   
-  for (const { parent_id, child_id } of familyEdges) {
+  for (const { parent_id, child_id, organization_id } of familyEdges) {
     // Check if dependency already exists
     const existingDependency = await db
       .select()
@@ -67,6 +68,7 @@ async function main() {
       
       // Add the missing dependency
       await db.insert(edges).values({
+        organizationId: organization_id, // Same organization as the family edge
         src: child_id,  // child must be completed first
         dst: parent_id, // parent depends on child
         kind: "depends_on",
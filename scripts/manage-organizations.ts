@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+/**
+ * Manage organizations (workspaces), users and memberships.
+ *
+ * Usage:
+ *   tsx scripts/manage-organizations.ts list
+ *   tsx scripts/manage-organizations.ts create-org <slug> <name...>
+ *   tsx scripts/manage-organizations.ts add-user <email> <password> [name...]
+ *   tsx scripts/manage-organizations.ts set-password <email> <password>
+ *   tsx scripts/manage-organizations.ts add-member <email> <org-slug> <owner|admin|member|viewer>
+ *   tsx scripts/manage-organizations.ts remove-member <email> <org-slug>
+ */
+
+import { OrganizationsService } from "../lib/services/organizations";
+import { ORGANIZATION_ROLES, isOrganizationRole } from "../lib/utils/organization-roles";
+
+function usage(): never {
+  console.error("Usage: tsx scripts/manage-organizations.ts <list|create-org|add-user|set-password|add-member|remove-member> ...");
+  console.error("See the comment at the top of this file for the arguments each command takes.");
+  process.exit(1);
+}
+
+async function requireUser(email: string) {
+  const user = await OrganizationsService.getUserByEmail(email);
+  if (!user) throw new Error(`No user with email ${email}`);
+  return user;
+}
+
+async function requireOrganization(slug: string) {
+  const organization = await OrganizationsService.getOrganizationBySlug(slug);
+  if (!organization) throw new Error(`No organization with slug ${slug}`);
+  return organization;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "list": {
+      for (const organization of await OrganizationsService.listOrganizations()) {
+        console.log(`${organization.slug}\t${organization.id}\t${organization.name}`);
+      }
+      break;
+    }
+    case "create-org": {
+      const [slug, ...name] = args;
+      if (!slug || name.length === 0) usage();
+      const organization = await OrganizationsService.createOrganization({ slug, name: name.join(" ") });
+      console.log(`Created organization "${organization.name}" (${organization.slug}, ${organization.id})`);
+      break;
+    }
+    case "add-user": {
+      const [email, password, ...name] = args;
+      if (!email || !password) usage();
+      const user = await OrganizationsService.createUser({ email, password, name: name.join(" ") || undefined });
+      console.log(`Created user ${user.email} (${user.id})`);
+      break;
+    }
+    case "set-password": {
+      const [email, password] = args;
+      if (!email || !password) usage();
+      const user = await requireUser(email);
+      await OrganizationsService.setPassword(user.id, password);
+      console.log(`Updated password for ${user.email}`);
+      break;
+    }
+    case "add-member": {
+      const [email, slug, role] = args;
+      if (!email || !slug || !role) usage();
+      if (!isOrganizationRole(role)) {
+        throw new Error(`Role must be one of ${ORGANIZATION_ROLES.join(", ")}`);
+      }
+      const [user, organization] = [await requireUser(email), await requireOrganization(slug)];
+      await OrganizationsService.addMember({ user_id: user.id, organization_id: organization.id, role });
+      console.log(`${user.email} is now ${role} of ${organization.slug}`);
+      break;
+    }
+    case "remove-member": {
+      const [email, slug] = args;
+      if (!email || !slug) usage();
+      const [user, organization] = [await requireUser(email), await requireOrganization(slug)];
+      const removed = await OrganizationsService.removeMember(user.id, organization.id);
+      console.log(removed ? `Removed ${user.email} from ${organization.slug}` : `${user.email} was not a member of ${organization.slug}`);
+      break;
+    }
+    default:
+      usage();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -8,6 +8,8 @@
  *   node scripts/regenerate-all-editorial.mjs --batch-size=20
  *   node scripts/regenerate-all-editorial.mjs --before=2025-06-20
  *   node scripts/regenerate-all-editorial.mjs --dry-run
+ *
+ * The debug routes need an admin: set API_TOKEN to a personal token with the admin scope.
  */
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://www.actionbias.ai';
@@ -55,7 +57,9 @@ async function regenerateBatch(batchSize, beforeDate) {
   }
 
   try {
-    const response = await fetch(url.toString());
+    const response = await fetch(url.toString(), {
+      headers: process.env.API_TOKEN ? { Authorization: `Bearer ${process.env.API_TOKEN}` } : {},
+    });
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }